@@ -1,24 +1,46 @@
 import { useState, useEffect } from 'react';
-import { DifficultyMode, getWMINTForDifficulty } from './utils/word-lists';
+import { DifficultyMode, PARTIAL_CREDIT_FACTOR } from './utils/word-lists';
+import { HintType, HintReveal } from './utils/hints';
+import { BUILT_IN_PACK_ID, PACK_TIERS, WordPackSummary } from './utils/word-packs';
+import { SpellingDiffOp, NEAR_MISS_MIN_LENGTH } from './utils/spelling-diff';
 import { clearWalletSession } from './utils/mobile-wallet-redirect';
+import { signInWithWallet, signOut } from './utils/auth';
+import { PracticeStats, loadGuestStats, clearGuestStats } from './utils/practice';
+import { AccessibilitySettings, getAccessibilitySettings } from './utils/accessibility';
+import { Achievement, getAchievement } from './utils/achievements';
 import { 
   fetchPlayerData, 
-  createOrUpdatePlayer, 
-  updatePlayerStats,
-  mintTokens,
-  resetPlayerScore 
+  createPlayer, 
+  startGameSession,
+  startTournamentGame,
+  startNextRound,
+  submitSessionAnswer,
+  buyHint,
+  fetchSessionAudio,
+  GameSessionInfo,
+  GameSummary,
+  AchievementUnlock,
+  claimRewards,
+  markAchievementsSeen
 } from './utils/api';
 import { LandingPage } from './components/landing-page';
 import { PlayerDashboard } from './components/player-dashboard';
 import { DifficultySelector } from './components/difficulty-selector';
+import { WordPackPicker } from './components/word-pack-picker';
 import { GameScreen } from './components/game-screen';
 import { ResultScreen } from './components/result-screen';
 import { RewardsScreen } from './components/rewards-screen';
 import { TokenRewardScreen } from './components/token-reward-screen';
 import { AchievementsScreen } from './components/achievements-screen';
+import { DuelScreen } from './components/duel-screen';
+import { TournamentList } from './components/tournament-list';
+import { TournamentDetail } from './components/tournament-detail';
+import { PracticeMode } from './components/practice-mode';
+import { AccessibilitySettingsPanel } from './components/accessibility-settings';
 import { Toast } from './components/toast';
+import { AchievementUnlockNotice } from './components/achievement-unlock-notice';
 
-export type GameState = 'landing' | 'dashboard' | 'difficulty-select' | 'playing' | 'result' | 'rewards' | 'token-claim' | 'achievements';
+export type GameState = 'landing' | 'dashboard' | 'difficulty-select' | 'playing' | 'result' | 'rewards' | 'token-claim' | 'achievements' | 'duel' | 'tournaments' | 'tournament' | 'practice' | 'accessibility';
 
 export interface PlayerData {
   walletAddress: string;
@@ -26,9 +48,20 @@ export interface PlayerData {
   totalWmintEarned: number; // Total WMINT earned all-time (for leaderboard)
   level: number;
   streak: number;
+  maxStreak?: number; // Best streak so far, kept by the server
   gamesPlayed: number;
+  fastestCorrectMs?: number; // Quickest correct answer, timed by the server
+  specialAchievements?: string[]; // IDs of achievements unlocked before they were recorded as rules
+  practiceStats?: PracticeStats & { importedAt: string }; // Guest practice brought in when the player was created
+  accessibility?: AccessibilitySettings; // Unset until the player first saves settings
 }
 
+// Idempotency key of a claim that has not reached a final state yet
+const PENDING_CLAIM_KEY = 'wordmint_pending_claim_key';
+
+// Whether the player last chose partial credit scoring
+const PARTIAL_CREDIT_KEY = 'wordmint_partial_credit';
+
 export interface ToastData {
   message: string;
   type: 'success' | 'error' | 'info';
@@ -38,7 +71,31 @@ function App() {
   const [gameState, setGameState] = useState<GameState>('landing');
   const [playerData, setPlayerData] = useState<PlayerData | null>(null);
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyMode>('normal');
+  const [selectedPack, setSelectedPack] = useState<WordPackSummary | null>(null);
+  const [partialCredit, setPartialCredit] = useState(() => localStorage.getItem(PARTIAL_CREDIT_KEY) === 'true');
   const [currentWord, setCurrentWord] = useState('');
+  const [gameSession, setGameSession] = useState<GameSessionInfo | null>(null);
+  const [dailyDate, setDailyDate] = useState<string | null>(null); // Of the daily game just finished
+  const [selectedTournamentId, setSelectedTournamentId] = useState<string | null>(null);
+  const [guestStats, setGuestStats] = useState<PracticeStats | null>(() => loadGuestStats());
+  const [importGuestStats, setImportGuestStats] = useState(true);
+  const [finishedTournamentId, setFinishedTournamentId] = useState<string | null>(null); // Of the tournament game just finished
+  // Duel invite links open the app with ?duel=<id>
+  const [inviteDuelId, setInviteDuelId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('duel')
+  );
+  const [roundResult, setRoundResult] = useState<{
+    roundNumber: number;
+    totalRounds: number;
+    completed: boolean;
+    nearMiss: boolean;
+    answerMs: number;
+    speedMultiplier: number;
+    addedToReview: boolean;
+    diff: SpellingDiffOp[] | null;
+    relaxed: boolean;
+  } | null>(null);
+  const [gameSummary, setGameSummary] = useState<GameSummary | null>(null);
   const [userInput, setUserInput] = useState('');
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
   const [wmintEarned, setWmintEarned] = useState(0);
@@ -46,14 +103,12 @@ function App() {
   const [streak, setStreak] = useState(0);
   const [timeLeft, setTimeLeft] = useState(30);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [round, setRound] = useState(1);
   const [showResult, setShowResult] = useState(false);
   const [gameId, setGameId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isMintingTokens, setIsMintingTokens] = useState(false); // Minting in progress
   const [toast, setToast] = useState<ToastData | null>(null);
-
-  const maxRounds = 5;
+  const [unlockQueue, setUnlockQueue] = useState<Achievement[]>([]); // Unlock notices still to show
 
   // Load player data from Supabase on mount
   useEffect(() => {
@@ -71,16 +126,9 @@ function App() {
         setPlayerData(data);
         setGameState('dashboard');
       } else {
-        // Create new player
-        const newPlayer: PlayerData = {
-          walletAddress,
-          score: 0,
-          totalWmintEarned: 0,
-          level: 1,
-          streak: 0,
-          gamesPlayed: 0
-        };
-        const createdPlayer = await createOrUpdatePlayer(newPlayer);
+        // Create new player (requires a signed-in wallet)
+        await signInWithWallet(walletAddress);
+        const createdPlayer = await createPlayer(walletAddress);
         setPlayerData(createdPlayer);
         setGameState('dashboard');
       }
@@ -119,6 +167,9 @@ function App() {
       // Save wallet to localStorage for session persistence
       localStorage.setItem('wordmint_wallet', walletAddress);
       
+      // Prove wallet ownership so the server accepts player updates
+      await signInWithWallet(walletAddress);
+      
       // Check if player exists in database
       const existingPlayer = await fetchPlayerData(walletAddress);
       
@@ -126,25 +177,24 @@ function App() {
         setPlayerData(existingPlayer);
         showToast('Welcome back! Wallet connected successfully.', 'success');
       } else {
-        // Create new player in database
-        const newPlayer: PlayerData = {
-          walletAddress,
-          score: 0,
-          totalWmintEarned: 0,
-          level: 1,
-          streak: 0,
-          gamesPlayed: 0
-        };
-        
-        const createdPlayer = await createOrUpdatePlayer(newPlayer);
+        // Create new player in database, with the guest's practice stats if they chose to bring them
+        const practiceStats = importGuestStats && guestStats ? guestStats : undefined;
+        const createdPlayer = await createPlayer(walletAddress, practiceStats);
         setPlayerData(createdPlayer);
-        showToast('Wallet connected successfully!', 'success');
+        
+        if (practiceStats && createdPlayer.practiceStats) {
+          clearGuestStats();
+          setGuestStats(null);
+          showToast('Wallet connected! Your practice stats were imported.', 'success');
+        } else {
+          showToast('Wallet connected successfully!', 'success');
+        }
       }
       
       setGameState('dashboard');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to load player data after wallet connection:', error);
-      showToast('Failed to load player data', 'error');
+      showToast(error.message || 'Failed to load player data', 'error');
       localStorage.removeItem('wordmint_wallet');
       // Reset to landing page on error
       setGameState('landing');
@@ -160,97 +210,247 @@ function App() {
     setGameState('difficulty-select');
   };
 
+  const startNewSession = async (difficulty: DifficultyMode) => {
+    if (!playerData) return;
+    
+    setIsLoading(true);
+    try {
+      await signInWithWallet(playerData.walletAddress);
+      
+      // The server picks the game's words and keeps them for grading
+      const session = await startGameSession(
+        playerData.walletAddress,
+        difficulty,
+        selectedPack?.id || BUILT_IN_PACK_ID,
+        partialCredit
+      );
+      setGameSession(session);
+      setRoundResult(null);
+      setGameSummary(null);
+      setGameState('playing');
+    } catch (error) {
+      console.error('Failed to start game session:', error);
+      // Say why a review or daily game can't start (nothing due, already played today)
+      const explain = difficulty === 'review' || difficulty === 'daily';
+      showToast(explain && error instanceof Error ? error.message : 'Failed to start game', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleDifficultySelect = (difficulty: DifficultyMode) => {
     setSelectedDifficulty(difficulty);
-    setGameState('playing');
+    startNewSession(difficulty);
+  };
+
+  const handlePartialCreditChange = (enabled: boolean) => {
+    setPartialCredit(enabled);
+    localStorage.setItem(PARTIAL_CREDIT_KEY, String(enabled));
+  };
+
+  const handleStartReview = () => {
+    setGameId(`game_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`);
+    handleDifficultySelect('review');
+  };
+
+  const handleStartDaily = () => {
+    setGameId(`game_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`);
+    handleDifficultySelect('daily');
+  };
+
+  // Open the duel lobby once signed in, ready to join the invite
+  useEffect(() => {
+    if (gameState === 'dashboard' && inviteDuelId) {
+      setGameState('duel');
+    }
+  }, [gameState, inviteDuelId]);
+
+  const handleExitDuel = async () => {
+    if (inviteDuelId) {
+      setInviteDuelId(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    
+    // Stakes and the pot change the pending score on the server
+    if (playerData) {
+      try {
+        const data = await fetchPlayerData(playerData.walletAddress);
+        if (data) {
+          setPlayerData(data);
+        }
+      } catch (error) {
+        console.error('Failed to refresh player data:', error);
+      }
+    }
+    setGameState('dashboard');
   };
 
-  const handleSubmitAnswer = async (answer: string, word: string, difficulty: DifficultyMode) => {
+  const handleLeavePractice = () => {
+    setGuestStats(loadGuestStats());
+    setGameState('landing');
+  };
+
+  const handleSelectTournament = (tournamentId: string) => {
+    setSelectedTournamentId(tournamentId);
+    setGameState('tournament');
+  };
+
+  const handlePlayTournament = async (tournamentId: string) => {
     if (!playerData) return;
     
-    const correct = answer.toLowerCase() === word.toLowerCase();
-    setFeedback(correct ? 'correct' : 'incorrect');
-    setCurrentWord(word);
+    setGameId(`game_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`);
+    setIsLoading(true);
+    try {
+      await signInWithWallet(playerData.walletAddress);
+      
+      // A regular game on the round's words; the result goes into the bracket
+      const session = await startTournamentGame(tournamentId);
+      setSelectedDifficulty(session.difficulty);
+      setGameSession(session);
+      setRoundResult(null);
+      setGameSummary(null);
+      setGameState('playing');
+    } catch (error) {
+      console.error('Failed to start tournament game:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to start game', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmitAnswer = async (answer: string) => {
+    if (!playerData || !gameSession) return;
     
     setIsLoading(true);
     setTxSignature(null); // Reset transaction signature
     
     try {
-      if (correct) {
-        // Calculate WMINT tokens earned (saved to database, not minted yet)
-        const baseWMINT = getWMINTForDifficulty(difficulty) * 10;
-        const streakBonus = Math.floor(playerData.streak / 5) * 10;
-        const levelBonus = Math.floor(playerData.level / 10) * 10;
-        const totalWMINT = baseWMINT + streakBonus + levelBonus;
-        
-        setWmintEarned(totalWMINT);
-        
-        // Update stats in database (tokens accumulated but not yet minted)
-        const updatedPlayer = await updatePlayerStats(playerData.walletAddress, totalWMINT, true);
-        setPlayerData(updatedPlayer);
-      } else {
-        setWmintEarned(0);
-        
-        // Update stats in database (failed attempt)
-        const updatedPlayer = await updatePlayerStats(playerData.walletAddress, 0, false);
-        setPlayerData(updatedPlayer);
+      // Grading and WMINT award are computed server-side
+      const result = await submitSessionAnswer(gameSession.sessionId, answer);
+      
+      setFeedback(result.correct ? 'correct' : 'incorrect');
+      setCurrentWord(result.word);
+      setWmintEarned(result.wmintEarned);
+      setPlayerData(result.player);
+      queueUnlocks(result.unlocked);
+      setRoundResult({
+        roundNumber: result.roundNumber,
+        totalRounds: result.totalRounds,
+        completed: result.completed,
+        nearMiss: result.nearMiss,
+        answerMs: result.answerMs,
+        speedMultiplier: result.speedMultiplier,
+        addedToReview: result.addedToReview,
+        diff: result.diff,
+        relaxed: gameSession.relaxed
+      });
+      
+      if (result.completed) {
+        setGameSummary(result.summary);
+        setDailyDate(gameSession.dailyDate);
+        setFinishedTournamentId(gameSession.tournamentId);
+        setGameSession(null);
       }
       
       setGameState('result');
     } catch (error) {
       console.error('Failed to update player stats:', error);
       showToast('Failed to save game results', 'error');
+      setGameSession(null);
+      setGameState('dashboard');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleContinue = () => {
-    // Tokens accumulated in database - go to dashboard to claim
-    setGameState('dashboard');
+  const handleUseHint = async (type: HintType): Promise<HintReveal> => {
+    if (!gameSession) {
+      throw new Error('No game in progress');
+    }
+    
+    // The server charges the hint against the pending score
+    const { hint, player } = await buyHint(gameSession.sessionId, type);
+    setPlayerData(player);
+    return hint;
+  };
+
+  const handleContinue = async () => {
+    if (roundResult?.completed || !gameSession) {
+      // Game over - show the summary of every round
+      setGameState('rewards');
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      // The next round's countdown starts when its word is requested
+      const session = await startNextRound(gameSession.sessionId);
+      setGameSession(session);
+      setGameState('playing');
+    } catch (error) {
+      console.error('Failed to start next round:', error);
+      showToast('Failed to start next round', 'error');
+      setGameSession(null);
+      setGameState('dashboard');
+    } finally {
+      setIsLoading(false);
+    }
   };
   
   const handleClaimRewards = async () => {
-    if (!playerData || playerData.score <= 0) {
-      showToast('No rewards to claim', 'info');
-      return;
+    if (!playerData || isMintingTokens) return;
+    
+    // Reuse the key of an interrupted claim so a retry can never claim twice.
+    // Checked before the score: a reserved or submitted claim has already moved it to zero.
+    let idempotencyKey = localStorage.getItem(PENDING_CLAIM_KEY);
+    if (!idempotencyKey) {
+      if (playerData.score <= 0) {
+        showToast('No rewards to claim', 'info');
+        return;
+      }
+      idempotencyKey = `claim_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+      localStorage.setItem(PENDING_CLAIM_KEY, idempotencyKey);
     }
     
     setIsMintingTokens(true);
     setTxSignature(null);
     
     try {
-      // Mint accumulated WMINT tokens to player's wallet
-      const mintResult = await mintTokens(
-        playerData.walletAddress,
-        playerData.score,
-        `claim_${Date.now()}`
-      );
+      await signInWithWallet(playerData.walletAddress);
       
-      if (mintResult.signature) {
-        setTxSignature(mintResult.signature);
-        setWmintEarned(playerData.score); // Store claimed amount for the reward screen
-        
-        // Store transaction data globally for reward screen
-        (window as any).__wordmint_last_tx__ = mintResult.signature;
-        (window as any).__wordmint_mint_address__ = mintResult.mintAddress;
-        
-        // Reset player score after successful claim
-        const updatedPlayer = await resetPlayerScore(
-          playerData.walletAddress,
-          playerData.score
-        );
-        setPlayerData(updatedPlayer);
-        
-        showToast(`Successfully claimed ${playerData.score} WMINT!`, 'success');
-        console.log(`✅ Minted ${playerData.score} WMINT to player wallet!`);
-        console.log(`Transaction: https://explorer.solana.com/tx/${mintResult.signature}?cluster=devnet`);
-        
-        // Show rewards screen with transaction details
-        setGameState('token-claim');
-      } else {
-        console.error('Failed to mint tokens:', mintResult.error);
-        showToast(`Failed to claim tokens: ${mintResult.error}`, 'error');
+      // Reserve, mint and finalize the pending balance in a single request
+      const { claim, player, unlocked } = await claimRewards(idempotencyKey);
+      
+      if (player) {
+        setPlayerData(player);
+      }
+      queueUnlocks(unlocked);
+      
+      switch (claim.status) {
+        case 'confirmed':
+          localStorage.removeItem(PENDING_CLAIM_KEY);
+          setTxSignature(claim.signature || null);
+          setWmintEarned(claim.amount); // Store claimed amount for the reward screen
+          
+          // Store transaction data globally for reward screen, which links it on the explorer
+          (window as any).__wordmint_last_tx__ = claim.signature ?? null;
+          (window as any).__wordmint_mint_address__ = claim.mintAddress;
+          
+          showToast(`Successfully claimed ${claim.amount} WMINT!`, 'success');
+          console.log(`✅ Minted ${claim.amount} WMINT to player wallet!`);
+          
+          // Show rewards screen with transaction details
+          setGameState('token-claim');
+          break;
+        case 'reserved':
+        case 'submitted':
+          // Still settling on-chain; the same key will pick it up again
+          showToast('Claim submitted, waiting for blockchain confirmation', 'info');
+          break;
+        default:
+          localStorage.removeItem(PENDING_CLAIM_KEY);
+          console.error('Claim failed:', claim.error);
+          showToast(`Failed to claim tokens: ${claim.error || 'Unknown error'}. Your WMINT was returned.`, 'error');
       }
     } catch (error) {
       console.error('Claim error:', error);
@@ -261,7 +461,17 @@ function App() {
   };
 
   const handlePlayAgain = () => {
-    setGameState('playing');
+    // A tournament round is one game, so go back to the bracket
+    if (finishedTournamentId) {
+      handleSelectTournament(finishedTournamentId);
+      return;
+    }
+    // The daily challenge is one attempt a day, so offer the other modes instead
+    if (selectedDifficulty === 'daily') {
+      handleStartGame();
+      return;
+    }
+    startNewSession(selectedDifficulty);
   };
 
   const handleBackToDashboard = () => {
@@ -271,23 +481,54 @@ function App() {
   const handleDisconnect = () => {
     // Clear all player data and state
     setPlayerData(null);
+    setUnlockQueue([]);
     setGameState('landing');
     
     // Clear localStorage AND wallet session
     localStorage.removeItem('wordmint_wallet');
     localStorage.setItem('wordmint_intentional_disconnect', 'true');
     clearWalletSession(); // Clear the mobile wallet session
+    signOut(); // Revoke the server session token
     
     showToast('Wallet disconnected successfully', 'success');
   };
 
+  // Celebrate new unlocks one at a time; they stay in the inbox until shown
+  const queueUnlocks = (unlocks: AchievementUnlock[] = []) => {
+    const achievements = unlocks
+      .map(unlock => getAchievement(unlock.achievementId))
+      .filter((achievement): achievement is Achievement => !!achievement);
+    if (achievements.length > 0) {
+      setUnlockQueue(queue => [...queue, ...achievements]);
+    }
+  };
+
+  const handleUnlockShown = (achievement: Achievement) => {
+    setUnlockQueue(queue => queue.filter(queued => queued.id !== achievement.id));
+    if (playerData) {
+      markAchievementsSeen(playerData.walletAddress, [achievement.id])
+        .catch(error => console.error('Failed to mark achievement seen:', error));
+    }
+  };
+
+  const handleViewUnlock = (achievement: Achievement) => {
+    handleUnlockShown(achievement);
+    setGameState('achievements');
+  };
+
   const showToast = (message: string, type: ToastData['type']) => {
     setToast({ message, type });
     setTimeout(() => setToast(null), 3000);
   };
 
+  const accessibility = getAccessibilitySettings(playerData);
+  const accessibilityClasses = [
+    accessibility.dyslexiaFont && 'a11y-dyslexia-font',
+    accessibility.highContrast && 'a11y-high-contrast',
+  ].filter(Boolean).join(' ');
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
+    <div className={`min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 ${accessibilityClasses}`}>
       {isLoading && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
           <div className="bg-slate-800 rounded-2xl p-8 text-center">
@@ -298,16 +539,32 @@ function App() {
       )}
       
       {gameState === 'landing' && (
-        <LandingPage onConnect={handleWalletConnect} />
+        <LandingPage
+          onConnect={handleWalletConnect}
+          onPractice={() => setGameState('practice')}
+          guestStats={guestStats}
+          importGuestStats={importGuestStats}
+          onImportGuestStatsChange={setImportGuestStats}
+        />
+      )}
+      
+      {gameState === 'practice' && (
+        <PracticeMode onConnectWallet={handleLeavePractice} onExit={handleLeavePractice} />
       )}
       
       {gameState === 'dashboard' && playerData && (
         <PlayerDashboard 
           playerData={playerData}
           onStartGame={handleStartGame}
+          onStartReview={handleStartReview}
+          onStartDaily={handleStartDaily}
+          onStartDuel={() => setGameState('duel')}
+          onViewTournaments={() => setGameState('tournaments')}
           onDisconnect={handleDisconnect}
           onViewAchievements={() => setGameState('achievements')}
+          onViewAccessibility={() => setGameState('accessibility')}
           onClaimRewards={handleClaimRewards}
+          hasPendingClaim={!!localStorage.getItem(PENDING_CLAIM_KEY)}
           isClaiming={isMintingTokens}
         />
       )}
@@ -316,10 +573,36 @@ function App() {
         <div className="min-h-screen flex items-center justify-center px-4 py-8">
           <div className="max-w-4xl w-full">
             <div className="p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm">
+              {playerData && (
+                <div className="mb-8">
+                  <WordPackPicker
+                    walletAddress={playerData.walletAddress}
+                    selectedPackId={selectedPack?.id || BUILT_IN_PACK_ID}
+                    onSelect={setSelectedPack}
+                  />
+                </div>
+              )}
               <DifficultySelector
                 selectedDifficulty={selectedDifficulty}
                 onSelect={handleDifficultySelect}
+                availableDifficulties={selectedPack
+                  ? [...PACK_TIERS.filter(tier => selectedPack.tierSizes[tier]), 'adaptive']
+                  : undefined}
               />
+              <label className="mt-6 flex items-start gap-3 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={partialCredit}
+                  onChange={(e) => handlePartialCreditChange(e.target.checked)}
+                  className="mt-1 accent-emerald-500"
+                />
+                <span>
+                  <span className="block text-white">Partial credit</span>
+                  <span className="block text-sm text-slate-400">
+                    One typo or swapped pair in a word of {NEAR_MISS_MIN_LENGTH}+ letters earns {PARTIAL_CREDIT_FACTOR * 100}% of the base WMINT and keeps your streak
+                  </span>
+                </span>
+              </label>
               <button
                 onClick={handleBackToDashboard}
                 className="mt-6 w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors"
@@ -331,12 +614,23 @@ function App() {
         </div>
       )}
       
-      {gameState === 'playing' && (
+      {gameState === 'playing' && gameSession?.letters && (
         <GameScreen 
+          key={`${gameSession.sessionId}-${gameSession.roundNumber}`}
+          letters={gameSession.letters}
+          hasSentence={gameSession.hasSentence}
+          fetchAudio={(prompt) => fetchSessionAudio(gameSession.sessionId, prompt)}
+          roundNumber={gameSession.roundNumber}
+          totalRounds={gameSession.totalRounds}
+          timeLimit={gameSession.timeLimit}
           onSubmit={handleSubmitAnswer}
           onBack={handleBackToDashboard}
           level={playerData!.level}
-          difficulty={selectedDifficulty}
+          difficulty={gameSession.difficulty}
+          pendingScore={playerData!.score}
+          onUseHint={gameSession.tournamentId ? undefined : handleUseHint}
+          relaxed={gameSession.relaxed}
+          accessibility={accessibility}
         />
       )}
       
@@ -346,19 +640,60 @@ function App() {
           word={currentWord}
           pointsEarned={wmintEarned}
           txSignature={txSignature}
+          roundNumber={roundResult?.roundNumber}
+          totalRounds={roundResult?.totalRounds}
+          isLastRound={roundResult?.completed ?? true}
+          isNearMiss={roundResult?.nearMiss}
+          answerMs={roundResult?.answerMs}
+          speedMultiplier={roundResult?.speedMultiplier}
+          addedToReview={roundResult?.addedToReview}
+          diff={roundResult?.diff}
+          relaxed={roundResult?.relaxed}
+          announce={accessibility.announcements}
           onContinue={handleContinue}
         />
       )}
       
-      {gameState === 'rewards' && playerData && (
+      {gameState === 'duel' && playerData && (
+        <DuelScreen
+          walletAddress={playerData.walletAddress}
+          pendingScore={playerData.score}
+          level={playerData.level}
+          accessibility={accessibility}
+          inviteDuelId={inviteDuelId}
+          onExit={handleExitDuel}
+        />
+      )}
+      
+      {gameState === 'tournaments' && playerData && (
+        <TournamentList
+          walletAddress={playerData.walletAddress}
+          onSelect={handleSelectTournament}
+          onBack={handleBackToDashboard}
+        />
+      )}
+      
+      {gameState === 'tournament' && playerData && selectedTournamentId && (
+        <TournamentDetail
+          walletAddress={playerData.walletAddress}
+          tournamentId={selectedTournamentId}
+          isStarting={isLoading}
+          onPlay={handlePlayTournament}
+          onBack={() => setGameState('tournaments')}
+        />
+      )}
+      
+      {gameState === 'rewards' && playerData && gameSummary && (
         <RewardsScreen 
-          pointsEarned={wmintEarned}
+          pointsEarned={Math.max(gameSummary.wmintEarned - gameSummary.hintCost, 0)}
           totalScore={playerData.score}
           level={playerData.level}
           streak={playerData.streak}
+          summary={gameSummary}
+          dailyDate={dailyDate || undefined}
           onPlayAgain={handlePlayAgain}
           onBackToDashboard={handleBackToDashboard}
-          onClaimTokens={() => setGameState('token-claim')}
+          onClaimTokens={playerData.score > 0 ? handleClaimRewards : undefined}
         />
       )}
 
@@ -378,6 +713,18 @@ function App() {
         />
       )}
 
+      {gameState === 'accessibility' && playerData && (
+        <AccessibilitySettingsPanel
+          playerData={playerData}
+          onSaved={(player) => {
+            setPlayerData(player);
+            showToast('Accessibility settings saved', 'success');
+            setGameState('dashboard');
+          }}
+          onBack={handleBackToDashboard}
+        />
+      )}
+
       {gameState === 'achievements' && playerData && (
         <AchievementsScreen 
           playerData={playerData}
@@ -392,6 +739,17 @@ function App() {
           onClose={() => setToast(null)}
         />
       )}
+
+      {/* Held while a word is on the clock; leaving for Achievements mid-game would abandon it */}
+      {unlockQueue.length > 0 && gameState !== 'playing' && (
+        <AchievementUnlockNotice
+          key={unlockQueue[0].id}
+          achievement={unlockQueue[0]}
+          queued={unlockQueue.length - 1}
+          onView={gameSession ? undefined : () => handleViewUnlock(unlockQueue[0])}
+          onDismiss={() => handleUnlockShown(unlockQueue[0])}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Accessibility, ArrowLeft, Save } from 'lucide-react';
+import { PlayerData } from '../App';
+import { signInWithWallet } from '../utils/auth';
+import { RELAXED_REWARD_FACTOR } from '../utils/word-lists';
+import { AccessibilitySettings, getAccessibilitySettings } from '../utils/accessibility';
+import { updateAccessibilitySettings } from '../utils/api';
+
+interface AccessibilitySettingsPanelProps {
+  playerData: PlayerData;
+  onSaved: (player: PlayerData) => void;
+  onBack: () => void;
+}
+
+const OPTIONS: { key: keyof AccessibilitySettings; name: string; description: string }[] = [
+  {
+    key: 'largeKeyboard',
+    name: 'Large on-screen keyboard',
+    description: 'Spell with big letter keys instead of your device keyboard',
+  },
+  {
+    key: 'dyslexiaFont',
+    name: 'Dyslexia-friendly font',
+    description: 'A rounder font with wider spacing between letters and words',
+  },
+  {
+    key: 'highContrast',
+    name: 'High contrast',
+    description: 'White text and borders on a black background',
+  },
+  {
+    key: 'announcements',
+    name: 'Screen-reader announcements',
+    description: 'Hear the time left at halfway, 10 and 5 seconds, and each result',
+  },
+  {
+    key: 'relaxedMode',
+    name: 'Relaxed mode',
+    description: `No timer on regular and review games, for ${RELAXED_REWARD_FACTOR * 100}% of the WMINT and no speed bonus. The Daily Challenge and tournaments stay timed.`,
+  },
+];
+
+/**
+ * The player's accessibility settings, saved with their player record
+ */
+export function AccessibilitySettingsPanel({ playerData, onSaved, onBack }: AccessibilitySettingsPanelProps) {
+  const [settings, setSettings] = useState<AccessibilitySettings>(() => getAccessibilitySettings(playerData));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await signInWithWallet(playerData.walletAddress);
+      onSaved(await updateAccessibilitySettings(playerData.walletAddress, settings));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-8">
+      <div className="max-w-2xl w-full p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-sky-500/20 border border-sky-500/30 flex items-center justify-center">
+            <Accessibility className="w-6 h-6 text-sky-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl text-white">Accessibility</h2>
+            <p className="text-sm text-slate-400">Saved to your wallet, on every device</p>
+          </div>
+        </div>
+
+        {error && (
+          <p className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</p>
+        )}
+
+        <div className="space-y-3">
+          {OPTIONS.map(option => (
+            <label
+              key={option.key}
+              className="flex items-start gap-3 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={settings[option.key]}
+                onChange={(e) => setSettings({ ...settings, [option.key]: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span>
+                <span className="block text-white">{option.name}</span>
+                <span className="block text-sm text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={onBack}
+            className="py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors flex items-center justify-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-500 text-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            <span>{isSaving ? 'Saving…' : 'Save'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Bell, CheckCheck } from 'lucide-react';
+import { getAchievement, getRarityColor } from '../utils/achievements';
+import { fetchAchievementInbox, markAchievementsSeen, AchievementUnlock } from '../utils/api';
+import { signInWithWallet } from '../utils/auth';
+
+interface AchievementInboxProps {
+  walletAddress: string;
+  onViewAchievements?: () => void;
+}
+
+const SOURCE_LABELS: Record<AchievementUnlock['context']['source'], string> = {
+  signup: 'Joined WordMint',
+  game: 'Game',
+  claim: 'Claim',
+  tournament: 'Tournament prize',
+  sync: 'Earlier progress',
+};
+
+/**
+ * Unlocks the player hasn't seen yet, such as ones from a claim or tournament prize settled while they were away
+ */
+export function AchievementInbox({ walletAddress, onViewAchievements }: AchievementInboxProps) {
+  const [unlocks, setUnlocks] = useState<AchievementUnlock[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isMarking, setIsMarking] = useState(false);
+
+  useEffect(() => {
+    fetchAchievementInbox(walletAddress)
+      .then(setUnlocks)
+      .catch(error => console.error('Failed to load achievement inbox:', error));
+  }, [walletAddress]);
+
+  const handleMarkAllRead = async () => {
+    setIsMarking(true);
+    try {
+      await signInWithWallet(walletAddress);
+      setUnlocks(await markAchievementsSeen(walletAddress, unlocks.map(unlock => unlock.achievementId)));
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to mark achievements seen:', error);
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Achievement inbox, ${unlocks.length} new`}
+        aria-expanded={isOpen}
+        className="relative px-4 py-2 rounded-lg bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:text-slate-300 transition-all flex items-center gap-2"
+      >
+        <Bell className="w-4 h-4" />
+        {unlocks.length > 0 && (
+          <span className="achievement-inbox-count px-2 rounded-full text-xs text-white">
+            {unlocks.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="achievement-inbox-panel mt-2 p-4 rounded-xl border border-slate-700/50 shadow-lg space-y-3">
+          <h2 className="text-white">New achievements</h2>
+
+          {unlocks.length === 0 ? (
+            <p className="text-sm text-slate-400">You're all caught up.</p>
+          ) : (
+            <ul className="space-y-2">
+              {unlocks.map(unlock => {
+                const achievement = getAchievement(unlock.achievementId);
+                if (!achievement) {
+                  return null;
+                }
+                const rarityColors = getRarityColor(achievement.badge.rarity);
+
+                return (
+                  <li
+                    key={unlock.achievementId}
+                    className={`flex items-center gap-3 p-3 rounded-lg bg-gradient-to-br ${achievement.badge.color} border border-white/20`}
+                  >
+                    <span className="text-2xl" aria-hidden="true">{achievement.icon}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white">{achievement.name}</p>
+                      <p className="text-xs text-white/80">
+                        {SOURCE_LABELS[unlock.context.source]} · {new Date(unlock.unlockedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-1 rounded text-xs ${rarityColors.bg} ${rarityColors.text} uppercase`}>
+                      {achievement.badge.rarity}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            {onViewAchievements && (
+              <button
+                onClick={onViewAchievements}
+                className="flex-1 py-2 rounded-lg bg-amber-500/20 text-amber-400 border border-amber-500/30 text-sm"
+              >
+                View achievements
+              </button>
+            )}
+            {unlocks.length > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                disabled={isMarking}
+                className="flex-1 py-2 rounded-lg bg-slate-800/50 text-slate-400 text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <CheckCheck className="w-4 h-4" />
+                <span>Mark all read</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
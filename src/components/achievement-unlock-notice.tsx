@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Award, X } from 'lucide-react';
+import { Achievement, getRarityColor } from '../utils/achievements';
+
+interface AchievementUnlockNoticeProps {
+  achievement: Achievement;
+  queued: number; // Unlocks waiting to be shown after this one
+  onView?: () => void; // Unset while a game is in progress
+  onDismiss: () => void;
+}
+
+// Common and rare unlocks show as a toast for this long
+const TOAST_MS = 6000;
+
+/**
+ * Celebrates an achievement unlock in the achievement's badge style
+ * Epic and legendary unlocks open a modal; the rest show as a toast that closes itself.
+ */
+export function AchievementUnlockNotice({ achievement, queued, onView, onDismiss }: AchievementUnlockNoticeProps) {
+  const { rarity, color, glow } = achievement.badge;
+  const rarityColors = getRarityColor(rarity);
+  const isCelebration = rarity === 'epic' || rarity === 'legendary';
+
+  useEffect(() => {
+    if (isCelebration) {
+      return;
+    }
+    const timer = setTimeout(onDismiss, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [achievement.id]);
+
+  const card = (
+    <div className={`p-5 rounded-2xl bg-gradient-to-br ${color} border border-white/20 ${glow} shadow-lg`}>
+      <div className="flex items-start gap-4">
+        <motion.div
+          initial={{ rotate: -20, scale: 0.5 }}
+          animate={{ rotate: 0, scale: 1 }}
+          transition={{ type: 'spring', stiffness: 300, damping: 12, delay: 0.1 }}
+          className={isCelebration ? 'text-6xl' : 'text-4xl'}
+          aria-hidden="true"
+        >
+          {achievement.icon}
+        </motion.div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-white/80 uppercase tracking-wider mb-1">Achievement unlocked</p>
+          <h3 id="achievement-unlock-title" className="text-lg text-white mb-1">{achievement.name}</h3>
+          <p className="text-sm text-slate-200">{achievement.description}</p>
+        </div>
+        <button
+          onClick={onDismiss}
+          aria-label="Dismiss"
+          className="flex-shrink-0 text-white/80 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 mt-4">
+        <span className={`px-2 py-1 rounded text-xs ${rarityColors.bg} ${rarityColors.border} border ${rarityColors.text} uppercase tracking-wider`}>
+          {rarity}
+        </span>
+        {queued > 0 && (
+          <span className="text-xs text-white/80">+{queued} more</span>
+        )}
+        {onView && (
+          <button
+            onClick={onView}
+            className="px-3 py-1 rounded-lg bg-slate-900/50 border border-white/20 text-sm text-white flex items-center gap-2"
+          >
+            <Award className="w-4 h-4" />
+            <span>View badge</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  if (isCelebration) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-sm">
+        <motion.div
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="achievement-unlock-title"
+          initial={{ opacity: 0, scale: 0.6 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ type: 'spring', stiffness: 200, damping: 15 }}
+          className="max-w-md w-full"
+        >
+          {card}
+        </motion.div>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      role="status"
+      initial={{ opacity: 0, y: 40, scale: 0.9 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      transition={{ type: 'spring', stiffness: 260, damping: 20 }}
+      className="achievement-toast max-w-sm w-full"
+    >
+      {card}
+    </motion.div>
+  );
+}
@@ -1,13 +1,16 @@
-import { ArrowLeft, Trophy, Lock } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Trophy, Lock, ExternalLink, Loader2 } from 'lucide-react';
 import { motion } from 'motion/react';
 import { 
   ACHIEVEMENTS, 
-  checkUnlockedAchievements, 
+  checkPlayerAchievements, 
+  getAchievementValue,
   getAchievementProgress,
   getRarityColor,
-  getAchievementStats,
-  Achievement 
+  getAchievementStats
 } from '../utils/achievements';
+import { fetchAchievements, AchievementUnlockInfo } from '../utils/api';
+import { getExplorerUrl, getAddressExplorerUrl } from '../utils/cluster';
 import { PlayerData } from '../App';
 
 interface AchievementsScreenProps {
@@ -16,17 +19,21 @@ interface AchievementsScreenProps {
 }
 
 export function AchievementsScreen({ playerData, onBack }: AchievementsScreenProps) {
-  // Get unlocked achievements
-  const unlockedAchievements = checkUnlockedAchievements(
-    playerData.totalWmintEarned, // Use total WMINT earned, not pending score
-    playerData.streak,
-    playerData.gamesPlayed,
-    playerData.level,
-    [] // TODO: Track special achievements in player data
-  );
+  // Get unlocked achievements (total WMINT earned, not pending score, and the best streak)
+  const unlockedAchievements = checkPlayerAchievements(playerData);
+  
+  // Unlocks the server has recorded, with when they happened and their NFT badge
+  const [unlocks, setUnlocks] = useState<Map<string, AchievementUnlockInfo>>(new Map());
+
+  useEffect(() => {
+    fetchAchievements(playerData.walletAddress)
+      .then(list => setUnlocks(new Map(list.map(unlock => [unlock.achievementId, unlock]))))
+      .catch(err => console.error('Failed to load achievements:', err));
+  }, [playerData.walletAddress]);
   
-  const unlockedIds = new Set(unlockedAchievements.map(a => a.id));
-  const stats = getAchievementStats(unlockedAchievements.length);
+  // A recorded unlock is permanent, even if its stat has since dropped
+  const unlockedIds = new Set([...unlockedAchievements.map(a => a.id), ...unlocks.keys()]);
+  const stats = getAchievementStats(unlockedIds.size);
 
   // Group achievements by category
   const categories = {
@@ -34,25 +41,8 @@ export function AchievementsScreen({ playerData, onBack }: AchievementsScreenPro
     xp: { name: '🪙 WMINT Milestones', achievements: ACHIEVEMENTS.filter(a => a.category === 'xp') },
     streak: { name: '🔥 Streak Master', achievements: ACHIEVEMENTS.filter(a => a.category === 'streak') },
     games: { name: '🎮 Games Played', achievements: ACHIEVEMENTS.filter(a => a.category === 'games') },
-    level: { name: '📈 Level Progress', achievements: ACHIEVEMENTS.filter(a => a.category === 'level') }
-  };
-
-  // Get current value for achievement progress
-  const getCurrentValue = (achievement: Achievement): number => {
-    switch (achievement.category) {
-      case 'xp':
-        return playerData.totalWmintEarned; // Use total earned, not pending score
-      case 'streak':
-        return playerData.streak;
-      case 'games':
-        return playerData.gamesPlayed;
-      case 'level':
-        return playerData.level;
-      case 'special':
-        return 1; // Special achievements are binary
-      default:
-        return 0;
-    }
+    level: { name: '📈 Level Progress', achievements: ACHIEVEMENTS.filter(a => a.category === 'level') },
+    difficulty: { name: '💪 Difficulty', achievements: ACHIEVEMENTS.filter(a => a.category === 'difficulty') }
   };
 
   return (
@@ -109,8 +99,11 @@ export function AchievementsScreen({ playerData, onBack }: AchievementsScreenPro
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {achievements.map((achievement, index) => {
                   const isUnlocked = unlockedIds.has(achievement.id);
-                  const currentValue = getCurrentValue(achievement);
-                  const progress = getAchievementProgress(achievement, currentValue);
+                  const unlock = unlocks.get(achievement.id);
+                  const badge = unlock?.badge;
+                  // Null for achievements that unlock all at once, which have no progress to show
+                  const currentValue = getAchievementValue(achievement, playerData);
+                  const progress = currentValue === null ? 0 : getAchievementProgress(achievement, currentValue);
                   const rarityColors = getRarityColor(achievement.badge.rarity);
 
                   return (
@@ -146,7 +139,7 @@ export function AchievementsScreen({ playerData, onBack }: AchievementsScreenPro
                       </p>
 
                       {/* Progress */}
-                      {!isUnlocked && (
+                      {!isUnlocked && currentValue !== null && (
                         <div>
                           <div className="flex justify-between text-xs text-slate-400 mb-1">
                             <span>Progress</span>
@@ -164,7 +157,36 @@ export function AchievementsScreen({ playerData, onBack }: AchievementsScreenPro
                       {isUnlocked && (
                         <div className="flex items-center gap-2 text-sm text-white/80">
                           <Trophy className="w-4 h-4" />
-                          <span>Unlocked!</span>
+                          <span>
+                            {unlock
+                              ? `Unlocked ${new Date(unlock.unlockedAt).toLocaleDateString()}`
+                              : 'Unlocked!'}
+                          </span>
+                        </div>
+                      )}
+
+                      {/* NFT Badge */}
+                      {badge && (
+                        <div className="mt-3 pt-4 border-t border-white/20 flex items-center justify-between text-xs text-white/80">
+                          {badge.status === 'confirmed' ? (
+                            <span>NFT badge minted</span>
+                          ) : (
+                            <span className="flex items-center gap-1">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              Minting NFT badge…
+                            </span>
+                          )}
+                          {(badge.assetId || badge.signature) && (
+                            <a
+                              href={badge.assetId ? getAddressExplorerUrl(badge.assetId) : getExplorerUrl(badge.signature!)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-white"
+                            >
+                              <span>{badge.assetId ? 'View NFT' : 'View transaction'}</span>
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          )}
                         </div>
                       )}
                     </motion.div>
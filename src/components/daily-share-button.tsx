@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Share2, Check } from 'lucide-react';
+import { DailyRoundMark, formatDailyShareText } from '../utils/daily-challenge';
+
+interface DailyShareButtonProps {
+  date: string;
+  marks: DailyRoundMark[];
+  totalAnswerMs: number;
+}
+
+/**
+ * Share a daily challenge result: the native share sheet where there is one,
+ * otherwise copied to the clipboard
+ */
+export function DailyShareButton({ date, marks, totalAnswerMs }: DailyShareButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const share = async () => {
+    const appUrl = typeof window !== 'undefined' ? window.location.origin : undefined;
+    const text = formatDailyShareText(date, marks, totalAnswerMs, appUrl);
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ text });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      // Closing the share sheet rejects too; nothing to report
+      console.log('Share cancelled or failed:', error);
+    }
+  };
+
+  return (
+    <motion.button
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={share}
+      className="px-4 py-2 rounded-lg bg-cyan-500/20 text-cyan-300 border border-cyan-500/30 hover:border-cyan-500/50 transition-all flex items-center gap-2 flex-shrink-0"
+    >
+      {copied ? <Check className="w-4 h-4" /> : <Share2 className="w-4 h-4" />}
+      <span>{copied ? 'Copied!' : 'Share'}</span>
+    </motion.button>
+  );
+}
@@ -1,17 +1,19 @@
 import { motion } from 'motion/react';
-import { Zap, TrendingUp, Flame } from 'lucide-react';
+import { Zap, TrendingUp, Flame, Brain } from 'lucide-react';
 import { DifficultyMode, getDifficultyColor, getDifficultyDescription } from '../utils/word-lists';
 
 interface DifficultySelectorProps {
   selectedDifficulty: DifficultyMode;
   onSelect: (difficulty: DifficultyMode) => void;
+  availableDifficulties?: DifficultyMode[]; // Tiers the chosen word pack has; all when omitted
 }
 
-export function DifficultySelector({ selectedDifficulty, onSelect }: DifficultySelectorProps) {
+export function DifficultySelector({ selectedDifficulty, onSelect, availableDifficulties }: DifficultySelectorProps) {
   const difficulties: { mode: DifficultyMode; icon: typeof Zap; label: string }[] = [
     { mode: 'easy', icon: Zap, label: 'Easy' },
     { mode: 'normal', icon: TrendingUp, label: 'Normal' },
-    { mode: 'hard', icon: Flame, label: 'Hard' }
+    { mode: 'hard', icon: Flame, label: 'Hard' },
+    { mode: 'adaptive', icon: Brain, label: 'Adaptive' }
   ];
 
   return (
@@ -21,11 +23,12 @@ export function DifficultySelector({ selectedDifficulty, onSelect }: DifficultyS
         <p className="text-sm text-slate-400">Higher difficulty = More XP</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
         {difficulties.map(({ mode, icon: Icon, label }) => {
           const colors = getDifficultyColor(mode);
           const description = getDifficultyDescription(mode);
           const isSelected = selectedDifficulty === mode;
+          const isAvailable = !availableDifficulties || availableDifficulties.includes(mode);
 
           return (
             <motion.button
@@ -33,7 +36,8 @@ export function DifficultySelector({ selectedDifficulty, onSelect }: DifficultyS
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               onClick={() => onSelect(mode)}
-              className={`p-4 rounded-xl bg-gradient-to-br ${colors.bg} border-2 transition-all ${
+              disabled={!isAvailable}
+              className={`p-4 rounded-xl bg-gradient-to-br ${colors.bg} border-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                 isSelected 
                   ? `${colors.border} ring-2 ring-offset-2 ring-offset-slate-900 ${colors.border.replace('border-', 'ring-')}` 
                   : 'border-slate-700/50 hover:border-slate-600'
@@ -49,7 +53,7 @@ export function DifficultySelector({ selectedDifficulty, onSelect }: DifficultyS
                     {label}
                   </div>
                   <div className="text-xs text-slate-400">
-                    {description}
+                    {isAvailable ? description : 'Not in this word pack'}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Swords, Users, Link2, Copy, Check, ArrowLeft, CheckCircle2, XCircle, Trophy } from 'lucide-react';
+import { GameScreen } from './game-screen';
+import { signInWithWallet } from '../utils/auth';
+import { shortenAddress } from '../utils/wallet';
+import { WordTier, getDifficultyColor, getDifficultyName, formatAnswerTime } from '../utils/word-lists';
+import { DUEL_STAKES, DUEL_TIERS, getDuelInviteUrl } from '../utils/duels';
+import { AccessibilitySettings, DEFAULT_ACCESSIBILITY_SETTINGS } from '../utils/accessibility';
+import {
+  openDuel,
+  fetchDuel,
+  joinDuel,
+  cancelDuel,
+  startDuelRound,
+  submitDuelAnswer,
+  fetchDuelAudio,
+  subscribeToDuel,
+  DuelInfo,
+  DuelRoundInfo,
+} from '../utils/api';
+
+interface DuelScreenProps {
+  walletAddress: string;
+  pendingScore: number; // Stakes are paid from the pending WMINT score
+  level: number;
+  accessibility?: AccessibilitySettings; // Duels are always timed, so relaxed mode doesn't apply
+  inviteDuelId?: string | null; // Opened from an invite link
+  onExit: () => void;
+}
+
+type DuelPhase = 'lobby' | 'waiting' | 'playing' | 'round-result' | 'finished';
+
+/**
+ * Duel flow: lobby, waiting for an opponent, the words, and the outcome
+ * Both players' progress comes from the duel's event stream.
+ */
+export function DuelScreen({
+  walletAddress,
+  pendingScore,
+  level,
+  accessibility = DEFAULT_ACCESSIBILITY_SETTINGS,
+  inviteDuelId,
+  onExit
+}: DuelScreenProps) {
+  const [phase, setPhase] = useState<DuelPhase>('lobby');
+  const [difficulty, setDifficulty] = useState<WordTier>('normal');
+  const [stake, setStake] = useState(DUEL_STAKES[1]);
+  const [duel, setDuel] = useState<DuelInfo | null>(null);
+  const [invite, setInvite] = useState<DuelInfo | null>(null); // The duel an invite link points to
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [round, setRound] = useState<DuelRoundInfo | null>(null);
+  const [lastAnswer, setLastAnswer] = useState<{ correct: boolean; word: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const duelId = duel?.duelId;
+  const me = duel?.players.find(player => player.walletAddress === walletAddress);
+  const opponent = duel?.players.find(player => player.walletAddress !== walletAddress);
+
+  useEffect(() => {
+    if (!inviteDuelId) {
+      return;
+    }
+    fetchDuel(inviteDuelId)
+      .then(setInvite)
+      .catch(() => setError('This duel link is invalid or has expired'));
+  }, [inviteDuelId]);
+
+  useEffect(() => {
+    if (!duelId) {
+      return;
+    }
+    return subscribeToDuel(duelId, setDuel, err => setError(err.message));
+  }, [duelId]);
+
+  // The opponent arrived: hand out the first word
+  useEffect(() => {
+    if (phase === 'waiting' && duel?.status === 'active') {
+      playNextWord(duel.duelId);
+    }
+    if (phase === 'waiting' && duel?.status === 'cancelled') {
+      setError('Nobody joined in time, so the duel was cancelled and your stake refunded');
+      setPhase('lobby');
+      setDuel(null);
+    }
+  }, [phase, duel?.status]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await signInWithWallet(walletAddress);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const playNextWord = (id: string) => run(async () => {
+    setRound(await startDuelRound(id));
+    setPhase('playing');
+  });
+
+  const handleOpen = (matchmaking: boolean) => run(async () => {
+    const opened = await openDuel(difficulty, stake, matchmaking);
+    setDuel(opened);
+    setInviteUrl(matchmaking ? null : getDuelInviteUrl(window.location.origin, opened.duelId));
+    if (opened.status === 'active') {
+      setRound(await startDuelRound(opened.duelId));
+      setPhase('playing');
+    } else {
+      setPhase('waiting');
+    }
+  });
+
+  const handleJoin = (id: string) => run(async () => {
+    setDuel(await joinDuel(id));
+    setInvite(null);
+    setRound(await startDuelRound(id));
+    setPhase('playing');
+  });
+
+  const handleCancel = () => run(async () => {
+    if (duelId) {
+      await cancelDuel(duelId);
+    }
+    setDuel(null);
+    setPhase('lobby');
+  });
+
+  const handleSubmit = async (answer: string) => {
+    if (!round) return;
+
+    await run(async () => {
+      const result = await submitDuelAnswer(round.duelId, answer);
+      setDuel(result.duel);
+      setLastAnswer({ correct: result.correct, word: result.word });
+      setPhase(round.roundNumber === round.totalRounds ? 'finished' : 'round-result');
+    });
+  };
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (phase === 'playing' && round) {
+    return (
+      <GameScreen
+        key={`${round.duelId}-${round.roundNumber}`}
+        letters={round.letters}
+        hasSentence={round.hasSentence}
+        fetchAudio={(prompt) => fetchDuelAudio(round.duelId, prompt)}
+        roundNumber={round.roundNumber}
+        totalRounds={round.totalRounds}
+        timeLimit={round.timeLimit}
+        onSubmit={handleSubmit}
+        onBack={onExit}
+        level={level}
+        difficulty={duel?.difficulty || difficulty}
+        pendingScore={pendingScore}
+        opponent={opponent}
+        accessibility={accessibility}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-8">
+      <div className="max-w-2xl w-full p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-violet-500/20 border border-violet-500/30 flex items-center justify-center">
+            <Swords className="w-6 h-6 text-violet-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl text-white">Duel</h2>
+            <p className="text-sm text-slate-400">Same words, head to head • Winner takes the pot</p>
+          </div>
+        </div>
+
+        {error && (
+          <p className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</p>
+        )}
+
+        {/* Invite link: join someone else's duel */}
+        {phase === 'lobby' && invite && (
+          <div className="p-6 rounded-2xl bg-violet-500/10 border border-violet-500/20 space-y-4">
+            <p className="text-white">
+              {shortenAddress(invite.players[0].walletAddress)} challenged you to a {getDifficultyName(invite.difficulty)} duel
+            </p>
+            <p className="text-sm text-slate-400">
+              Stake {invite.stake} WMINT each • Winner takes {invite.pot} WMINT
+            </p>
+            <button
+              onClick={() => handleJoin(invite.duelId)}
+              disabled={isBusy || invite.status !== 'waiting' || pendingScore < invite.stake}
+              className="w-full py-3 rounded-xl bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {invite.status !== 'waiting'
+                ? 'This duel is no longer open'
+                : pendingScore < invite.stake ? 'Not enough WMINT to stake' : 'Accept Duel'}
+            </button>
+          </div>
+        )}
+
+        {/* Lobby: pick a tier and stake */}
+        {phase === 'lobby' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              {DUEL_TIERS.map(tier => {
+                const colors = getDifficultyColor(tier);
+                return (
+                  <button
+                    key={tier}
+                    onClick={() => setDifficulty(tier)}
+                    className={`p-3 rounded-xl bg-gradient-to-br ${colors.bg} border-2 transition-all ${
+                      difficulty === tier ? colors.border : 'border-slate-700/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <span className={difficulty === tier ? colors.text : 'text-white'}>{getDifficultyName(tier)}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div>
+              <p className="text-sm text-slate-400 mb-2">Stake (each player, from your pending WMINT)</p>
+              <div className="grid grid-cols-4 gap-2">
+                {DUEL_STAKES.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setStake(option)}
+                    disabled={pendingScore < option}
+                    className={`py-2 rounded-lg border text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                      stake === option
+                        ? 'bg-violet-500/20 border-violet-500/40 text-violet-300'
+                        : 'bg-slate-800/50 border-slate-700/50 text-slate-300 hover:bg-slate-800'
+                    }`}
+                  >
+                    {option === 0 ? 'Friendly' : `${option} WMINT`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                onClick={() => handleOpen(true)}
+                disabled={isBusy || pendingScore < stake}
+                className="py-4 rounded-2xl bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Users className="w-5 h-5" />
+                <span>Find Opponent</span>
+              </button>
+              <button
+                onClick={() => handleOpen(false)}
+                disabled={isBusy || pendingScore < stake}
+                className="py-4 rounded-2xl bg-slate-800/50 border border-violet-500/30 text-violet-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Link2 className="w-5 h-5" />
+                <span>Invite a Friend</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Waiting for an opponent */}
+        {phase === 'waiting' && duel && (
+          <div className="space-y-4 text-center">
+            <div className="w-12 h-12 border-4 border-violet-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+            <p className="text-white">
+              {inviteUrl ? 'Waiting for your friend to accept…' : 'Looking for an opponent…'}
+            </p>
+            <p className="text-sm text-slate-400">
+              {getDifficultyName(duel.difficulty)} • Stake {duel.stake} WMINT • Pot {duel.pot} WMINT
+            </p>
+            {inviteUrl && (
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={inviteUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 rounded-lg bg-slate-900/50 border border-slate-700/50 text-sm text-slate-300 font-mono"
+                />
+                <button
+                  onClick={copyInviteUrl}
+                  className="px-3 py-2 rounded-lg bg-violet-500/20 border border-violet-500/30 text-violet-300"
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+            )}
+            <button
+              onClick={handleCancel}
+              disabled={isBusy}
+              className="w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors"
+            >
+              Cancel Duel (refunds your stake)
+            </button>
+          </div>
+        )}
+
+        {/* Between words */}
+        {phase === 'round-result' && lastAnswer && round && (
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-4 text-center">
+            {accessibility.announcements && (
+              <p className="sr-only" role="alert">
+                {lastAnswer.correct ? 'Correct!' : 'Incorrect.'} The word is {lastAnswer.word}.
+              </p>
+            )}
+            {lastAnswer.correct ? (
+              <CheckCircle2 className="w-12 h-12 text-emerald-400 mx-auto" />
+            ) : (
+              <XCircle className="w-12 h-12 text-red-400 mx-auto" />
+            )}
+            <p className="text-white text-xl">{lastAnswer.word}</p>
+            {opponent && (
+              <p className="text-sm text-slate-400">
+                You {me?.correctCount ?? 0} – {opponent.correctCount} {shortenAddress(opponent.walletAddress)}
+              </p>
+            )}
+            <button
+              onClick={() => playNextWord(round.duelId)}
+              disabled={isBusy}
+              className="w-full py-4 rounded-2xl bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white disabled:opacity-50"
+            >
+              Next Word ({round.roundNumber + 1} of {round.totalRounds})
+            </button>
+          </motion.div>
+        )}
+
+        {/* Done: wait for the opponent, then the outcome */}
+        {phase === 'finished' && duel && (
+          <div className="space-y-4 text-center">
+            {duel.status === 'completed' ? (
+              <>
+                <Trophy className={`w-12 h-12 mx-auto ${duel.winner === walletAddress ? 'text-amber-400' : 'text-slate-600'}`} />
+                <p className="text-2xl text-white">
+                  {duel.winner === walletAddress ? `You won ${duel.pot} WMINT!` : duel.winner ? 'You lost this one' : 'Draw, stakes refunded'}
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="w-12 h-12 border-4 border-violet-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+                <p className="text-white">Waiting for your opponent to finish…</p>
+              </>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              {[me, opponent].map((player, index) => player && (
+                <div key={player.walletAddress} className="p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+                  <p className="text-sm text-slate-400">{index === 0 ? 'You' : shortenAddress(player.walletAddress)}</p>
+                  <p className="text-2xl text-violet-300">{player.correctCount}/{duel.totalRounds}</p>
+                  <p className="text-xs text-slate-500">{formatAnswerTime(player.totalAnswerMs)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {phase !== 'waiting' && (
+          <button
+            onClick={onExit}
+            className="w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors flex items-center justify-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back to Dashboard</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
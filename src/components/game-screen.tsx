@@ -1,40 +1,93 @@
 import { useState, useEffect, useRef } from 'react';
-import { Volume2, ArrowLeft, Send, AlertCircle } from 'lucide-react';
+import { Volume2, ArrowLeft, Send, AlertCircle, Lightbulb, Coins, BookOpen, MessageSquareQuote, Snail } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { DifficultyMode, getRandomWord, getDifficultyColor, getDifficultyName } from '../utils/word-lists';
+import { DifficultyMode, getDifficultyColor, getDifficultyName, getSpeedMultiplier, RELAXED_REWARD_FACTOR } from '../utils/word-lists';
 import { isPhantomMobileApp, isSolflareMobileApp } from '../utils/mobile-wallet-adapter';
+import { HINTS, HintType, HintReveal } from '../utils/hints';
+import { getWordEntry, CATEGORY_NAMES } from '../utils/word-entries';
+import { SpeechPrompt, PROMPT_RATE, SLOW_PROMPT_RATE } from '../utils/speech-prompts';
+import { DuelPlayerProgress } from '../utils/api';
+import { AccessibilitySettings, DEFAULT_ACCESSIBILITY_SETTINGS, getTimerAnnouncement } from '../utils/accessibility';
+import { OnScreenKeyboard } from './on-screen-keyboard';
 
 interface GameScreenProps {
-  onSubmit: (answer: string, word: string, difficulty: DifficultyMode) => void;
+  letters: number; // Length of the word in play
+  word?: string; // Practice only: spoken by the browser. Online games never see the word
+  definition?: string | null; // Practice only; online games sell the masked definition as a hint
+  sentence?: string | null; // Practice only, spoken on request
+  hasSentence?: boolean; // Online games: the server can speak an example sentence
+  fetchAudio?: (prompt: SpeechPrompt) => Promise<Blob>; // Online games: prompts synthesized by the server
+  roundNumber: number;
+  totalRounds: number;
+  timeLimit: number; // Seconds, by the word's tier
+  onSubmit: (answer: string) => void;
   onBack: () => void;
   level: number;
   difficulty: DifficultyMode;
+  pendingScore: number; // Hints are paid from the pending WMINT score
+  onUseHint?: (type: HintType) => Promise<HintReveal>; // Hints are hidden without it (duels, tournaments)
+  opponent?: DuelPlayerProgress; // Live progress of the other player in a duel
+  practice?: boolean; // Guest practice: graded in the browser, nothing earned
+  relaxed?: boolean; // No countdown; the server doesn't time the answer out
+  accessibility?: AccessibilitySettings;
 }
 
-export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenProps) {
-  const [currentWord, setCurrentWord] = useState('');
+export function GameScreen({
+  letters,
+  word: currentWord,
+  definition,
+  sentence,
+  hasSentence = false,
+  fetchAudio,
+  roundNumber,
+  totalRounds,
+  timeLimit,
+  onSubmit,
+  onBack,
+  level,
+  difficulty,
+  pendingScore,
+  onUseHint,
+  opponent,
+  practice = false,
+  relaxed = false,
+  accessibility = DEFAULT_ACCESSIBILITY_SETTINGS
+}: GameScreenProps) {
   const [userInput, setUserInput] = useState('');
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [timeLeft, setTimeLeft] = useState(timeLimit);
   const [isPlaying, setIsPlaying] = useState(false);
   const hasSubmittedRef = useRef(false);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  const [hints, setHints] = useState<HintReveal[]>([]);
+  const [buyingHint, setBuyingHint] = useState<HintType | null>(null);
+  const [hintError, setHintError] = useState<string | null>(null);
+  // Read out by screen readers when it changes
+  const [announcement, setAnnouncement] = useState(
+    `Word ${roundNumber} of ${totalRounds}, ${letters} letters`
+  );
 
   useEffect(() => {
-    // Select random word based on difficulty
-    const randomWord = getRandomWord(difficulty);
-    setCurrentWord(randomWord);
     setIsPlaying(true);
     hasSubmittedRef.current = false;
     setAudioError(null);
-  }, [difficulty]);
+  }, [roundNumber]);
+
+  // Stop the server audio and free its object URL when the round ends
+  useEffect(() => stopAudio, []);
 
   useEffect(() => {
+    // Relaxed games have no countdown
+    if (relaxed) {
+      return;
+    }
     if (!isPlaying || timeLeft <= 0) {
       if (timeLeft === 0 && !hasSubmittedRef.current) {
         // Timer expired - submit with current answer (even if empty)
         hasSubmittedRef.current = true;
-        onSubmit(userInput, currentWord, difficulty);
+        onSubmit(userInput);
       }
       return;
     }
@@ -44,7 +97,14 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeLeft, isPlaying, userInput, currentWord, difficulty, onSubmit]);
+  }, [timeLeft, isPlaying, userInput, onSubmit, relaxed]);
+
+  useEffect(() => {
+    const milestone = relaxed ? null : getTimerAnnouncement(timeLeft, timeLimit);
+    if (milestone) {
+      setAnnouncement(milestone);
+    }
+  }, [timeLeft, timeLimit, relaxed]);
 
   const handleSubmit = (e?: React.FormEvent) => {
     if (e) {
@@ -55,10 +115,90 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
     }
     hasSubmittedRef.current = true;
     // Allow submission even with empty input (will be marked as incorrect)
-    onSubmit(userInput, currentWord, difficulty);
+    onSubmit(userInput);
+  };
+
+  const handleUseHint = async (type: HintType) => {
+    if (!onUseHint) {
+      return;
+    }
+    setHintError(null);
+    setBuyingHint(type);
+
+    try {
+      const hint = await onUseHint(type);
+      setHints(prev => [...prev, hint]);
+
+      if (hint.type === 'slow-replay') {
+        playPrompt('slow-word');
+      }
+    } catch (error) {
+      setHintError(error instanceof Error ? error.message : 'Failed to buy hint');
+    } finally {
+      setBuyingHint(null);
+    }
+  };
+
+  // Part of speech and category narrow the word down too much to show online
+  const entry = currentWord ? getWordEntry(currentWord) : undefined;
+  const slowReplayBought = hints.some(hint => hint.type === 'slow-replay');
+
+  const stopAudio = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+  };
+
+  const playPrompt = (prompt: SpeechPrompt) => {
+    if (fetchAudio) {
+      playServerAudio(prompt);
+      return;
+    }
+
+    // Practice speaks its own words with the browser
+    const text = prompt === 'sentence' ? sentence : prompt === 'definition' ? definition : currentWord;
+    if (text) {
+      speak(text, prompt === 'slow-word' ? SLOW_PROMPT_RATE : PROMPT_RATE);
+    }
+  };
+
+  const playServerAudio = async (prompt: SpeechPrompt) => {
+    setAudioError(null);
+    stopAudio();
+    setIsPlayingAudio(true);
+
+    try {
+      const blob = await fetchAudio!(prompt);
+      const url = URL.createObjectURL(blob);
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audioUrlRef.current = url;
+
+      audio.onended = () => setIsPlayingAudio(false);
+      audio.onerror = () => {
+        setIsPlayingAudio(false);
+        setAudioError('Audio failed. Try tapping again.');
+      };
+
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      setIsPlayingAudio(false);
+
+      // Browsers block playback that doesn't follow a tap; other playback errors are too technical to show
+      if (error instanceof DOMException) {
+        setAudioError(error.name === 'NotAllowedError' ? 'Please tap the button to enable audio' : 'Audio unavailable. Try again.');
+      } else {
+        // The server's reason, e.g. no speech provider configured
+        setAudioError(error instanceof Error ? error.message : 'Audio unavailable. Try again.');
+      }
+    }
   };
 
-  const handlePlayAudio = () => {
+  const speak = (text: string, rate: number = PROMPT_RATE) => {
     setAudioError(null);
     
     // Check if Speech Synthesis is supported
@@ -71,8 +211,8 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
       // Cancel any ongoing speech first
       window.speechSynthesis.cancel();
       
-      const utterance = new SpeechSynthesisUtterance(currentWord);
-      utterance.rate = 0.8;
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = rate;
       utterance.pitch = 1;
       utterance.lang = 'en-US';
       utterance.volume = 1;
@@ -82,7 +222,7 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
       
       // Event handlers
       utterance.onstart = () => {
-        console.log('Audio started playing:', currentWord);
+        console.log('Audio started playing:', text);
         hasStarted = true;
         setIsPlayingAudio(true);
         setAudioError(null);
@@ -169,7 +309,20 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
     }
   };
 
-  const progressPercentage = (timeLeft / 30) * 100;
+  const revealedLetters = new Map<number, string>();
+  hints.forEach(hint => {
+    if (hint.position !== undefined && hint.letter) {
+      revealedLetters.set(hint.position, hint.letter);
+    }
+  });
+  const hintDefinition = hints.find(hint => hint.type === 'definition')?.definition;
+  // Online games hear the definition from the server once its hint is bought
+  const canSpeakDefinition = !!definition || (!!fetchAudio && !!hintDefinition);
+
+  const progressPercentage = (timeLeft / timeLimit) * 100;
+  const isLowOnTime = timeLeft <= Math.ceil(timeLimit / 3);
+  // Review words earn no speed bonus, duels only pay the pot, practice pays nothing and relaxed games are untimed
+  const speedMultiplier = difficulty === 'review' || opponent || practice || relaxed ? 1 : getSpeedMultiplier((timeLimit - timeLeft) * 1000, timeLimit);
   const difficultyColors = getDifficultyColor(difficulty);
   const difficultyLabel = getDifficultyName(difficulty);
 
@@ -192,7 +345,7 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
           </div>
 
           <div className="px-4 py-2 rounded-lg bg-slate-800/50">
-            <span className="text-sm text-slate-400">Level {level}</span>
+            <span className="text-sm text-slate-400">{practice ? 'Practice' : `Level ${level}`}</span>
           </div>
         </div>
       </div>
@@ -204,23 +357,85 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
           animate={{ opacity: 1, scale: 1 }}
           className="space-y-8"
         >
-          {/* Timer Progress */}
-          <div className="space-y-3">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-slate-400">Time Remaining</span>
-              <span className={`tabular-nums ${timeLeft <= 10 ? 'text-red-400' : 'text-emerald-400'}`}>
-                {timeLeft}s
+          {/* Round Progress */}
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-slate-400 whitespace-nowrap">
+              Word {roundNumber} of {totalRounds}
+            </span>
+            <div className="flex gap-1 flex-1">
+              {Array.from({ length: totalRounds }, (_, index) => (
+                <div
+                  key={index}
+                  className={`h-1.5 flex-1 rounded-full ${
+                    index < roundNumber - 1
+                      ? 'bg-emerald-500'
+                      : index === roundNumber - 1
+                        ? 'bg-emerald-500/50'
+                        : 'bg-slate-800'
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Opponent Progress (duels) */}
+          {opponent && (
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm text-slate-400 whitespace-nowrap">
+                {opponent.finished ? 'Opponent done' : `Opponent ${opponent.results.length}/${totalRounds}`}
               </span>
+              <div className="flex gap-1 flex-1">
+                {Array.from({ length: totalRounds }, (_, index) => (
+                  <div
+                    key={index}
+                    className={`h-1.5 flex-1 rounded-full ${
+                      opponent.results[index] === 'correct'
+                        ? 'bg-violet-500'
+                        : opponent.results[index] === 'missed'
+                          ? 'bg-red-500/60'
+                          : 'bg-slate-800'
+                    }`}
+                  />
+                ))}
+              </div>
+              <span className="text-sm text-violet-400 tabular-nums">{opponent.correctCount} ✓</span>
             </div>
-            <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
-              <motion.div
-                className={`h-full rounded-full ${timeLeft <= 10 ? 'bg-gradient-to-r from-red-500 to-orange-500' : 'bg-gradient-to-r from-emerald-500 to-teal-500'}`}
-                initial={{ width: '100%' }}
-                animate={{ width: `${progressPercentage}%` }}
-                transition={{ duration: 0.5 }}
-              />
+          )}
+
+          {accessibility.announcements && (
+            <p className="sr-only" role="status" aria-live="polite">{announcement}</p>
+          )}
+
+          {/* Timer Progress */}
+          {relaxed ? (
+            <p className="text-sm text-slate-400 text-center">
+              Relaxed mode • No timer • {RELAXED_REWARD_FACTOR * 100}% WMINT
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-400">
+                  Time Remaining
+                  {speedMultiplier > 1 && (
+                    <span className="ml-2 text-yellow-400">⚡ ×{speedMultiplier} speed bonus</span>
+                  )}
+                </span>
+                {/* Low time is shown with an icon too, not just by color */}
+                <span className={`tabular-nums flex items-center gap-1 ${isLowOnTime ? 'text-red-400' : 'text-emerald-400'}`}>
+                  {isLowOnTime && <AlertCircle className="w-4 h-4" aria-label="Low on time" />}
+                  {timeLeft}s
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                <motion.div
+                  className={`h-full rounded-full ${isLowOnTime ? 'bg-gradient-to-r from-red-500 to-orange-500' : 'bg-gradient-to-r from-emerald-500 to-teal-500'}`}
+                  initial={{ width: '100%' }}
+                  animate={{ width: `${progressPercentage}%` }}
+                  transition={{ duration: 0.5 }}
+                />
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Audio Prompt */}
           <div className="p-8 md:p-12 rounded-3xl bg-gradient-to-br from-slate-800/50 to-slate-800/30 border border-slate-700/50 text-center">
@@ -229,7 +444,7 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={handlePlayAudio}
+                onClick={() => playPrompt('word')}
                 className={`inline-flex items-center justify-center w-20 h-20 rounded-full ${
                   isPlayingAudio 
                     ? 'bg-gradient-to-br from-purple-500 to-pink-500 shadow-purple-500/50' 
@@ -250,6 +465,39 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
                 </motion.p>
               )}
               
+              {/* Spelling bee prompts: "may I have the definition / a sentence?" */}
+              {(canSpeakDefinition || sentence || hasSentence || slowReplayBought) && (
+                <div className="flex items-center justify-center gap-2 mt-4">
+                  {slowReplayBought && (
+                    <button
+                      onClick={() => playPrompt('slow-word')}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800/50 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+                    >
+                      <Snail className="w-4 h-4" />
+                      Slowly
+                    </button>
+                  )}
+                  {canSpeakDefinition && (
+                    <button
+                      onClick={() => playPrompt('definition')}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800/50 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+                    >
+                      <BookOpen className="w-4 h-4" />
+                      Definition
+                    </button>
+                  )}
+                  {(sentence || hasSentence) && (
+                    <button
+                      onClick={() => playPrompt('sentence')}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-800/50 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+                    >
+                      <MessageSquareQuote className="w-4 h-4" />
+                      Sentence
+                    </button>
+                  )}
+                </div>
+              )}
+              
               {audioError && (
                 <motion.p 
                   initial={{ opacity: 0 }}
@@ -261,18 +509,78 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
               )}
             </div>
             
-            {/* Visual hint - show word length */}
+            {/* Visual hint - show word length, with any letters bought as hints */}
             <div className="flex items-center justify-center gap-2">
-              {currentWord.split('').map((_, index) => (
-                <div
-                  key={index}
-                  className="w-3 h-3 rounded-full bg-slate-700"
-                />
+              {Array.from({ length: letters }, (_, index) => (
+                revealedLetters.has(index) ? (
+                  <span
+                    key={index}
+                    className="w-6 text-center text-lg text-amber-300 uppercase"
+                  >
+                    {revealedLetters.get(index)}
+                  </span>
+                ) : (
+                  <div
+                    key={index}
+                    className="w-3 h-3 rounded-full bg-slate-700"
+                  />
+                )
               ))}
             </div>
-            <p className="text-xs text-slate-500 mt-3">{currentWord.length} letters</p>
+            <p className="text-xs text-slate-500 mt-3">
+              {letters} letters
+              {entry && ` • ${entry.partOfSpeech} • ${CATEGORY_NAMES[entry.category]}`}
+            </p>
+
+            {hintDefinition && (
+              <motion.p
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="text-sm text-slate-300 italic mt-4"
+              >
+                {hintDefinition}
+              </motion.p>
+            )}
           </div>
 
+          {/* Hints */}
+          {onUseHint && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-1.5 text-slate-400">
+                  <Lightbulb className="w-4 h-4" />
+                  Hints
+                </span>
+                <span className="flex items-center gap-1.5 text-slate-500">
+                  <Coins className="w-4 h-4" />
+                  {pendingScore} WMINT pending
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {HINTS.map(info => {
+                  const used = !info.repeatable && hints.some(hint => hint.type === info.type);
+                  return (
+                    <button
+                      key={info.type}
+                      onClick={() => handleUseHint(info.type)}
+                      disabled={used || buyingHint !== null || pendingScore < info.cost}
+                      title={info.description}
+                      className="px-3 py-2 rounded-lg bg-slate-800/50 border border-slate-700/50 text-left hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <span className="block text-sm text-slate-300">{info.name}</span>
+                      <span className="block text-xs text-amber-400">
+                        {used ? 'Used' : `-${info.cost} WMINT`}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+              {hintError && (
+                <p className="text-xs text-red-400">{hintError}</p>
+              )}
+            </div>
+          )}
+
           {/* Input Area */}
           <div className="space-y-4">
             <input
@@ -281,10 +589,20 @@ export function GameScreen({ onSubmit, onBack, level, difficulty }: GameScreenPr
               onChange={(e) => setUserInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
               placeholder="Type your answer..."
+              aria-label="Your spelling"
+              // The on-screen keyboard replaces the device's own
+              inputMode={accessibility.largeKeyboard ? 'none' : undefined}
               autoFocus
               className="w-full px-6 py-4 rounded-2xl bg-slate-800/50 border border-slate-700/50 text-white text-xl text-center placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50 focus:ring-2 focus:ring-emerald-500/20 transition-all"
             />
 
+            {accessibility.largeKeyboard && (
+              <OnScreenKeyboard
+                onKey={(key) => setUserInput(prev => prev + key)}
+                onBackspace={() => setUserInput(prev => prev.slice(0, -1))}
+              />
+            )}
+
             <motion.button
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
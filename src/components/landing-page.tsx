@@ -1,4 +1,4 @@
-import { Sparkles, Trophy, Zap, Users } from 'lucide-react';
+import { Sparkles, Trophy, Zap, Users, GraduationCap } from 'lucide-react';
 import { motion } from 'motion/react';
 import { useWallet } from '../hooks/useWallet';
 import { WalletButton } from './wallet-button';
@@ -6,13 +6,20 @@ import { BrowserCompatibilityWarning } from './browser-compatibility-warning';
 import { MobileWalletConnect } from './mobile-wallet-connect';
 import { useState, useEffect } from 'react';
 import { MobileWalletProtocol } from '../utils/mobile-wallet-protocol';
+import { useCluster } from '../hooks/useCluster';
+import { PracticeStats } from '../utils/practice';
 
 interface LandingPageProps {
   onConnect: (walletAddress: string) => void;
+  onPractice?: () => void;
+  guestStats?: PracticeStats | null; // Practice stats saved in this browser
+  importGuestStats?: boolean; // Bring them into the new player record on connect
+  onImportGuestStatsChange?: (importStats: boolean) => void;
 }
 
-export function LandingPage({ onConnect }: LandingPageProps) {
+export function LandingPage({ onConnect, onPractice, guestStats, importGuestStats, onImportGuestStatsChange }: LandingPageProps) {
   const wallet = useWallet();
+  const cluster = useCluster();
   const [error, setError] = useState<string | null>(null);
   const [showCompatibilityWarning, setShowCompatibilityWarning] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -146,6 +153,33 @@ export function LandingPage({ onConnect }: LandingPageProps) {
               onMobileConnect={handleMobileConnect}
               onError={handleMobileError}
             />
+
+            {guestStats && onImportGuestStatsChange && (
+              <label className="mt-4 flex items-start gap-3 p-3 rounded-xl bg-slate-900/50 border border-slate-700/50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!importGuestStats}
+                  onChange={(e) => onImportGuestStatsChange(e.target.checked)}
+                  className="mt-1 accent-emerald-500"
+                />
+                <span className="text-sm">
+                  <span className="block text-white">Import my practice stats</span>
+                  <span className="block text-slate-400">
+                    {guestStats.gamesPlayed} games, {guestStats.wordsCorrect}/{guestStats.wordsAttempted} words correct. New players only; practice never counts towards WMINT.
+                  </span>
+                </span>
+              </label>
+            )}
+
+            {onPractice && (
+              <button
+                onClick={onPractice}
+                className="mt-4 w-full py-3 rounded-xl bg-slate-800/50 border border-slate-700/50 text-slate-300 hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"
+              >
+                <GraduationCap className="w-5 h-5 text-emerald-400" />
+                <span>Try it without a wallet</span>
+              </button>
+            )}
           </motion.div>
 
           {/* Features Grid */}
@@ -195,7 +229,7 @@ export function LandingPage({ onConnect }: LandingPageProps) {
           className="text-center text-xs text-slate-600"
         >
           <p>
-            Powered by Solana • Running on Devnet
+            Powered by Solana • Running on {cluster.fakeLedger ? 'a local test ledger' : cluster.label}
           </p>
           <p className="mt-2">
             Your wallet address identifies you and stores your progress
@@ -1,28 +1,77 @@
 import { useState, useEffect } from 'react';
 import { Trophy, Medal, Award, RefreshCw } from 'lucide-react';
 import { motion } from 'motion/react';
-import { fetchLeaderboard, LeaderboardEntry } from '../utils/api';
+import {
+  fetchLeaderboard,
+  fetchDailyLeaderboard,
+  fetchSeasonLeaderboard,
+  fetchSeasons,
+  LeaderboardEntry,
+  DailyLeaderboardEntry,
+  SeasonSummary
+} from '../utils/api';
 import { shortenAddress } from '../utils/wallet';
+import { formatDailyMarks } from '../utils/daily-challenge';
+import { SeasonPeriod, SEASON_PERIODS, getSeasonId, formatSeasonName } from '../utils/seasons';
 
 interface LeaderboardProps {
   currentWallet?: string;
 }
 
+type LeaderboardView = 'all-time' | SeasonPeriod | 'daily';
+
+const VIEW_LABELS: Record<LeaderboardView, string> = {
+  'all-time': 'All Time',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  daily: "Today's Daily",
+};
+
 export function Leaderboard({ currentWallet }: LeaderboardProps) {
+  const [view, setView] = useState<LeaderboardView>('all-time');
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [dailyLeaderboard, setDailyLeaderboard] = useState<DailyLeaderboardEntry[]>([]);
+  const [seasonLeaderboard, setSeasonLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [season, setSeason] = useState<SeasonSummary | null>(null);
+  const [seasonId, setSeasonId] = useState(''); // Empty for the season in play
+  const [pastSeasons, setPastSeasons] = useState<SeasonSummary[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const seasonPeriod = SEASON_PERIODS.includes(view as SeasonPeriod) ? view as SeasonPeriod : null;
+
   useEffect(() => {
     loadLeaderboard();
-  }, []);
+  }, [view, seasonId]);
+
+  // Finished seasons for the selector
+  useEffect(() => {
+    setPastSeasons([]);
+    if (seasonPeriod) {
+      fetchSeasons(seasonPeriod)
+        .then(result => setPastSeasons(result.seasons))
+        .catch(err => console.error('Failed to load seasons:', err));
+    }
+  }, [seasonPeriod]);
+
+  const selectView = (option: LeaderboardView) => {
+    setView(option);
+    setSeasonId('');
+  };
 
   const loadLeaderboard = async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await fetchLeaderboard(10);
-      setLeaderboard(data);
+      if (view === 'daily') {
+        setDailyLeaderboard(await fetchDailyLeaderboard(10));
+      } else if (seasonPeriod) {
+        const result = await fetchSeasonLeaderboard(seasonPeriod, seasonId || undefined, 10);
+        setSeasonLeaderboard(result.leaderboard);
+        setSeason(result.season);
+      } else {
+        setLeaderboard(await fetchLeaderboard(10));
+      }
     } catch (err) {
       console.error('Failed to load leaderboard:', err);
       setError('Failed to load leaderboard');
@@ -57,7 +106,20 @@ export function Leaderboard({ currentWallet }: LeaderboardProps) {
     }
   };
 
-  if (isLoading && leaderboard.length === 0) {
+  const scoreEntries = seasonPeriod ? seasonLeaderboard : leaderboard;
+  const entries = view === 'daily' ? dailyLeaderboard : scoreEntries;
+
+  const getEmptyMessage = () => {
+    if (view === 'daily') {
+      return "Nobody has finished today's challenge yet. Be the first!";
+    }
+    if (seasonPeriod) {
+      return season?.archived ? 'Nobody earned WMINT this season.' : 'No WMINT earned this season yet. Be the first!';
+    }
+    return 'No players yet. Be the first!';
+  };
+
+  if (isLoading && entries.length === 0) {
     return (
       <div className="p-8 text-center">
         <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
@@ -93,14 +155,92 @@ export function Leaderboard({ currentWallet }: LeaderboardProps) {
         </button>
       </div>
 
-      {leaderboard.length === 0 ? (
+      <div className="flex gap-2">
+        {(['all-time', ...SEASON_PERIODS, 'daily'] as LeaderboardView[]).map(option => (
+          <button
+            key={option}
+            onClick={() => selectView(option)}
+            className={`flex-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+              view === option
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30'
+                : 'bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:bg-slate-800'
+            }`}
+          >
+            {VIEW_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {seasonPeriod && (
+        <div className="flex items-center gap-3">
+          <select
+            value={seasonId}
+            onChange={(e) => setSeasonId(e.target.value)}
+            aria-label="Season"
+            className="flex-1 px-3 py-2 rounded-lg bg-slate-900/50 border border-slate-700/50 text-sm text-white"
+          >
+            <option value="">{formatSeasonName(seasonPeriod, getSeasonId(seasonPeriod))}</option>
+            {pastSeasons.map(past => (
+              <option key={past.seasonId} value={past.seasonId}>
+                {formatSeasonName(seasonPeriod, past.seasonId)}
+              </option>
+            ))}
+          </select>
+          {season && season.period === seasonPeriod && (
+            <span className="text-xs text-slate-500">
+              {season.archived ? 'Final standings' : `Ends ${new Date(season.endsAt).toLocaleDateString()}`}
+            </span>
+          )}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
         <div className="p-8 text-center rounded-2xl bg-slate-800/30 border border-slate-700/50">
           <Trophy className="w-12 h-12 text-slate-600 mx-auto mb-3" />
-          <p className="text-slate-400">No players yet. Be the first!</p>
+          <p className="text-slate-400">{getEmptyMessage()}</p>
+        </div>
+      ) : view === 'daily' ? (
+        <div className="space-y-2">
+          {dailyLeaderboard.map((entry, index) => (
+            <motion.div
+              key={entry.walletAddress}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className={`p-4 rounded-xl bg-gradient-to-br border ${getRankColor(entry.rank)} ${
+                currentWallet === entry.walletAddress ? 'ring-2 ring-emerald-500/50' : ''
+              }`}
+            >
+              <div className="flex items-center gap-4">
+                <div className="flex-shrink-0 w-8 flex items-center justify-center">
+                  {getRankIcon(entry.rank)}
+                </div>
+                
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="font-mono text-sm text-white truncate">
+                      {shortenAddress(entry.walletAddress)}
+                    </p>
+                    {currentWallet === entry.walletAddress && (
+                      <span className="px-2 py-0.5 rounded text-xs bg-emerald-500/20 text-emerald-400">
+                        You
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm tracking-wider">{formatDailyMarks(entry.marks)}</div>
+                </div>
+                
+                <div className="text-right">
+                  <div className="text-lg text-cyan-400">{entry.correctCount}/{entry.totalRounds}</div>
+                  <div className="text-xs text-slate-500">{(entry.totalAnswerMs / 1000).toFixed(1)}s</div>
+                </div>
+              </div>
+            </motion.div>
+          ))}
         </div>
       ) : (
         <div className="space-y-2">
-          {leaderboard.map((entry, index) => (
+          {scoreEntries.map((entry, index) => (
             <motion.div
               key={entry.walletAddress}
               initial={{ opacity: 0, x: -20 }}
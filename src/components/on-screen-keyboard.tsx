@@ -0,0 +1,49 @@
+import { Delete } from 'lucide-react';
+
+interface OnScreenKeyboardProps {
+  onKey: (key: string) => void;
+  onBackspace: () => void;
+  disabled?: boolean;
+}
+
+// QWERTY letters, with the hyphen some words are spelled with (e.g. "on-chain")
+const KEY_ROWS = ['qwertyuiop', 'asdfghjkl-', 'zxcvbnm'];
+
+/**
+ * Large letter keyboard for the spelling input, for players who find typing hard
+ */
+export function OnScreenKeyboard({ onKey, onBackspace, disabled = false }: OnScreenKeyboardProps) {
+  const keyClass = 'onscreen-key flex-1 min-w-0 rounded-lg bg-slate-800 border border-slate-700 text-white text-2xl uppercase hover:bg-slate-700 transition-colors disabled:opacity-50';
+
+  return (
+    <div role="group" aria-label="On-screen keyboard" className="space-y-2">
+      {KEY_ROWS.map((row, rowIndex) => (
+        <div key={row} className="flex gap-1">
+          {row.split('').map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => onKey(key)}
+              disabled={disabled}
+              aria-label={key === '-' ? 'Hyphen' : key.toUpperCase()}
+              className={keyClass}
+            >
+              {key}
+            </button>
+          ))}
+          {rowIndex === KEY_ROWS.length - 1 && (
+            <button
+              type="button"
+              onClick={onBackspace}
+              disabled={disabled}
+              aria-label="Delete last letter"
+              className={`${keyClass} flex items-center justify-center`}
+            >
+              <Delete className="w-6 h-6" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
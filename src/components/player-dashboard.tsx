@@ -2,28 +2,76 @@ import { Leaderboard } from './leaderboard';
 import { TokenBalanceDisplay } from './token-balance-display';
 import { PlayerData } from '../App';
 import { isPhantomMobileApp, isSolflareMobileApp } from '../utils/mobile-wallet-adapter';
-import { useState } from 'react';
+import { DailyShareButton } from './daily-share-button';
+import { AchievementInbox } from './achievement-inbox';
+import {
+  fetchReviewStatus,
+  fetchMistakeSummary,
+  fetchDailyStatus,
+  ReviewStatus,
+  MistakeSummary,
+  DailyStatus,
+} from '../utils/api';
+import { REVIEW_REWARD_FACTOR, formatAnswerTime } from '../utils/word-lists';
+import { SPELLING_EDIT_TYPES, getSpellingEditName } from '../utils/spelling-diff';
+import { formatDailyMarks } from '../utils/daily-challenge';
+import { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
-import { Play, LogOut, Trophy, Star, Zap, Chrome, AlertCircle, Award, Coins } from 'lucide-react';
+import { Play, LogOut, Trophy, Star, Zap, Chrome, AlertCircle, Award, Coins, RotateCcw, CalendarDays, Swords, Accessibility, GraduationCap } from 'lucide-react';
 // import { SolanaConfigTest } from './solana-config-test'; // Admin only - not for players
 
 interface PlayerDashboardProps {
   playerData: PlayerData;
   onStartGame: () => void;
+  onStartReview?: () => void;
+  onStartDaily?: () => void;
+  onStartDuel?: () => void;
+  onViewTournaments?: () => void;
   onDisconnect: () => void;
   onViewAchievements?: () => void;
+  onViewAccessibility?: () => void;
   onClaimRewards?: () => void;
+  hasPendingClaim?: boolean; // A claim from this browser is still settling on-chain
   isClaiming?: boolean;
 }
 
-export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewAchievements, onClaimRewards, isClaiming }: PlayerDashboardProps) {
+export function PlayerDashboard({ playerData, onStartGame, onStartReview, onStartDaily, onStartDuel, onViewTournaments, onDisconnect, onViewAchievements, onViewAccessibility, onClaimRewards, hasPendingClaim, isClaiming }: PlayerDashboardProps) {
   const isInWalletBrowser = isPhantomMobileApp() || isSolflareMobileApp();
   const walletName = isPhantomMobileApp() ? 'Phantom' : 'Solflare';
   const [urlCopied, setUrlCopied] = useState(false);
   const [showUrlField, setShowUrlField] = useState(false);
   // const [showConfigTest, setShowConfigTest] = useState(false); // Removed - admin only
+  const [reviewStatus, setReviewStatus] = useState<ReviewStatus | null>(null);
+  const [mistakes, setMistakes] = useState<MistakeSummary | null>(null);
+  const [dailyStatus, setDailyStatus] = useState<DailyStatus | null>(null);
   const appUrl = typeof window !== 'undefined' ? window.location.href : '';
   
+  useEffect(() => {
+    fetchReviewStatus(playerData.walletAddress)
+      .then(setReviewStatus)
+      .catch(error => console.error('Failed to load review status:', error));
+    fetchMistakeSummary(playerData.walletAddress)
+      .then(setMistakes)
+      .catch(error => console.error('Failed to load mistake summary:', error));
+    fetchDailyStatus(playerData.walletAddress)
+      .then(setDailyStatus)
+      .catch(error => console.error('Failed to load daily challenge:', error));
+  }, [playerData.walletAddress]);
+  
+  // Kinds of spelling mistakes, most common first
+  const errorTypes = mistakes
+    ? SPELLING_EDIT_TYPES
+      .map(type => ({ type, count: mistakes.errorCounts[type] || 0 }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count)
+    : [];
+  const totalErrors = errorTypes.reduce((total, { count }) => total + count, 0);
+  
+  const dailyEntry = dailyStatus?.entry;
+  const hoursToNextDaily = dailyStatus
+    ? Math.max(1, Math.ceil((new Date(dailyStatus.resetsAt).getTime() - Date.now()) / (60 * 60 * 1000)))
+    : 0;
+  
   const copyUrlToClipboard = async () => {
     try {
       // Try modern Clipboard API first
@@ -58,6 +106,10 @@ export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewA
             <p className="font-mono text-sm text-slate-400">{playerData.walletAddress}</p>
           </div>
           <div className="flex items-center gap-3">
+            <AchievementInbox
+              walletAddress={playerData.walletAddress}
+              onViewAchievements={onViewAchievements}
+            />
             {onViewAchievements && (
               <motion.button
                 whileHover={{ scale: 1.05 }}
@@ -69,6 +121,18 @@ export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewA
                 <span className="hidden md:inline">Achievements</span>
               </motion.button>
             )}
+            {onViewAccessibility && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={onViewAccessibility}
+                aria-label="Accessibility settings"
+                className="px-4 py-2 rounded-lg bg-sky-500/10 text-sky-400 border border-sky-500/30 hover:border-sky-500/50 transition-all flex items-center gap-2"
+              >
+                <Accessibility className="w-4 h-4" />
+                <span className="hidden md:inline">Accessibility</span>
+              </motion.button>
+            )}
             {/* <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -218,11 +282,84 @@ export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewA
                   </div>
                   <div className="text-sm text-slate-400">Avg WMINT/Game</div>
                 </div>
+                <div>
+                  <div className="text-2xl text-white mb-1">
+                    {playerData.fastestCorrectMs !== undefined ? formatAnswerTime(playerData.fastestCorrectMs) : '—'}
+                  </div>
+                  <div className="text-sm text-slate-400">Fastest Correct</div>
+                </div>
               </div>
             </motion.div>
 
+            {/* Guest practice imported when the player was created; kept apart from the stats above */}
+            {playerData.practiceStats && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.21 }}
+                className="p-6 rounded-2xl bg-slate-800/30 border border-slate-700/50"
+              >
+                <h2 className="flex items-center gap-2 text-lg text-slate-300 mb-4">
+                  <GraduationCap className="w-5 h-5 text-emerald-400" />
+                  Practice
+                </h2>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-2xl text-white mb-1">{playerData.practiceStats.gamesPlayed}</div>
+                    <div className="text-sm text-slate-400">Games Played</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl text-white mb-1">
+                      {playerData.practiceStats.wordsCorrect}/{playerData.practiceStats.wordsAttempted}
+                    </div>
+                    <div className="text-sm text-slate-400">Words Correct</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl text-white mb-1">{playerData.practiceStats.bestStreak}</div>
+                    <div className="text-sm text-slate-400">Best Streak</div>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-4">
+                  Imported from this browser on {new Date(playerData.practiceStats.importedAt).toLocaleDateString()}. Practice never counts towards WMINT, streaks or levels.
+                </p>
+              </motion.div>
+            )}
+
+            {/* Common Mistakes */}
+            {mistakes && totalErrors > 0 && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.22 }}
+                className="p-6 rounded-2xl bg-slate-800/30 border border-slate-700/50"
+              >
+                <h2 className="text-lg text-slate-300 mb-4">Common Mistakes</h2>
+                <div className="space-y-3">
+                  {errorTypes.map(({ type, count }) => (
+                    <div key={type}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-slate-300">{getSpellingEditName(type)}</span>
+                        <span className="text-slate-400">{count}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-slate-800">
+                        <div
+                          className="h-1.5 rounded-full bg-gradient-to-r from-rose-500 to-amber-500"
+                          style={{ width: `${(count / totalErrors) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {mistakes.mostMissed.length > 0 && (
+                  <p className="text-sm text-slate-400 mt-4">
+                    Most missed: {mistakes.mostMissed.slice(0, 3).map(({ word }) => word).join(', ')}
+                  </p>
+                )}
+              </motion.div>
+            )}
+
             {/* Claim Rewards Button */}
-            {onClaimRewards && playerData.score > 0 && (
+            {onClaimRewards && (playerData.score > 0 || hasPendingClaim) && (
               <motion.button
                 initial={{ opacity: 0, scale: 0.95 }}
                 animate={{ opacity: 1, scale: 1 }}
@@ -247,7 +384,11 @@ export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewA
                 />
                 <Coins className="w-6 h-6 relative z-10" />
                 <span className="relative z-10">
-                  {isClaiming ? 'Minting Tokens...' : `Claim ${playerData.score.toLocaleString()} WMINT`}
+                  {isClaiming
+                    ? 'Minting Tokens...'
+                    : hasPendingClaim
+                      ? 'Check Pending Claim'
+                      : `Claim ${playerData.score.toLocaleString()} WMINT`}
                 </span>
               </motion.button>
             )}
@@ -265,6 +406,119 @@ export function PlayerDashboard({ playerData, onStartGame, onDisconnect, onViewA
               <Play className="w-6 h-6" />
               <span>Start Game</span>
             </motion.button>
+
+            {/* Duel */}
+            {onStartDuel && (
+              <motion.button
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.32 }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onStartDuel}
+                className="w-full py-4 rounded-2xl bg-violet-500/10 border border-violet-500/20 text-violet-300 hover:border-violet-500/40 transition-all flex items-center justify-center gap-3"
+              >
+                <Swords className="w-5 h-5" />
+                <span>Duel a Player</span>
+              </motion.button>
+            )}
+
+            {/* Tournaments */}
+            {onViewTournaments && (
+              <motion.button
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.325 }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onViewTournaments}
+                className="w-full py-4 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-amber-300 hover:border-amber-500/40 transition-all flex items-center justify-center gap-3"
+              >
+                <Trophy className="w-5 h-5" />
+                <span>Tournaments</span>
+              </motion.button>
+            )}
+
+            {/* Daily Challenge */}
+            {onStartDaily && dailyStatus && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.33 }}
+                className="p-6 rounded-2xl bg-cyan-500/10 border border-cyan-500/20 flex items-center justify-between gap-4"
+              >
+                <div>
+                  <h2 className="text-lg text-cyan-300 mb-1">
+                    {dailyEntry?.completedAt
+                      ? `Daily Challenge: ${dailyEntry.correctCount}/${dailyEntry.totalRounds}`
+                      : 'Daily Challenge'}
+                  </h2>
+                  {dailyEntry?.completedAt ? (
+                    <p className="text-sm text-slate-400">
+                      <span className="tracking-wider mr-2">{formatDailyMarks(dailyEntry.marks || [])}</span>
+                      Next challenge in {hoursToNextDaily}h
+                    </p>
+                  ) : (
+                    <p className="text-sm text-slate-400">
+                      {dailyEntry
+                        ? `Today's attempt is used • Next challenge in ${hoursToNextDaily}h`
+                        : "Today's words, the same for everyone • One attempt"}
+                    </p>
+                  )}
+                </div>
+                {dailyEntry?.completedAt ? (
+                  <DailyShareButton
+                    date={dailyEntry.date}
+                    marks={dailyEntry.marks || []}
+                    totalAnswerMs={dailyEntry.totalAnswerMs || 0}
+                  />
+                ) : (
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={onStartDaily}
+                    disabled={!!dailyEntry}
+                    className="px-4 py-2 rounded-lg bg-cyan-500/20 text-cyan-300 border border-cyan-500/30 hover:border-cyan-500/50 transition-all flex items-center gap-2 flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                    <span>Play</span>
+                  </motion.button>
+                )}
+              </motion.div>
+            )}
+
+            {/* Review Missed Words */}
+            {onStartReview && reviewStatus && reviewStatus.totalCards > 0 && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.35 }}
+                className="p-6 rounded-2xl bg-rose-500/10 border border-rose-500/20 flex items-center justify-between gap-4"
+              >
+                <div>
+                  <h2 className="text-lg text-rose-300 mb-1">
+                    {reviewStatus.dueCount > 0
+                      ? `${reviewStatus.dueCount} ${reviewStatus.dueCount === 1 ? 'word' : 'words'} due for review`
+                      : 'All caught up'}
+                  </h2>
+                  <p className="text-sm text-slate-400">
+                    {reviewStatus.dueCount > 0 || !reviewStatus.nextDueAt
+                      ? `Practice the words you missed • ${REVIEW_REWARD_FACTOR * 100}% WMINT`
+                      : `Next review ${new Date(reviewStatus.nextDueAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={onStartReview}
+                  disabled={reviewStatus.dueCount === 0}
+                  className="px-4 py-2 rounded-lg bg-rose-500/20 text-rose-300 border border-rose-500/30 hover:border-rose-500/50 transition-all flex items-center gap-2 flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Review</span>
+                </motion.button>
+              </motion.div>
+            )}
           </div>
 
           {/* Right Column - Leaderboard */}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { GraduationCap, ArrowLeft, Wallet, RotateCcw, CheckCircle2, XCircle } from 'lucide-react';
+import { GameScreen } from './game-screen';
+import { ResultScreen } from './result-screen';
+import { DifficultySelector } from './difficulty-selector';
+import { DifficultyMode, WordTier, getTimeLimitForDifficulty } from '../utils/word-lists';
+import {
+  PracticeRound,
+  PracticeStats,
+  PRACTICE_TIERS,
+  EMPTY_PRACTICE_STATS,
+  createPracticeRounds,
+  gradePracticeRound,
+  addPracticeGame,
+  loadGuestStats,
+  saveGuestStats,
+} from '../utils/practice';
+
+interface PracticeModeProps {
+  onConnectWallet: () => void;
+  onExit: () => void;
+}
+
+type PracticePhase = 'select' | 'playing' | 'result' | 'summary';
+
+/**
+ * Guest practice: pick a tier, play a game graded in the browser, see how it went
+ * Nothing reaches the server; the running stats are kept in localStorage.
+ */
+export function PracticeMode({ onConnectWallet, onExit }: PracticeModeProps) {
+  const [phase, setPhase] = useState<PracticePhase>('select');
+  const [tier, setTier] = useState<WordTier>('easy');
+  const [rounds, setRounds] = useState<PracticeRound[]>([]);
+  const [currentRound, setCurrentRound] = useState(0);
+  const [stats, setStats] = useState<PracticeStats>(() => loadGuestStats() || EMPTY_PRACTICE_STATS);
+
+  const round = rounds[currentRound];
+  const isLastRound = currentRound === rounds.length - 1;
+
+  const handleStart = (difficulty: DifficultyMode) => {
+    const selected = difficulty as WordTier;
+    setTier(selected);
+    setRounds(createPracticeRounds(selected));
+    setCurrentRound(0);
+    setPhase('playing');
+  };
+
+  const handleSubmit = (answer: string) => {
+    const graded = rounds.map((candidate, index) =>
+      index === currentRound ? gradePracticeRound(candidate, answer) : candidate
+    );
+    setRounds(graded);
+
+    if (currentRound === graded.length - 1) {
+      const updated = addPracticeGame(stats, graded);
+      setStats(updated);
+      saveGuestStats(updated);
+    }
+    setPhase('result');
+  };
+
+  const handleContinue = () => {
+    if (isLastRound) {
+      setPhase('summary');
+      return;
+    }
+    setCurrentRound(currentRound + 1);
+    setPhase('playing');
+  };
+
+  if (phase === 'playing' && round) {
+    return (
+      <GameScreen
+        key={`${currentRound}-${round.word}`}
+        letters={round.word.length}
+        word={round.word}
+        definition={round.definition ?? null}
+        sentence={round.sentence ?? null}
+        roundNumber={currentRound + 1}
+        totalRounds={rounds.length}
+        timeLimit={getTimeLimitForDifficulty(tier)}
+        onSubmit={handleSubmit}
+        onBack={() => setPhase('select')}
+        level={1}
+        difficulty={tier}
+        pendingScore={0}
+        practice
+      />
+    );
+  }
+
+  if (phase === 'result' && round) {
+    return (
+      <ResultScreen
+        isCorrect={!!round.correct}
+        word={round.word}
+        pointsEarned={0}
+        roundNumber={currentRound + 1}
+        totalRounds={rounds.length}
+        isLastRound={isLastRound}
+        diff={round.diff}
+        practice
+        onContinue={handleContinue}
+      />
+    );
+  }
+
+  const correctCount = rounds.filter(candidate => candidate.correct).length;
+  const accuracy = stats.wordsAttempted > 0 ? Math.round((stats.wordsCorrect / stats.wordsAttempted) * 100) : 0;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-8">
+      <div className="max-w-4xl w-full p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-emerald-500/20 border border-emerald-500/30 flex items-center justify-center">
+            <GraduationCap className="w-6 h-6 text-emerald-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl text-white">Practice Mode</h2>
+            <p className="text-sm text-slate-400">No wallet needed • Nothing is earned or saved online</p>
+          </div>
+        </div>
+
+        {phase === 'summary' && (
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-4">
+            <p className="text-3xl text-center text-white">
+              {correctCount}/{rounds.length} correct
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {rounds.map((candidate, index) => (
+                <div key={index} className="flex items-center gap-2 p-3 rounded-xl bg-slate-900/50 border border-slate-700/50">
+                  {candidate.correct ? (
+                    <CheckCircle2 className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                  )}
+                  <span className="text-white">{candidate.word}</span>
+                  {!candidate.correct && candidate.answer?.trim() && (
+                    <span className="text-sm text-slate-500 line-through truncate">{candidate.answer}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {stats.gamesPlayed > 0 && (
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 rounded-xl bg-slate-900/50 border border-slate-700/50">
+              <p className="text-2xl text-emerald-400">{stats.gamesPlayed}</p>
+              <p className="text-xs text-slate-500">Practice games</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-900/50 border border-slate-700/50">
+              <p className="text-2xl text-emerald-400">{accuracy}%</p>
+              <p className="text-xs text-slate-500">Accuracy</p>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-900/50 border border-slate-700/50">
+              <p className="text-2xl text-emerald-400">{stats.bestStreak}</p>
+              <p className="text-xs text-slate-500">Best streak</p>
+            </div>
+          </div>
+        )}
+
+        {/* Connect prompt: the landing page offers to bring these stats along */}
+        {phase === 'summary' && (
+          <div className="p-4 rounded-2xl bg-emerald-500/10 border border-emerald-500/20 space-y-3">
+            <p className="text-white">Ready to earn WMINT for every word you spell?</p>
+            <p className="text-sm text-slate-400">
+              Connect a wallet to play for real rewards, streaks and achievements. You can bring your practice stats with you.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                onClick={onConnectWallet}
+                className="py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-500 text-white flex items-center justify-center gap-2"
+              >
+                <Wallet className="w-5 h-5" />
+                <span>Connect Wallet</span>
+              </button>
+              <button
+                onClick={() => setPhase('select')}
+                className="py-3 rounded-xl bg-slate-800/50 border border-slate-700/50 text-slate-300 flex items-center justify-center gap-2"
+              >
+                <RotateCcw className="w-5 h-5" />
+                <span>Practice Again</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'select' && (
+          <DifficultySelector
+            selectedDifficulty={tier}
+            onSelect={handleStart}
+            availableDifficulties={PRACTICE_TIERS}
+          />
+        )}
+
+        <button
+          onClick={onExit}
+          className="w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors flex items-center justify-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back</span>
+        </button>
+      </div>
+    </div>
+  );
+}
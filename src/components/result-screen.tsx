@@ -1,15 +1,49 @@
 import { CheckCircle2, XCircle, ArrowRight, ExternalLink } from 'lucide-react';
 import { motion } from 'motion/react';
+import { SpellingDiffView } from './spelling-diff-view';
+import { SpellingDiffOp } from '../utils/spelling-diff';
+import { formatAnswerTime } from '../utils/word-lists';
 
 interface ResultScreenProps {
   isCorrect: boolean;
   word: string;
   pointsEarned: number;
   txSignature?: string | null;
+  roundNumber?: number;
+  totalRounds?: number;
+  isLastRound?: boolean;
+  isNearMiss?: boolean; // Misspelled, but earned partial credit
+  answerMs?: number; // Time to answer, as measured by the server
+  speedMultiplier?: number; // Speed bonus on the base reward
+  addedToReview?: boolean; // The missed word was added to the player's review deck
+  diff?: SpellingDiffOp[] | null; // Letter diff of a misspelled answer
+  practice?: boolean; // Guest practice: no WMINT to show
+  relaxed?: boolean; // Untimed game, reduced reward
+  announce?: boolean; // Read the result out to screen readers
   onContinue: () => void;
 }
 
-export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onContinue }: ResultScreenProps) {
+export function ResultScreen({
+  isCorrect,
+  word,
+  pointsEarned,
+  txSignature,
+  roundNumber,
+  totalRounds,
+  isLastRound = true,
+  isNearMiss = false,
+  answerMs,
+  speedMultiplier = 1,
+  addedToReview = false,
+  diff,
+  practice = false,
+  relaxed = false,
+  announce = false,
+  onContinue
+}: ResultScreenProps) {
+  const verdict = isCorrect ? 'Correct!' : isNearMiss ? 'So Close!' : 'Incorrect';
+  const earned = !practice && (isCorrect || isNearMiss) ? ` You earned ${pointsEarned} WMINT.` : '';
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4">
       <motion.div
@@ -18,6 +52,29 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
         transition={{ duration: 0.4 }}
         className="max-w-lg w-full"
       >
+        {announce && (
+          <p className="sr-only" role="alert">
+            {verdict} The word is {word}, spelled {word.split('').join(' ')}.{earned}
+          </p>
+        )}
+
+        {/* Round Progress */}
+        {roundNumber && totalRounds && (
+          <div className="mb-4 space-y-2">
+            <p className="text-sm text-slate-400 text-center">
+              Word {roundNumber} of {totalRounds}
+            </p>
+            <div className="flex gap-1">
+              {Array.from({ length: totalRounds }, (_, index) => (
+                <div
+                  key={index}
+                  className={`h-1.5 flex-1 rounded-full ${index < roundNumber ? 'bg-emerald-500' : 'bg-slate-800'}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Result Card */}
         <div className={`p-8 md:p-12 rounded-3xl border ${
           isCorrect 
@@ -51,7 +108,7 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
               isCorrect ? 'text-emerald-400' : 'text-red-400'
             }`}
           >
-            {isCorrect ? 'Correct!' : 'Incorrect'}
+            {verdict}
           </motion.h1>
 
           {/* Word Display */}
@@ -67,10 +124,20 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
             <p className="text-2xl md:text-3xl text-white text-center tracking-wide">
               {word}
             </p>
+            {!isCorrect && diff && diff.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-800">
+                <SpellingDiffView diff={diff} />
+              </div>
+            )}
           </motion.div>
 
           {/* WMINT Display */}
-          {isCorrect && (
+          {practice && isCorrect && (
+            <p className="mb-6 text-center text-sm text-slate-400">
+              Practice round • Connect a wallet to earn WMINT
+            </p>
+          )}
+          {!practice && (isCorrect || isNearMiss) && (
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -82,8 +149,17 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
                 <span className="text-2xl text-emerald-400">{pointsEarned}</span>
                 <span className="text-lg text-emerald-400">WMINT</span>
               </div>
+              {isCorrect && answerMs !== undefined && (
+                <p className="text-sm text-slate-300 mt-3">
+                  Answered in {formatAnswerTime(answerMs)}
+                  {speedMultiplier > 1 && (
+                    <span className="text-yellow-400"> • ⚡ ×{speedMultiplier} speed bonus</span>
+                  )}
+                </p>
+              )}
               <p className="text-xs text-slate-400 mt-3">
-                Tokens accumulated • Claim on dashboard
+                {isNearMiss ? 'Partial credit • Streak kept' : 'Tokens accumulated'}
+                {relaxed && ' • Relaxed mode'} • Claim {isLastRound ? 'on dashboard' : 'after the game'}
               </p>
             </motion.div>
           )}
@@ -97,8 +173,15 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
               className="mb-8 text-center"
             >
               <p className="text-slate-400">
-                Don't worry! Keep practicing to improve your streak.
+                {isNearMiss
+                  ? 'Only one slip away. Your streak is safe!'
+                  : "Don't worry! Keep practicing to improve your streak."}
               </p>
+              {addedToReview && (
+                <p className="text-sm text-rose-300 mt-2">
+                  Added to your review list
+                </p>
+              )}
             </motion.div>
           )}
 
@@ -116,7 +199,7 @@ export function ResultScreen({ isCorrect, word, pointsEarned, txSignature, onCon
                 : 'bg-gradient-to-r from-slate-700 to-slate-600 shadow-slate-700/20 hover:shadow-slate-700/30'
             }`}
           >
-            <span>{isCorrect ? 'Back to Dashboard' : 'Back to Dashboard'}</span>
+            <span>{isLastRound ? 'See Game Summary' : 'Next Word'}</span>
             <ArrowRight className="w-5 h-5" />
           </motion.button>
         </div>
@@ -1,11 +1,19 @@
-import { Trophy, Sparkles, TrendingUp, Play, Home, Coins } from 'lucide-react';
+import { Trophy, Sparkles, TrendingUp, Play, Home, Coins, CheckCircle2, XCircle } from 'lucide-react';
 import { motion } from 'motion/react';
+import { useCluster } from '../hooks/useCluster';
+import { getNetworkLabel } from '../utils/cluster';
+import { GameSummary } from '../utils/api';
+import { formatAnswerTime } from '../utils/word-lists';
+import { formatDailyMarks, getDailyRoundMark } from '../utils/daily-challenge';
+import { DailyShareButton } from './daily-share-button';
 
 interface RewardsScreenProps {
   pointsEarned: number;
   totalScore: number;
   level: number;
   streak: number;
+  summary?: GameSummary;
+  dailyDate?: string; // Set after a daily challenge, to offer the share grid
   onPlayAgain: () => void;
   onBackToDashboard: () => void;
   onClaimTokens?: () => void;
@@ -16,12 +24,15 @@ export function RewardsScreen({
   totalScore, 
   level, 
   streak,
+  summary,
+  dailyDate,
   onPlayAgain, 
   onBackToDashboard,
   onClaimTokens
 }: RewardsScreenProps) {
   // WMINT earned directly (already calculated in-game)
   const wmintEarned = pointsEarned;
+  const cluster = useCluster();
 
   return (
     <div className="min-h-screen flex items-center justify-center px-4 py-8">
@@ -55,7 +66,9 @@ export function RewardsScreen({
             transition={{ delay: 0.4 }}
             className="text-slate-400"
           >
-            Great job! Here's what you earned this round
+            {summary
+              ? `You spelled ${summary.correctCount} of ${summary.totalRounds} words correctly`
+              : "Great job! Here's what you earned this game"}
           </motion.p>
         </div>
 
@@ -93,6 +106,78 @@ export function RewardsScreen({
           </div>
         </motion.div>
 
+        {/* Round Summary */}
+        {summary && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.55 }}
+            className="mb-8 p-6 rounded-2xl bg-slate-800/30 border border-slate-700/50"
+          >
+            <h3 className="text-sm text-slate-400 mb-4">Round Summary</h3>
+            <div className="space-y-2">
+              {summary.rounds.map((round) => (
+                <div
+                  key={round.roundNumber}
+                  className="flex items-center gap-3 p-3 rounded-xl bg-slate-900/50"
+                >
+                  {round.correct ? (
+                    <CheckCircle2 className="w-5 h-5 text-emerald-400 flex-shrink-0" />
+                  ) : round.nearMiss ? (
+                    <CheckCircle2 className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">{round.word}</p>
+                    {!round.correct && (
+                      <p className="text-xs text-slate-500 truncate">
+                        {round.answer ? `You typed "${round.answer}"` : 'No answer'}
+                        {round.nearMiss && ' • Near miss, partial credit'}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className={`text-sm tabular-nums ${round.correct ? 'text-emerald-400' : round.nearMiss ? 'text-amber-400' : 'text-slate-500'}`}>
+                      +{round.wmintEarned}
+                    </span>
+                    {round.correct && round.answerMs !== null && (
+                      <p className="text-xs text-slate-500 tabular-nums">
+                        {formatAnswerTime(round.answerMs)}{round.speedMultiplier > 1 && ` ⚡×${round.speedMultiplier}`}
+                      </p>
+                    )}
+                    {round.hintCost > 0 && (
+                      <p className="text-xs text-amber-400 tabular-nums">
+                        -{round.hintCost} hints
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* Daily Challenge Result */}
+        {summary && dailyDate && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.58 }}
+            className="mb-8 p-6 rounded-2xl bg-cyan-500/10 border border-cyan-500/20 flex items-center justify-between gap-4"
+          >
+            <div>
+              <h3 className="text-sm text-cyan-300 mb-2">Daily Challenge {dailyDate}</h3>
+              <p className="text-2xl tracking-wider">{formatDailyMarks(summary.rounds.map(getDailyRoundMark))}</p>
+            </div>
+            <DailyShareButton
+              date={dailyDate}
+              marks={summary.rounds.map(getDailyRoundMark)}
+              totalAnswerMs={summary.rounds.reduce((total, round) => total + (round.answerMs || 0), 0)}
+            />
+          </motion.div>
+        )}
+
         {/* Blockchain Rewards */}
         {onClaimTokens && (
           <motion.div
@@ -112,7 +197,7 @@ export function RewardsScreen({
               <span className="text-2xl text-amber-400 font-bold">{wmintEarned.toFixed(2)} WMINT</span>
             </div>
             <p className="text-xs text-slate-500 mt-3">
-              Verifiable on Solana devnet • Real blockchain transaction
+              Verifiable on {getNetworkLabel(cluster)} • Real blockchain transaction
             </p>
           </motion.div>
         )}
@@ -8,6 +8,7 @@
 import React, { useState, useEffect } from 'react';
 import { AlertCircle, CheckCircle, Loader2, ExternalLink, Copy, RefreshCw } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { getExplorerUrl, getAddressExplorerUrl } from '../utils/cluster';
 
 interface ConfigStatus {
   loading: boolean;
@@ -255,7 +256,7 @@ export function SolanaConfigTest({ onClose }: { onClose: () => void }) {
                         <Copy className="w-4 h-4" />
                       </button>
                       <a
-                        href={`https://explorer.solana.com/address/${configStatus.mintAddress}?cluster=devnet`}
+                        href={getAddressExplorerUrl(configStatus.mintAddress)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-purple-400 hover:text-purple-300 transition-colors"
@@ -346,7 +347,7 @@ export function SolanaConfigTest({ onClose }: { onClose: () => void }) {
                               {mintTest.signature}
                             </code>
                             <a
-                              href={`https://explorer.solana.com/tx/${mintTest.signature}?cluster=devnet`}
+                              href={getExplorerUrl(mintTest.signature)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-green-400 hover:text-green-300 transition-colors"
@@ -0,0 +1,50 @@
+import { SpellingDiffOp, SpellingEditType, getSpellingEditName } from '../utils/spelling-diff';
+
+interface SpellingDiffViewProps {
+  diff: SpellingDiffOp[];
+}
+
+const EDIT_COLORS: Record<SpellingEditType, string> = {
+  insertion: 'text-red-400 bg-red-500/10',
+  deletion: 'text-emerald-400 bg-emerald-500/10',
+  substitution: 'text-amber-400 bg-amber-500/10',
+  transposition: 'text-sky-400 bg-sky-500/10',
+};
+
+/**
+ * The player's answer above the correct spelling, aligned letter by letter
+ * An empty slot marks a letter that is only on one side.
+ */
+export function SpellingDiffView({ diff }: SpellingDiffViewProps) {
+  const editTypes = [...new Set(diff.filter(op => op.type !== 'match').map(op => op.type as SpellingEditType))];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center flex-wrap gap-0.5 font-mono text-xl" aria-hidden="true">
+        {diff.map((op, index) => {
+          const typed = op.type === 'match' ? op.letter : op.type === 'deletion' ? '' : op.actual;
+          const correct = op.type === 'match' ? op.letter : op.type === 'insertion' ? '' : op.expected;
+          const color = op.type === 'match' ? 'text-slate-300' : EDIT_COLORS[op.type];
+
+          return (
+            <div key={index} className={`flex flex-col items-center px-1 rounded ${color}`}>
+              <span className={`min-w-[0.75rem] text-center ${op.type === 'insertion' ? 'line-through' : ''}`}>
+                {typed || '·'}
+              </span>
+              <span className="min-w-[0.75rem] text-center">{correct || '·'}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center flex-wrap gap-3 text-xs">
+        <span className="text-slate-500">Top: your answer • Bottom: correct</span>
+        {editTypes.map(type => (
+          <span key={type} className={EDIT_COLORS[type].split(' ')[0]}>
+            {getSpellingEditName(type)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
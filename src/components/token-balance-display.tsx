@@ -9,6 +9,8 @@ import { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
 import { Coins, RefreshCw, ExternalLink, AlertCircle, Loader } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { getAddressExplorerUrl, getNetworkLabel } from '../utils/cluster';
+import { useCluster } from '../hooks/useCluster';
 
 type BalanceState = 'loading' | 'loaded' | 'error' | 'zero';
 
@@ -29,6 +31,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const cluster = useCluster();
 
   useEffect(() => {
     fetchTokenInfo();
@@ -83,7 +86,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
   /**
    * BLOCKCHAIN INTERACTION: Fetch token balance from Solana
    * 
-   * Queries the user's associated token account on-chain
+   * The server queries the user's associated token account on its active cluster
    */
   const fetchBalance = async () => {
     if (!tokenInfo) return;
@@ -99,55 +102,22 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
       for (let attempt = 0; attempt < maxRetries; attempt++) {
         try {
           const response = await fetch(
-            `https://api.devnet.solana.com`,
+            `https://${projectId}.supabase.co/functions/v1/make-server-02a4aef8/token/balance/${walletAddress}`,
             {
-              method: 'POST',
               headers: {
-                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${publicAnonKey}`,
               },
-              body: JSON.stringify({
-                jsonrpc: '2.0',
-                id: 1,
-                method: 'getTokenAccountsByOwner',
-                params: [
-                  walletAddress,
-                  {
-                    mint: tokenInfo.mintAddress,
-                  },
-                  {
-                    encoding: 'jsonParsed',
-                  },
-                ],
-              }),
             }
           );
 
           const data = await response.json();
 
-          if (data.error) {
-            // Check if it's a "could not find mint" error
-            if (data.error.message?.includes('could not find mint')) {
-              // Mint doesn't exist yet - treat as zero balance
-              console.warn('Token mint not found on-chain yet, showing zero balance');
-              setBalance(0);
-              setBalanceState('zero');
-              return;
-            }
-            throw new Error(data.error.message);
+          if (!response.ok) {
+            throw new Error(data.error || 'Failed to fetch balance');
           }
 
-          if (data.result.value.length === 0) {
-            // No token account found = zero balance
-            setBalance(0);
-            setBalanceState('zero');
-          } else {
-            const tokenAccount = data.result.value[0];
-            const tokenAmount = tokenAccount.account.data.parsed.info.tokenAmount;
-            const balanceValue = parseFloat(tokenAmount.uiAmountString || '0');
-            
-            setBalance(balanceValue);
-            setBalanceState(balanceValue === 0 ? 'zero' : 'loaded');
-          }
+          setBalance(data.balance);
+          setBalanceState(data.balance === 0 ? 'zero' : 'loaded');
           
           // Success - exit retry loop
           return;
@@ -166,7 +136,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
       throw lastError;
     } catch (err: any) {
       console.error('Error fetching balance after retries:', err);
-      setError('Unable to fetch balance. Devnet may be slow.');
+      setError(`Unable to fetch balance. ${getNetworkLabel(cluster)} may be slow.`);
       setBalanceState('error');
       // Set balance to 0 on error (assume no balance)
       setBalance(0);
@@ -183,7 +153,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
   const openExplorer = () => {
     if (!tokenInfo) return;
     window.open(
-      `https://explorer.solana.com/address/${tokenInfo.mintAddress}?cluster=devnet`,
+      getAddressExplorerUrl(tokenInfo.mintAddress),
       '_blank'
     );
   };
@@ -198,7 +168,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
           </div>
           <div>
             <h3 className="text-white font-medium">Token Balance</h3>
-            <p className="text-xs text-slate-400">SPL Token on Devnet</p>
+            <p className="text-xs text-slate-400">SPL Token on {cluster.fakeLedger ? 'Local Test Ledger' : cluster.label}</p>
           </div>
         </div>
         
@@ -258,7 +228,7 @@ export function TokenBalanceDisplay({ walletAddress }: TokenBalanceDisplayProps)
             <div className="flex items-center justify-between text-xs">
               <span className="text-slate-500">Network</span>
               <div className="px-2 py-0.5 rounded-full bg-emerald-500/20 border border-emerald-500/30">
-                <span className="text-emerald-300">Solana Devnet</span>
+                <span className="text-emerald-300">{getNetworkLabel(cluster)}</span>
               </div>
             </div>
           </div>
@@ -19,6 +19,9 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { getExplorerUrl, getNetworkLabel } from '../utils/cluster';
+import { getExplorerTxUrl } from '../utils/cluster-config';
+import { useCluster } from '../hooks/useCluster';
 
 export type TokenClaimState = 
   | 'calculating'      // Calculating reward amount
@@ -67,6 +70,7 @@ export function TokenRewardScreen({
   const [transactionData, setTransactionData] = useState<TransactionData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copiedSignature, setCopiedSignature] = useState(false);
+  const cluster = useCluster();
 
   // Get transaction signature from parent component
   useEffect(() => {
@@ -79,7 +83,7 @@ export function TokenRewardScreen({
       setTransactionData({
         signature: txSig,
         mintAddress: mintAddr || 'Unknown',
-        explorerUrl: `https://explorer.solana.com/tx/${txSig}?cluster=devnet`,
+        explorerUrl: getExplorerUrl(txSig),
       });
     }
     
@@ -183,7 +187,7 @@ export function TokenRewardScreen({
               </h2>
               <p className="text-slate-400 mb-6">
                 {claimState === 'pending' 
-                  ? 'Transaction submitted to Solana devnet...'
+                  ? `Transaction submitted to ${getNetworkLabel(cluster)}...`
                   : 'Waiting for blockchain confirmation...'}
               </p>
 
@@ -208,7 +212,7 @@ export function TokenRewardScreen({
               </div>
 
               <p className="text-xs text-slate-500">
-                Solana devnet transactions typically confirm in 1-2 seconds
+                {getNetworkLabel(cluster)} transactions typically confirm in 1-2 seconds
               </p>
             </div>
           )}
@@ -243,7 +247,7 @@ export function TokenRewardScreen({
                   {/* Network Badge */}
                   <div className="flex items-center justify-center gap-2">
                     <div className="px-3 py-1 rounded-full bg-emerald-500/20 border border-emerald-500/30">
-                      <span className="text-xs text-emerald-300 font-medium">Solana Devnet</span>
+                      <span className="text-xs text-emerald-300 font-medium">{getNetworkLabel(cluster)}</span>
                     </div>
                   </div>
                 </div>
@@ -281,7 +285,7 @@ export function TokenRewardScreen({
 
                 {/* Explorer Link */}
                 <a
-                  href={transactionData.explorerUrl}
+                  href={getExplorerTxUrl(cluster, transactionData.signature)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="block p-4 rounded-xl bg-blue-500/10 border border-blue-500/20 hover:bg-blue-500/20 transition-all group"
@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { Trophy, ArrowLeft, Play, UserPlus, Clock, Medal } from 'lucide-react';
+import { signInWithWallet } from '../utils/auth';
+import { shortenAddress } from '../utils/wallet';
+import { getDifficultyColor, getDifficultyName, formatAnswerTime } from '../utils/word-lists';
+import { TournamentTurnState } from '../utils/tournaments';
+import {
+  fetchTournament,
+  registerForTournament,
+  TournamentInfo,
+  TournamentMatch,
+  TournamentBracketPlayer,
+} from '../utils/api';
+import { TournamentStatusBadge, formatTournamentTime } from './tournament-list';
+
+interface TournamentDetailProps {
+  walletAddress: string;
+  tournamentId: string;
+  isStarting?: boolean; // A round game is being started
+  onPlay: (tournamentId: string) => void;
+  onBack: () => void;
+}
+
+// What to tell the player about their place in the tournament
+const TURN_MESSAGES: Record<TournamentTurnState, string> = {
+  unregistered: 'Register before the tournament starts to take part.',
+  registered: "You're registered! Your first game opens when the tournament starts.",
+  cancelled: 'This tournament was cancelled: not enough players registered.',
+  waiting: 'You made it through! Your next round opens soon.',
+  ready: 'Your round is open. Play your game before it closes!',
+  played: 'Game played. Waiting for your opponent or for the round to close.',
+  missed: 'The round closed before you played. Your match is decided when the round is scored.',
+  eliminated: 'You were knocked out. Thanks for playing!',
+  champion: 'You won the tournament! 🏆',
+};
+
+function getPlaceLabel(place: number): string {
+  return ['1st', '2nd', '3rd'][place - 1] || `${place}th`;
+}
+
+/**
+ * A tournament's schedule, bracket and standings, with the player's next step
+ */
+export function TournamentDetail({ walletAddress, tournamentId, isStarting, onPlay, onBack }: TournamentDetailProps) {
+  const [tournament, setTournament] = useState<TournamentInfo | null>(null);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTournament(tournamentId, walletAddress)
+      .then(setTournament)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load tournament'));
+  }, [tournamentId, walletAddress]);
+
+  const handleRegister = async () => {
+    setIsRegistering(true);
+    setError(null);
+    try {
+      await signInWithWallet(walletAddress);
+      setTournament(await registerForTournament(tournamentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to register');
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 px-4">
+        {error ? (
+          <p className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</p>
+        ) : (
+          <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+        )}
+        <button onClick={onBack} className="text-slate-400 hover:text-slate-300">Back to Tournaments</button>
+      </div>
+    );
+  }
+
+  const colors = getDifficultyColor(tournament.difficulty);
+  const turn = tournament.turn;
+  const isFull = tournament.entrantCount >= tournament.maxPlayers;
+  const currentStage = turn?.stage !== null && turn?.stage !== undefined ? tournament.stages[turn.stage] : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-8">
+      <div className="max-w-4xl w-full p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm space-y-6">
+        <div className="flex items-start gap-3">
+          <div className="w-12 h-12 rounded-xl bg-amber-500/20 border border-amber-500/30 flex items-center justify-center flex-shrink-0">
+            <Trophy className="w-6 h-6 text-amber-400" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h2 className="text-2xl text-white">{tournament.name}</h2>
+              <TournamentStatusBadge status={tournament.status} />
+            </div>
+            <p className="text-sm text-slate-400">
+              <span className={colors.text}>{getDifficultyName(tournament.difficulty)}</span>
+              {' '}• {tournament.packName} • {tournament.entrantCount}/{tournament.maxPlayers} players
+            </p>
+            <p className="text-sm text-slate-500 flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {formatTournamentTime(tournament.startsAt)} – {formatTournamentTime(tournament.endsAt)}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <p className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</p>
+        )}
+
+        {/* Prizes */}
+        <div className="grid grid-cols-3 gap-3">
+          {tournament.prizes.map((prize, index) => (
+            <div key={index} className="p-3 rounded-xl bg-slate-900/50 border border-slate-700/50 text-center">
+              <p className="text-xs text-slate-500">{getPlaceLabel(index + 1)}</p>
+              <p className="text-lg text-amber-300">{prize.toLocaleString()} WMINT</p>
+            </div>
+          ))}
+        </div>
+
+        {/* The player's next step */}
+        {turn && (
+          <div className="p-4 rounded-2xl bg-amber-500/10 border border-amber-500/20 space-y-3">
+            <p className="text-white">{TURN_MESSAGES[turn.state]}</p>
+            {currentStage && (turn.state === 'waiting' || turn.state === 'ready') && (
+              <p className="text-sm text-slate-400">
+                {currentStage.name}: {formatTournamentTime(currentStage.startsAt)} – {formatTournamentTime(currentStage.endsAt)}
+              </p>
+            )}
+            {turn.state === 'unregistered' && tournament.status === 'registration' && (
+              <button
+                onClick={handleRegister}
+                disabled={isRegistering || isFull}
+                className="w-full py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <UserPlus className="w-5 h-5" />
+                <span>{isFull ? 'Tournament Full' : isRegistering ? 'Registering…' : 'Register'}</span>
+              </button>
+            )}
+            {turn.state === 'ready' && (
+              <button
+                onClick={() => onPlay(tournament.id)}
+                disabled={isStarting}
+                className="w-full py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-5 h-5" />
+                <span>{isStarting ? 'Starting…' : `Play ${currentStage?.name || 'Round'}`}</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Final standings */}
+        {tournament.standings.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-white flex items-center gap-2">
+              <Medal className="w-5 h-5 text-amber-400" />
+              <span>Final Standings</span>
+            </h3>
+            {tournament.standings.map(standing => {
+              const payout = tournament.payouts.find(entry => entry.walletAddress === standing.walletAddress);
+              return (
+                <div
+                  key={standing.walletAddress}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${
+                    standing.walletAddress === walletAddress
+                      ? 'bg-amber-500/10 border-amber-500/30'
+                      : 'bg-slate-900/50 border-slate-700/50'
+                  }`}
+                >
+                  <span className="w-10 text-slate-400">{getPlaceLabel(standing.place)}</span>
+                  <span className="flex-1 text-white font-mono text-sm">{shortenAddress(standing.walletAddress)}</span>
+                  {standing.prize > 0 && (
+                    <span className="text-sm text-amber-300">
+                      {standing.prize} WMINT
+                      <span className="text-xs text-slate-500 ml-2">
+                        {payout?.status === 'confirmed' ? 'Paid' : 'Payout pending'}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Bracket */}
+        {tournament.stages.length > 0 && (
+          <div className="overflow-x-auto">
+            <div className="flex gap-4 min-w-max">
+              {tournament.stages.map(stage => (
+                <div key={stage.stage} className="w-56 space-y-3">
+                  <div>
+                    <p className="text-white">{stage.name}</p>
+                    <p className="text-xs text-slate-500">Closes {formatTournamentTime(stage.endsAt)}</p>
+                  </div>
+                  {stage.matches.map((match, index) => (
+                    <BracketMatchCard key={index} match={match} walletAddress={walletAddress} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {tournament.status === 'registration' && tournament.entrants.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-white">Registered Players</h3>
+            <div className="flex flex-wrap gap-2">
+              {tournament.entrants.map(entrant => (
+                <span key={entrant.walletAddress} className="px-2 py-1 rounded-lg bg-slate-900/50 text-xs text-slate-300 font-mono">
+                  {shortenAddress(entrant.walletAddress)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={onBack}
+          className="w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors flex items-center justify-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Tournaments</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function BracketMatchCard({ match, walletAddress }: { match: TournamentMatch; walletAddress: string }) {
+  // A decided match with a single player was a bye
+  const isBye = match.decided && match.players.filter(Boolean).length === 1;
+
+  const renderPlayer = (player: TournamentBracketPlayer | null, index: number) => {
+    if (!player) {
+      return (
+        <div key={index} className="px-3 py-2 text-sm text-slate-600">
+          {isBye ? 'Bye' : 'TBD'}
+        </div>
+      );
+    }
+
+    const isWinner = match.decided && match.winner === player.walletAddress;
+    const isLoser = match.decided && !isWinner;
+    return (
+      <div
+        key={index}
+        className={`px-3 py-2 flex items-center gap-2 text-sm ${isLoser ? 'opacity-50' : ''} ${
+          player.walletAddress === walletAddress ? 'bg-amber-500/10' : ''
+        }`}
+      >
+        <span className="text-xs text-slate-500 w-5">{player.seed}</span>
+        <span className={`flex-1 font-mono ${isWinner ? 'text-amber-300' : 'text-slate-300'}`}>
+          {shortenAddress(player.walletAddress)}
+        </span>
+        {player.correctCount !== null ? (
+          <span className="text-xs text-slate-400" title={formatAnswerTime(player.totalAnswerMs || 0)}>
+            {player.correctCount} ✓
+          </span>
+        ) : player.played ? (
+          <span className="text-xs text-slate-500">playing</span>
+        ) : null}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl bg-slate-900/50 border border-slate-700/50 divide-y divide-slate-700/50 overflow-hidden">
+      {match.players.map(renderPlayer)}
+    </div>
+  );
+}
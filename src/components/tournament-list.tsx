@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { Trophy, Users, Calendar, ArrowLeft, Plus, ChevronRight } from 'lucide-react';
+import { signInWithWallet } from '../utils/auth';
+import { WordTier, getDifficultyColor, getDifficultyName } from '../utils/word-lists';
+import { BUILT_IN_PACK_ID, WordPackSummary } from '../utils/word-packs';
+import { TournamentStatus, TOURNAMENT_SIZES, TOURNAMENT_TIERS, DEFAULT_TOURNAMENT_SIZE } from '../utils/tournaments';
+import { fetchTournaments, fetchWordPacks, createTournament, TournamentSummary } from '../utils/api';
+
+interface TournamentListProps {
+  walletAddress: string;
+  onSelect: (tournamentId: string) => void;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<TournamentStatus, { label: string; className: string }> = {
+  registration: { label: 'Registration open', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' },
+  live: { label: 'Live', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  finished: { label: 'Finished', className: 'bg-slate-700/50 text-slate-300 border-slate-600/50' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+};
+
+export function formatTournamentTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TournamentStatusBadge({ status }: { status: TournamentStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-xs ${style.className}`}>{style.label}</span>
+  );
+}
+
+/**
+ * Scheduled tournaments, open and live ones first
+ * Admins also get a form to schedule a new one.
+ */
+export function TournamentList({ walletAddress, onSelect, onBack }: TournamentListProps) {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [canCreate, setCanCreate] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const result = await fetchTournaments(walletAddress);
+      setTournaments(result.tournaments);
+      setCanCreate(result.canCreate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tournaments');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [walletAddress]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 py-8">
+      <div className="max-w-2xl w-full p-8 rounded-3xl bg-slate-800/30 border border-slate-700/50 backdrop-blur-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-xl bg-amber-500/20 border border-amber-500/30 flex items-center justify-center">
+            <Trophy className="w-6 h-6 text-amber-400" />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-2xl text-white">Tournaments</h2>
+            <p className="text-sm text-slate-400">Knockout brackets • Prize pools paid in WMINT</p>
+          </div>
+          {canCreate && !showCreate && (
+            <button
+              onClick={() => setShowCreate(true)}
+              className="px-3 py-2 rounded-lg bg-amber-500/20 border border-amber-500/30 text-amber-300 text-sm flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New</span>
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</p>
+        )}
+
+        {showCreate && (
+          <TournamentCreateForm
+            walletAddress={walletAddress}
+            onCreated={(tournamentId) => {
+              setShowCreate(false);
+              onSelect(tournamentId);
+            }}
+            onCancel={() => setShowCreate(false)}
+          />
+        )}
+
+        {isLoading ? (
+          <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        ) : tournaments.length === 0 ? (
+          <p className="text-center text-slate-400">No tournaments scheduled yet. Check back soon!</p>
+        ) : (
+          <div className="space-y-3">
+            {tournaments.map((tournament, index) => {
+              const colors = getDifficultyColor(tournament.difficulty);
+              return (
+                <motion.button
+                  key={tournament.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  onClick={() => onSelect(tournament.id)}
+                  className="w-full p-4 rounded-2xl bg-slate-900/50 border border-slate-700/50 hover:border-amber-500/40 transition-all text-left flex items-center gap-4"
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-white truncate">{tournament.name}</span>
+                      <TournamentStatusBadge status={tournament.status} />
+                    </div>
+                    <p className="text-sm text-slate-400 flex items-center gap-3 flex-wrap">
+                      <span className={colors.text}>{getDifficultyName(tournament.difficulty)}</span>
+                      <span className="flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {tournament.entrantCount}/{tournament.maxPlayers}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {formatTournamentTime(tournament.startsAt)}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-amber-300">{tournament.prizePool.toLocaleString()}</p>
+                    <p className="text-xs text-slate-500">WMINT pool</p>
+                  </div>
+                  <ChevronRight className="w-5 h-5 text-slate-500 flex-shrink-0" />
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={onBack}
+          className="w-full py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors flex items-center justify-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Dashboard</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface TournamentCreateFormProps {
+  walletAddress: string;
+  onCreated: (tournamentId: string) => void;
+  onCancel: () => void;
+}
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Admin form for scheduling a tournament; the server validates every field
+ */
+function TournamentCreateForm({ walletAddress, onCreated, onCancel }: TournamentCreateFormProps) {
+  const [packs, setPacks] = useState<WordPackSummary[]>([]);
+  const [name, setName] = useState('');
+  const [packId, setPackId] = useState(BUILT_IN_PACK_ID);
+  const [difficulty, setDifficulty] = useState<WordTier>('normal');
+  const [prizePool, setPrizePool] = useState(100);
+  const [maxPlayers, setMaxPlayers] = useState(DEFAULT_TOURNAMENT_SIZE);
+  const [startsAt, setStartsAt] = useState(() => toLocalInputValue(new Date(Date.now() + 24 * 60 * 60 * 1000)));
+  const [endsAt, setEndsAt] = useState(() => toLocalInputValue(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWordPacks().then(result => setPacks(result.packs)).catch(() => setPacks([]));
+  }, []);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await signInWithWallet(walletAddress);
+      const tournament = await createTournament({
+        name,
+        packId,
+        difficulty,
+        prizePool,
+        maxPlayers,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+      });
+      onCreated(tournament.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create tournament');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg bg-slate-900/50 border border-slate-700/50 text-white';
+
+  return (
+    <div className="p-6 rounded-2xl bg-amber-500/5 border border-amber-500/20 space-y-4">
+      <h3 className="text-white">Schedule a Tournament</h3>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <label className="block space-y-1">
+        <span className="text-sm text-slate-400">Name</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} maxLength={60} className={inputClass} />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Word pack</span>
+          <select value={packId} onChange={(e) => setPackId(e.target.value)} className={inputClass}>
+            {packs.length === 0 && <option value={BUILT_IN_PACK_ID}>Built-in</option>}
+            {packs.map(pack => (
+              <option key={pack.id} value={pack.id}>{pack.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Difficulty</span>
+          <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as WordTier)} className={inputClass}>
+            {TOURNAMENT_TIERS.map(tier => (
+              <option key={tier} value={tier}>{getDifficultyName(tier)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Prize pool (WMINT)</span>
+          <input
+            type="number"
+            min={0}
+            value={prizePool}
+            onChange={(e) => setPrizePool(parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Max players</span>
+          <select value={maxPlayers} onChange={(e) => setMaxPlayers(parseInt(e.target.value))} className={inputClass}>
+            {TOURNAMENT_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Starts</span>
+          <input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={inputClass} />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-400">Ends</span>
+          <input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onCancel}
+          className="py-3 rounded-xl bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving || !name.trim()}
+          className="py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Scheduling…' : 'Schedule'}
+        </button>
+      </div>
+    </div>
+  );
+}
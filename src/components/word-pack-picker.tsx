@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { BookOpen, Upload, Trash2, RefreshCw, X, BadgeCheck } from 'lucide-react';
+import { motion } from 'motion/react';
+import { fetchWordPacks, uploadWordPack, deleteWordPack, approveWordPack } from '../utils/api';
+import { signInWithWallet } from '../utils/auth';
+import { shortenAddress } from '../utils/wallet';
+import {
+  WordPackFormat,
+  WordPackSummary,
+  PACK_TIERS,
+  parseWordPack,
+} from '../utils/word-packs';
+
+interface WordPackPickerProps {
+  walletAddress: string;
+  selectedPackId: string;
+  onSelect: (pack: WordPackSummary) => void;
+}
+
+export function WordPackPicker({ walletAddress, selectedPackId, onSelect }: WordPackPickerProps) {
+  const [packs, setPacks] = useState<WordPackSummary[]>([]);
+  const [canApprove, setCanApprove] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
+
+  // Upload form
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileFormat, setFileFormat] = useState<WordPackFormat>('json');
+  const [packName, setPackName] = useState('');
+  const [packDescription, setPackDescription] = useState('');
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [uploadWarnings, setUploadWarnings] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    loadPacks();
+  }, []);
+
+  const loadPacks = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchWordPacks(walletAddress);
+      setPacks(result.packs);
+      setCanApprove(result.canApprove);
+    } catch (err) {
+      console.error('Failed to load word packs:', err);
+      setError('Failed to load word packs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetUpload = () => {
+    setShowUpload(false);
+    setFileContent(null);
+    setPackName('');
+    setPackDescription('');
+    setUploadErrors([]);
+    setUploadWarnings([]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setUploadErrors([]);
+    setUploadWarnings([]);
+
+    if (!file) {
+      setFileContent(null);
+      return;
+    }
+
+    setFileFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+    setFileContent(await file.text());
+  };
+
+  const handleUpload = async () => {
+    if (!fileContent) return;
+
+    const details = { name: packName, description: packDescription };
+
+    // Check locally first so problems show up without a round trip
+    const validation = parseWordPack(fileFormat, fileContent, details);
+    setUploadWarnings(validation.warnings);
+    if (!validation.pack) {
+      setUploadErrors(validation.errors);
+      return;
+    }
+
+    setIsUploading(true);
+    setUploadErrors([]);
+    try {
+      await signInWithWallet(walletAddress);
+      const result = await uploadWordPack(fileFormat, fileContent, details);
+      await loadPacks();
+      onSelect(result.pack);
+      resetUpload();
+      setUploadWarnings(result.warnings);
+    } catch (err) {
+      setUploadErrors((err instanceof Error ? err.message : 'Failed to upload word pack').split('\n'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleApprove = async (pack: WordPackSummary) => {
+    if (!confirm(`Approve "${pack.name}"? Games on it will earn WMINT at its tiers' rates.`)) return;
+
+    try {
+      await signInWithWallet(walletAddress);
+      const approved = await approveWordPack(pack.id);
+      setPacks(packs.map(other => (other.id === approved.id ? approved : other)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve word pack');
+    }
+  };
+
+  const handleDelete = async (pack: WordPackSummary) => {
+    if (!confirm(`Delete the word pack "${pack.name}"?`)) return;
+
+    try {
+      await signInWithWallet(walletAddress);
+      await deleteWordPack(pack.id);
+      const remaining = packs.filter(other => other.id !== pack.id);
+      setPacks(remaining);
+      if (pack.id === selectedPackId) {
+        onSelect(remaining[0]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete word pack');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg text-white">Word Pack</h3>
+          <p className="text-sm text-slate-400">Play the Web3 list or one uploaded by the community</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={loadPacks}
+            disabled={isLoading}
+            className="p-2 rounded-lg bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-300 transition-colors disabled:opacity-50"
+            title="Refresh packs"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={() => (showUpload ? resetUpload() : setShowUpload(true))}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/50 text-sm text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            {showUpload ? <X className="w-4 h-4" /> : <Upload className="w-4 h-4" />}
+            <span>{showUpload ? 'Cancel' : 'Upload Pack'}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-400">{error}</p>
+      )}
+
+      {/* Upload Form */}
+      {showUpload && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-4 rounded-xl bg-slate-900/50 border border-slate-700/50 space-y-3"
+        >
+          <p className="text-xs text-slate-400">
+            JSON: <code>{'{ "name", "tiers": { "easy": [...], "normal": [...], "hard": [...] } }'}</code>
+            <br />
+            CSV: a header row of <code>difficulty,word,definition,sentence</code>
+          </p>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-800 file:text-slate-300"
+          />
+          <input
+            type="text"
+            value={packName}
+            onChange={(e) => setPackName(e.target.value)}
+            placeholder={fileFormat === 'csv' ? 'Pack name (required for CSV)' : 'Pack name (optional, overrides the file)'}
+            className="w-full px-3 py-2 rounded-lg bg-slate-800/50 border border-slate-700/50 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50"
+          />
+          <input
+            type="text"
+            value={packDescription}
+            onChange={(e) => setPackDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full px-3 py-2 rounded-lg bg-slate-800/50 border border-slate-700/50 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50"
+          />
+
+          {uploadErrors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-1 max-h-32 overflow-y-auto">
+              {uploadErrors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={handleUpload}
+            disabled={!fileContent || isUploading}
+            className="w-full py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-500 text-white text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </button>
+        </motion.div>
+      )}
+
+      {uploadWarnings.length > 0 && (
+        <ul className="text-xs text-amber-400 space-y-1">
+          {uploadWarnings.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pack List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-64 overflow-y-auto">
+        {packs.map(pack => {
+          const isSelected = pack.id === selectedPackId;
+          const tiers = PACK_TIERS.filter(tier => pack.tierSizes[tier]);
+
+          return (
+            <div
+              key={pack.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(pack)}
+              onKeyDown={(e) => e.key === 'Enter' && onSelect(pack)}
+              className={`p-4 rounded-xl border-2 text-left cursor-pointer transition-all ${
+                isSelected
+                  ? 'border-emerald-500/50 bg-emerald-500/10'
+                  : 'border-slate-700/50 bg-slate-800/30 hover:border-slate-600'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <BookOpen className={`w-4 h-4 flex-shrink-0 ${isSelected ? 'text-emerald-400' : 'text-slate-400'}`} />
+                  <span className="text-white truncate">{pack.name}</span>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {canApprove && !pack.approved && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleApprove(pack);
+                      }}
+                      className="p-1 rounded text-emerald-400 hover:bg-slate-800 transition-colors"
+                      title="Approve pack for WMINT rewards"
+                    >
+                      <BadgeCheck className="w-4 h-4" />
+                    </button>
+                  )}
+                  {pack.createdBy === walletAddress && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(pack);
+                      }}
+                      className="p-1 rounded text-slate-500 hover:text-red-400 transition-colors"
+                      title="Delete pack"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {pack.description && (
+                <p className="text-xs text-slate-400 mt-1 line-clamp-2">{pack.description}</p>
+              )}
+              {!pack.approved && (
+                <p className="text-xs text-amber-400 mt-1">Practice only: earns no WMINT until an admin approves it</p>
+              )}
+              <p className="text-xs text-slate-500 mt-2">
+                {tiers.map(tier => `${pack.tierSizes[tier]} ${tier}`).join(' • ')}
+                {pack.createdBy && ` • by ${shortenAddress(pack.createdBy)}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
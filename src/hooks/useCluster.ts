@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { ActiveCluster, getActiveCluster, loadActiveCluster } from '../utils/cluster';
+
+/**
+ * CUSTOM HOOK: useCluster
+ *
+ * Returns the Solana cluster the server is running against.
+ * Starts with the default cluster and re-renders once GET /cluster has loaded.
+ */
+export function useCluster(): ActiveCluster {
+  const [cluster, setCluster] = useState<ActiveCluster>(getActiveCluster);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadActiveCluster().then((loaded) => {
+      if (!cancelled) {
+        setCluster(loaded);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return cluster;
+}
@@ -0,0 +1,179 @@
+/**
+ * ACHIEVEMENT UNLOCKS
+ *
+ * A player's unlocked achievements are recorded server-side in one
+ * `achievements:<wallet>` record, written whenever their stats change: after
+ * an answer, a confirmed claim or a tournament prize. Each unlock keeps when
+ * it happened and what triggered it, and is never removed, so an achievement
+ * stays unlocked when the stat behind it drops (a streak resetting).
+ *
+ * Achievements unlock on their rules (see achievement-rules.ts), checked
+ * against the player's stats, the answer or game that just happened, and the
+ * player's tally for today, which the record also keeps. Streak achievements
+ * count the player's best streak (`maxStreak`), not only the current one.
+ *
+ * Every recorded unlock becomes an NFT badge (see badges.tsx).
+ *
+ * Unlocks stay unseen until the player's client has shown them. Answers and
+ * claims return their unlocks straight away; the rest (a claim settled by the
+ * recovery job, a tournament prize) wait in the player's inbox.
+ */
+
+import * as kv from './storage/index.tsx';
+import {
+  UnlockSource,
+  checkUnlockedAchievements,
+  getBestStreak,
+  getNewlyUnlockedAchievements,
+} from '../../../utils/achievements.ts';
+import { DayTally, WordFacts, addToDayTally } from '../../../utils/achievement-rules.ts';
+import { getDailyDate } from '../../../utils/daily-challenge.ts';
+import { syncBadges } from './badges.tsx';
+
+export interface UnlockContext {
+  source: UnlockSource;
+  referenceId?: string; // The game session, claim or tournament that triggered the unlock
+  // The player's stats when the achievement unlocked
+  stats: {
+    totalWmintEarned: number;
+    streak: number;
+    maxStreak: number;
+    gamesPlayed: number;
+    level: number;
+  };
+}
+
+export interface AchievementUnlock {
+  achievementId: string;
+  unlockedAt: string;
+  context: UnlockContext;
+  seenAt?: string; // When the player was shown the unlock
+}
+
+export interface AchievementRecord {
+  walletAddress: string;
+  unlocks: AchievementUnlock[]; // Oldest first
+  today?: DayTally; // Activity on the day of the last answer, for day rules
+  updatedAt: string;
+}
+
+// The answer (and the game, after its last word) that changed the player's stats
+export interface AchievementEvent {
+  answer: WordFacts;
+  game?: WordFacts[];
+}
+
+function recordKey(walletAddress: string): string {
+  return `achievements:${walletAddress}`;
+}
+
+/**
+ * A player's achievement record, or null if nothing has been unlocked yet
+ */
+export async function getAchievementRecord(walletAddress: string): Promise<AchievementRecord | null> {
+  return (await kv.get(recordKey(walletAddress))) ?? null;
+}
+
+/**
+ * Record the achievements unlocked by the player's current stats and `event`
+ * Returns the unlocks new to this call, in achievement order.
+ */
+export async function recordAchievements(
+  player: any,
+  source: UnlockSource,
+  referenceId?: string,
+  event?: AchievementEvent
+): Promise<AchievementUnlock[]> {
+  const date = getDailyDate();
+  const now = new Date().toISOString();
+  const context: UnlockContext = {
+    source,
+    ...(referenceId && { referenceId }),
+    stats: {
+      totalWmintEarned: player.totalWmintEarned || 0,
+      streak: player.streak || 0,
+      maxStreak: getBestStreak(player),
+      gamesPlayed: player.gamesPlayed || 0,
+      level: player.level || 1,
+    },
+  };
+
+  let added: AchievementUnlock[] = [];
+  let record: AchievementRecord | undefined;
+
+  await kv.update(recordKey(player.walletAddress), (current: AchievementRecord | undefined) => {
+    const today = event
+      ? addToDayTally(current?.today, date, event.answer, !!event.game)
+      : current?.today;
+    const unlocked = checkUnlockedAchievements(
+      {
+        player,
+        today: today?.date === date ? today : undefined,
+        answer: event?.answer,
+        game: event?.game,
+      },
+      player.specialAchievements
+    );
+
+    const known = (current?.unlocks || []).map(unlock => unlock.achievementId);
+    added = getNewlyUnlockedAchievements(known, unlocked)
+      .map(achievement => ({ achievementId: achievement.id, unlockedAt: now, context }));
+    record = current;
+
+    // An answer always updates today's tally, even when it unlocks nothing
+    if (added.length === 0 && !event) {
+      return null;
+    }
+
+    record = {
+      walletAddress: player.walletAddress,
+      unlocks: [...(current?.unlocks || []), ...added],
+      ...(today && { today }),
+      updatedAt: now,
+    };
+    return record;
+  });
+
+  // Badges follow the record; one missed here is created on the next write
+  if (record) {
+    try {
+      await syncBadges(player.walletAddress, record.unlocks);
+    } catch (error) {
+      console.log(`Error recording badges for ${player.walletAddress}: ${error}`);
+    }
+  }
+
+  return added;
+}
+
+/**
+ * Unlocks the player hasn't been shown yet, oldest first
+ */
+export async function getUnseenUnlocks(walletAddress: string): Promise<AchievementUnlock[]> {
+  const record = await getAchievementRecord(walletAddress);
+  return (record?.unlocks || []).filter(unlock => !unlock.seenAt);
+}
+
+/**
+ * Mark unlocks as shown to the player, so they leave the inbox
+ * Returns the unlocks still unseen.
+ */
+export async function markUnlocksSeen(walletAddress: string, achievementIds: string[]): Promise<AchievementUnlock[]> {
+  const ids = new Set(achievementIds);
+  const now = new Date().toISOString();
+
+  const record = await kv.update(recordKey(walletAddress), (current: AchievementRecord | undefined) => {
+    if (!current?.unlocks.some(unlock => !unlock.seenAt && ids.has(unlock.achievementId))) {
+      return null;
+    }
+    return {
+      ...current,
+      unlocks: current.unlocks.map(unlock =>
+        !unlock.seenAt && ids.has(unlock.achievementId) ? { ...unlock, seenAt: now } : unlock
+      ),
+      updatedAt: now,
+    };
+  });
+
+  return record ? record.unlocks.filter(unlock => !unlock.seenAt) : getUnseenUnlocks(walletAddress);
+}
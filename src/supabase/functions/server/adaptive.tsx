@@ -0,0 +1,168 @@
+/**
+ * ADAPTIVE WORD SELECTION
+ *
+ * Picks a game's words from the player's word history, blending two ideas:
+ *
+ * - Difficulty scaling: the player's skill tier is the highest tier they have
+ *   earned by spelling most of the tier below correctly. Most words come from
+ *   that tier, with a few stretch words from the tier above.
+ * - Spaced repetition: a word is due again after an interval that grows with
+ *   each correct answer in a row. Due words the player struggles with are
+ *   weighted up; mastered and recently seen words are weighted down.
+ *
+ * Words are then drawn by weighted random sampling, so games stay varied.
+ */
+
+import { WordTier } from '../../../utils/word-lists.ts';
+import { WordPack, WordPackEntry, PACK_TIERS } from '../../../utils/word-packs.ts';
+import { WordHistory, WordStats, getWordStats, getWordAccuracy } from './word-history.tsx';
+
+// A tier is passed once enough of it has been spelled correctly...
+const PROMOTE_MIN_ATTEMPTS = 15;
+const PROMOTE_ACCURACY = 0.8;
+// ...and a player who is failing their tier steps back down
+const DEMOTE_MIN_ATTEMPTS = 10;
+const DEMOTE_ACCURACY = 0.5;
+
+// Hours until a word is due again, by correct answers in a row (last value repeats)
+const REVIEW_INTERVAL_HOURS = [0, 12, 48, 168];
+
+// Correct answers in a row after which a word counts as mastered
+const MASTERED_STREAK = 3;
+
+// Sampling weights
+const NEW_WORD_WEIGHT = 1;
+const NOT_DUE_WEIGHT = 0.05;
+const MASTERED_WEIGHT = 0.2;
+const STRUGGLING_BONUS = 2; // Added in proportion to how often the word was missed
+const STRETCH_TIER_FACTOR = 0.3; // Words from the tier above the player's
+const REVIEW_TIER_FACTOR = 0.5; // Missed words from the tier below
+
+export interface AdaptivePick {
+  entry: WordPackEntry;
+  tier: WordTier;
+}
+
+function tierTotals(history: WordHistory, tier: WordTier): { attempts: number; correct: number } {
+  let attempts = 0;
+  let correct = 0;
+  for (const stats of Object.values(history.words)) {
+    if (stats.tier === tier) {
+      attempts += stats.attempts;
+      correct += stats.correct;
+    }
+  }
+  return { attempts, correct };
+}
+
+/**
+ * The tier the player should mostly be practising, out of the tiers a pack has
+ */
+export function getSkillTier(history: WordHistory, tiers: WordTier[]): WordTier {
+  let index = 0;
+
+  while (index < tiers.length - 1) {
+    const { attempts, correct } = tierTotals(history, tiers[index]);
+    if (attempts < PROMOTE_MIN_ATTEMPTS || correct / attempts < PROMOTE_ACCURACY) {
+      break;
+    }
+    index++;
+  }
+
+  const { attempts, correct } = tierTotals(history, tiers[index]);
+  if (index > 0 && attempts >= DEMOTE_MIN_ATTEMPTS && correct / attempts < DEMOTE_ACCURACY) {
+    index--;
+  }
+
+  return tiers[index];
+}
+
+function isDue(stats: WordStats, now: number): boolean {
+  const hours = REVIEW_INTERVAL_HOURS[Math.min(stats.streak, REVIEW_INTERVAL_HOURS.length - 1)];
+  return now - new Date(stats.lastSeen).getTime() >= hours * 60 * 60 * 1000;
+}
+
+function wordWeight(stats: WordStats | undefined, now: number): number {
+  if (!stats) {
+    return NEW_WORD_WEIGHT;
+  }
+
+  if (!isDue(stats, now)) {
+    return NOT_DUE_WEIGHT;
+  }
+
+  if (stats.streak >= MASTERED_STREAK) {
+    return MASTERED_WEIGHT;
+  }
+
+  return 1 + STRUGGLING_BONUS * (1 - getWordAccuracy(stats));
+}
+
+/**
+ * Draw `count` items without replacement, each with probability proportional to its weight
+ */
+function weightedSample<T>(items: { item: T; weight: number }[], count: number): T[] {
+  const pool = items.filter(({ weight }) => weight > 0);
+  const picked: T[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, { weight }) => sum + weight, 0);
+    let target = Math.random() * total;
+    let index = 0;
+    while (index < pool.length - 1 && target >= pool[index].weight) {
+      target -= pool[index].weight;
+      index++;
+    }
+    picked.push(pool[index].item);
+    pool.splice(index, 1);
+  }
+
+  return picked;
+}
+
+/**
+ * Pick `count` words from a pack for an adaptive game
+ */
+export function pickAdaptiveWords(
+  pack: WordPack,
+  history: WordHistory,
+  count: number
+): AdaptivePick[] {
+  const tiers = PACK_TIERS.filter(tier => pack.tiers[tier]?.length);
+  const skillTier = getSkillTier(history, tiers);
+  const skillIndex = tiers.indexOf(skillTier);
+  const now = Date.now();
+
+  const candidates: { item: AdaptivePick; weight: number }[] = [];
+
+  tiers.forEach((tier, index) => {
+    for (const entry of pack.tiers[tier]!) {
+      const stats = getWordStats(history, entry.word);
+      let weight = wordWeight(stats, now);
+
+      if (index === skillIndex + 1) {
+        weight *= STRETCH_TIER_FACTOR;
+      } else if (index === skillIndex - 1) {
+        // Easier words only come back when they still need practice
+        weight = stats && stats.streak < MASTERED_STREAK ? weight * REVIEW_TIER_FACTOR : 0;
+      } else if (index !== skillIndex) {
+        weight = 0;
+      }
+
+      candidates.push({ item: { entry, tier }, weight });
+    }
+  });
+
+  const picks = weightedSample(candidates, count);
+
+  // Tiny packs: top up from anything left so the game still has enough words
+  if (picks.length < count) {
+    const pickedWords = new Set(picks.map(pick => pick.entry.word));
+    const rest = candidates
+      .filter(({ item }) => !pickedWords.has(item.entry.word))
+      .map(({ item }) => ({ item, weight: 1 }));
+    picks.push(...weightedSample(rest, count - picks.length));
+  }
+
+  return picks;
+}
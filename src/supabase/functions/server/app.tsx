@@ -0,0 +1,1430 @@
+import { Hono } from 'npm:hono';
+import { cors } from 'npm:hono/cors';
+import { logger } from 'npm:hono/logger';
+import { streamSSE } from 'npm:hono/streaming';
+import * as kv from './storage/index.tsx';
+import { getTokenMintAddress, getTokenBalance, getChainNetwork } from './solana-token.tsx';
+import { getPublicClusterConfig, isFakeLedger } from './chain/index.tsx';
+import { getExplorerTxUrl } from '../../../utils/cluster-config.ts';
+import { isHintType } from '../../../utils/hints.ts';
+import { isSpeechPrompt } from '../../../utils/speech-prompts.ts';
+import {
+  startSession,
+  startNextRound,
+  answerSession,
+  isValidDifficulty,
+  toSessionView,
+  summarizeSession,
+  buyHint,
+  getRoundAudio,
+  GAME_ROUNDS,
+} from './game-session.tsx';
+import { createClaim, getClaim, reconcileClaims, isValidIdempotencyKey } from './claims.tsx';
+import {
+  getWordPack,
+  listWordPacks,
+  createWordPack,
+  deleteWordPack,
+  approveWordPack,
+  isWordPackFormat,
+} from './word-packs.tsx';
+import { BUILT_IN_PACK_ID, getBuiltInPack, summarizeWordPack } from '../../../utils/word-packs.ts';
+import { getReviewDeck, getReviewStatus } from './review.tsx';
+import { getWordHistory, summarizeMistakes } from './word-history.tsx';
+import { getDailyEntry, getDailyLeaderboard } from './daily-challenge.tsx';
+import { getDailyDate, getNextDailyReset } from '../../../utils/daily-challenge.ts';
+import {
+  getDuel,
+  createDuel,
+  joinDuel,
+  findDuelMatch,
+  cancelDuel,
+  startDuelRound,
+  answerDuel,
+  getDuelRoundAudio,
+  sweepDuels,
+  toDuelView,
+  DUEL_POLL_MS,
+  DUEL_STREAM_SECONDS,
+} from './duels.tsx';
+import { DUEL_TIERS, isDuelStake } from '../../../utils/duels.ts';
+import { sanitizePracticeStats } from '../../../utils/practice.ts';
+import { sanitizeAccessibilitySettings, getAccessibilitySettings } from '../../../utils/accessibility.ts';
+import {
+  getTournament,
+  getTournamentView,
+  listTournaments,
+  createTournament,
+  registerForTournament,
+  getPlayableStage,
+  processTournamentPayouts,
+} from './tournaments.tsx';
+import {
+  recordAchievements,
+  getAchievementRecord,
+  getUnseenUnlocks,
+  markUnlocksSeen,
+} from './achievements.tsx';
+import {
+  getBadges,
+  toBadgeView,
+  getBadgeMetadata,
+  renderBadgeImage,
+  processBadgeMints,
+} from './badges.tsx';
+import { getAchievement } from '../../../utils/achievements.ts';
+import { getSeasonLeaderboard, getSeasonArchives, rolloverSeasons } from './seasons.tsx';
+import { SeasonPeriod, SEASON_PERIODS, getSeasonId, isValidSeasonId } from '../../../utils/seasons.ts';
+import {
+  AuthVariables,
+  SESSION_HEADER,
+  createNonce,
+  verifySignIn,
+  revokeSession,
+  requireAuth,
+  requireAdmin,
+  requireCronSecret,
+  isAdminWallet,
+} from './auth.tsx';
+
+const app = new Hono<{ Variables: AuthVariables }>();
+
+// Middleware
+app.use('*', cors());
+app.use('*', logger(console.log));
+
+// Record unlocks the player's stats reached before they were recorded; a failure never fails the request
+// Only called for the signed-in player: the public reads never write.
+async function catchUpAchievements(player: any) {
+  try {
+    await recordAchievements(player, 'sync');
+  } catch (error) {
+    console.log(`Error recording achievements for ${player.walletAddress}: ${error}`);
+  }
+}
+
+// Health check
+app.get('/make-server-02a4aef8/health', (c) => {
+  return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+/**
+ * Active Solana cluster, so the frontend can target whichever cluster the server uses
+ * The RPC URL is the public one, never the server's own (see chain/index.tsx).
+ */
+app.get('/make-server-02a4aef8/cluster', (c) => {
+  try {
+    return c.json({ ...getPublicClusterConfig(), fakeLedger: isFakeLedger() });
+  } catch (error) {
+    console.log(`Error reading cluster config: ${error}`);
+    return c.json({ error: 'Invalid cluster configuration', details: String(error) }, 500);
+  }
+});
+
+/**
+ * AUTH ENDPOINT: Issue a sign-in nonce
+ * The wallet signs the returned message to prove ownership
+ */
+app.post('/make-server-02a4aef8/auth/nonce', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { walletAddress } = body;
+    
+    if (!walletAddress) {
+      return c.json({ error: 'Wallet address is required' }, 400);
+    }
+    
+    const result = await createNonce(walletAddress);
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, 400);
+    }
+    
+    return c.json({
+      nonce: result.nonce,
+      message: result.message
+    });
+  } catch (error) {
+    console.log(`Error issuing sign-in nonce: ${error}`);
+    return c.json({ error: 'Failed to issue nonce', details: String(error) }, 500);
+  }
+});
+
+/**
+ * AUTH ENDPOINT: Verify a signed nonce and issue a session token
+ */
+app.post('/make-server-02a4aef8/auth/verify', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { walletAddress, nonce, signature } = body;
+    
+    if (!walletAddress || !nonce || !signature) {
+      return c.json({ error: 'Wallet address, nonce and signature are required' }, 400);
+    }
+    
+    const result = await verifySignIn(walletAddress, nonce, signature);
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, 401);
+    }
+    
+    return c.json({
+      success: true,
+      token: result.token,
+      expiresAt: result.expiresAt
+    });
+  } catch (error) {
+    console.log(`Error verifying sign-in: ${error}`);
+    return c.json({ error: 'Failed to verify sign-in', details: String(error) }, 500);
+  }
+});
+
+/**
+ * AUTH ENDPOINT: Revoke the current session token
+ */
+app.post('/make-server-02a4aef8/auth/logout', requireAuth, async (c) => {
+  try {
+    await revokeSession(c.req.header(SESSION_HEADER)!);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Error revoking session: ${error}`);
+    return c.json({ error: 'Failed to sign out', details: String(error) }, 500);
+  }
+});
+
+// Get player data by wallet address
+app.get('/make-server-02a4aef8/player/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const key = `player:${walletAddress}`;
+    
+    const playerData = await kv.get(key);
+    
+    if (!playerData) {
+      return c.json({ exists: false }, 404);
+    }
+    
+    return c.json({ 
+      exists: true, 
+      player: playerData 
+    });
+  } catch (error) {
+    console.log(`Error fetching player data: ${error}`);
+    return c.json({ error: 'Failed to fetch player data', details: String(error) }, 500);
+  }
+});
+
+// Create player data
+// Stats always start at zero; they only change through graded game sessions.
+// A guest's practice stats (`guestStats`) can be brought into a new record, kept apart as `practiceStats`.
+app.post('/make-server-02a4aef8/player', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { walletAddress, guestStats } = body;
+    
+    if (!walletAddress) {
+      return c.json({ error: 'Wallet address is required' }, 400);
+    }
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    
+    const key = `player:${walletAddress}`;
+    const existingData = await kv.get(key);
+    
+    if (existingData) {
+      return c.json({ 
+        success: true, 
+        player: existingData 
+      });
+    }
+    
+    // Stats that couldn't have come from real practice games are dropped, not imported
+    const practiceStats = guestStats === undefined ? null : sanitizePracticeStats(guestStats);
+    
+    const now = new Date().toISOString();
+    const playerData = {
+      walletAddress,
+      score: 0,
+      totalWmintEarned: 0,
+      level: 1,
+      streak: 0,
+      gamesPlayed: 0,
+      ...(practiceStats && { practiceStats: { ...practiceStats, importedAt: now } }),
+      lastUpdated: now
+    };
+    
+    // Create-only: if another request created the player first, return that record
+    if (!(await kv.compareAndSet(key, undefined, playerData))) {
+      return c.json({ 
+        success: true, 
+        player: await kv.get(key) 
+      });
+    }
+    
+    try {
+      await recordAchievements(playerData, 'signup');
+    } catch (error) {
+      console.log(`Error recording achievements: ${error}`);
+    }
+    
+    return c.json({ 
+      success: true, 
+      player: playerData 
+    });
+  } catch (error) {
+    console.log(`Error saving player data: ${error}`);
+    return c.json({ error: 'Failed to save player data', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Save the signed-in player's accessibility settings
+ * Relaxed mode applies to games started from now on.
+ */
+app.post('/make-server-02a4aef8/player/:walletAddress/accessibility', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    
+    const body = await c.req.json();
+    const settings = sanitizeAccessibilitySettings(body.settings);
+    if (!settings) {
+      return c.json({ error: 'Invalid accessibility settings' }, 400);
+    }
+    
+    const player = await kv.update(`player:${walletAddress}`, (current: any) =>
+      current ? { ...current, accessibility: settings, lastUpdated: new Date().toISOString() } : null
+    );
+    
+    if (!player) {
+      return c.json({ error: 'Player not found' }, 404);
+    }
+    
+    return c.json({ 
+      success: true, 
+      player 
+    });
+  } catch (error) {
+    console.log(`Error saving accessibility settings: ${error}`);
+    return c.json({ error: 'Failed to save accessibility settings', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Start a game session
+ * The server picks the game's words; the client only learns the current word's length and hears it through the audio route
+ * Games are relaxed (untimed) when the player has turned on relaxed mode.
+ */
+app.post('/make-server-02a4aef8/session/start', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { walletAddress, difficulty, packId = BUILT_IN_PACK_ID, partialCredit = false } = body;
+    
+    if (!walletAddress) {
+      return c.json({ error: 'Wallet address is required' }, 400);
+    }
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    
+    if (!isValidDifficulty(difficulty)) {
+      return c.json({ error: 'Invalid difficulty' }, 400);
+    }
+    
+    const player = await kv.get(`player:${walletAddress}`);
+    if (!player) {
+      return c.json({ error: 'Player not found' }, 404);
+    }
+    
+    // Players from before unlocks were recorded get them when they next play
+    await catchUpAchievements(player);
+    
+    const pack = typeof packId === 'string' ? await getWordPack(packId) : undefined;
+    if (!pack) {
+      return c.json({ error: 'Word pack not found' }, 404);
+    }
+    
+    const { relaxedMode } = getAccessibilitySettings(player);
+    const result = await startSession(walletAddress, difficulty, pack, partialCredit === true, relaxedMode);
+    
+    if (!result.success || !result.session) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      session: toSessionView(result.session)
+    });
+  } catch (error) {
+    console.log(`Error starting game session: ${error}`);
+    return c.json({ error: 'Failed to start game session', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Start the next round of a game session
+ * Returns the round's word length (the word is only heard); its countdown starts now
+ */
+app.post('/make-server-02a4aef8/session/:sessionId/next', requireAuth, async (c) => {
+  try {
+    const result = await startNextRound(c.req.param('sessionId'), c.get('walletAddress'));
+    
+    if (!result.success || !result.session) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      session: toSessionView(result.session)
+    });
+  } catch (error) {
+    console.log(`Error starting next round: ${error}`);
+    return c.json({ error: 'Failed to start next round', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Submit an answer for the current round of a game session
+ * Grading and the WMINT award are computed server-side; the last round returns the game summary
+ */
+app.post('/make-server-02a4aef8/session/:sessionId/answer', requireAuth, async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId');
+    const body = await c.req.json();
+    const { answer } = body;
+    
+    const result = await answerSession(
+      sessionId,
+      c.get('walletAddress'),
+      typeof answer === 'string' ? answer : ''
+    );
+    
+    if (!result.success || !result.session) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    const { session } = result;
+    const completed = session.status === 'completed';
+    const summary = summarizeSession(session);
+    const round = summary.rounds[summary.rounds.length - 1];
+    
+    return c.json({
+      success: true,
+      correct: round.correct,
+      nearMiss: round.nearMiss,
+      word: round.word,
+      wmintEarned: round.wmintEarned,
+      answerMs: round.answerMs,
+      speedMultiplier: round.speedMultiplier,
+      diff: round.diff,
+      roundNumber: round.roundNumber,
+      totalRounds: summary.totalRounds,
+      completed,
+      summary: completed ? summary : null,
+      addedToReview: !!result.addedToReview,
+      unlocked: result.unlocked || [],
+      player: result.player
+    });
+  } catch (error) {
+    console.log(`Error submitting answer: ${error}`);
+    return c.json({ error: 'Failed to submit answer', details: String(error) }, 500);
+  }
+});
+
+// Buy a hint for the round in play, paid from the pending score
+app.post('/make-server-02a4aef8/session/:sessionId/hint', requireAuth, async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId');
+    const body = await c.req.json();
+    const { type } = body;
+    
+    if (!isHintType(type)) {
+      return c.json({ error: 'Invalid hint type' }, 400);
+    }
+    
+    const result = await buyHint(sessionId, c.get('walletAddress'), type);
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    console.log(`💡 Hint ${type} bought for ${result.hint!.cost} WMINT in session ${sessionId}`);
+    
+    return c.json({
+      success: true,
+      hint: result.hint,
+      player: result.player
+    });
+  } catch (error) {
+    console.log(`Error buying hint: ${error}`);
+    return c.json({ error: 'Failed to buy hint', details: String(error) }, 500);
+  }
+});
+
+// Hear a prompt of the round in play; the word itself is never sent as text
+app.get('/make-server-02a4aef8/session/:sessionId/audio/:prompt', requireAuth, async (c) => {
+  try {
+    const prompt = c.req.param('prompt');
+    
+    if (!isSpeechPrompt(prompt)) {
+      return c.json({ error: 'Invalid prompt' }, 400);
+    }
+    
+    const result = await getRoundAudio(c.req.param('sessionId'), c.get('walletAddress'), prompt);
+    
+    if (!result.success || !result.speech) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.body(result.speech.audio, 200, {
+      'Content-Type': result.speech.contentType,
+      'Cache-Control': 'no-store'
+    });
+  } catch (error) {
+    console.log(`Error speaking prompt: ${error}`);
+    return c.json({ error: 'Failed to speak prompt', details: String(error) }, 500);
+  }
+});
+
+// Review deck status: words due now, deck size and when the next word comes due
+app.get('/make-server-02a4aef8/review/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const deck = await getReviewDeck(walletAddress);
+    
+    return c.json({
+      success: true,
+      ...getReviewStatus(deck)
+    });
+  } catch (error) {
+    console.log(`Error fetching review status: ${error}`);
+    return c.json({ error: 'Failed to fetch review status', details: String(error) }, 500);
+  }
+});
+
+// Spelling mistake summary: counts by kind of mistake and the most missed words
+app.get('/make-server-02a4aef8/mistakes/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const history = await getWordHistory(walletAddress);
+    
+    return c.json({
+      success: true,
+      ...summarizeMistakes(history)
+    });
+  } catch (error) {
+    console.log(`Error fetching mistake summary: ${error}`);
+    return c.json({ error: 'Failed to fetch mistake summary', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Open a duel: `matchmaking: true` joins or opens a queued duel for the tier and stake,
+ * otherwise the duel waits for whoever opens its invite link
+ */
+app.post('/make-server-02a4aef8/duels', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { difficulty, stake = 0, matchmaking = false } = body;
+    const walletAddress = c.get('walletAddress');
+    
+    if (!DUEL_TIERS.includes(difficulty)) {
+      return c.json({ error: 'Invalid difficulty' }, 400);
+    }
+    
+    if (!isDuelStake(stake)) {
+      return c.json({ error: 'Invalid stake' }, 400);
+    }
+    
+    const result = matchmaking === true
+      ? await findDuelMatch(walletAddress, difficulty, stake)
+      : await createDuel(walletAddress, difficulty, stake);
+    
+    if (!result.success || !result.duel) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      duel: toDuelView(result.duel)
+    });
+  } catch (error) {
+    console.log(`Error opening duel: ${error}`);
+    return c.json({ error: 'Failed to open duel', details: String(error) }, 500);
+  }
+});
+
+// Get a duel's progress (never its words)
+app.get('/make-server-02a4aef8/duels/:duelId', async (c) => {
+  try {
+    const duel = await getDuel(c.req.param('duelId'));
+    
+    if (!duel) {
+      return c.json({ error: 'Duel not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      duel: toDuelView(duel)
+    });
+  } catch (error) {
+    console.log(`Error fetching duel: ${error}`);
+    return c.json({ error: 'Failed to fetch duel', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Follow a duel as server-sent events
+ * Sends a `duel` event with the progress view whenever it changes, until the duel
+ * ends or DUEL_STREAM_SECONDS pass (the client then reconnects)
+ */
+app.get('/make-server-02a4aef8/duels/:duelId/events', (c) => {
+  const duelId = c.req.param('duelId');
+  
+  return streamSSE(c, async (stream) => {
+    const closesAt = Date.now() + DUEL_STREAM_SECONDS * 1000;
+    let lastUpdatedAt = '';
+    
+    while (!stream.aborted && Date.now() < closesAt) {
+      const duel = await getDuel(duelId);
+      
+      if (!duel) {
+        await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Duel not found' }) });
+        return;
+      }
+      
+      if (duel.updatedAt !== lastUpdatedAt) {
+        lastUpdatedAt = duel.updatedAt;
+        await stream.writeSSE({ event: 'duel', data: JSON.stringify(toDuelView(duel)) });
+      }
+      
+      if (duel.status === 'completed' || duel.status === 'cancelled') {
+        return;
+      }
+      
+      await stream.sleep(DUEL_POLL_MS);
+    }
+  }, async (error, stream) => {
+    console.log(`Error streaming duel ${duelId}: ${error}`);
+    await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Duel stream failed' }) });
+  });
+});
+
+// Join a duel from its invite link, which starts it
+app.post('/make-server-02a4aef8/duels/:duelId/join', requireAuth, async (c) => {
+  try {
+    const result = await joinDuel(c.req.param('duelId'), c.get('walletAddress'));
+    
+    if (!result.success || !result.duel) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      duel: toDuelView(result.duel)
+    });
+  } catch (error) {
+    console.log(`Error joining duel: ${error}`);
+    return c.json({ error: 'Failed to join duel', details: String(error) }, 500);
+  }
+});
+
+// Cancel a duel nobody has joined yet (refunds the stake)
+app.post('/make-server-02a4aef8/duels/:duelId/cancel', requireAuth, async (c) => {
+  try {
+    const result = await cancelDuel(c.req.param('duelId'), c.get('walletAddress'));
+    
+    if (!result.success || !result.duel) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      duel: toDuelView(result.duel)
+    });
+  } catch (error) {
+    console.log(`Error cancelling duel: ${error}`);
+    return c.json({ error: 'Failed to cancel duel', details: String(error) }, 500);
+  }
+});
+
+// Get the player's next duel word; its countdown starts now
+app.post('/make-server-02a4aef8/duels/:duelId/next', requireAuth, async (c) => {
+  try {
+    const result = await startDuelRound(c.req.param('duelId'), c.get('walletAddress'));
+    
+    if (!result.success || !result.round) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      round: result.round
+    });
+  } catch (error) {
+    console.log(`Error starting duel round: ${error}`);
+    return c.json({ error: 'Failed to start duel round', details: String(error) }, 500);
+  }
+});
+
+// Hear a prompt of the player's duel word in play
+app.get('/make-server-02a4aef8/duels/:duelId/audio/:prompt', requireAuth, async (c) => {
+  try {
+    const prompt = c.req.param('prompt');
+    
+    if (!isSpeechPrompt(prompt)) {
+      return c.json({ error: 'Invalid prompt' }, 400);
+    }
+    
+    const result = await getDuelRoundAudio(c.req.param('duelId'), c.get('walletAddress'), prompt);
+    
+    if (!result.success || !result.speech) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.body(result.speech.audio, 200, {
+      'Content-Type': result.speech.contentType,
+      'Cache-Control': 'no-store'
+    });
+  } catch (error) {
+    console.log(`Error speaking duel prompt: ${error}`);
+    return c.json({ error: 'Failed to speak prompt', details: String(error) }, 500);
+  }
+});
+
+// Answer the player's duel word, graded server-side
+app.post('/make-server-02a4aef8/duels/:duelId/answer', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { answer } = body;
+    
+    const result = await answerDuel(
+      c.req.param('duelId'),
+      c.get('walletAddress'),
+      typeof answer === 'string' ? answer : ''
+    );
+    
+    if (!result.success || !result.duel) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      correct: result.correct,
+      word: result.word,
+      duel: toDuelView(result.duel)
+    });
+  } catch (error) {
+    console.log(`Error answering duel: ${error}`);
+    return c.json({ error: 'Failed to answer duel', details: String(error) }, 500);
+  }
+});
+
+/**
+ * SWEEP JOB: Settle expired waiting duels and active duels past their deadline
+ * Called on a schedule with the cron secret
+ */
+app.post('/make-server-02a4aef8/duels/sweep', requireCronSecret, async (c) => {
+  try {
+    const result = await sweepDuels();
+    
+    console.log(`⚔️ Duel sweep: ${result.cancelled} cancelled, ${result.completed} completed`, result);
+    
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.log(`Error sweeping duels: ${error}`);
+    return c.json({ error: 'Failed to sweep duels', details: String(error) }, 500);
+  }
+});
+
+/**
+ * List tournaments
+ * `canCreate` tells the client whether to offer the create form to `walletAddress`
+ */
+app.get('/make-server-02a4aef8/tournaments', async (c) => {
+  try {
+    const walletAddress = c.req.query('walletAddress');
+    
+    return c.json({
+      tournaments: await listTournaments(),
+      canCreate: !!walletAddress && isAdminWallet(walletAddress)
+    });
+  } catch (error) {
+    console.log(`Error listing tournaments: ${error}`);
+    return c.json({ error: 'Failed to list tournaments', details: String(error) }, 500);
+  }
+});
+
+/**
+ * PAYOUT JOB: Mint the prizes of finished tournaments
+ * Called on a schedule with the cron secret; each run sends a limited batch
+ */
+app.post('/make-server-02a4aef8/tournaments/payouts', requireCronSecret, async (c) => {
+  try {
+    const result = await processTournamentPayouts();
+    
+    console.log(`🏆 Tournament payouts: ${result.minted} minted, ${result.confirmed} confirmed`, result);
+    
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.log(`Error paying out tournaments: ${error}`);
+    return c.json({ error: 'Failed to pay out tournaments', details: String(error) }, 500);
+  }
+});
+
+// Get a tournament with its bracket and standings, and where `walletAddress` stands in it
+app.get('/make-server-02a4aef8/tournaments/:tournamentId', async (c) => {
+  try {
+    const tournament = await getTournamentView(
+      c.req.param('tournamentId'),
+      c.req.query('walletAddress') || undefined
+    );
+    
+    if (!tournament) {
+      return c.json({ error: 'Tournament not found' }, 404);
+    }
+    
+    return c.json({ success: true, tournament });
+  } catch (error) {
+    console.log(`Error fetching tournament: ${error}`);
+    return c.json({ error: 'Failed to fetch tournament', details: String(error) }, 500);
+  }
+});
+
+// Schedule a tournament (admin only)
+app.post('/make-server-02a4aef8/tournaments', requireAuth, requireAdmin, async (c) => {
+  try {
+    const body = await c.req.json();
+    const result = await createTournament(c.get('walletAddress'), body, GAME_ROUNDS);
+    
+    if (!result.success || !result.tournament) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      tournament: await getTournamentView(result.tournament.id)
+    });
+  } catch (error) {
+    console.log(`Error creating tournament: ${error}`);
+    return c.json({ error: 'Failed to create tournament', details: String(error) }, 500);
+  }
+});
+
+// Register the signed-in wallet for a tournament
+app.post('/make-server-02a4aef8/tournaments/:tournamentId/register', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.get('walletAddress');
+    
+    const player = await kv.get(`player:${walletAddress}`);
+    if (!player) {
+      return c.json({ error: 'Player not found' }, 404);
+    }
+    
+    const tournamentId = c.req.param('tournamentId');
+    const result = await registerForTournament(tournamentId, walletAddress);
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      tournament: await getTournamentView(tournamentId, walletAddress)
+    });
+  } catch (error) {
+    console.log(`Error registering for tournament: ${error}`);
+    return c.json({ error: 'Failed to register for tournament', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Start the signed-in player's game for their current tournament round
+ * Returns a regular game session, played through the /session endpoints
+ */
+app.post('/make-server-02a4aef8/tournaments/:tournamentId/play', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.get('walletAddress');
+    const tournament = await getTournament(c.req.param('tournamentId'));
+    
+    if (!tournament) {
+      return c.json({ error: 'Tournament not found' }, 404);
+    }
+    
+    const playable = await getPlayableStage(tournament, walletAddress);
+    if (playable.stage === undefined) {
+      return c.json({ error: playable.error }, playable.status || 409);
+    }
+    
+    // The pack is unused: the round's words come from the tournament
+    const result = await startSession(
+      walletAddress,
+      tournament.difficulty,
+      getBuiltInPack(),
+      false,
+      false,
+      { tournament, stage: playable.stage }
+    );
+    
+    if (!result.success || !result.session) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({
+      success: true,
+      session: toSessionView(result.session)
+    });
+  } catch (error) {
+    console.log(`Error starting tournament game: ${error}`);
+    return c.json({ error: 'Failed to start tournament game', details: String(error) }, 500);
+  }
+});
+
+/**
+ * List word packs (without their words)
+ * `canApprove` tells the client whether to offer approval to `walletAddress`
+ */
+app.get('/make-server-02a4aef8/word-packs', async (c) => {
+  try {
+    const walletAddress = c.req.query('walletAddress');
+    const packs = await listWordPacks();
+    return c.json({
+      packs,
+      canApprove: !!walletAddress && isAdminWallet(walletAddress)
+    });
+  } catch (error) {
+    console.log(`Error listing word packs: ${error}`);
+    return c.json({ error: 'Failed to list word packs', details: String(error) }, 500);
+  }
+});
+
+// Get a word pack with its words
+app.get('/make-server-02a4aef8/word-packs/:packId', async (c) => {
+  try {
+    const pack = await getWordPack(c.req.param('packId'));
+    
+    if (!pack) {
+      return c.json({ error: 'Word pack not found' }, 404);
+    }
+    
+    return c.json({ pack });
+  } catch (error) {
+    console.log(`Error fetching word pack: ${error}`);
+    return c.json({ error: 'Failed to fetch word pack', details: String(error) }, 500);
+  }
+});
+
+// Upload a word pack as JSON or CSV
+app.post('/make-server-02a4aef8/word-packs', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { format, content, name, description } = body;
+    
+    if (!isWordPackFormat(format)) {
+      return c.json({ error: 'Format must be "json" or "csv"' }, 400);
+    }
+    
+    if (typeof content !== 'string') {
+      return c.json({ error: 'Pack content is required' }, 400);
+    }
+    
+    const result = await createWordPack(c.get('walletAddress'), format, content, {
+      name: typeof name === 'string' ? name : undefined,
+      description: typeof description === 'string' ? description : undefined,
+    });
+    
+    if (!result.success || !result.pack) {
+      return c.json({
+        error: result.error,
+        errors: result.errors,
+        warnings: result.warnings
+      }, result.status || 400);
+    }
+    
+    console.log(`📚 Word pack "${result.pack.name}" uploaded by ${result.pack.createdBy}`);
+    
+    return c.json({
+      success: true,
+      pack: summarizeWordPack(result.pack),
+      warnings: result.warnings
+    });
+  } catch (error) {
+    console.log(`Error uploading word pack: ${error}`);
+    return c.json({ error: 'Failed to upload word pack', details: String(error) }, 500);
+  }
+});
+
+// Approve a word pack so games on it earn WMINT (admin only)
+app.post('/make-server-02a4aef8/word-packs/:packId/approve', requireAuth, requireAdmin, async (c) => {
+  try {
+    const result = await approveWordPack(c.req.param('packId'), c.get('walletAddress'));
+    
+    if (!result.success || !result.pack) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    console.log(`📚 Word pack "${result.pack.name}" approved by ${result.pack.approvedBy}`);
+    
+    return c.json({ success: true, pack: summarizeWordPack(result.pack) });
+  } catch (error) {
+    console.log(`Error approving word pack: ${error}`);
+    return c.json({ error: 'Failed to approve word pack', details: String(error) }, 500);
+  }
+});
+
+// Delete a word pack (uploader or admin only)
+app.delete('/make-server-02a4aef8/word-packs/:packId', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.get('walletAddress');
+    const result = await deleteWordPack(
+      c.req.param('packId'),
+      walletAddress,
+      isAdminWallet(walletAddress)
+    );
+    
+    if (!result.success) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.log(`Error deleting word pack: ${error}`);
+    return c.json({ error: 'Failed to delete word pack', details: String(error) }, 500);
+  }
+});
+
+// Get leaderboard (top players by score): all-time, or a weekly/monthly season (the current one unless `seasonId` is given)
+app.get('/make-server-02a4aef8/leaderboard', async (c) => {
+  try {
+    const limit = parseInt(c.req.query('limit') || '10');
+    const season = c.req.query('season') || 'all-time';
+    
+    if (season !== 'all-time') {
+      if (!SEASON_PERIODS.includes(season as SeasonPeriod)) {
+        return c.json({ error: 'Invalid season' }, 400);
+      }
+      
+      const period = season as SeasonPeriod;
+      const seasonId = c.req.query('seasonId') || getSeasonId(period);
+      if (!isValidSeasonId(period, seasonId)) {
+        return c.json({ error: 'Invalid season ID' }, 400);
+      }
+      
+      const result = await getSeasonLeaderboard(period, seasonId, limit);
+      return c.json({
+        leaderboard: result.leaderboard,
+        total: result.season.players,
+        season: result.season
+      });
+    }
+    
+    // Get all player records
+    const allPlayers = await kv.getByPrefix('player:');
+    
+    // Sort by totalWmintEarned and take top N
+    const leaderboard = allPlayers
+      .sort((a, b) => (b.totalWmintEarned || 0) - (a.totalWmintEarned || 0))
+      .slice(0, limit)
+      .map((player, index) => ({
+        rank: index + 1,
+        walletAddress: player.walletAddress,
+        score: player.totalWmintEarned || 0, // Use total WMINT earned for leaderboard
+        level: player.level,
+        gamesPlayed: player.gamesPlayed
+      }));
+    
+    return c.json({ 
+      leaderboard,
+      total: allPlayers.length 
+    });
+  } catch (error) {
+    console.log(`Error fetching leaderboard: ${error}`);
+    return c.json({ error: 'Failed to fetch leaderboard', details: String(error) }, 500);
+  }
+});
+
+// Finished seasons of a period with archived standings, most recent first
+app.get('/make-server-02a4aef8/leaderboard/seasons', async (c) => {
+  try {
+    const period = c.req.query('season') as SeasonPeriod;
+    
+    if (!SEASON_PERIODS.includes(period)) {
+      return c.json({ error: 'Invalid season' }, 400);
+    }
+    
+    return c.json({
+      currentSeasonId: getSeasonId(period),
+      seasons: await getSeasonArchives(period)
+    });
+  } catch (error) {
+    console.log(`Error fetching seasons: ${error}`);
+    return c.json({ error: 'Failed to fetch seasons', details: String(error) }, 500);
+  }
+});
+
+/**
+ * ROLLOVER JOB: Archive the final standings of finished seasons
+ * Called on a schedule with the cron secret (daily is enough)
+ */
+app.post('/make-server-02a4aef8/leaderboard/rollover', requireCronSecret, async (c) => {
+  try {
+    const result = await rolloverSeasons();
+    
+    console.log(`🏁 Season rollover: ${result.archived.length} seasons archived`);
+    
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.log(`Error rolling over seasons: ${error}`);
+    return c.json({ error: 'Failed to roll over seasons', details: String(error) }, 500);
+  }
+});
+
+// Daily challenge leaderboard (today's unless a YYYY-MM-DD date is given)
+app.get('/make-server-02a4aef8/daily/leaderboard', async (c) => {
+  try {
+    const limit = parseInt(c.req.query('limit') || '10');
+    const date = c.req.query('date') || getDailyDate();
+    
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return c.json({ error: 'Invalid date' }, 400);
+    }
+    
+    return c.json({
+      date,
+      leaderboard: await getDailyLeaderboard(date, limit)
+    });
+  } catch (error) {
+    console.log(`Error fetching daily leaderboard: ${error}`);
+    return c.json({ error: 'Failed to fetch daily leaderboard', details: String(error) }, 500);
+  }
+});
+
+// A player's daily challenge for today: null if not played yet
+app.get('/make-server-02a4aef8/daily/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const date = getDailyDate();
+    const entry = await getDailyEntry(date, walletAddress);
+    
+    return c.json({
+      success: true,
+      date,
+      resetsAt: getNextDailyReset().toISOString(),
+      entry: entry || null
+    });
+  } catch (error) {
+    console.log(`Error fetching daily challenge: ${error}`);
+    return c.json({ error: 'Failed to fetch daily challenge', details: String(error) }, 500);
+  }
+});
+
+// Delete player data (for testing/cleanup)
+app.delete('/make-server-02a4aef8/player/:walletAddress', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    const key = `player:${walletAddress}`;
+    
+    await kv.del(key);
+    
+    return c.json({ 
+      success: true, 
+      message: 'Player data deleted' 
+    });
+  } catch (error) {
+    console.log(`Error deleting player data: ${error}`);
+    return c.json({ error: 'Failed to delete player data', details: String(error) }, 500);
+  }
+});
+
+// Clear all leaderboard data (for testing/cleanup, admin only)
+app.post('/make-server-02a4aef8/clear-leaderboard', requireAuth, requireAdmin, async (c) => {
+  try {
+    const allPlayers = await kv.getByPrefix('player:');
+    const deletePromises = allPlayers.map(player => 
+      kv.del(`player:${player.walletAddress}`)
+    );
+    
+    await Promise.all(deletePromises);
+    
+    console.log(`🗑️ Cleared ${allPlayers.length} players from leaderboard`);
+    
+    return c.json({ 
+      success: true, 
+      message: `Deleted ${allPlayers.length} players`,
+      count: allPlayers.length
+    });
+  } catch (error) {
+    console.log(`Error clearing leaderboard: ${error}`);
+    return c.json({ error: 'Failed to clear leaderboard', details: String(error) }, 500);
+  }
+});
+
+/**
+ * BLOCKCHAIN ENDPOINT: Get WordMint token mint address
+ * Returns the SPL token mint address for frontend to query balances
+ */
+app.get('/make-server-02a4aef8/token/mint', async (c) => {
+  try {
+    const mintAddress = await getTokenMintAddress();
+    
+    if (!mintAddress) {
+      return c.json({ 
+        error: 'Token mint not configured',
+        message: 'Please complete the Solana setup. See SOLANA_SETUP_GUIDE.md for instructions.',
+        setupRequired: true
+      }, 500);
+    }
+    
+    return c.json({
+      mintAddress,
+      name: 'WordMint Token',
+      symbol: 'WMINT',
+      decimals: 9,
+      network: getChainNetwork(),
+    });
+  } catch (error: any) {
+    console.log(`Error getting token mint: ${error}`);
+    
+    const errorMessage = error.message || 'Failed to get token mint';
+    const isConfigError = errorMessage.includes('WORDMINT_MINT_AUTHORITY');
+    
+    return c.json({ 
+      error: 'Failed to get token mint', 
+      message: errorMessage,
+      setupRequired: isConfigError,
+      details: String(error) 
+    }, 500);
+  }
+});
+
+/**
+ * BLOCKCHAIN ENDPOINT: Get a wallet's on-chain WMINT balance
+ */
+app.get('/make-server-02a4aef8/token/balance/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const balance = await getTokenBalance(walletAddress);
+    
+    return c.json({
+      walletAddress,
+      balance,
+      network: getChainNetwork(),
+    });
+  } catch (error) {
+    console.log(`Error getting token balance: ${error}`);
+    return c.json({ error: 'Failed to get token balance', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Get a player's unlocked achievements with when and how each unlocked, and its badge
+ * Read-only: unlocks are recorded by the signed-in game and claim routes.
+ */
+app.get('/make-server-02a4aef8/achievements/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const [record, badges] = await Promise.all([
+      getAchievementRecord(walletAddress),
+      getBadges(walletAddress),
+    ]);
+    const badgesById = new Map(badges.map(badge => [badge.achievementId, toBadgeView(badge)]));
+    
+    return c.json({
+      unlocks: (record?.unlocks || []).map(unlock => ({
+        ...unlock,
+        badge: badgesById.get(unlock.achievementId) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.log(`Error fetching achievements: ${error}`);
+    return c.json({ error: 'Failed to fetch achievements', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Achievement inbox: unlocks the signed-in player hasn't been shown, e.g. ones earned while offline
+ */
+app.get('/make-server-02a4aef8/achievements/:walletAddress/inbox', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    
+    return c.json({ unlocks: await getUnseenUnlocks(walletAddress) });
+  } catch (error) {
+    console.log(`Error fetching achievement inbox: ${error}`);
+    return c.json({ error: 'Failed to fetch achievement inbox', details: String(error) }, 500);
+  }
+});
+
+// Mark unlocks as shown to the signed-in player; returns what's left in the inbox
+app.post('/make-server-02a4aef8/achievements/:walletAddress/seen', requireAuth, async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    
+    if (walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Wallet address does not match signed-in wallet' }, 403);
+    }
+    
+    const body = await c.req.json();
+    const { achievementIds } = body;
+    
+    if (!Array.isArray(achievementIds) || !achievementIds.every(id => typeof id === 'string')) {
+      return c.json({ error: 'achievementIds must be a list of achievement IDs' }, 400);
+    }
+    
+    return c.json({
+      success: true,
+      unlocks: await markUnlocksSeen(walletAddress, achievementIds)
+    });
+  } catch (error) {
+    console.log(`Error marking achievements seen: ${error}`);
+    return c.json({ error: 'Failed to mark achievements seen', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Get a player's achievement badges and their mint status
+ * Read-only, like the achievements route.
+ */
+app.get('/make-server-02a4aef8/badges/:walletAddress', async (c) => {
+  try {
+    const walletAddress = c.req.param('walletAddress');
+    const badges = await getBadges(walletAddress);
+    
+    return c.json({ badges: badges.map(toBadgeView) });
+  } catch (error) {
+    console.log(`Error fetching badges: ${error}`);
+    return c.json({ error: 'Failed to fetch badges', details: String(error) }, 500);
+  }
+});
+
+// Badge NFT metadata (the `uri` of every minted badge), fetched by wallets and explorers
+app.get('/make-server-02a4aef8/badges/metadata/:achievementId', (c) => {
+  const achievement = getAchievement(c.req.param('achievementId'));
+  
+  if (!achievement) {
+    return c.json({ error: 'Achievement not found' }, 404);
+  }
+  
+  return c.json(getBadgeMetadata(achievement));
+});
+
+// Badge NFT image
+app.get('/make-server-02a4aef8/badges/image/:achievementId', (c) => {
+  const achievement = getAchievement(c.req.param('achievementId'));
+  
+  if (!achievement) {
+    return c.json({ error: 'Achievement not found' }, 404);
+  }
+  
+  return c.body(renderBadgeImage(achievement), 200, {
+    'Content-Type': 'image/svg+xml',
+    'Cache-Control': 'public, max-age=86400',
+  });
+});
+
+/**
+ * MINT JOB: Mint unlocked achievement badges as compressed NFTs
+ * Called on a schedule with the cron secret; each run sends a limited batch
+ */
+app.post('/make-server-02a4aef8/badges/mint', requireCronSecret, async (c) => {
+  try {
+    const result = await processBadgeMints();
+    
+    console.log(`🏅 Badge mints: ${result.minted} minted, ${result.confirmed} confirmed`, result);
+    
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.log(`Error minting badges: ${error}`);
+    return c.json({ error: 'Failed to mint badges', details: String(error) }, 500);
+  }
+});
+
+/**
+ * BLOCKCHAIN ENDPOINT: Claim pending WMINT rewards
+ * 
+ * Reserves the player's full pending balance, mints it on Solana and
+ * finalizes the claim in one request. Retrying with the same idempotency key
+ * returns the original claim instead of minting again.
+ */
+app.post('/make-server-02a4aef8/claims', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json();
+    const { idempotencyKey } = body;
+    
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return c.json({ error: 'A valid idempotency key is required' }, 400);
+    }
+    
+    const result = await createClaim(c.get('walletAddress'), idempotencyKey);
+    
+    if (!result.success || !result.claim) {
+      return c.json({ error: result.error }, result.status || 400);
+    }
+    
+    const { claim } = result;
+    
+    return c.json({
+      success: true,
+      claim,
+      player: result.player,
+      unlocked: result.unlocked || [],
+      explorerUrl: claim.signature
+        ? getExplorerTxUrl(getPublicClusterConfig(), claim.signature)
+        : null,
+    });
+  } catch (error) {
+    console.log(`❌ Error claiming tokens: ${error}`);
+    return c.json({ error: 'Failed to claim tokens', details: String(error) }, 500);
+  }
+});
+
+/**
+ * Get a claim's current status
+ */
+app.get('/make-server-02a4aef8/claims/:claimId', requireAuth, async (c) => {
+  try {
+    const claim = await getClaim(c.req.param('claimId'));
+    
+    if (!claim || claim.walletAddress !== c.get('walletAddress')) {
+      return c.json({ error: 'Claim not found' }, 404);
+    }
+    
+    return c.json({ claim });
+  } catch (error) {
+    console.log(`Error fetching claim: ${error}`);
+    return c.json({ error: 'Failed to fetch claim', details: String(error) }, 500);
+  }
+});
+
+/**
+ * RECOVERY JOB: Reconcile stuck claims against on-chain signatures
+ * Called on a schedule with the cron secret
+ */
+app.post('/make-server-02a4aef8/claims/reconcile', requireCronSecret, async (c) => {
+  try {
+    const result = await reconcileClaims();
+    
+    console.log(`🔁 Reconciled ${result.checked} open claims`, result.settled);
+    
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.log(`Error reconciling claims: ${error}`);
+    return c.json({ error: 'Failed to reconcile claims', details: String(error) }, 500);
+  }
+});
+
+export default app;
\ No newline at end of file
@@ -0,0 +1,214 @@
+/**
+ * SIGN-IN WITH SOLANA
+ *
+ * Wallet-signature authentication for player-mutating routes.
+ *
+ * Flow:
+ * 1. Client requests a nonce for its wallet address
+ * 2. Wallet signs the sign-in message with signMessage
+ * 3. Server verifies the ed25519 signature against the wallet public key
+ * 4. Server issues a short-lived session token
+ * 5. Client sends the token in the X-WordMint-Session header
+ */
+
+import { createMiddleware } from 'npm:hono/factory';
+import nacl from 'npm:tweetnacl@1.0.3';
+import bs58 from 'npm:bs58@5.0.0';
+import * as kv from './storage/index.tsx';
+
+export const SESSION_HEADER = 'X-WordMint-Session';
+export const CRON_SECRET_HEADER = 'X-WordMint-Cron-Secret';
+
+// Nonces must be signed quickly and can only be used once
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Session tokens are short-lived; the client signs in again when one expires
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+export type AuthVariables = {
+  walletAddress: string;
+};
+
+interface AuthNonce {
+  nonce: string;
+  message: string;
+  expiresAt: number;
+}
+
+interface AuthSession {
+  walletAddress: string;
+  expiresAt: number;
+}
+
+function randomToken(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return bs58.encode(bytes);
+}
+
+function isValidWalletAddress(walletAddress: string): boolean {
+  try {
+    return bs58.decode(walletAddress).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+function buildSignInMessage(walletAddress: string, nonce: string, issuedAt: string): string {
+  return [
+    'Sign in to WordMint',
+    '',
+    'This request will not trigger a blockchain transaction or cost any fees.',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Issue a sign-in nonce for a wallet
+ * Replaces any previous unused nonce for the same wallet
+ */
+export async function createNonce(walletAddress: string): Promise<{
+  success: boolean;
+  nonce?: string;
+  message?: string;
+  error?: string;
+}> {
+  if (!isValidWalletAddress(walletAddress)) {
+    return { success: false, error: 'Invalid wallet address' };
+  }
+
+  const nonce = randomToken(16);
+  const message = buildSignInMessage(walletAddress, nonce, new Date().toISOString());
+
+  const record: AuthNonce = {
+    nonce,
+    message,
+    expiresAt: Date.now() + NONCE_TTL_MS,
+  };
+  await kv.set(`auth-nonce:${walletAddress}`, record);
+
+  return { success: true, nonce, message };
+}
+
+/**
+ * Verify a signed nonce and issue a session token
+ */
+export async function verifySignIn(
+  walletAddress: string,
+  nonce: string,
+  signature: string
+): Promise<{
+  success: boolean;
+  token?: string;
+  expiresAt?: number;
+  error?: string;
+}> {
+  const nonceKey = `auth-nonce:${walletAddress}`;
+  const record: AuthNonce | undefined = await kv.get(nonceKey);
+
+  if (!record || record.nonce !== nonce) {
+    return { success: false, error: 'Unknown or already used nonce' };
+  }
+
+  // Nonces are single-use, whether or not verification succeeds
+  await kv.del(nonceKey);
+
+  if (Date.now() > record.expiresAt) {
+    return { success: false, error: 'Nonce expired' };
+  }
+
+  let verified = false;
+  try {
+    verified = nacl.sign.detached.verify(
+      new TextEncoder().encode(record.message),
+      bs58.decode(signature),
+      bs58.decode(walletAddress)
+    );
+  } catch (error) {
+    console.log(`Signature decoding failed: ${error}`);
+  }
+
+  if (!verified) {
+    return { success: false, error: 'Invalid signature' };
+  }
+
+  const token = randomToken(32);
+  const session: AuthSession = {
+    walletAddress,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  await kv.set(`auth-session:${token}`, session);
+
+  return { success: true, token, expiresAt: session.expiresAt };
+}
+
+/**
+ * Revoke a session token
+ */
+export async function revokeSession(token: string): Promise<void> {
+  await kv.del(`auth-session:${token}`);
+}
+
+/**
+ * Middleware: require a valid session token
+ * Sets `walletAddress` on the context for route handlers
+ */
+export const requireAuth = createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+  const token = c.req.header(SESSION_HEADER);
+
+  if (!token) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  const session: AuthSession | undefined = await kv.get(`auth-session:${token}`);
+
+  if (!session || Date.now() > session.expiresAt) {
+    if (session) {
+      await kv.del(`auth-session:${token}`);
+    }
+    return c.json({ error: 'Session expired, please sign in again' }, 401);
+  }
+
+  c.set('walletAddress', session.walletAddress);
+  await next();
+});
+
+/**
+ * Whether a wallet is an admin
+ * Admin wallets are configured as a comma-separated list in WORDMINT_ADMIN_WALLETS
+ */
+export function isAdminWallet(walletAddress: string): boolean {
+  const adminWallets = (Deno.env.get('WORDMINT_ADMIN_WALLETS') || '')
+    .split(',')
+    .map(wallet => wallet.trim())
+    .filter(Boolean);
+
+  return adminWallets.includes(walletAddress);
+}
+
+/**
+ * Middleware: require a session belonging to an admin wallet
+ */
+export const requireAdmin = createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+  if (!isAdminWallet(c.get('walletAddress'))) {
+    return c.json({ error: 'Admin access required' }, 403);
+  }
+
+  await next();
+});
+
+/**
+ * Middleware: require the shared secret used by scheduled jobs
+ * Configured in WORDMINT_CRON_SECRET; the route is disabled when it is unset
+ */
+export const requireCronSecret = createMiddleware(async (c, next) => {
+  const cronSecret = Deno.env.get('WORDMINT_CRON_SECRET');
+
+  if (!cronSecret || c.req.header(CRON_SECRET_HEADER) !== cronSecret) {
+    return c.json({ error: 'Invalid cron secret' }, 403);
+  }
+
+  await next();
+});
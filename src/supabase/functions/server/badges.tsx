@@ -0,0 +1,371 @@
+/**
+ * ACHIEVEMENT BADGES
+ *
+ * Every achievement unlock in a player's achievement record (see
+ * achievements.tsx) becomes a badge, created once with the unlock's time.
+ *
+ * Every badge is minted to the player's wallet as a Metaplex compressed NFT.
+ * Its name and symbol are on-chain; the rest of its metadata (description,
+ * rarity, an SVG image in the badge's colors) is derived from the achievement
+ * and served by this function at /badges/metadata/:achievementId.
+ *
+ * Mints are queued and sent by a scheduled job, a batch per run. A badge mint
+ * goes pending -> submitting -> submitted -> confirmed; the signature is
+ * recorded before the transaction is sent, so an interrupted mint is
+ * reconciled on-chain instead of being minted twice.
+ */
+
+import * as kv from './storage/index.tsx';
+import { Achievement, BadgeMintStatus, getAchievement } from '../../../utils/achievements.ts';
+import type { AchievementUnlock } from './achievements.tsx';
+import {
+  mintBadgeToPlayer,
+  getBadgeAssetId,
+  getSignatureStatus,
+  getCurrentBlockHeight,
+} from './solana-token.tsx';
+
+// Badge mints sent per job run, so a run stays within the function's time limit
+const MINT_BATCH_SIZE = 20;
+
+// A mint still submitting after this long never got signed, so it can be retried
+const STUCK_MINT_AFTER_MS = 2 * 60 * 1000;
+
+// Symbol of every badge NFT (Metaplex allows up to 10 characters)
+const BADGE_SYMBOL = 'WMBADGE';
+
+// Metaplex allows names of up to 32 characters
+const MAX_BADGE_NAME_LENGTH = 32;
+
+// Tailwind colors used by achievement badges, for the SVG image
+const BADGE_COLORS: Record<string, string> = {
+  'amber-400': '#fbbf24',
+  'amber-500': '#f59e0b',
+  'amber-600': '#d97706',
+  'blue-500': '#3b82f6',
+  'cyan-500': '#06b6d4',
+  'cyan-600': '#0891b2',
+  'emerald-500': '#10b981',
+  'emerald-600': '#059669',
+  'green-500': '#22c55e',
+  'green-600': '#16a34a',
+  'indigo-500': '#6366f1',
+  'indigo-600': '#4f46e5',
+  'orange-500': '#f97316',
+  'orange-600': '#ea580c',
+  'pink-500': '#ec4899',
+  'pink-600': '#db2777',
+  'purple-500': '#a855f7',
+  'purple-600': '#9333ea',
+  'red-500': '#ef4444',
+  'red-600': '#dc2626',
+  'rose-600': '#e11d48',
+  'slate-500': '#64748b',
+  'slate-600': '#475569',
+  'teal-500': '#14b8a6',
+  'violet-600': '#7c3aed',
+  'yellow-400': '#facc15',
+  'yellow-500': '#eab308',
+};
+
+export interface Badge {
+  walletAddress: string;
+  achievementId: string;
+  unlockedAt: string;
+  status: BadgeMintStatus;
+  attempts: number;
+  signature?: string;
+  lastValidBlockHeight?: number;
+  assetId?: string; // Address of the compressed NFT, once confirmed
+  mintedAt?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+/**
+ * What the client sees of a badge
+ */
+export interface BadgeView {
+  achievementId: string;
+  unlockedAt: string;
+  status: BadgeMintStatus;
+  signature: string | null;
+  assetId: string | null;
+  mintedAt: string | null;
+}
+
+// A badge waiting for the mint job, removed once its mint is confirmed
+interface BadgeMintQueueEntry {
+  walletAddress: string;
+  achievementId: string;
+  queuedAt: string;
+}
+
+function badgeKey(walletAddress: string, achievementId: string): string {
+  return `badge:${walletAddress}:${achievementId}`;
+}
+
+function queueKey(walletAddress: string, achievementId: string): string {
+  return `badge-mint:${walletAddress}:${achievementId}`;
+}
+
+/**
+ * Base URL of this function as wallets and explorers reach it
+ * WORDMINT_PUBLIC_URL overrides it, e.g. for local development behind a tunnel.
+ */
+function getPublicUrl(): string {
+  return Deno.env.get('WORDMINT_PUBLIC_URL') ||
+    `${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-02a4aef8`;
+}
+
+export function getBadgeMetadataUrl(achievementId: string): string {
+  return `${getPublicUrl()}/badges/metadata/${achievementId}`;
+}
+
+function getBadgeImageUrl(achievementId: string): string {
+  return `${getPublicUrl()}/badges/image/${achievementId}`;
+}
+
+export function toBadgeView(badge: Badge): BadgeView {
+  return {
+    achievementId: badge.achievementId,
+    unlockedAt: badge.unlockedAt,
+    status: badge.status,
+    signature: badge.signature ?? null,
+    assetId: badge.assetId ?? null,
+    mintedAt: badge.mintedAt ?? null,
+  };
+}
+
+/**
+ * A player's badges, oldest unlock first
+ */
+export async function getBadges(walletAddress: string): Promise<Badge[]> {
+  const badges: Badge[] = await kv.getByPrefix(`badge:${walletAddress}:`);
+  return badges.sort((a, b) => a.unlockedAt.localeCompare(b.unlockedAt));
+}
+
+/**
+ * Create a badge for every recorded unlock that doesn't have one yet and queue its mint
+ * Create-only, so each badge is minted once. Returns the badges new to this call.
+ */
+export async function syncBadges(walletAddress: string, unlocks: AchievementUnlock[]): Promise<Badge[]> {
+  const existing = new Set((await getBadges(walletAddress)).map(badge => badge.achievementId));
+  const now = new Date().toISOString();
+  const created: Badge[] = [];
+
+  for (const unlock of unlocks) {
+    const achievement = getAchievement(unlock.achievementId);
+    if (!achievement || existing.has(achievement.id)) {
+      continue;
+    }
+
+    const badge: Badge = {
+      walletAddress,
+      achievementId: achievement.id,
+      unlockedAt: unlock.unlockedAt,
+      status: 'pending',
+      attempts: 0,
+      updatedAt: now,
+    };
+
+    if (await kv.compareAndSet(badgeKey(badge.walletAddress, badge.achievementId), undefined, badge)) {
+      const entry: BadgeMintQueueEntry = {
+        walletAddress: badge.walletAddress,
+        achievementId: badge.achievementId,
+        queuedAt: now,
+      };
+      await kv.set(queueKey(badge.walletAddress, badge.achievementId), entry);
+      created.push(badge);
+      console.log(`🏅 ${badge.walletAddress} unlocked ${achievement.name}`);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Metaplex token metadata JSON for an achievement's badge
+ */
+export function getBadgeMetadata(achievement: Achievement) {
+  return {
+    name: getBadgeName(achievement),
+    symbol: BADGE_SYMBOL,
+    description: `WordMint achievement: ${achievement.description}`,
+    image: getBadgeImageUrl(achievement.id),
+    attributes: [
+      { trait_type: 'Rarity', value: achievement.badge.rarity },
+      { trait_type: 'Category', value: achievement.category },
+      { trait_type: 'Requirement', value: achievement.requirement },
+    ],
+    properties: {
+      category: 'image',
+      files: [{ uri: getBadgeImageUrl(achievement.id), type: 'image/svg+xml' }],
+    },
+  };
+}
+
+function getBadgeName(achievement: Achievement): string {
+  return `WordMint: ${achievement.name}`.slice(0, MAX_BADGE_NAME_LENGTH);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The badge image: the achievement's icon on its gradient, with its name and rarity
+ */
+export function renderBadgeImage(achievement: Achievement): string {
+  const [from, to] = achievement.badge.color
+    .split(' ')
+    .map(part => BADGE_COLORS[part.replace(/^(from|to)-/, '')] || BADGE_COLORS['emerald-500']);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+  <defs>
+    <linearGradient id="badge" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${from}"/>
+      <stop offset="1" stop-color="${to}"/>
+    </linearGradient>
+  </defs>
+  <rect width="512" height="512" rx="64" fill="#0f172a"/>
+  <circle cx="256" cy="220" r="150" fill="url(#badge)"/>
+  <text x="256" y="270" font-size="140" text-anchor="middle">${escapeXml(achievement.icon)}</text>
+  <text x="256" y="432" font-size="40" font-family="sans-serif" fill="#ffffff" text-anchor="middle">${escapeXml(achievement.name)}</text>
+  <text x="256" y="478" font-size="24" font-family="sans-serif" fill="#94a3b8" text-anchor="middle" letter-spacing="4">${achievement.badge.rarity.toUpperCase()}</text>
+</svg>`;
+}
+
+async function transitionBadge(
+  badge: Badge,
+  status: BadgeMintStatus,
+  changes: Partial<Badge> = {}
+): Promise<Badge> {
+  const updated: Badge = {
+    ...badge,
+    ...changes,
+    status,
+    updatedAt: new Date().toISOString(),
+  };
+  if (!(await kv.compareAndSet(badgeKey(badge.walletAddress, badge.achievementId), badge, updated))) {
+    throw new Error(`Badge ${badge.walletAddress}:${badge.achievementId} was updated concurrently`);
+  }
+  return updated;
+}
+
+/**
+ * Mark a badge minted, looking up its asset ID if the mint didn't return one
+ */
+async function confirmBadge(badge: Badge, assetId?: string): Promise<Badge> {
+  const resolvedAssetId = assetId ?? (await getBadgeAssetId(badge.signature!)) ?? undefined;
+  const confirmed = await transitionBadge(badge, 'confirmed', {
+    assetId: resolvedAssetId,
+    mintedAt: new Date().toISOString(),
+    error: undefined,
+  });
+  await kv.del(queueKey(badge.walletAddress, badge.achievementId));
+  console.log(`✅ Badge ${badge.achievementId} minted to ${badge.walletAddress}: ${resolvedAssetId}`);
+  return confirmed;
+}
+
+/**
+ * Settle a submitted mint against the chain; failed and expired ones go back to pending
+ */
+async function reconcileBadge(badge: Badge): Promise<Badge> {
+  if (badge.status === 'submitted' && badge.signature) {
+    const status = await getSignatureStatus(badge.signature);
+
+    if (status?.confirmed) {
+      return confirmBadge(badge);
+    }
+
+    if (status?.failed) {
+      return transitionBadge(badge, 'pending', { error: 'Transaction failed on-chain' });
+    }
+
+    if (!status && badge.lastValidBlockHeight !== undefined) {
+      const blockHeight = await getCurrentBlockHeight();
+      if (blockHeight > badge.lastValidBlockHeight) {
+        return transitionBadge(badge, 'pending', { error: 'Transaction expired' });
+      }
+    }
+  }
+
+  // Never signed, so never sent: safe to try again
+  if (badge.status === 'submitting') {
+    const age = Date.now() - new Date(badge.updatedAt).getTime();
+    if (age > STUCK_MINT_AFTER_MS) {
+      return transitionBadge(badge, 'pending', { error: 'Mint abandoned before submission' });
+    }
+  }
+
+  return badge;
+}
+
+/**
+ * Mint a pending badge, recording the signature before the transaction is sent
+ */
+async function sendBadge(badge: Badge, achievement: Achievement): Promise<Badge> {
+  let current = await transitionBadge(badge, 'submitting', { attempts: badge.attempts + 1 });
+
+  const result = await mintBadgeToPlayer(
+    badge.walletAddress,
+    { name: getBadgeName(achievement), symbol: BADGE_SYMBOL, uri: getBadgeMetadataUrl(achievement.id) },
+    async (signed) => {
+      current = await transitionBadge(current, 'submitted', {
+        signature: signed.signature,
+        lastValidBlockHeight: signed.lastValidBlockHeight,
+      });
+    }
+  );
+
+  if (result.success) {
+    return confirmBadge(current, result.assetId);
+  }
+
+  if (current.status === 'submitted') {
+    // The transaction may still land; the next run reconciles it
+    console.log(`⚠️ Badge mint unconfirmed: ${result.error}`);
+    return current;
+  }
+
+  console.log(`❌ Badge mint failed before submission: ${result.error}`);
+  return transitionBadge(current, 'pending', { error: result.error });
+}
+
+/**
+ * MINT JOB: mint queued badges, up to MINT_BATCH_SIZE per run
+ * Reconciles earlier mints first.
+ */
+export async function processBadgeMints(): Promise<{ queued: number; minted: number; confirmed: number }> {
+  const queue: BadgeMintQueueEntry[] = await kv.getByPrefix('badge-mint:');
+  const totals = { queued: queue.length, minted: 0, confirmed: 0 };
+
+  for (const entry of queue.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))) {
+    const badge: Badge | undefined = await kv.get(badgeKey(entry.walletAddress, entry.achievementId));
+    const achievement = getAchievement(entry.achievementId);
+
+    if (!badge || !achievement || badge.status === 'confirmed') {
+      await kv.del(queueKey(entry.walletAddress, entry.achievementId));
+      continue;
+    }
+
+    let current = badge;
+    try {
+      current = await reconcileBadge(current);
+
+      if (current.status === 'pending' && totals.minted < MINT_BATCH_SIZE) {
+        totals.minted++;
+        current = await sendBadge(current, achievement);
+      }
+    } catch (error) {
+      console.log(`Error minting badge ${entry.achievementId} to ${entry.walletAddress}: ${error}`);
+    }
+
+    if (current.status === 'confirmed') {
+      totals.confirmed++;
+    }
+  }
+
+  return totals;
+}
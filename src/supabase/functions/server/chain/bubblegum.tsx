@@ -0,0 +1,134 @@
+/**
+ * BUBBLEGUM BADGE MINTER
+ *
+ * Mints achievement badges as Metaplex compressed NFTs for the web3.js adapter.
+ * Badges go into an existing Bubblegum Merkle tree (WORDMINT_BADGE_TREE) whose
+ * tree authority is the mint authority keypair; create it once per cluster,
+ * for example with mpl-bubblegum's `createTree`.
+ */
+
+import type { Keypair } from 'npm:@solana/web3.js@1.87.6';
+import { createUmi } from 'npm:@metaplex-foundation/umi-bundle-defaults@0.9.2';
+import { keypairIdentity, publicKey, none, type Umi } from 'npm:@metaplex-foundation/umi@0.9.2';
+import {
+  mplBubblegum,
+  mintV1,
+  parseLeafFromMintV1Transaction,
+  findLeafAssetIdPda,
+} from 'npm:@metaplex-foundation/mpl-bubblegum@4.2.1';
+import bs58 from 'npm:bs58@5.0.0';
+import type { BadgeMintRequest, BadgeMintResult, SignedBadgeTransaction } from './types.tsx';
+import type { ClusterConfig } from '../../../../utils/cluster-config.ts';
+
+export interface BadgeMinter {
+  mintBadge(
+    ownerAddress: string,
+    badge: BadgeMintRequest,
+    onSigned?: (signed: SignedBadgeTransaction) => Promise<void>
+  ): Promise<BadgeMintResult>;
+  getBadgeAssetId(signature: string): Promise<string | null>;
+}
+
+function getBadgeTree(): string {
+  const tree = Deno.env.get('WORDMINT_BADGE_TREE');
+  if (!tree) {
+    throw new Error('WORDMINT_BADGE_TREE not configured. Create a Bubblegum tree for badges and set its address.');
+  }
+  return tree;
+}
+
+/**
+ * Create a badge minter on the cluster, signing with the mint authority
+ */
+export function createBadgeMinter(config: ClusterConfig, getAuthority: () => Keypair): BadgeMinter {
+  let umi: Umi | null = null;
+
+  function getUmi(): Umi {
+    if (!umi) {
+      umi = createUmi(config.rpcUrl, config.commitment).use(mplBubblegum());
+      umi.use(keypairIdentity(umi.eddsa.createKeypairFromSecretKey(getAuthority().secretKey)));
+    }
+    return umi;
+  }
+
+  async function getBadgeAssetId(signature: string): Promise<string | null> {
+    const context = getUmi();
+    try {
+      const leaf = await parseLeafFromMintV1Transaction(context, bs58.decode(signature));
+      const [assetId] = findLeafAssetIdPda(context, {
+        merkleTree: publicKey(getBadgeTree()),
+        leafIndex: leaf.nonce,
+      });
+      return assetId.toString();
+    } catch (error: any) {
+      // Transactions that aren't badge mints have no leaf to parse
+      if (error.message?.includes('Could not parse')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    async mintBadge(
+      ownerAddress: string,
+      badge: BadgeMintRequest,
+      onSigned?: (signed: SignedBadgeTransaction) => Promise<void>
+    ): Promise<BadgeMintResult> {
+      let signature: string | undefined;
+
+      try {
+        const context = getUmi();
+        const latestBlockhash = await context.rpc.getLatestBlockhash({ commitment: config.commitment });
+
+        const transaction = await mintV1(context, {
+          leafOwner: publicKey(ownerAddress),
+          merkleTree: publicKey(getBadgeTree()),
+          metadata: {
+            name: badge.name,
+            symbol: badge.symbol,
+            uri: badge.uri,
+            sellerFeeBasisPoints: 0,
+            collection: none(),
+            creators: [{ address: context.identity.publicKey, verified: false, share: 100 }],
+          },
+        })
+          .setBlockhash(latestBlockhash)
+          .buildAndSign(context);
+
+        signature = bs58.encode(transaction.signatures[0]);
+
+        if (onSigned) {
+          await onSigned({ signature, lastValidBlockHeight: latestBlockhash.lastValidBlockHeight });
+        }
+
+        console.log(`Minting badge "${badge.name}" to ${ownerAddress} on ${config.cluster}`);
+
+        // Resending the same signed transaction cannot mint twice
+        const sent = await context.rpc.sendTransaction(transaction);
+        const confirmation = await context.rpc.confirmTransaction(sent, {
+          strategy: { type: 'blockhash', ...latestBlockhash },
+          commitment: config.commitment,
+        });
+
+        if (confirmation.value.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+
+        const assetId = await getBadgeAssetId(signature);
+        console.log(`✅ Minted badge "${badge.name}", asset: ${assetId}`);
+
+        return { success: true, signature, assetId: assetId ?? undefined };
+      } catch (error: any) {
+        console.error('Error minting badge:', error);
+        return {
+          success: false,
+          signature,
+          error: error.message || 'Failed to mint badge',
+        };
+      }
+    },
+
+    getBadgeAssetId,
+  };
+}
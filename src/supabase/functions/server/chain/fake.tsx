@@ -0,0 +1,191 @@
+/**
+ * FAKE LEDGER CHAIN ADAPTER
+ *
+ * In-process stand-in for a Solana cluster, for tests and offline demos.
+ * Nothing leaves the process and nothing is persisted across restarts.
+ *
+ * Addresses and signatures are derived by hashing a counter and the inputs,
+ * so the same sequence of calls always produces the same results.
+ * Every mint confirms immediately and advances the block height by one.
+ * Badges are kept as a list of asset IDs, with no Merkle tree behind them.
+ */
+
+import bs58 from 'npm:bs58@5.0.0';
+import type {
+  ChainAdapter,
+  MintResult,
+  SignatureStatus,
+  SignedMintTransaction,
+  BadgeMintRequest,
+  BadgeMintResult,
+  SignedBadgeTransaction,
+} from './types.tsx';
+
+// Token units per WMINT (matches the real mint's 9 decimals)
+const TOKEN_UNITS = 1_000_000_000n;
+
+// Same validity window a real blockhash has
+const BLOCKHASH_VALID_BLOCKS = 150;
+
+export interface FakeChainOptions {
+  // Seed mixed into every derived address and signature
+  seed?: string;
+}
+
+async function hashToBase58(algorithm: 'SHA-256' | 'SHA-512', input: string): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm, new TextEncoder().encode(input));
+  return bs58.encode(new Uint8Array(digest));
+}
+
+function assertValidAddress(address: string): void {
+  let decoded: Uint8Array;
+  try {
+    decoded = bs58.decode(address);
+  } catch {
+    throw new Error(`Invalid public key input: ${address}`);
+  }
+  if (decoded.length !== 32) {
+    throw new Error(`Invalid public key input: ${address}`);
+  }
+}
+
+/**
+ * Create an empty fake ledger
+ */
+export function createFakeChain(options: FakeChainOptions = {}): ChainAdapter {
+  const seed = options.seed ?? 'wordmint';
+
+  let blockHeight = 1;
+  let transactionCount = 0;
+  let mintAddress: string | null = null;
+
+  // Token account address -> balance in token units
+  const tokenAccounts = new Map<string, bigint>();
+  const signatures = new Map<string, SignatureStatus>();
+  // Badge mint signature -> asset ID
+  const badgeAssets = new Map<string, string>();
+
+  async function getMint(): Promise<string> {
+    if (!mintAddress) {
+      mintAddress = await hashToBase58('SHA-256', `${seed}:mint`);
+    }
+    return mintAddress;
+  }
+
+  async function tokenAccountFor(ownerAddress: string): Promise<string> {
+    assertValidAddress(ownerAddress);
+    return hashToBase58('SHA-256', `${seed}:ata:${await getMint()}:${ownerAddress}`);
+  }
+
+  async function ensureTokenAccount(ownerAddress: string): Promise<string> {
+    const address = await tokenAccountFor(ownerAddress);
+    if (!tokenAccounts.has(address)) {
+      tokenAccounts.set(address, 0n);
+    }
+    return address;
+  }
+
+  return {
+    network: 'fake',
+
+    getMintAddress: getMint,
+
+    ensureTokenAccount,
+
+    async mintTo(
+      ownerAddress: string,
+      amount: number,
+      onSigned?: (signed: SignedMintTransaction) => Promise<void>
+    ): Promise<MintResult> {
+      let signature: string | undefined;
+
+      try {
+        const tokenAccount = await ensureTokenAccount(ownerAddress);
+        const mint = await getMint();
+
+        transactionCount++;
+        signature = await hashToBase58(
+          'SHA-512',
+          `${seed}:tx:${transactionCount}:${ownerAddress}:${amount}`
+        );
+
+        if (onSigned) {
+          await onSigned({
+            signature,
+            mintAddress: mint,
+            lastValidBlockHeight: blockHeight + BLOCKHASH_VALID_BLOCKS,
+          });
+        }
+
+        const units = BigInt(Math.floor(amount * Number(TOKEN_UNITS)));
+        tokenAccounts.set(tokenAccount, (tokenAccounts.get(tokenAccount) ?? 0n) + units);
+        signatures.set(signature, { confirmed: true, failed: false });
+        blockHeight++;
+
+        console.log(`✅ [fake ledger] Minted ${amount} WMINT to ${ownerAddress}, transaction: ${signature}`);
+
+        return { success: true, signature, mintAddress: mint };
+      } catch (error: any) {
+        return {
+          success: false,
+          signature,
+          error: error.message || 'Failed to mint tokens',
+        };
+      }
+    },
+
+    async getTokenBalance(ownerAddress: string): Promise<number> {
+      const units = tokenAccounts.get(await tokenAccountFor(ownerAddress)) ?? 0n;
+      return Number(units) / Number(TOKEN_UNITS);
+    },
+
+    async getSignatureStatus(signature: string): Promise<SignatureStatus | null> {
+      return signatures.get(signature) ?? null;
+    },
+
+    async getBlockHeight(): Promise<number> {
+      return blockHeight;
+    },
+
+    async mintBadge(
+      ownerAddress: string,
+      badge: BadgeMintRequest,
+      onSigned?: (signed: SignedBadgeTransaction) => Promise<void>
+    ): Promise<BadgeMintResult> {
+      let signature: string | undefined;
+
+      try {
+        assertValidAddress(ownerAddress);
+
+        transactionCount++;
+        signature = await hashToBase58(
+          'SHA-512',
+          `${seed}:tx:${transactionCount}:${ownerAddress}:${badge.uri}`
+        );
+
+        if (onSigned) {
+          await onSigned({ signature, lastValidBlockHeight: blockHeight + BLOCKHASH_VALID_BLOCKS });
+        }
+
+        const assetId = await hashToBase58('SHA-256', `${seed}:asset:${transactionCount}`);
+        badgeAssets.set(signature, assetId);
+        signatures.set(signature, { confirmed: true, failed: false });
+        blockHeight++;
+
+        console.log(`✅ [fake ledger] Minted badge "${badge.name}" to ${ownerAddress}, asset: ${assetId}`);
+
+        return { success: true, signature, assetId };
+      } catch (error: any) {
+        return {
+          success: false,
+          signature,
+          error: error.message || 'Failed to mint badge',
+        };
+      }
+    },
+
+    async getBadgeAssetId(signature: string): Promise<string | null> {
+      return badgeAssets.get(signature) ?? null;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * CHAIN ADAPTER
+ *
+ * Selects the Solana backend used for minting and reconciliation.
+ *
+ * WORDMINT_CHAIN_ADAPTER:
+ * - web3 (default): real cluster via @solana/web3.js
+ * - fake: in-process fake ledger with deterministic signatures
+ *
+ * Achievement badges are minted as compressed NFTs into the Bubblegum tree
+ * at WORDMINT_BADGE_TREE (web3 only).
+ *
+ * The cluster comes from WORDMINT_SOLANA_CLUSTER (localnet, devnet or
+ * mainnet-beta); WORDMINT_SOLANA_RPC_URL and WORDMINT_SOLANA_COMMITMENT
+ * override the cluster's defaults. The RPC URL often carries a provider API
+ * key, so browsers are given WORDMINT_PUBLIC_RPC_URL or the cluster's public
+ * endpoint instead.
+ */
+
+import type { ChainAdapter } from './types.tsx';
+import { createWeb3Chain } from './web3.tsx';
+import { createFakeChain } from './fake.tsx';
+import { CLUSTERS, ClusterConfig, resolveClusterConfig } from '../../../../utils/cluster-config.ts';
+
+export type {
+  ChainAdapter,
+  MintResult,
+  SignatureStatus,
+  SignedMintTransaction,
+  BadgeMintRequest,
+  BadgeMintResult,
+  SignedBadgeTransaction,
+} from './types.tsx';
+
+let chain: ChainAdapter | null = null;
+let clusterConfig: ClusterConfig | null = null;
+
+/**
+ * Get the configured cluster settings
+ */
+export function getClusterConfig(): ClusterConfig {
+  if (!clusterConfig) {
+    clusterConfig = resolveClusterConfig(Deno.env.get('WORDMINT_SOLANA_CLUSTER') || undefined, {
+      rpcUrl: Deno.env.get('WORDMINT_SOLANA_RPC_URL'),
+      commitment: Deno.env.get('WORDMINT_SOLANA_COMMITMENT'),
+    });
+  }
+  return clusterConfig;
+}
+
+/**
+ * The cluster settings that are safe to publish to browsers
+ * Never the server's own RPC URL, which may hold an API key.
+ */
+export function getPublicClusterConfig(): ClusterConfig {
+  const config = getClusterConfig();
+  return { ...config, rpcUrl: Deno.env.get('WORDMINT_PUBLIC_RPC_URL') || CLUSTERS[config.cluster].rpcUrl };
+}
+
+/**
+ * Whether minting goes to the in-process fake ledger instead of the cluster
+ */
+export function isFakeLedger(): boolean {
+  return Deno.env.get('WORDMINT_CHAIN_ADAPTER') === 'fake';
+}
+
+function createChain(): ChainAdapter {
+  const adapter = Deno.env.get('WORDMINT_CHAIN_ADAPTER') || 'web3';
+
+  if (adapter === 'fake') {
+    return createFakeChain();
+  }
+
+  if (adapter !== 'web3') {
+    throw new Error(`Unknown WORDMINT_CHAIN_ADAPTER: ${adapter}`);
+  }
+
+  return createWeb3Chain(getClusterConfig());
+}
+
+/**
+ * Get the active chain adapter, creating it on first use
+ */
+export function getChain(): ChainAdapter {
+  if (!chain) {
+    chain = createChain();
+    console.log(`⛓️ Chain adapter: ${chain.network}`);
+  }
+  return chain;
+}
+
+/**
+ * Replace the active chain adapter (used by tests and local tooling)
+ */
+export function useChain(chainAdapter: ChainAdapter): void {
+  chain = chainAdapter;
+}
@@ -0,0 +1,97 @@
+/**
+ * CHAIN ADAPTER INTERFACE
+ *
+ * Everything the server needs from Solana for WMINT rewards and achievement badges.
+ * Implemented by the web3.js adapter (localnet/devnet/mainnet-beta) and
+ * by an in-process fake ledger for tests and demos.
+ */
+
+/**
+ * Details of a signed mint transaction, known before it is sent
+ */
+export interface SignedMintTransaction {
+  signature: string;
+  mintAddress: string;
+  lastValidBlockHeight: number;
+}
+
+export interface MintResult {
+  success: boolean;
+  signature?: string;
+  error?: string;
+  mintAddress?: string;
+}
+
+/**
+ * On-chain metadata of an achievement badge (a compressed NFT)
+ * The rest of its metadata is the JSON document at `uri`.
+ */
+export interface BadgeMintRequest {
+  name: string; // Up to 32 characters
+  symbol: string; // Up to 10 characters
+  uri: string; // Up to 200 characters
+}
+
+/**
+ * Details of a signed badge mint transaction, known before it is sent
+ */
+export interface SignedBadgeTransaction {
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+export interface BadgeMintResult {
+  success: boolean;
+  signature?: string;
+  assetId?: string; // Address of the minted compressed NFT
+  error?: string;
+}
+
+export interface SignatureStatus {
+  confirmed: boolean;
+  failed: boolean;
+}
+
+export interface ChainAdapter {
+  // Human-readable name of the backing network, e.g. 'devnet' or 'fake'
+  readonly network: string;
+
+  // Address of the WMINT mint, creating the mint if it does not exist yet
+  getMintAddress(): Promise<string>;
+
+  // Get or create the owner's associated token account; returns its address
+  ensureTokenAccount(ownerAddress: string): Promise<string>;
+
+  /**
+   * Mint WMINT to an owner's associated token account
+   * `onSigned` is awaited after signing and before sending, so callers can
+   * durably record the signature first. Never throws; failures are returned.
+   */
+  mintTo(
+    ownerAddress: string,
+    amount: number,
+    onSigned?: (signed: SignedMintTransaction) => Promise<void>
+  ): Promise<MintResult>;
+
+  // WMINT balance of an owner (0 when the token account does not exist)
+  getTokenBalance(ownerAddress: string): Promise<number>;
+
+  // On-chain status of a signature, or null when the network has no record of it
+  getSignatureStatus(signature: string): Promise<SignatureStatus | null>;
+
+  // Current block height, used to tell whether a signed transaction has expired
+  getBlockHeight(): Promise<number>;
+
+  /**
+   * Mint a badge as a compressed NFT to an owner, in the badge Merkle tree
+   * `onSigned` works as for `mintTo`. Never throws; failures are returned.
+   */
+  mintBadge(
+    ownerAddress: string,
+    badge: BadgeMintRequest,
+    onSigned?: (signed: SignedBadgeTransaction) => Promise<void>
+  ): Promise<BadgeMintResult>;
+
+  // Asset ID of the badge minted by a confirmed transaction, or null if it minted none
+  getBadgeAssetId(signature: string): Promise<string | null>;
+}
@@ -0,0 +1,347 @@
+/**
+ * WEB3.JS CHAIN ADAPTER
+ * 
+ * Server-side SPL token minting for WordMint rewards against a real cluster
+ * (solana-test-validator, devnet or mainnet-beta)
+ * This holds the mint authority and mints tokens to players when they claim
+ * Achievement badges are minted by the Bubblegum badge minter (see bubblegum.tsx)
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+} from 'npm:@solana/web3.js@1.87.6';
+
+import {
+  TokenAccountNotFoundError,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddress,
+  getOrCreateAssociatedTokenAccount,
+  createMintToInstruction,
+  getMint,
+} from 'npm:@solana/spl-token@0.3.9';
+
+import bs58 from 'npm:bs58@5.0.0';
+import type { ChainAdapter, MintResult, SignatureStatus, SignedMintTransaction } from './types.tsx';
+import { createBadgeMinter } from './bubblegum.tsx';
+import type { ClusterConfig } from '../../../../utils/cluster-config.ts';
+
+// Token details
+const TOKEN_DECIMALS = 9;
+
+/**
+ * Retry wrapper for Solana RPC calls with exponential backoff
+ */
+async function retryRpcCall<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  delayMs = 1000
+): Promise<T> {
+  let lastError: any;
+  
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      lastError = error;
+      console.log(`RPC call failed (attempt ${i + 1}/${maxRetries}):`, error.message);
+      
+      if (i < maxRetries - 1) {
+        // Exponential backoff
+        const delay = delayMs * Math.pow(2, i);
+        console.log(`Retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  
+  throw lastError;
+}
+
+/**
+ * Get or create mint authority keypair from environment
+ * In production, this should be stored securely in Supabase secrets
+ */
+function getMintAuthority(): Keypair {
+  const secretKey = Deno.env.get('WORDMINT_MINT_AUTHORITY');
+  
+  if (!secretKey) {
+    throw new Error(
+      'WORDMINT_MINT_AUTHORITY not configured. ' +
+      'Please follow the setup guide in SOLANA_SETUP_GUIDE.md to generate and configure your mint authority keypair.'
+    );
+  }
+  
+  // Parse secret key (should be array of numbers in JSON format)
+  try {
+    const trimmedKey = secretKey.trim();
+    const secretArray = JSON.parse(trimmedKey);
+    
+    if (!Array.isArray(secretArray)) {
+      throw new Error(
+        `WORDMINT_MINT_AUTHORITY must be a JSON array of numbers. ` +
+        `Got type: ${typeof secretArray}`
+      );
+    }
+    
+    if (secretArray.length !== 64) {
+      throw new Error(
+        `WORDMINT_MINT_AUTHORITY must be exactly 64 bytes. ` +
+        `Got length: ${secretArray.length}`
+      );
+    }
+    
+    // Validate all elements are numbers
+    const allNumbers = secretArray.every(x => typeof x === 'number' && x >= 0 && x <= 255);
+    if (!allNumbers) {
+      throw new Error(
+        'WORDMINT_MINT_AUTHORITY array must contain only numbers between 0-255'
+      );
+    }
+    
+    console.log('✅ Mint authority keypair loaded successfully');
+    return Keypair.fromSecretKey(Uint8Array.from(secretArray));
+  } catch (error: any) {
+    // Re-throw our custom errors
+    if (error.message.includes('WORDMINT_MINT_AUTHORITY')) {
+      throw error;
+    }
+    
+    // Generic JSON parsing error
+    console.error('Failed to parse WORDMINT_MINT_AUTHORITY');
+    throw new Error(
+      'Invalid WORDMINT_MINT_AUTHORITY format. ' +
+      'Expected: JSON array of 64 numbers like [123,45,67,...]. ' +
+      `Got parse error: ${error.message}. ` +
+      'Make sure to paste the array exactly as shown, with no extra characters or formatting.'
+    );
+  }
+}
+
+/**
+ * Get or create the WordMint token mint
+ */
+async function getOrCreateMint(connection: Connection): Promise<PublicKey> {
+  const mintAuthority = getMintAuthority();
+  
+  // Check if mint address is stored in environment
+  const storedMint = Deno.env.get('WORDMINT_TOKEN_MINT');
+  
+  if (storedMint) {
+    try {
+      const mintPublicKey = new PublicKey(storedMint);
+      
+      // Try to verify mint exists on-chain with retry logic
+      try {
+        const mintInfo = await retryRpcCall(
+          () => getMint(connection, mintPublicKey),
+          2, // Only 2 retries for verification
+          500 // 500ms initial delay
+        );
+        console.log(`✅ Using existing token mint: ${mintPublicKey.toBase58()}`);
+        console.log(`Mint authority: ${mintInfo.mintAuthority?.toBase58()}`);
+        return mintPublicKey;
+      } catch (verifyError: any) {
+        // If verification fails due to connection issues, still use the stored mint
+        // This allows the app to work even if the cluster is slow/degraded
+        if (verifyError.message?.includes('connection') || verifyError.message?.includes('error sending request')) {
+          console.warn('⚠️ Could not verify mint on-chain (connection issue), using stored mint anyway:', storedMint);
+          return mintPublicKey;
+        }
+        
+        // If mint truly doesn't exist, create a new one
+        console.error('Stored mint not found on-chain:', verifyError.message);
+        console.log('Will create new mint...');
+      }
+    } catch (error) {
+      console.error('Error with stored mint:', error);
+    }
+  }
+  
+  // Create new mint with retry logic
+  console.log('Creating new WordMint token mint...');
+  const mint = await retryRpcCall(
+    () => createMint(
+      connection,
+      mintAuthority,
+      mintAuthority.publicKey,
+      mintAuthority.publicKey, // Freeze authority (optional)
+      TOKEN_DECIMALS
+    ),
+    3, // 3 retries for creation
+    1000 // 1 second initial delay
+  );
+  
+  console.log(`✅ Created new mint: ${mint.toBase58()}`);
+  console.log(`📝 IMPORTANT: Set WORDMINT_TOKEN_MINT environment variable to: ${mint.toBase58()}`);
+  console.log(`   This will ensure the same token is used across restarts`);
+  
+  return mint;
+}
+
+/**
+ * Create a chain adapter backed by a Solana RPC node
+ */
+export function createWeb3Chain(config: ClusterConfig): ChainAdapter {
+  const connection = new Connection(config.rpcUrl, config.commitment);
+  const badgeMinter = createBadgeMinter(config, getMintAuthority);
+
+  async function getTokenAccount(ownerAddress: string) {
+    const mintAuthority = getMintAuthority();
+    const mint = await getOrCreateMint(connection);
+
+    return retryRpcCall(
+      () => getOrCreateAssociatedTokenAccount(
+        connection,
+        mintAuthority,
+        mint,
+        new PublicKey(ownerAddress)
+      ),
+      3,
+      1000
+    );
+  }
+
+  return {
+    network: config.cluster,
+
+    async getMintAddress(): Promise<string> {
+      const mint = await getOrCreateMint(connection);
+      return mint.toBase58();
+    },
+
+    async ensureTokenAccount(ownerAddress: string): Promise<string> {
+      const tokenAccount = await getTokenAccount(ownerAddress);
+      return tokenAccount.address.toBase58();
+    },
+
+    async mintTo(
+      ownerAddress: string,
+      amount: number,
+      onSigned?: (signed: SignedMintTransaction) => Promise<void>
+    ): Promise<MintResult> {
+      let signature: string | undefined;
+      
+      try {
+        const mintAuthority = getMintAuthority();
+        const mint = await getOrCreateMint(connection);
+        
+        // Convert amount to token units (considering decimals)
+        const tokenAmount = BigInt(Math.floor(amount * Math.pow(10, TOKEN_DECIMALS)));
+        
+        // Get or create player's associated token account with retry
+        const playerTokenAccount = await getTokenAccount(ownerAddress);
+        
+        console.log(`Minting ${amount} WMINT to ${ownerAddress} on ${config.cluster}`);
+        console.log(`Player token account: ${playerTokenAccount.address.toBase58()}`);
+        
+        // Build and sign the mint transaction
+        const { blockhash, lastValidBlockHeight } = await retryRpcCall(
+          () => connection.getLatestBlockhash(config.commitment),
+          3,
+          1000
+        );
+        
+        const transaction = new Transaction({
+          feePayer: mintAuthority.publicKey,
+          blockhash,
+          lastValidBlockHeight,
+        }).add(
+          createMintToInstruction(
+            mint,
+            playerTokenAccount.address,
+            mintAuthority.publicKey,
+            tokenAmount
+          )
+        );
+        transaction.sign(mintAuthority);
+        
+        signature = bs58.encode(transaction.signature!);
+        
+        if (onSigned) {
+          await onSigned({
+            signature,
+            mintAddress: mint.toBase58(),
+            lastValidBlockHeight,
+          });
+        }
+        
+        // Send and confirm; resending the same signed transaction cannot mint twice
+        const rawTransaction = transaction.serialize();
+        await retryRpcCall(
+          () => connection.sendRawTransaction(rawTransaction),
+          3,
+          1000
+        );
+        
+        const confirmation = await connection.confirmTransaction(
+          { signature, blockhash, lastValidBlockHeight },
+          config.commitment
+        );
+        
+        if (confirmation.value.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+        
+        console.log(`✅ Minted ${amount} WMINT, transaction: ${signature}`);
+        
+        return {
+          success: true,
+          signature,
+          mintAddress: mint.toBase58(),
+        };
+      } catch (error: any) {
+        console.error('Error minting tokens:', error);
+        return {
+          success: false,
+          signature,
+          error: error.message || 'Failed to mint tokens',
+        };
+      }
+    },
+
+    async getTokenBalance(ownerAddress: string): Promise<number> {
+      const mint = await getOrCreateMint(connection);
+      const tokenAccountAddress = await getAssociatedTokenAddress(mint, new PublicKey(ownerAddress));
+
+      try {
+        const account = await getAccount(connection, tokenAccountAddress);
+        return Number(account.amount) / Math.pow(10, TOKEN_DECIMALS);
+      } catch (error) {
+        // No token account yet means nothing has been minted to this owner
+        if (error instanceof TokenAccountNotFoundError) {
+          return 0;
+        }
+        throw error;
+      }
+    },
+
+    async getSignatureStatus(signature: string): Promise<SignatureStatus | null> {
+      const { value } = await retryRpcCall(
+        () => connection.getSignatureStatus(signature, { searchTransactionHistory: true }),
+        3,
+        1000
+      );
+      
+      if (!value) {
+        return null;
+      }
+      
+      return {
+        confirmed: !value.err && (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'),
+        failed: !!value.err,
+      };
+    },
+
+    async getBlockHeight(): Promise<number> {
+      return retryRpcCall(() => connection.getBlockHeight(config.commitment), 3, 1000);
+    },
+
+    mintBadge: badgeMinter.mintBadge,
+
+    getBadgeAssetId: badgeMinter.getBadgeAssetId,
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * CLAIM LEDGER
+ *
+ * Single-step reward claims replacing the old mint-then-reset two-step.
+ *
+ * Claim state machine:
+ *   reserved  -> submitted -> confirmed
+ *   reserved  -> failed    -> refunded
+ *   submitted -> failed    -> refunded
+ *
+ * The pending balance is moved from `score` into `pendingClaims[claimId]` on the
+ * player record in a single write, so a claim's reservation either happened or
+ * it didn't. The mint transaction signature is recorded before the transaction
+ * is sent, which lets the recovery job settle stuck claims against the chain.
+ *
+ * Claim and player writes use compare-and-set, so a request and the recovery job
+ * racing on the same claim cannot both settle it.
+ */
+
+import * as kv from './storage/index.tsx';
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import {
+  mintTokensToPlayer,
+  getSignatureStatus,
+  getCurrentBlockHeight,
+} from './solana-token.tsx';
+import { AchievementUnlock, recordAchievements } from './achievements.tsx';
+
+export type ClaimStatus = 'reserved' | 'submitted' | 'confirmed' | 'failed' | 'refunded';
+
+export interface Claim {
+  id: string;
+  walletAddress: string;
+  idempotencyKey: string;
+  amount: number;
+  status: ClaimStatus;
+  signature?: string;
+  mintAddress?: string;
+  lastValidBlockHeight?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  history: { status: ClaimStatus; at: string }[];
+}
+
+export interface ClaimResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  claim?: Claim;
+  player?: any;
+  unlocked?: AchievementUnlock[]; // Achievements the claimed WMINT unlocked
+}
+
+// Reserved claims older than this are assumed abandoned by a crashed request
+const STUCK_CLAIM_AFTER_MS = 2 * 60 * 1000;
+
+function claimKey(claimId: string): string {
+  return `claims:${claimId}`;
+}
+
+function idempotencyKeyFor(walletAddress: string, idempotencyKey: string): string {
+  return `claims-idem:${walletAddress}:${idempotencyKey}`;
+}
+
+function playerKey(walletAddress: string): string {
+  return `player:${walletAddress}`;
+}
+
+export function isValidIdempotencyKey(idempotencyKey: unknown): idempotencyKey is string {
+  return typeof idempotencyKey === 'string' && /^[A-Za-z0-9_-]{8,128}$/.test(idempotencyKey);
+}
+
+async function transition(
+  claim: Claim,
+  status: ClaimStatus,
+  changes: Partial<Claim> = {}
+): Promise<Claim> {
+  const now = new Date().toISOString();
+  const updated: Claim = {
+    ...claim,
+    ...changes,
+    status,
+    updatedAt: now,
+    history: [...claim.history, { status, at: now }],
+  };
+  if (!(await kv.compareAndSet(claimKey(claim.id), claim, updated))) {
+    throw new Error(`Claim ${claim.id} was updated concurrently`);
+  }
+  return updated;
+}
+
+/**
+ * Remove a claim's reservation from the player record and apply `changes`
+ * Does nothing if the reservation was already released
+ */
+async function releaseReservation(
+  claim: Claim,
+  changes: (player: any) => Record<string, any>
+): Promise<any> {
+  const updatedPlayer = await kv.update(playerKey(claim.walletAddress), (player: any) => {
+    if (!player || player.pendingClaims?.[claim.id] === undefined) {
+      return null;
+    }
+
+    const pendingClaims = { ...player.pendingClaims };
+    delete pendingClaims[claim.id];
+    return {
+      ...player,
+      ...changes(player),
+      pendingClaims,
+      lastUpdated: new Date().toISOString()
+    };
+  });
+
+  return updatedPlayer ?? kv.get(playerKey(claim.walletAddress));
+}
+
+/**
+ * Move a confirmed claim's reservation into the player's all-time total
+ */
+async function finalizeClaim(claim: Claim): Promise<{ claim: Claim; player: any; unlocked?: AchievementUnlock[] }> {
+  const confirmed = await transition(claim, 'confirmed');
+  const player = await releaseReservation(claim, (current) => ({
+    totalWmintEarned: (current.totalWmintEarned || 0) + claim.amount,
+  }));
+
+  // The claim is settled either way, so a failed write only delays the unlocks to the next one
+  let unlocked: AchievementUnlock[] = [];
+  try {
+    unlocked = await recordAchievements(player, 'claim', claim.id);
+  } catch (error) {
+    console.log(`Error recording achievements: ${error}`);
+  }
+
+  return { claim: confirmed, player, unlocked };
+}
+
+/**
+ * Return a failed claim's reservation to the player's pending score
+ */
+async function refundClaim(claim: Claim): Promise<{ claim: Claim; player: any }> {
+  const refunded = await transition(claim, 'refunded');
+  const player = await releaseReservation(claim, (current) => ({
+    score: current.score + claim.amount,
+  }));
+  return { claim: refunded, player };
+}
+
+/**
+ * Claim the player's full pending balance
+ *
+ * Replaying the same idempotency key returns the original claim instead of
+ * minting again.
+ */
+export async function createClaim(
+  walletAddress: string,
+  idempotencyKey: string
+): Promise<ClaimResult> {
+  const existingClaimId = await kv.get(idempotencyKeyFor(walletAddress, idempotencyKey));
+  if (existingClaimId) {
+    const existingClaim: Claim | undefined = await kv.get(claimKey(existingClaimId));
+    if (existingClaim) {
+      const reconciled = await reconcileClaim(existingClaim);
+      return { success: true, claim: reconciled.claim, player: reconciled.player };
+    }
+  }
+
+  const player = await kv.get(playerKey(walletAddress));
+  if (!player) {
+    return { success: false, status: 404, error: 'Player not found' };
+  }
+
+  if (!player.score || player.score <= 0) {
+    return { success: false, status: 400, error: 'No rewards to claim' };
+  }
+
+  // 1. Reserve the pending balance
+  const now = new Date().toISOString();
+  let claim: Claim = {
+    id: crypto.randomUUID(),
+    walletAddress,
+    idempotencyKey,
+    amount: player.score,
+    status: 'reserved',
+    createdAt: now,
+    updatedAt: now,
+    history: [{ status: 'reserved', at: now }],
+  };
+
+  // Only the first request with this key gets to create a claim
+  const idemKey = idempotencyKeyFor(walletAddress, idempotencyKey);
+  if (!(await kv.compareAndSet(idemKey, undefined, claim.id))) {
+    return { success: false, status: 409, error: 'A claim with this idempotency key is already in progress' };
+  }
+
+  await kv.set(claimKey(claim.id), claim);
+
+  const reserved = await kv.compareAndSet(playerKey(walletAddress), player, {
+    ...player,
+    score: 0,
+    pendingClaims: { ...(player.pendingClaims || {}), [claim.id]: claim.amount },
+    lastUpdated: now
+  });
+
+  if (!reserved) {
+    // Balance changed since it was read; release the key so the client can retry it
+    await transition(claim, 'failed', { error: 'Balance changed during claim' });
+    await kv.del(idemKey);
+    return { success: false, status: 409, error: 'Balance changed during claim, please retry' };
+  }
+
+  // 2. Mint, recording the signature before the transaction is sent
+  console.log(`🪙 Claim ${claim.id}: minting ${claim.amount} WMINT to ${walletAddress}`);
+  const result = await mintTokensToPlayer(walletAddress, claim.amount, async (signed) => {
+    claim = await transition(claim, 'submitted', {
+      signature: signed.signature,
+      mintAddress: signed.mintAddress,
+      lastValidBlockHeight: signed.lastValidBlockHeight,
+    });
+  });
+
+  // 3. Finalize
+  if (result.success) {
+    console.log(`✅ Claim ${claim.id} confirmed: ${result.signature}`);
+    const finalized = await finalizeClaim(claim);
+    return { success: true, claim: finalized.claim, player: finalized.player, unlocked: finalized.unlocked };
+  }
+
+  if (claim.status === 'submitted') {
+    // The transaction may still land; leave it for reconciliation instead of refunding
+    console.log(`⚠️ Claim ${claim.id} unconfirmed: ${result.error}`);
+    const reconciled = await reconcileClaim(claim);
+    return { success: true, claim: reconciled.claim, player: reconciled.player };
+  }
+
+  console.log(`❌ Claim ${claim.id} failed before submission: ${result.error}`);
+  const failed = await transition(claim, 'failed', { error: result.error });
+  const refunded = await refundClaim(failed);
+  return { success: true, claim: refunded.claim, player: refunded.player };
+}
+
+/**
+ * Get a claim by ID
+ */
+export async function getClaim(claimId: string): Promise<Claim | undefined> {
+  return kv.get(claimKey(claimId));
+}
+
+/**
+ * Settle a single claim against the chain where its outcome is known
+ *
+ * - submitted: confirmed on-chain -> confirmed; failed or expired blockhash -> refunded
+ * - failed: refunded
+ * - reserved: refunded once old enough that its request must have died
+ */
+export async function reconcileClaim(claim: Claim): Promise<{ claim: Claim; player: any }> {
+  if (claim.status === 'submitted' && claim.signature) {
+    const status = await getSignatureStatus(claim.signature);
+
+    if (status?.confirmed) {
+      return finalizeClaim(claim);
+    }
+
+    if (status?.failed) {
+      const failed = await transition(claim, 'failed', { error: 'Transaction failed on-chain' });
+      return refundClaim(failed);
+    }
+
+    // Not seen on-chain: only safe to refund once the blockhash can no longer land
+    if (!status && claim.lastValidBlockHeight !== undefined) {
+      const blockHeight = await getCurrentBlockHeight();
+      if (blockHeight > claim.lastValidBlockHeight) {
+        const failed = await transition(claim, 'failed', { error: 'Transaction expired' });
+        return refundClaim(failed);
+      }
+    }
+  }
+
+  if (claim.status === 'failed') {
+    return refundClaim(claim);
+  }
+
+  if (claim.status === 'reserved') {
+    const age = Date.now() - new Date(claim.updatedAt).getTime();
+    if (age > STUCK_CLAIM_AFTER_MS) {
+      const failed = await transition(claim, 'failed', { error: 'Claim abandoned before submission' });
+      return refundClaim(failed);
+    }
+  }
+
+  return { claim, player: await kv.get(playerKey(claim.walletAddress)) };
+}
+
+/**
+ * Recovery job: reconcile every claim that has not reached a final state
+ */
+export async function reconcileClaims(): Promise<{
+  checked: number;
+  settled: Record<ClaimStatus, number>;
+}> {
+  const claims: Claim[] = await kv.getByPrefix('claims:');
+  const open = claims.filter(claim =>
+    claim.status === 'reserved' || claim.status === 'submitted' || claim.status === 'failed'
+  );
+
+  const settled: Record<ClaimStatus, number> = {
+    reserved: 0,
+    submitted: 0,
+    confirmed: 0,
+    failed: 0,
+    refunded: 0,
+  };
+
+  for (const claim of open) {
+    try {
+      const result = await reconcileClaim(claim);
+      settled[result.claim.status]++;
+    } catch (error) {
+      console.log(`Error reconciling claim ${claim.id}: ${error}`);
+    }
+  }
+
+  return { checked: open.length, settled };
+}
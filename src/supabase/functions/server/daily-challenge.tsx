@@ -0,0 +1,131 @@
+/**
+ * DAILY CHALLENGE
+ *
+ * The day's words are drawn from the built-in pack with a random generator
+ * seeded from the date (see seeded-random.tsx), so every player gets the same
+ * words and nobody can work them out ahead of time.
+ *
+ * Starting the challenge claims the player's one attempt for the day; the
+ * result is filled in when the game's last word is answered.
+ */
+
+import * as kv from './storage/index.tsx';
+import { WordTier, pickRandom } from '../../../utils/word-lists.ts';
+import { WordPackEntry, getBuiltInPack } from '../../../utils/word-packs.ts';
+import { DAILY_TIERS, DailyRoundMark, getDailyRoundMark } from '../../../utils/daily-challenge.ts';
+import { getSeededRandom } from './seeded-random.tsx';
+import type { GameSummary } from './game-session.tsx';
+
+export interface DailyEntry {
+  date: string;
+  walletAddress: string;
+  sessionId: string;
+  startedAt: string;
+  completedAt?: string;
+  correctCount?: number;
+  totalRounds?: number;
+  totalAnswerMs?: number; // Tie-breaker: lower is better
+  wmintEarned?: number;
+  marks?: DailyRoundMark[];
+}
+
+export interface DailyLeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  correctCount: number;
+  totalRounds: number;
+  totalAnswerMs: number;
+  marks: DailyRoundMark[];
+}
+
+function entryKey(date: string, walletAddress: string): string {
+  return `daily:${date}:${walletAddress}`;
+}
+
+/**
+ * The day's words, in play order
+ */
+export async function getDailyPicks(date: string): Promise<{ entry: WordPackEntry; tier: WordTier }[]> {
+  const pack = getBuiltInPack();
+  const random = await getSeededRandom(`daily:${date}`);
+
+  // Draw each tier's words in one go so a tier never repeats a word
+  const drawn = new Map<WordTier, WordPackEntry[]>();
+  for (const tier of new Set(DAILY_TIERS)) {
+    const count = DAILY_TIERS.filter(dailyTier => dailyTier === tier).length;
+    drawn.set(tier, pickRandom(pack.tiers[tier] || [], count, random));
+  }
+
+  return DAILY_TIERS.map(tier => ({ entry: drawn.get(tier)!.shift()!, tier }));
+}
+
+export async function getDailyEntry(date: string, walletAddress: string): Promise<DailyEntry | undefined> {
+  return kv.get(entryKey(date, walletAddress));
+}
+
+/**
+ * Claim the player's attempt for the day
+ * Returns false if they have already started that day's challenge.
+ */
+export async function claimDailyAttempt(
+  date: string,
+  walletAddress: string,
+  sessionId: string
+): Promise<boolean> {
+  const entry: DailyEntry = {
+    date,
+    walletAddress,
+    sessionId,
+    startedAt: new Date().toISOString(),
+  };
+  return kv.compareAndSet(entryKey(date, walletAddress), undefined, entry);
+}
+
+/**
+ * Fill in the result of a finished daily game
+ */
+export async function recordDailyResult(
+  date: string,
+  walletAddress: string,
+  summary: GameSummary
+): Promise<void> {
+  await kv.update(entryKey(date, walletAddress), (entry: DailyEntry | undefined) => {
+    if (!entry || entry.completedAt) {
+      return null;
+    }
+
+    return {
+      ...entry,
+      completedAt: new Date().toISOString(),
+      correctCount: summary.correctCount,
+      totalRounds: summary.totalRounds,
+      totalAnswerMs: summary.rounds.reduce((total, round) => total + (round.answerMs || 0), 0),
+      wmintEarned: summary.wmintEarned,
+      marks: summary.rounds.map(getDailyRoundMark),
+    };
+  });
+}
+
+/**
+ * Completed attempts for a day: most words correct first, then fastest
+ */
+export async function getDailyLeaderboard(date: string, limit: number): Promise<DailyLeaderboardEntry[]> {
+  const entries: DailyEntry[] = await kv.getByPrefix(`daily:${date}:`);
+
+  return entries
+    .filter(entry => entry.completedAt)
+    .sort((a, b) =>
+      b.correctCount! - a.correctCount! ||
+      a.totalAnswerMs! - b.totalAnswerMs! ||
+      a.completedAt!.localeCompare(b.completedAt!)
+    )
+    .slice(0, limit)
+    .map((entry, index) => ({
+      rank: index + 1,
+      walletAddress: entry.walletAddress,
+      correctCount: entry.correctCount!,
+      totalRounds: entry.totalRounds!,
+      totalAnswerMs: entry.totalAnswerMs!,
+      marks: entry.marks || [],
+    }));
+}
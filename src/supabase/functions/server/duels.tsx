@@ -0,0 +1,710 @@
+/**
+ * DUELS
+ *
+ * Head-to-head games. Both players get the same GAME_ROUNDS words from one
+ * tier of the built-in pack and play them at their own pace; the server times
+ * and grades every answer as it does for regular games. Most words correct
+ * wins, then the lower total answer time, and the winner takes the pot of
+ * both stakes. A draw refunds both stakes.
+ *
+ * A duel is created waiting, with the creator's stake already taken from
+ * their pending score, and is joined through matchmaking (a queue per tier
+ * and stake) or an invite link. It ends when both players have answered every
+ * word, or at its deadline, when unanswered words count as missed. A waiting
+ * duel nobody joins is cancelled and refunded after DUEL_WAITING_MINUTES.
+ *
+ * Duels live in the KV store so any server instance can serve either player.
+ * Clients follow a duel through the SSE stream in app.tsx, which polls it;
+ * reading a duel past its deadline settles it.
+ */
+
+import * as kv from './storage/index.tsx';
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import { WordTier, pickRandom, getTimeLimitForDifficulty } from '../../../utils/word-lists.ts';
+import { isAcceptedSpelling } from '../../../utils/word-entries.ts';
+import { getBuiltInPack } from '../../../utils/word-packs.ts';
+import { DuelStatus, DuelRoundResult } from '../../../utils/duels.ts';
+import { SpeechPrompt } from '../../../utils/speech-prompts.ts';
+import { GAME_ROUNDS } from './game-session.tsx';
+import { PromptAudioResult, getPromptAudio } from './speech/index.tsx';
+
+// Unjoined duels are cancelled (and refunded) after this
+const DUEL_WAITING_MINUTES = 10;
+
+// Time allowed per word on top of its limit (reading results, network) before a duel is called
+const DUEL_ROUND_ALLOWANCE_SECONDS = 20;
+
+// Extra allowance for network latency between the countdown ending and the answer arriving
+const DUEL_GRACE_MS = 5000;
+
+// Queue entries tried before creating a new duel instead
+const MAX_MATCH_ATTEMPTS = 3;
+
+// How often the event stream checks for changes, and how long it stays open before the client reconnects
+export const DUEL_POLL_MS = 1000;
+export const DUEL_STREAM_SECONDS = 50;
+
+interface DuelWord {
+  word: string;
+  definition?: string;
+  sentence?: string;
+  alternates?: string[];
+}
+
+interface DuelRound {
+  startedAt?: string;
+  answeredAt?: string;
+  answerMs?: number;
+  correct?: boolean;
+}
+
+export interface DuelPlayer {
+  walletAddress: string;
+  joinedAt: string;
+  rounds: DuelRound[]; // One per word
+  currentRound: number; // Index into rounds
+  finishedAt?: string; // Set once every word is answered
+}
+
+export interface Duel {
+  id: string;
+  difficulty: WordTier;
+  stake: number; // Per player
+  matchmaking: boolean; // Listed in the matchmaking queue rather than shared by invite
+  words: DuelWord[];
+  players: DuelPlayer[]; // Creator first
+  status: DuelStatus;
+  createdAt: string;
+  startedAt?: string;
+  deadline?: string;
+  completedAt?: string;
+  winner?: string | null; // Null on a draw
+  updatedAt: string;
+}
+
+interface DuelQueueEntry {
+  duelId: string;
+  walletAddress: string;
+  createdAt: string;
+}
+
+/**
+ * What either player (or anyone with the link) may see: progress, never words
+ */
+export interface DuelPlayerView {
+  walletAddress: string;
+  results: DuelRoundResult[]; // Answered words, in order
+  correctCount: number;
+  totalAnswerMs: number;
+  finished: boolean;
+}
+
+export interface DuelView {
+  duelId: string;
+  status: DuelStatus;
+  difficulty: WordTier;
+  stake: number;
+  pot: number;
+  totalRounds: number;
+  players: DuelPlayerView[];
+  deadline: string | null;
+  winner: string | null;
+  updatedAt: string;
+}
+
+/**
+ * The word in play, for the player it was handed to
+ * Only its length: the word and its sentence are heard (see getDuelRoundAudio),
+ * and the definition could give the spelling away.
+ */
+export interface DuelRoundView {
+  duelId: string;
+  letters: number;
+  hasSentence: boolean;
+  roundNumber: number; // 1-based
+  totalRounds: number;
+  timeLimit: number; // Seconds
+  roundStartedAt: string;
+}
+
+export interface DuelResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  duel?: Duel;
+  round?: DuelRoundView;
+  correct?: boolean;
+  word?: string;
+}
+
+function duelKey(duelId: string): string {
+  return `duel:${duelId}`;
+}
+
+function queueKey(difficulty: WordTier, stake: number): string {
+  return `duel-queue:${difficulty}:${stake}`;
+}
+
+function isWaitingExpired(createdAt: string, now: number): boolean {
+  return now - new Date(createdAt).getTime() > DUEL_WAITING_MINUTES * 60 * 1000;
+}
+
+function getDuelPlayer(duel: Duel, walletAddress: string): DuelPlayer | undefined {
+  return duel.players.find(player => player.walletAddress === walletAddress);
+}
+
+/**
+ * Words correct and total answer time; unanswered words count as the full time limit
+ */
+function scoreDuelPlayer(duel: Duel, player: DuelPlayer): { correctCount: number; totalAnswerMs: number } {
+  const timeLimitMs = getTimeLimitForDifficulty(duel.difficulty) * 1000;
+  return {
+    correctCount: player.rounds.filter(round => round.correct).length,
+    totalAnswerMs: player.rounds.reduce(
+      (total, round) => total + Math.min(round.answerMs ?? timeLimitMs, timeLimitMs),
+      0
+    ),
+  };
+}
+
+function getDuelWinner(duel: Duel): string | null {
+  const [a, b] = duel.players.map(player => ({ player, ...scoreDuelPlayer(duel, player) }));
+  const difference = b.correctCount - a.correctCount || a.totalAnswerMs - b.totalAnswerMs;
+
+  if (difference === 0) {
+    return null;
+  }
+  return difference < 0 ? a.player.walletAddress : b.player.walletAddress;
+}
+
+function isReadyToSettle(duel: Duel, now: number): boolean {
+  if (duel.status === 'waiting') {
+    return isWaitingExpired(duel.createdAt, now);
+  }
+  if (duel.status === 'active') {
+    return duel.players.every(player => player.finishedAt) || now > new Date(duel.deadline!).getTime();
+  }
+  return false;
+}
+
+export function toDuelView(duel: Duel): DuelView {
+  return {
+    duelId: duel.id,
+    status: duel.status,
+    difficulty: duel.difficulty,
+    stake: duel.stake,
+    pot: duel.stake * 2,
+    totalRounds: duel.words.length,
+    players: duel.players.map(player => {
+      const answered = player.rounds.filter(round => round.answeredAt);
+      return {
+        walletAddress: player.walletAddress,
+        results: answered.map(round => (round.correct ? 'correct' : 'missed')),
+        correctCount: answered.filter(round => round.correct).length,
+        totalAnswerMs: answered.reduce((total, round) => total + (round.answerMs || 0), 0),
+        finished: !!player.finishedAt,
+      };
+    }),
+    deadline: duel.deadline || null,
+    winner: duel.winner ?? null,
+    updatedAt: duel.updatedAt,
+  };
+}
+
+/**
+ * Take a stake from the player's pending score
+ */
+async function chargeStake(walletAddress: string, stake: number): Promise<boolean> {
+  if (stake === 0) {
+    return true;
+  }
+
+  const charged = await kv.update(`player:${walletAddress}`, (current: any) => {
+    if (!current || current.score < stake) {
+      return null;
+    }
+    return { ...current, score: current.score - stake, lastUpdated: new Date().toISOString() };
+  });
+  return !!charged;
+}
+
+async function creditPlayer(walletAddress: string, amount: number): Promise<void> {
+  if (amount === 0) {
+    return;
+  }
+
+  await kv.update(`player:${walletAddress}`, (current: any) => current
+    ? { ...current, score: current.score + amount, lastUpdated: new Date().toISOString() }
+    : null
+  );
+}
+
+/**
+ * Pay out a duel that has just been settled
+ */
+async function payOutDuel(duel: Duel): Promise<void> {
+  if (duel.status === 'cancelled') {
+    await creditPlayer(duel.players[0].walletAddress, duel.stake);
+    console.log(`🚫 Duel ${duel.id} cancelled, stake refunded`);
+    return;
+  }
+
+  if (duel.winner) {
+    await creditPlayer(duel.winner, duel.stake * 2);
+    console.log(`⚔️ Duel ${duel.id} won by ${duel.winner} (${duel.stake * 2} WMINT pot)`);
+  } else {
+    await Promise.all(duel.players.map(player => creditPlayer(player.walletAddress, duel.stake)));
+    console.log(`⚔️ Duel ${duel.id} drawn, stakes refunded`);
+  }
+}
+
+/**
+ * Cancel an expired waiting duel, or complete an active one that is finished or past its deadline
+ * Only the request whose write settles the duel pays it out.
+ */
+async function settleDuel(duelId: string): Promise<Duel | null> {
+  const now = new Date();
+
+  const settled = await kv.update(duelKey(duelId), (duel: Duel | undefined): Duel | null => {
+    if (!duel || !isReadyToSettle(duel, now.getTime())) {
+      return null;
+    }
+
+    const base = { ...duel, completedAt: now.toISOString(), updatedAt: now.toISOString() };
+    return duel.status === 'waiting'
+      ? { ...base, status: 'cancelled' }
+      : { ...base, status: 'completed', winner: getDuelWinner(duel) };
+  });
+
+  if (settled) {
+    await payOutDuel(settled);
+  }
+  return settled;
+}
+
+/**
+ * Get a duel, settling it first if it is due
+ */
+export async function getDuel(duelId: string): Promise<Duel | undefined> {
+  const duel: Duel | undefined = await kv.get(duelKey(duelId));
+
+  if (duel && isReadyToSettle(duel, Date.now())) {
+    // Another request may have settled it first
+    return (await settleDuel(duelId)) || kv.get(duelKey(duelId));
+  }
+  return duel;
+}
+
+/**
+ * Create a duel and take the creator's stake
+ */
+export async function createDuel(
+  walletAddress: string,
+  difficulty: WordTier,
+  stake: number,
+  matchmaking = false
+): Promise<DuelResult> {
+  const entries = getBuiltInPack().tiers[difficulty] || [];
+  const words = pickRandom(entries, GAME_ROUNDS).map(entry => ({
+    word: entry.word,
+    definition: entry.definition,
+    sentence: entry.sentence,
+    alternates: entry.alternates,
+  }));
+
+  if (words.length < GAME_ROUNDS) {
+    return { success: false, status: 400, error: `No ${difficulty} words available` };
+  }
+
+  if (!(await chargeStake(walletAddress, stake))) {
+    return { success: false, status: 402, error: `Not enough WMINT to stake ${stake}` };
+  }
+
+  const now = new Date().toISOString();
+  const duel: Duel = {
+    id: crypto.randomUUID(),
+    difficulty,
+    stake,
+    matchmaking,
+    words,
+    players: [{ walletAddress, joinedAt: now, rounds: words.map(() => ({})), currentRound: 0 }],
+    status: 'waiting',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await kv.set(duelKey(duel.id), duel);
+
+  return { success: true, duel };
+}
+
+/**
+ * Join a waiting duel as the second player, which starts it
+ */
+export async function joinDuel(duelId: string, walletAddress: string): Promise<DuelResult> {
+  const duel = await getDuel(duelId);
+
+  if (!duel) {
+    return { success: false, status: 404, error: 'Duel not found' };
+  }
+
+  if (duel.players[0].walletAddress === walletAddress) {
+    return { success: false, status: 409, error: "You can't join your own duel" };
+  }
+
+  if (duel.status !== 'waiting') {
+    return {
+      success: false,
+      status: 409,
+      error: duel.status === 'cancelled' ? 'This duel was cancelled' : 'This duel already has two players'
+    };
+  }
+
+  if (!(await chargeStake(walletAddress, duel.stake))) {
+    return { success: false, status: 402, error: `Not enough WMINT to stake ${duel.stake}` };
+  }
+
+  const now = new Date();
+  const roundsMs = (getTimeLimitForDifficulty(duel.difficulty) + DUEL_ROUND_ALLOWANCE_SECONDS) * 1000;
+
+  const joined = await kv.update(duelKey(duelId), (current: Duel | undefined): Duel | null => {
+    if (!current || current.status !== 'waiting') {
+      return null;
+    }
+
+    return {
+      ...current,
+      players: [
+        ...current.players,
+        { walletAddress, joinedAt: now.toISOString(), rounds: current.words.map(() => ({})), currentRound: 0 },
+      ],
+      status: 'active',
+      startedAt: now.toISOString(),
+      deadline: new Date(now.getTime() + current.words.length * roundsMs).toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (!joined) {
+    // Someone else joined or it was cancelled while we were charging
+    await creditPlayer(walletAddress, duel.stake);
+    return { success: false, status: 409, error: 'This duel is no longer open' };
+  }
+
+  return { success: true, duel: joined };
+}
+
+/**
+ * Join the oldest waiting duel for the same tier and stake, or open a new one
+ * A player already waiting in the queue gets their own duel back.
+ */
+export async function findDuelMatch(
+  walletAddress: string,
+  difficulty: WordTier,
+  stake: number
+): Promise<DuelResult> {
+  const key = queueKey(difficulty, stake);
+
+  for (let attempt = 0; attempt < MAX_MATCH_ATTEMPTS; attempt++) {
+    let own = undefined as DuelQueueEntry | undefined;
+    let taken = undefined as DuelQueueEntry | undefined;
+    let expired: DuelQueueEntry[] = [];
+
+    await kv.update(key, (queue: DuelQueueEntry[] | undefined) => {
+      const now = Date.now();
+      const entries = queue || [];
+      expired = entries.filter(entry => isWaitingExpired(entry.createdAt, now));
+
+      const live = entries.filter(entry => !expired.includes(entry));
+      own = live.find(entry => entry.walletAddress === walletAddress);
+      taken = own ? undefined : live[0];
+
+      if (!taken && expired.length === 0) {
+        return null;
+      }
+      return live.filter(entry => entry !== taken);
+    });
+
+    // Dropped from the queue, so settle them here or their stakes would never be refunded
+    await Promise.all(expired.map(entry => getDuel(entry.duelId)));
+
+    if (own) {
+      const duel = await getDuel(own.duelId);
+      if (duel?.status === 'waiting') {
+        return { success: true, duel };
+      }
+    }
+
+    if (!taken) {
+      break;
+    }
+
+    const joined = await joinDuel(taken.duelId, walletAddress);
+    if (joined.success) {
+      return joined;
+    }
+
+    if (joined.status === 402) {
+      // Our stake failed, not their duel: put it back for the next player
+      const entry = taken;
+      await kv.update(key, (queue: DuelQueueEntry[] | undefined) => [entry, ...(queue || [])]);
+      return joined;
+    }
+    // That duel was cancelled or filled meanwhile; try the next one
+  }
+
+  const created = await createDuel(walletAddress, difficulty, stake, true);
+  if (!created.duel) {
+    return created;
+  }
+
+  const entry: DuelQueueEntry = { duelId: created.duel.id, walletAddress, createdAt: created.duel.createdAt };
+  await kv.update(key, (queue: DuelQueueEntry[] | undefined) => [...(queue || []), entry]);
+
+  return created;
+}
+
+/**
+ * Cancel a duel nobody has joined yet and refund the creator's stake
+ */
+export async function cancelDuel(duelId: string, walletAddress: string): Promise<DuelResult> {
+  const duel = await getDuel(duelId);
+
+  if (!duel) {
+    return { success: false, status: 404, error: 'Duel not found' };
+  }
+
+  if (duel.players[0].walletAddress !== walletAddress) {
+    return { success: false, status: 403, error: 'Only the player who created a duel can cancel it' };
+  }
+
+  const now = new Date().toISOString();
+  const cancelled = await kv.update(duelKey(duelId), (current: Duel | undefined): Duel | null => {
+    if (!current || current.status !== 'waiting') {
+      return null;
+    }
+    return { ...current, status: 'cancelled', completedAt: now, updatedAt: now };
+  });
+
+  if (!cancelled) {
+    return { success: false, status: 409, error: 'This duel has already started' };
+  }
+
+  await leaveQueue(cancelled);
+  await payOutDuel(cancelled);
+
+  return { success: true, duel: cancelled };
+}
+
+/**
+ * Drop a cancelled duel from the matchmaking queue
+ */
+async function leaveQueue(duel: Duel): Promise<void> {
+  if (!duel.matchmaking) {
+    return;
+  }
+  await kv.update(queueKey(duel.difficulty, duel.stake), (queue: DuelQueueEntry[] | undefined) =>
+    queue ? queue.filter(entry => entry.duelId !== duel.id) : null
+  );
+}
+
+/**
+ * SWEEP JOB: settle the duels nobody comes back to
+ * Cancels (and refunds) expired waiting duels and completes active ones past
+ * their deadline, which reads would otherwise only settle when someone asks.
+ */
+export async function sweepDuels(): Promise<{ duels: number; cancelled: number; completed: number }> {
+  const duels: Duel[] = await kv.getByPrefix('duel:');
+  const totals = { duels: duels.length, cancelled: 0, completed: 0 };
+  const now = Date.now();
+
+  for (const duel of duels) {
+    if (!isReadyToSettle(duel, now)) {
+      continue;
+    }
+
+    // Null when a request settled it first
+    const settled = await settleDuel(duel.id);
+    if (settled?.status === 'cancelled') {
+      await leaveQueue(settled);
+      totals.cancelled++;
+    } else if (settled) {
+      totals.completed++;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Check that a player can act on their current word
+ */
+function checkDuelTurn(duel: Duel | undefined, walletAddress: string): DuelResult | null {
+  if (!duel) {
+    return { success: false, status: 404, error: 'Duel not found' };
+  }
+
+  const player = getDuelPlayer(duel, walletAddress);
+  if (!player) {
+    return { success: false, status: 403, error: "You're not in this duel" };
+  }
+
+  if (duel.status !== 'active') {
+    return {
+      success: false,
+      status: 409,
+      error: duel.status === 'waiting' ? 'Waiting for an opponent' : 'This duel is over'
+    };
+  }
+
+  if (player.finishedAt) {
+    return { success: false, status: 409, error: "You've answered every word" };
+  }
+
+  return null;
+}
+
+/**
+ * Hand the player their next word; its countdown starts now
+ * Asking again for a word already in play (a reload, a retried request) hands
+ * back the same round on its original clock.
+ */
+export async function startDuelRound(duelId: string, walletAddress: string): Promise<DuelResult> {
+  const refused = checkDuelTurn(await getDuel(duelId), walletAddress);
+  if (refused) {
+    return refused;
+  }
+
+  const now = new Date().toISOString();
+  const started = await kv.update(duelKey(duelId), (duel: Duel | undefined): Duel | null => {
+    if (!duel || checkDuelTurn(duel, walletAddress)) {
+      return null;
+    }
+
+    const player = getDuelPlayer(duel, walletAddress)!;
+    if (player.rounds[player.currentRound].startedAt) {
+      return null;
+    }
+
+    const rounds = [...player.rounds];
+    rounds[player.currentRound] = { startedAt: now };
+    return {
+      ...duel,
+      players: duel.players.map(current => (current === player ? { ...player, rounds } : current)),
+      updatedAt: now,
+    };
+  });
+
+  // Nothing was written: the word is already in play, or the duel moved on meanwhile
+  const duel = started || (await getDuel(duelId));
+  const refusedNow = checkDuelTurn(duel, walletAddress);
+  if (refusedNow) {
+    return refusedNow;
+  }
+
+  const player = getDuelPlayer(duel!, walletAddress)!;
+  const word = duel!.words[player.currentRound];
+
+  return {
+    success: true,
+    duel: duel!,
+    round: {
+      duelId,
+      letters: word.word.length,
+      hasSentence: !!word.sentence,
+      roundNumber: player.currentRound + 1,
+      totalRounds: duel!.words.length,
+      timeLimit: getTimeLimitForDifficulty(duel!.difficulty),
+      roundStartedAt: player.rounds[player.currentRound].startedAt!,
+    },
+  };
+}
+
+/**
+ * Speak a prompt of the player's word in play
+ * Duels sell no hints, so the slow word and the definition are never available.
+ */
+export async function getDuelRoundAudio(
+  duelId: string,
+  walletAddress: string,
+  prompt: SpeechPrompt
+): Promise<PromptAudioResult> {
+  const duel = await getDuel(duelId);
+  const refused = checkDuelTurn(duel, walletAddress);
+  if (refused) {
+    return { success: false, status: refused.status, error: refused.error };
+  }
+
+  const player = getDuelPlayer(duel!, walletAddress)!;
+  if (!player.rounds[player.currentRound].startedAt) {
+    return { success: false, status: 409, error: 'No word in play' };
+  }
+
+  // Each player hears the shared word their own way
+  const scope = `duel:${duelId}:${walletAddress}:${player.currentRound}`;
+  return getPromptAudio(scope, duel!.words[player.currentRound], prompt, []);
+}
+
+/**
+ * Grade the player's answer for the word in play
+ * The duel is settled as soon as both players have answered every word.
+ */
+export async function answerDuel(
+  duelId: string,
+  walletAddress: string,
+  answer: string
+): Promise<DuelResult> {
+  const refused = checkDuelTurn(await getDuel(duelId), walletAddress);
+  if (refused) {
+    return refused;
+  }
+
+  let graded = undefined as { correct: boolean; word: string } | undefined;
+
+  const answered = await kv.update(duelKey(duelId), (duel: Duel | undefined) => {
+    graded = undefined;
+    if (!duel || checkDuelTurn(duel, walletAddress)) {
+      return null;
+    }
+
+    const player = getDuelPlayer(duel, walletAddress)!;
+    const round = player.rounds[player.currentRound];
+    if (!round.startedAt || round.answeredAt) {
+      return null;
+    }
+
+    const now = new Date();
+    const word = duel.words[player.currentRound];
+    const answerMs = now.getTime() - new Date(round.startedAt).getTime();
+    const timeLimitMs = getTimeLimitForDifficulty(duel.difficulty) * 1000;
+    const correct = answerMs <= timeLimitMs + DUEL_GRACE_MS &&
+      isAcceptedSpelling(word.word, answer, word.alternates);
+    graded = { correct, word: word.word };
+
+    const rounds = [...player.rounds];
+    rounds[player.currentRound] = { ...round, answeredAt: now.toISOString(), answerMs, correct };
+    const isLastRound = player.currentRound === duel.words.length - 1;
+
+    return {
+      ...duel,
+      players: duel.players.map(current => current === player
+        ? {
+          ...player,
+          rounds,
+          currentRound: isLastRound ? player.currentRound : player.currentRound + 1,
+          ...(isLastRound && { finishedAt: now.toISOString() }),
+        }
+        : current
+      ),
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (!answered || !graded) {
+    return { success: false, status: 409, error: 'No word in play' };
+  }
+
+  const settled = isReadyToSettle(answered, Date.now()) ? await settleDuel(duelId) : null;
+
+  return { success: true, duel: settled || answered, ...graded };
+}
@@ -0,0 +1,792 @@
+/**
+ * GAME SESSIONS
+ *
+ * Server-authoritative word selection and grading.
+ * The server picks the words, grades the answers and computes the WMINT award,
+ * so a client can never self-report a correct answer or choose its own reward.
+ *
+ * A game is GAME_ROUNDS words of one difficulty tier of a word pack
+ * (the built-in Web3 pack unless another is chosen), or in adaptive mode words
+ * picked across tiers from the player's word history. Each round is started and
+ * answered in turn. The word itself is never sent to the client before it is
+ * answered: the round's prompts are spoken by the server (see speech/) and
+ * the client only learns the word's length. The player's `gamesPlayed` counts
+ * completed games, not words.
+ *
+ * Review games replay up to GAME_ROUNDS of the player's missed words that are
+ * due (see review.tsx). They pay a reduced reward and leave the streak, level
+ * and achievements alone, so missing words on purpose never pays off.
+ *
+ * Games on an uploaded pack no admin has approved are practice: they pay no
+ * WMINT and leave the streak, level, achievements and season games alone, so
+ * a pack of easy words passed off as hard ones earns nothing. Words missed in
+ * them keep that flag in the review deck.
+ *
+ * Games started with partial credit pay part of the base reward for a near
+ * miss (see spelling-diff.ts) and keep the streak going instead of resetting it.
+ * A near miss still counts as a miss everywhere else.
+ *
+ * The daily challenge is the day's shared words from the built-in pack (see
+ * daily-challenge.tsx), whatever pack was asked for. Starting it uses up the
+ * player's one attempt for the day, even if they leave before the end.
+ *
+ * A tournament game is a player's game for one round of a tournament bracket
+ * (see tournaments.tsx): that round's shared words from the tournament's tier,
+ * one game per player per round, and no partial credit.
+ *
+ * Each round's time limit depends on its word's tier. The server times every
+ * answer from the moment it hands out the word; fast correct answers earn a
+ * speed multiplier and count towards the player's fastest-correct stat.
+ *
+ * Relaxed games (the player's accessibility setting) have no time limit and
+ * no speed bonus, and pay a share of the usual reward. The daily challenge
+ * and tournament games are always timed.
+ *
+ * Hints are bought per round and paid from the pending score straight away;
+ * the session records them so the game summary and achievements can tell
+ * hinted rounds apart.
+ */
+
+import * as kv from './storage/index.tsx';
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import {
+  DifficultyMode,
+  WordTier,
+  pickRandom,
+  calculateWordReward,
+  calculateReviewReward,
+  calculatePartialReward,
+  getTimeLimitForDifficulty,
+  RELAXED_REWARD_FACTOR,
+  getSpeedMultiplier,
+} from '../../../utils/word-lists.ts';
+import { isAcceptedSpelling } from '../../../utils/word-entries.ts';
+import { SpellingDiff, SpellingDiffOp, diffSpelling, isNearMiss } from '../../../utils/spelling-diff.ts';
+import { WordPack, WordPackEntry, BUILT_IN_PACK_ID, isApprovedPack, maskWord } from '../../../utils/word-packs.ts';
+import { getDailyDate } from '../../../utils/daily-challenge.ts';
+import { WordFacts } from '../../../utils/achievement-rules.ts';
+import { getWordHistory, recordWordAttempt } from './word-history.tsx';
+import { pickAdaptiveWords } from './adaptive.tsx';
+import {
+  getReviewDeck,
+  getDueCards,
+  getReviewQuality,
+  addMissedWord,
+  recordReview,
+} from './review.tsx';
+import { getDailyPicks, claimDailyAttempt, recordDailyResult } from './daily-challenge.tsx';
+import { AchievementUnlock, recordAchievements } from './achievements.tsx';
+import { addSeasonScore } from './seasons.tsx';
+import {
+  Tournament,
+  getTournamentPicks,
+  claimTournamentGame,
+  recordTournamentResult,
+} from './tournaments.tsx';
+import { HintType, HintReveal, getHintInfo } from '../../../utils/hints.ts';
+import { SpeechPrompt } from '../../../utils/speech-prompts.ts';
+import { PromptAudioResult, getPromptAudio } from './speech/index.tsx';
+
+// Words per game
+export const GAME_ROUNDS = 5;
+
+// Extra allowance for network latency between the countdown ending and the request arriving
+const SESSION_GRACE_MS = 5000;
+
+const VALID_DIFFICULTIES: DifficultyMode[] = ['easy', 'normal', 'hard', 'adaptive', 'review', 'daily'];
+
+export type GameSessionStatus = 'active' | 'completed';
+
+export interface TournamentRound {
+  tournament: Tournament;
+  stage: number;
+}
+
+export interface SessionRound {
+  word: string;
+  tier: WordTier; // Sets the reward; differs between rounds in adaptive mode
+  // Copied from the pack entry, so later pack edits don't affect a game in progress
+  definition?: string;
+  sentence?: string;
+  alternates?: string[];
+  unrewarded?: boolean; // From an unapproved pack: earns no WMINT and leaves the stats alone
+  startedAt?: string;
+  answeredAt?: string;
+  answerMs?: number; // Time from startedAt to the answer arriving
+  answer?: string;
+  correct?: boolean;
+  nearMiss?: boolean; // Misspelled, but close enough for partial credit
+  wmintEarned?: number;
+  speedMultiplier?: number; // Applied to the base reward of a correct answer
+  hints?: HintReveal[];
+  diff?: SpellingDiffOp[]; // Letter diff of a misspelled answer
+}
+
+export interface GameSession {
+  id: string;
+  walletAddress: string;
+  difficulty: DifficultyMode;
+  packId: string;
+  partialCredit?: boolean; // Near misses earn part of the reward
+  relaxed?: boolean; // No time limit, reduced reward
+  dailyDate?: string; // UTC day of a daily challenge game
+  tournament?: { id: string; stage: number }; // Round of a tournament game
+  rounds: SessionRound[];
+  currentRound: number; // Index into rounds
+  status: GameSessionStatus;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * What the client is allowed to see of a session: the length of the word in play
+ * The word and its sentence are only ever heard (see getRoundAudio), and the
+ * definition is sold, masked, as a hint.
+ */
+export interface SessionView {
+  sessionId: string;
+  difficulty: DifficultyMode;
+  packId: string;
+  partialCredit: boolean;
+  relaxed: boolean; // Untimed: the client shows no countdown
+  dailyDate: string | null; // Set for daily challenge games
+  tournamentId: string | null; // Set for tournament games
+  letters: number | null; // Null until the current round is started
+  hasSentence: boolean; // The round has an example sentence to ask for, like a spelling bee
+  roundNumber: number; // 1-based
+  totalRounds: number;
+  timeLimit: number; // Seconds, for the current round's tier
+  roundStartedAt: string | null;
+  status: GameSessionStatus;
+}
+
+export interface RoundSummary {
+  roundNumber: number;
+  word: string;
+  answer: string;
+  correct: boolean;
+  nearMiss: boolean;
+  answerMs: number | null;
+  speedMultiplier: number;
+  wmintEarned: number;
+  hintsUsed: number;
+  hintCost: number;
+  diff: SpellingDiffOp[] | null; // Set for misspelled answers
+}
+
+export interface GameSummary {
+  rounds: RoundSummary[];
+  correctCount: number;
+  totalRounds: number;
+  wmintEarned: number;
+  hintsUsed: number;
+  hintCost: number;
+  fastestCorrectMs: number | null;
+}
+
+export interface SessionResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  session?: GameSession;
+  player?: any;
+  addedToReview?: boolean; // The answered word was missed and is now in the review deck
+  unlocked?: AchievementUnlock[]; // Achievements this answer unlocked
+}
+
+export interface HintResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  hint?: HintReveal;
+  player?: any;
+}
+
+function sessionKey(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+export function isValidDifficulty(difficulty: unknown): difficulty is DifficultyMode {
+  return VALID_DIFFICULTIES.includes(difficulty as DifficultyMode);
+}
+
+export function toSessionView(session: GameSession): SessionView {
+  const round = session.rounds[session.currentRound];
+  const inPlay = !!round.startedAt && !round.answeredAt;
+
+  return {
+    sessionId: session.id,
+    difficulty: session.difficulty,
+    packId: session.packId,
+    partialCredit: !!session.partialCredit,
+    relaxed: !!session.relaxed,
+    dailyDate: session.dailyDate ?? null,
+    tournamentId: session.tournament?.id ?? null,
+    letters: inPlay ? round.word.length : null,
+    hasSentence: inPlay && !!round.sentence,
+    roundNumber: session.currentRound + 1,
+    totalRounds: session.rounds.length,
+    timeLimit: getTimeLimitForDifficulty(round.tier),
+    roundStartedAt: inPlay ? round.startedAt! : null,
+    status: session.status,
+  };
+}
+
+/**
+ * Summary of the rounds answered so far
+ */
+export function summarizeSession(session: GameSession): GameSummary {
+  const rounds: RoundSummary[] = [];
+
+  session.rounds.forEach((round, index) => {
+    if (round.answeredAt) {
+      rounds.push({
+        roundNumber: index + 1,
+        word: round.word,
+        answer: round.answer || '',
+        correct: !!round.correct,
+        nearMiss: !!round.nearMiss,
+        answerMs: round.answerMs ?? null,
+        speedMultiplier: round.speedMultiplier || 1,
+        wmintEarned: round.wmintEarned || 0,
+        hintsUsed: round.hints?.length || 0,
+        hintCost: (round.hints || []).reduce((total, hint) => total + hint.cost, 0),
+        diff: round.diff || null,
+      });
+    }
+  });
+
+  const correctTimes = rounds
+    .filter(round => round.correct && round.answerMs !== null)
+    .map(round => round.answerMs!);
+
+  return {
+    rounds,
+    correctCount: rounds.filter(round => round.correct).length,
+    totalRounds: session.rounds.length,
+    wmintEarned: rounds.reduce((total, round) => total + round.wmintEarned, 0),
+    hintsUsed: rounds.reduce((total, round) => total + round.hintsUsed, 0),
+    hintCost: rounds.reduce((total, round) => total + round.hintCost, 0),
+    fastestCorrectMs: correctTimes.length ? Math.min(...correctTimes) : null,
+  };
+}
+
+/**
+ * What achievement rules see of an answered round
+ */
+function toWordFacts(round: SessionRound): WordFacts {
+  return {
+    tier: round.tier,
+    correct: !!round.correct,
+    answerMs: round.answerMs ?? 0,
+    hintsUsed: round.hints?.length || 0,
+  };
+}
+
+async function loadActiveSession(
+  sessionId: string,
+  walletAddress: string
+): Promise<SessionResult> {
+  const session: GameSession | undefined = await kv.get(sessionKey(sessionId));
+
+  if (!session) {
+    return { success: false, status: 404, error: 'Session not found' };
+  }
+
+  if (session.walletAddress !== walletAddress) {
+    return { success: false, status: 403, error: 'Session belongs to another wallet' };
+  }
+
+  if (session.status !== 'active') {
+    return { success: false, status: 409, error: 'Game already completed' };
+  }
+
+  return { success: true, session };
+}
+
+/**
+ * Pick a game's words: from one tier of the pack, adaptively across its tiers,
+ * from the player's due review words, the day's shared words or a tournament
+ * round's shared words (the last three ignore the pack)
+ */
+async function pickWords(
+  walletAddress: string,
+  difficulty: DifficultyMode,
+  pack: WordPack,
+  dailyDate: string,
+  tournamentRound?: TournamentRound
+): Promise<{ entry: WordPackEntry; tier: WordTier; unrewarded?: boolean }[]> {
+  if (tournamentRound) {
+    return getTournamentPicks(tournamentRound.tournament, tournamentRound.stage, GAME_ROUNDS);
+  }
+
+  if (difficulty === 'daily') {
+    return getDailyPicks(dailyDate);
+  }
+
+  if (difficulty === 'adaptive') {
+    return pickAdaptiveWords(pack, await getWordHistory(walletAddress), GAME_ROUNDS);
+  }
+
+  if (difficulty === 'review') {
+    const due = getDueCards(await getReviewDeck(walletAddress)).slice(0, GAME_ROUNDS);
+    return due.map(card => ({
+      entry: {
+        word: card.word,
+        definition: card.definition,
+        sentence: card.sentence,
+        alternates: card.alternates,
+      },
+      tier: card.tier,
+      unrewarded: card.unrewarded,
+    }));
+  }
+
+  const entries = pack.tiers[difficulty] || [];
+  return pickRandom(entries, GAME_ROUNDS).map(entry => ({ entry, tier: difficulty }));
+}
+
+/**
+ * Start a new game
+ * Picks every word up front and starts the first round
+ * A review game has as many rounds as there are due words, up to GAME_ROUNDS.
+ * Review, daily and tournament games never give partial credit, so shared results compare fairly.
+ * Daily and tournament games are never relaxed, for the same reason.
+ * Pass `tournamentRound` to play a tournament round; its difficulty is the tournament's tier.
+ */
+export async function startSession(
+  walletAddress: string,
+  difficulty: DifficultyMode,
+  pack: WordPack,
+  partialCredit = false,
+  relaxed = false,
+  tournamentRound?: TournamentRound
+): Promise<SessionResult> {
+  const dailyDate = getDailyDate();
+  const picks = await pickWords(walletAddress, difficulty, pack, dailyDate, tournamentRound);
+  if (difficulty === 'review' && picks.length === 0) {
+    return { success: false, status: 400, error: 'No words are due for review' };
+  }
+
+  if (difficulty !== 'review' && picks.length < GAME_ROUNDS) {
+    return {
+      success: false,
+      status: 400,
+      error: difficulty === 'adaptive' ? 'This pack has too few words' : `This pack has no ${difficulty} words`
+    };
+  }
+
+  const sessionId = crypto.randomUUID();
+  if (difficulty === 'daily' && !(await claimDailyAttempt(dailyDate, walletAddress, sessionId))) {
+    return { success: false, status: 409, error: "You've already played today's Daily Challenge" };
+  }
+
+  if (
+    tournamentRound &&
+    !(await claimTournamentGame(tournamentRound.tournament.id, tournamentRound.stage, walletAddress, sessionId))
+  ) {
+    return { success: false, status: 409, error: "You've already played this round" };
+  }
+
+  // Daily and tournament words come from the built-in pack or an admin's choice; review words carry their own flag
+  const unapprovedPack = !tournamentRound && difficulty !== 'daily' && difficulty !== 'review' && !isApprovedPack(pack);
+
+  const now = new Date().toISOString();
+  const rounds: SessionRound[] = picks.map(({ entry, tier, unrewarded }, index) => ({
+    word: entry.word,
+    tier,
+    definition: entry.definition,
+    sentence: entry.sentence,
+    alternates: entry.alternates,
+    ...((unapprovedPack || unrewarded) && { unrewarded: true }),
+    ...(index === 0 && { startedAt: now }),
+  }));
+
+  const session: GameSession = {
+    id: sessionId,
+    walletAddress,
+    difficulty,
+    packId: tournamentRound ? tournamentRound.tournament.packId : difficulty === 'daily' ? BUILT_IN_PACK_ID : pack.id,
+    partialCredit: partialCredit && difficulty !== 'review' && difficulty !== 'daily' && !tournamentRound,
+    relaxed: relaxed && difficulty !== 'daily' && !tournamentRound,
+    ...(difficulty === 'daily' && { dailyDate }),
+    ...(tournamentRound && { tournament: { id: tournamentRound.tournament.id, stage: tournamentRound.stage } }),
+    rounds,
+    currentRound: 0,
+    status: 'active',
+    startedAt: now,
+  };
+
+  await kv.set(sessionKey(session.id), session);
+
+  return { success: true, session };
+}
+
+/**
+ * Start the next round of a game
+ * The round's countdown starts now, so time spent on the previous result doesn't count
+ */
+export async function startNextRound(
+  sessionId: string,
+  walletAddress: string
+): Promise<SessionResult> {
+  const loaded = await loadActiveSession(sessionId, walletAddress);
+  if (!loaded.session) {
+    return loaded;
+  }
+
+  const session = loaded.session;
+  const round = session.rounds[session.currentRound];
+
+  if (round.startedAt) {
+    return { success: false, status: 409, error: 'Round already started' };
+  }
+
+  const rounds = [...session.rounds];
+  rounds[session.currentRound] = { ...round, startedAt: new Date().toISOString() };
+  const startedSession: GameSession = { ...session, rounds };
+
+  if (!(await kv.compareAndSet(sessionKey(sessionId), session, startedSession))) {
+    return { success: false, status: 409, error: 'Round already started' };
+  }
+
+  return { success: true, session: startedSession };
+}
+
+/**
+ * Grade the answer for the round in play and apply the result to the player's stats
+ *
+ * Answers arriving after the time limit are graded as incorrect, except in relaxed games.
+ * Alternate spellings from the word's pack entry (e.g. "on-chain") are also accepted.
+ * Each round can only be answered once, and only by the wallet that started the game.
+ * Answering the last round completes the game and counts it in `gamesPlayed`
+ * (review and unapproved pack games excepted). Words missed outside review mode
+ * join the review deck.
+ */
+export async function answerSession(
+  sessionId: string,
+  walletAddress: string,
+  answer: string
+): Promise<SessionResult> {
+  const loaded = await loadActiveSession(sessionId, walletAddress);
+  if (!loaded.session) {
+    return loaded;
+  }
+
+  const session = loaded.session;
+  const round = session.rounds[session.currentRound];
+
+  if (!round.startedAt || round.answeredAt) {
+    return { success: false, status: 409, error: 'No round in play' };
+  }
+
+  const playerKey = `player:${session.walletAddress}`;
+  const player = await kv.get(playerKey);
+
+  if (!player) {
+    return { success: false, status: 404, error: 'Player not found' };
+  }
+
+  const timeLimit = getTimeLimitForDifficulty(round.tier);
+  const elapsedMs = Date.now() - new Date(round.startedAt).getTime();
+  const inTime = !!session.relaxed || elapsedMs <= timeLimit * 1000 + SESSION_GRACE_MS;
+  const correct = inTime && isAcceptedSpelling(round.word, answer || '', round.alternates);
+  const isReview = session.difficulty === 'review';
+  // Only regular games on approved packs move the streak, level, achievements and season games
+  const countsTowardStats = !isReview && !round.unrewarded;
+
+  // Show the player where a misspelling went wrong (a blank answer has nothing to compare)
+  const diff: SpellingDiff | undefined = !correct && answer?.trim()
+    ? diffSpelling(round.word, answer)
+    : undefined;
+  const nearMiss = !!session.partialCredit && inTime && !!diff && isNearMiss(round.word, diff);
+
+  // Review words are practice and relaxed games untimed, so only regular answers earn the speed bonus
+  const speedMultiplier = correct && !isReview && !session.relaxed ? getSpeedMultiplier(elapsedMs, timeLimit) : 1;
+
+  // Reward uses the player's stats before this answer is applied
+  let wmintEarned = 0;
+  if (correct) {
+    wmintEarned = isReview
+      ? calculateReviewReward(round.tier)
+      : calculateWordReward(round.tier, player.streak, player.level, speedMultiplier);
+  } else if (nearMiss) {
+    wmintEarned = calculatePartialReward(round.tier);
+  }
+  if (session.relaxed) {
+    wmintEarned = Math.round(wmintEarned * RELAXED_REWARD_FACTOR);
+  }
+  if (round.unrewarded) {
+    wmintEarned = 0;
+  }
+
+  const now = new Date().toISOString();
+  const rounds = [...session.rounds];
+  rounds[session.currentRound] = {
+    ...round,
+    answeredAt: now,
+    answerMs: elapsedMs,
+    answer,
+    correct,
+    ...(nearMiss && { nearMiss }),
+    wmintEarned,
+    ...(speedMultiplier > 1 && { speedMultiplier }),
+    ...(diff && { diff: diff.ops }),
+  };
+
+  const isLastRound = session.currentRound === session.rounds.length - 1;
+  const answeredSession: GameSession = isLastRound
+    ? { ...session, rounds, status: 'completed', completedAt: now }
+    : { ...session, rounds, currentRound: session.currentRound + 1 };
+
+  // Record the answer before crediting so a retried or concurrent request cannot pay twice
+  if (!(await kv.compareAndSet(sessionKey(sessionId), session, answeredSession))) {
+    return { success: false, status: 409, error: 'Round already answered' };
+  }
+
+  const updatedPlayer = await kv.update(playerKey, (current: any) => {
+    if (!current) {
+      return null;
+    }
+
+    if (!countsTowardStats) {
+      return { ...current, score: current.score + wmintEarned, lastUpdated: now };
+    }
+
+    const gamesPlayed = isLastRound ? current.gamesPlayed + 1 : current.gamesPlayed;
+    // A near miss keeps the streak alive without adding to it
+    const streak = correct ? current.streak + 1 : nearMiss ? current.streak : 0;
+    return {
+      ...current,
+      score: current.score + wmintEarned,
+      streak,
+      maxStreak: Math.max(current.maxStreak ?? current.streak, streak),
+      gamesPlayed,
+      level: Math.floor(gamesPlayed / 5) + 1,
+      fastestCorrectMs: correct
+        ? Math.min(current.fastestCorrectMs ?? Infinity, elapsedMs)
+        : current.fastestCorrectMs,
+      lastUpdated: now
+    };
+  });
+
+  // Seasonal standings are secondary to the player's balance, so a failed write doesn't fail the answer
+  if (updatedPlayer) {
+    try {
+      await addSeasonScore(updatedPlayer, wmintEarned, isLastRound && countsTowardStats ? 1 : 0);
+    } catch (error) {
+      console.log(`Error updating season score: ${error}`);
+    }
+  }
+
+  // History only steers adaptive word selection, so a failed write doesn't fail the answer
+  try {
+    await recordWordAttempt(walletAddress, {
+      word: round.word,
+      tier: round.tier,
+      answer: answer || '',
+      correct,
+      answerMs: elapsedMs,
+      diff,
+    });
+  } catch (error) {
+    console.log(`Error recording word history: ${error}`);
+  }
+
+  // Likewise the review deck: reschedule a review word, or add a word missed in play
+  let addedToReview = false;
+  try {
+    if (isReview) {
+      const quality = getReviewQuality(
+        correct,
+        inTime && !!answer?.trim(),
+        round.hints?.length || 0,
+        elapsedMs,
+        timeLimit * 1000
+      );
+      await recordReview(walletAddress, round.word, quality);
+    } else if (!correct) {
+      await addMissedWord(walletAddress, round);
+      addedToReview = true;
+    }
+  } catch (error) {
+    console.log(`Error updating review deck: ${error}`);
+  }
+
+  // Review and unapproved pack games leave the stats achievements count unchanged
+  let unlocked: AchievementUnlock[] = [];
+  if (countsTowardStats && updatedPlayer) {
+    try {
+      unlocked = await recordAchievements(updatedPlayer, 'game', sessionId, {
+        answer: toWordFacts(rounds[session.currentRound]),
+        game: isLastRound ? rounds.map(toWordFacts) : undefined,
+      });
+    } catch (error) {
+      console.log(`Error recording achievements: ${error}`);
+    }
+  }
+
+  // Post the daily result on the day the game started, even if it ends after midnight
+  if (isLastRound && session.dailyDate) {
+    try {
+      await recordDailyResult(session.dailyDate, walletAddress, summarizeSession(answeredSession));
+    } catch (error) {
+      console.log(`Error recording daily result: ${error}`);
+    }
+  }
+
+  if (isLastRound && session.tournament) {
+    try {
+      await recordTournamentResult(
+        session.tournament.id,
+        session.tournament.stage,
+        walletAddress,
+        summarizeSession(answeredSession)
+      );
+    } catch (error) {
+      console.log(`Error recording tournament result: ${error}`);
+    }
+  }
+
+  return {
+    success: true,
+    session: answeredSession,
+    player: updatedPlayer,
+    addedToReview,
+    unlocked,
+  };
+}
+
+/**
+ * Reveal what a hint shows for a round, or explain why it can't be bought
+ */
+function revealHint(
+  round: SessionRound,
+  type: HintType,
+  cost: number
+): { hint?: HintReveal; status?: ContentfulStatusCode; error?: string } {
+  const revealed = new Set(
+    (round.hints || [])
+      .filter(hint => hint.position !== undefined)
+      .map(hint => hint.position!)
+  );
+
+  switch (type) {
+    case 'first-letter':
+      if (revealed.has(0)) {
+        return { status: 409, error: 'First letter already revealed' };
+      }
+      return { hint: { type, cost, position: 0, letter: round.word[0] } };
+
+    case 'random-letter': {
+      const hidden = [...round.word].map((_, index) => index).filter(index => !revealed.has(index));
+      // Always leave at least one letter for the player to spell
+      if (hidden.length <= 1) {
+        return { status: 409, error: 'No more letters to reveal' };
+      }
+      const position = hidden[Math.floor(Math.random() * hidden.length)];
+      return { hint: { type, cost, position, letter: round.word[position] } };
+    }
+
+    case 'definition': {
+      if (!round.definition) {
+        return { status: 404, error: 'No definition available for this word' };
+      }
+      return { hint: { type, cost, definition: maskWord(round.definition, round.word) } };
+    }
+
+    case 'slow-replay':
+      // Unlocks the slow-word prompt for the rest of the round
+      return { hint: { type, cost } };
+  }
+}
+
+/**
+ * Buy a hint for the round in play
+ *
+ * The cost is deducted from the player's pending score; hints the player
+ * can't afford are refused. Non-repeatable hints can be bought once per round.
+ * Tournament games sell no hints.
+ */
+export async function buyHint(
+  sessionId: string,
+  walletAddress: string,
+  type: HintType
+): Promise<HintResult> {
+  const loaded = await loadActiveSession(sessionId, walletAddress);
+  if (!loaded.session) {
+    return { success: false, status: loaded.status, error: loaded.error };
+  }
+
+  const session = loaded.session;
+  const round = session.rounds[session.currentRound];
+
+  // Every match of a stage plays the same words, so a hint would reveal them to the whole bracket
+  if (session.tournament) {
+    return { success: false, status: 403, error: 'Hints are not available in tournament games' };
+  }
+
+  if (!round.startedAt || round.answeredAt) {
+    return { success: false, status: 409, error: 'No round in play' };
+  }
+
+  const info = getHintInfo(type)!;
+  if (!info.repeatable && round.hints?.some(hint => hint.type === type)) {
+    return { success: false, status: 409, error: 'Hint already used this round' };
+  }
+
+  const { hint, status, error } = revealHint(round, type, info.cost);
+  if (!hint) {
+    return { success: false, status, error };
+  }
+
+  // Charge first, so a hint is never revealed without being paid for
+  const playerKey = `player:${walletAddress}`;
+  const chargedPlayer = await kv.update(playerKey, (current: any) => {
+    if (!current || current.score < info.cost) {
+      return null;
+    }
+    return { ...current, score: current.score - info.cost, lastUpdated: new Date().toISOString() };
+  });
+
+  if (!chargedPlayer) {
+    return { success: false, status: 402, error: `Not enough WMINT for this hint (costs ${info.cost})` };
+  }
+
+  const rounds = [...session.rounds];
+  rounds[session.currentRound] = { ...round, hints: [...(round.hints || []), hint] };
+
+  if (!(await kv.compareAndSet(sessionKey(sessionId), session, { ...session, rounds }))) {
+    // The round moved on while we were charging; give the WMINT back
+    await kv.update(playerKey, (current: any) => current
+      ? { ...current, score: current.score + info.cost, lastUpdated: new Date().toISOString() }
+      : null
+    );
+    return { success: false, status: 409, error: 'Round changed, please try again' };
+  }
+
+  return { success: true, hint, player: chargedPlayer };
+}
+
+/**
+ * Speak a prompt of the round in play
+ * The slow word and the definition are only available after buying their hints.
+ */
+export async function getRoundAudio(
+  sessionId: string,
+  walletAddress: string,
+  prompt: SpeechPrompt
+): Promise<PromptAudioResult> {
+  const loaded = await loadActiveSession(sessionId, walletAddress);
+  if (!loaded.session) {
+    return { success: false, status: loaded.status, error: loaded.error };
+  }
+
+  const round = loaded.session.rounds[loaded.session.currentRound];
+  if (!round.startedAt || round.answeredAt) {
+    return { success: false, status: 409, error: 'No round in play' };
+  }
+
+  const scope = `session:${sessionId}:${loaded.session.currentRound}`;
+  return getPromptAudio(scope, round, prompt, (round.hints || []).map(hint => hint.type));
+}
@@ -0,0 +1,229 @@
+/**
+ * REVIEW DECK
+ *
+ * Spaced-repetition practice for missed words, scheduled with the SM-2
+ * algorithm. A word the player misspells in a regular game is added to their
+ * deck and is due for review straight away. Each review answer is graded 0-5
+ * and sets when the word comes back: a day after the first recall, six days
+ * after the second, then ever longer intervals scaled by the word's easiness.
+ * A word missed again starts over.
+ *
+ * Cards carry a copy of the word's pack entry so they can be reviewed even
+ * after the pack they came from is deleted.
+ */
+
+import * as kv from './storage/index.tsx';
+import { WordTier } from '../../../utils/word-lists.ts';
+
+// SM-2 constants
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 6;
+
+// A word missed during review comes back later in the same sitting
+const RELEARN_DELAY_MINUTES = 10;
+
+// Oldest, best-known cards are dropped beyond this
+const MAX_REVIEW_CARDS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recall quality, as in SM-2: 3 and above counts as remembered
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard {
+  word: string;
+  tier: WordTier; // Sets the (reduced) review reward
+  definition?: string;
+  sentence?: string;
+  alternates?: string[];
+  unrewarded?: boolean; // Missed in an unapproved pack's game: reviewing it earns no WMINT
+  easiness: number;
+  interval: number; // Days
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times the word was missed after being added
+  dueAt: string;
+  addedAt: string;
+  lastReviewedAt?: string;
+}
+
+export interface ReviewDeck {
+  walletAddress: string;
+  cards: Record<string, ReviewCard>;
+  updatedAt: string;
+}
+
+export interface ReviewStatus {
+  dueCount: number;
+  totalCards: number;
+  nextDueAt: string | null; // Earliest due time among cards not yet due
+}
+
+function deckKey(walletAddress: string): string {
+  return `review:${walletAddress}`;
+}
+
+function getCard(deck: ReviewDeck, word: string): ReviewCard | undefined {
+  const key = word.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(deck.cards, key) ? deck.cards[key] : undefined;
+}
+
+/**
+ * Grade a review answer for SM-2
+ *
+ * 5: correct without hints in under half the time; 4: correct without hints;
+ * 3: correct with hints; 1: misspelled; 0: no answer in time.
+ */
+export function getReviewQuality(
+  correct: boolean,
+  answered: boolean,
+  hintsUsed: number,
+  elapsedMs: number,
+  timeLimitMs: number
+): ReviewQuality {
+  if (!correct) {
+    return answered ? 1 : 0;
+  }
+  if (hintsUsed > 0) {
+    return 3;
+  }
+  return elapsedMs <= timeLimitMs / 2 ? 5 : 4;
+}
+
+/**
+ * Apply one graded review to a card (SM-2)
+ */
+export function scheduleReview(card: ReviewCard, quality: ReviewQuality, now: Date): ReviewCard {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      ...card,
+      easiness,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  const interval = card.repetitions === 0
+    ? FIRST_INTERVAL_DAYS
+    : card.repetitions === 1
+      ? SECOND_INTERVAL_DAYS
+      : Math.round(card.interval * card.easiness);
+
+  return {
+    ...card,
+    easiness,
+    interval,
+    repetitions: card.repetitions + 1,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Get a player's review deck (empty if they haven't missed anything yet)
+ */
+export async function getReviewDeck(walletAddress: string): Promise<ReviewDeck> {
+  const deck: ReviewDeck | undefined = await kv.get(deckKey(walletAddress));
+  return deck || { walletAddress, cards: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Cards due now, most overdue first
+ */
+export function getDueCards(deck: ReviewDeck, now = new Date()): ReviewCard[] {
+  return Object.values(deck.cards)
+    .filter(card => new Date(card.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+export function getReviewStatus(deck: ReviewDeck, now = new Date()): ReviewStatus {
+  const cards = Object.values(deck.cards);
+  const upcoming = cards
+    .filter(card => new Date(card.dueAt).getTime() > now.getTime())
+    .map(card => card.dueAt)
+    .sort();
+
+  return {
+    dueCount: cards.length - upcoming.length,
+    totalCards: cards.length,
+    nextDueAt: upcoming[0] || null,
+  };
+}
+
+/**
+ * Add a word missed in a regular game to the deck, due now
+ * A word already in the deck lapses and starts its schedule over.
+ */
+export async function addMissedWord(
+  walletAddress: string,
+  round: Pick<ReviewCard, 'word' | 'tier' | 'definition' | 'sentence' | 'alternates' | 'unrewarded'>
+): Promise<void> {
+  const now = new Date().toISOString();
+  const key = round.word.toLowerCase();
+
+  await kv.update(deckKey(walletAddress), (deck: ReviewDeck | undefined) => {
+    const cards = { ...(deck?.cards || {}) };
+    const card = deck && getCard(deck, key);
+
+    cards[key] = {
+      word: round.word,
+      tier: round.tier,
+      definition: round.definition,
+      sentence: round.sentence,
+      alternates: round.alternates,
+      ...(round.unrewarded && { unrewarded: true }),
+      easiness: card?.easiness ?? INITIAL_EASINESS,
+      interval: 0,
+      repetitions: 0,
+      lapses: card ? card.lapses + 1 : 0,
+      dueAt: now,
+      addedAt: card?.addedAt || now,
+      lastReviewedAt: card?.lastReviewedAt,
+    };
+
+    // Keep the deck bounded, dropping the words the player knows best
+    const words = Object.keys(cards);
+    if (words.length > MAX_REVIEW_CARDS) {
+      words
+        .sort((a, b) => cards[b].interval - cards[a].interval || cards[a].addedAt.localeCompare(cards[b].addedAt))
+        .slice(0, words.length - MAX_REVIEW_CARDS)
+        .forEach(word => delete cards[word]);
+    }
+
+    return { walletAddress, cards, updatedAt: now };
+  });
+}
+
+/**
+ * Record a review answer and reschedule the word
+ */
+export async function recordReview(
+  walletAddress: string,
+  word: string,
+  quality: ReviewQuality
+): Promise<void> {
+  const now = new Date();
+  const key = word.toLowerCase();
+
+  await kv.update(deckKey(walletAddress), (deck: ReviewDeck | undefined) => {
+    const card = deck && getCard(deck, key);
+    if (!deck || !card) {
+      return null;
+    }
+
+    return {
+      walletAddress,
+      cards: { ...deck.cards, [key]: scheduleReview(card, quality, now) },
+      updatedAt: now.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * SEASONAL LEADERBOARDS
+ *
+ * Every WMINT a player earns (from answers and tournament prizes) is also
+ * added to their entry for the current weekly and monthly season, at
+ * `season:<period>:<seasonId>:<wallet>`, together with the games they
+ * complete. A season's leaderboard ranks those entries by WMINT earned.
+ *
+ * Once a season is over its final standings are snapshotted into
+ * `season-archive:<period>:<seasonId>` and the live entries deleted. The
+ * rollover job does this for every finished season; reading a finished
+ * season that hasn't been rolled over yet archives it on the spot. An archive
+ * is only ever created once, so a repeated rollover leaves it unchanged.
+ */
+
+import * as kv from './storage/index.tsx';
+import {
+  SeasonPeriod,
+  SEASON_PERIODS,
+  getSeasonId,
+  getSeasonStart,
+  getSeasonEnd,
+  isSeasonEnded,
+} from '../../../utils/seasons.ts';
+
+export interface SeasonEntry {
+  period: SeasonPeriod;
+  seasonId: string;
+  walletAddress: string;
+  score: number; // WMINT earned this season
+  gamesPlayed: number; // Games completed this season
+  level: number; // The player's level at their last update
+  updatedAt: string;
+}
+
+export interface SeasonStanding {
+  rank: number;
+  walletAddress: string;
+  score: number;
+  level: number;
+  gamesPlayed: number;
+}
+
+export interface SeasonArchive {
+  period: SeasonPeriod;
+  seasonId: string;
+  startsAt: string;
+  endsAt: string;
+  standings: SeasonStanding[]; // Every player who earned in the season, best first
+  archivedAt: string;
+}
+
+// What a season selector lists: an archive without its standings
+export interface SeasonSummary {
+  period: SeasonPeriod;
+  seasonId: string;
+  startsAt: string;
+  endsAt: string;
+  players: number;
+  archived: boolean;
+}
+
+function entryKey(period: SeasonPeriod, seasonId: string, walletAddress: string): string {
+  return `season:${period}:${seasonId}:${walletAddress}`;
+}
+
+function archiveKey(period: SeasonPeriod, seasonId: string): string {
+  return `season-archive:${period}:${seasonId}`;
+}
+
+// Most WMINT first; ties go to whoever got there first
+function rankEntries(entries: SeasonEntry[]): SeasonStanding[] {
+  return [...entries]
+    .sort((a, b) => b.score - a.score || a.updatedAt.localeCompare(b.updatedAt))
+    .map((entry, index) => ({
+      rank: index + 1,
+      walletAddress: entry.walletAddress,
+      score: entry.score,
+      level: entry.level,
+      gamesPlayed: entry.gamesPlayed,
+    }));
+}
+
+function toSummary(period: SeasonPeriod, seasonId: string, players: number, archived: boolean): SeasonSummary {
+  return {
+    period,
+    seasonId,
+    startsAt: getSeasonStart(period, seasonId).toISOString(),
+    endsAt: getSeasonEnd(period, seasonId).toISOString(),
+    players,
+    archived,
+  };
+}
+
+/**
+ * Add WMINT earned and games completed to the player's current seasons
+ */
+export async function addSeasonScore(
+  player: { walletAddress: string; level?: number },
+  wmintEarned: number,
+  gamesCompleted: number = 0
+): Promise<void> {
+  if (wmintEarned <= 0 && gamesCompleted <= 0) {
+    return;
+  }
+
+  const now = new Date();
+  for (const period of SEASON_PERIODS) {
+    const seasonId = getSeasonId(period, now);
+    await kv.update(entryKey(period, seasonId, player.walletAddress), (entry: SeasonEntry | undefined) => ({
+      period,
+      seasonId,
+      walletAddress: player.walletAddress,
+      score: (entry?.score || 0) + wmintEarned,
+      gamesPlayed: (entry?.gamesPlayed || 0) + gamesCompleted,
+      level: player.level || 1,
+      updatedAt: now.toISOString(),
+    }));
+  }
+}
+
+/**
+ * Snapshot a finished season's final standings and delete its live entries
+ * Returns the archive, whether created now or earlier.
+ */
+export async function archiveSeason(period: SeasonPeriod, seasonId: string): Promise<SeasonArchive> {
+  const entries: SeasonEntry[] = await kv.getByPrefix(`season:${period}:${seasonId}:`);
+
+  const archive: SeasonArchive = {
+    period,
+    seasonId,
+    startsAt: getSeasonStart(period, seasonId).toISOString(),
+    endsAt: getSeasonEnd(period, seasonId).toISOString(),
+    standings: rankEntries(entries),
+    archivedAt: new Date().toISOString(),
+  };
+
+  if (!(await kv.compareAndSet(archiveKey(period, seasonId), undefined, archive))) {
+    // Already archived; entries written since (an answer in flight at the reset) are dropped
+    const existing: SeasonArchive = await kv.get(archiveKey(period, seasonId));
+    await kv.mdel(entries.map(entry => entryKey(period, seasonId, entry.walletAddress)));
+    return existing;
+  }
+
+  await kv.mdel(entries.map(entry => entryKey(period, seasonId, entry.walletAddress)));
+  console.log(`🏁 Archived ${period} season ${seasonId}: ${archive.standings.length} players`);
+  return archive;
+}
+
+/**
+ * Archive every finished season that still has live entries
+ */
+export async function rolloverSeasons(): Promise<{ archived: SeasonSummary[] }> {
+  const entries: SeasonEntry[] = await kv.getByPrefix('season:');
+  const now = new Date();
+
+  const finished = new Map<string, { period: SeasonPeriod; seasonId: string }>();
+  for (const entry of entries) {
+    if (isSeasonEnded(entry.period, entry.seasonId, now)) {
+      finished.set(`${entry.period}:${entry.seasonId}`, { period: entry.period, seasonId: entry.seasonId });
+    }
+  }
+
+  const archived: SeasonSummary[] = [];
+  for (const { period, seasonId } of finished.values()) {
+    const archive = await archiveSeason(period, seasonId);
+    archived.push(toSummary(period, seasonId, archive.standings.length, true));
+  }
+
+  return { archived };
+}
+
+/**
+ * A season's standings: live while it runs, from the archive once it's over
+ */
+export async function getSeasonLeaderboard(
+  period: SeasonPeriod,
+  seasonId: string,
+  limit: number
+): Promise<{ season: SeasonSummary; leaderboard: SeasonStanding[] }> {
+  const archive: SeasonArchive | undefined = await kv.get(archiveKey(period, seasonId));
+  let standings: SeasonStanding[];
+  let archived = !!archive;
+
+  if (archive) {
+    standings = archive.standings;
+  } else {
+    const entries: SeasonEntry[] = await kv.getByPrefix(`season:${period}:${seasonId}:`);
+    standings = rankEntries(entries);
+
+    // A finished season nobody played in has nothing to archive
+    if (entries.length > 0 && isSeasonEnded(period, seasonId)) {
+      standings = (await archiveSeason(period, seasonId)).standings;
+      archived = true;
+    }
+  }
+
+  return {
+    season: toSummary(period, seasonId, standings.length, archived),
+    leaderboard: standings.slice(0, limit),
+  };
+}
+
+/**
+ * Archived seasons of a period, most recent first
+ */
+export async function getSeasonArchives(period: SeasonPeriod): Promise<SeasonSummary[]> {
+  const archives: SeasonArchive[] = await kv.getByPrefix(`season-archive:${period}:`);
+
+  return archives
+    .sort((a, b) => b.seasonId.localeCompare(a.seasonId))
+    .map(archive => toSummary(period, archive.seasonId, archive.standings.length, true));
+}
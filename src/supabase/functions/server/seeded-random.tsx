@@ -0,0 +1,45 @@
+/**
+ * SEEDED RANDOMNESS
+ *
+ * Word sets that every player must share (the daily challenge, tournament
+ * rounds) are drawn with a random generator seeded from a label and
+ * WORDMINT_DAILY_SECRET, so the server always picks the same words for the
+ * same label and nobody can work them out ahead of time. Without the secret
+ * the seed is the label alone, which is fine for local development only.
+ */
+
+async function getSeed(label: string): Promise<number> {
+  const secret = Deno.env.get('WORDMINT_DAILY_SECRET');
+  const encoder = new TextEncoder();
+
+  let digest: ArrayBuffer;
+  if (secret) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    digest = await crypto.subtle.sign('HMAC', key, encoder.encode(label));
+  } else {
+    digest = await crypto.subtle.digest('SHA-256', encoder.encode(`wordmint:${label}`));
+  }
+
+  return new DataView(digest).getUint32(0);
+}
+
+/**
+ * A random generator (mulberry32) that gives the same sequence for the same label
+ * Good enough for shuffling word lists, not for anything secret.
+ */
+export async function getSeededRandom(label: string): Promise<() => number> {
+  let state = (await getSeed(label)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
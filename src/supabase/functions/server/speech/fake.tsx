@@ -0,0 +1,48 @@
+/**
+ * FAKE SPEECH SYNTHESIZER
+ *
+ * Returns the same short silent WAV for every prompt, for tests and offline runs.
+ * Nothing leaves the process, and nothing in the audio depends on the text,
+ * so an offline game can't be played by ear.
+ */
+
+import type { SpeechSynthesizer, SynthesizedSpeech } from './types.tsx';
+
+const SAMPLE_RATE = 8000;
+const DURATION_SECONDS = 0.25;
+
+// 8-bit mono PCM; a sample of 128 is silence
+function silentWav(): Uint8Array<ArrayBuffer> {
+  const samples = Math.round(SAMPLE_RATE * DURATION_SECONDS);
+  const wav = new Uint8Array(44 + samples);
+  const view = new DataView(wav.buffer);
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true); // Format chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true); // Bytes per second
+  view.setUint16(32, 1, true); // Bytes per sample
+  view.setUint16(34, 8, true); // Bits per sample
+  ascii(36, 'data');
+  view.setUint32(40, samples, true);
+  wav.fill(128, 44);
+
+  return wav;
+}
+
+export function createFakeSpeech(): SpeechSynthesizer {
+  return {
+    name: 'fake',
+
+    async synthesize(): Promise<SynthesizedSpeech> {
+      return { audio: silentWav(), contentType: 'audio/wav' };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * GOOGLE CLOUD TEXT-TO-SPEECH
+ *
+ * Synthesizes prompts with the Cloud Text-to-Speech REST API, authenticated
+ * with an API key (WORDMINT_TTS_API_KEY). WORDMINT_TTS_VOICE picks a voice,
+ * e.g. en-US-Neural2-C; the API's default US English voice is used otherwise.
+ */
+
+import type { SpeechSynthesizer, SpeechStyle, SynthesizedSpeech } from './types.tsx';
+
+const SYNTHESIZE_URL = 'https://texttospeech.googleapis.com/v1/text:synthesize';
+
+function decodeBase64(encoded: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
+
+export function createGoogleSpeech(apiKey: string, voice?: string): SpeechSynthesizer {
+  return {
+    name: 'google',
+
+    async synthesize(text: string, style: SpeechStyle): Promise<SynthesizedSpeech> {
+      const response = await fetch(`${SYNTHESIZE_URL}?key=${encodeURIComponent(apiKey)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input: { text },
+          voice: { languageCode: 'en-US', ...(voice && { name: voice }) },
+          audioConfig: { audioEncoding: 'MP3', speakingRate: style.rate, pitch: style.pitch },
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(`Text-to-Speech failed (${response.status}): ${error.error?.message || response.statusText}`);
+      }
+
+      const { audioContent } = await response.json();
+      return { audio: decodeBase64(audioContent), contentType: 'audio/mpeg' };
+    },
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * SPEECH
+ *
+ * Synthesizes a round's spoken prompts on the server, so the word itself is
+ * never sent to the browser.
+ *
+ * WORDMINT_TTS_PROVIDER:
+ * - google (the default when WORDMINT_TTS_API_KEY is set): Cloud Text-to-Speech
+ * - fake: silent audio, for tests and offline runs
+ * Without a provider, prompts are answered with a 503 rather than failing
+ * the whole server.
+ *
+ * The same word must never come back as the same audio, or a client could
+ * match audio it has heard before against the answers it was shown. Every
+ * round gets its own lead-in, speed and pitch, drawn at random on the server.
+ * The result is kept in memory only for replays within that round.
+ */
+
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import type { SpeechStyle, SpeechSynthesizer, SynthesizedSpeech } from './types.tsx';
+import { createGoogleSpeech } from './google.tsx';
+import { createFakeSpeech } from './fake.tsx';
+import { SpeechPrompt, PROMPT_RATE, SLOW_PROMPT_RATE } from '../../../../utils/speech-prompts.ts';
+import { HintType } from '../../../../utils/hints.ts';
+import { maskWord } from '../../../../utils/word-packs.ts';
+
+export type { SpeechStyle, SpeechSynthesizer, SynthesizedSpeech } from './types.tsx';
+
+export interface PromptAudioResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  speech?: SynthesizedSpeech;
+}
+
+// Said before the word, one picked per round
+const LEAD_INS = ['Your word is', 'The word is', 'Please spell', 'Spell the word', 'Here is your word', 'Next word'];
+
+// Spread of the random speed (± fraction of the prompt's rate) and pitch (± semitones)
+const RATE_SPREAD = 0.08;
+const PITCH_SPREAD = 3;
+
+// Prompts kept for replays; the oldest is dropped first
+const REPLAY_CACHE_SIZE = 200;
+
+// Undefined until first used; null when no provider is configured
+let speech: SpeechSynthesizer | null | undefined;
+
+const replays = new Map<string, SynthesizedSpeech>();
+
+function createSpeech(): SpeechSynthesizer | null {
+  const apiKey = Deno.env.get('WORDMINT_TTS_API_KEY');
+  const provider = Deno.env.get('WORDMINT_TTS_PROVIDER') || (apiKey ? 'google' : '');
+
+  if (provider === 'fake') {
+    return createFakeSpeech();
+  }
+
+  if (provider === 'google' && apiKey) {
+    return createGoogleSpeech(apiKey, Deno.env.get('WORDMINT_TTS_VOICE') || undefined);
+  }
+
+  if (provider === 'google') {
+    console.log('⚠️ WORDMINT_TTS_PROVIDER is google but WORDMINT_TTS_API_KEY is not set');
+  } else if (provider) {
+    console.log(`⚠️ Unknown WORDMINT_TTS_PROVIDER: ${provider}`);
+  } else {
+    console.log('⚠️ No speech provider configured; set WORDMINT_TTS_API_KEY to play online games');
+  }
+  return null;
+}
+
+/**
+ * Get the active speech synthesizer, creating it on first use
+ * Null when no provider is configured.
+ */
+export function getSpeech(): SpeechSynthesizer | null {
+  if (speech === undefined) {
+    speech = createSpeech();
+    if (speech) {
+      console.log(`🔊 Speech provider: ${speech.name}`);
+    }
+  }
+  return speech;
+}
+
+/**
+ * Replace the active speech synthesizer (used by tests and local tooling)
+ */
+export function useSpeech(synthesizer: SpeechSynthesizer | null): void {
+  speech = synthesizer;
+  replays.clear();
+}
+
+// Uniform in [0, 1), from the server's secure random source
+function secureRandom(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32;
+}
+
+function randomStyle(rate: number): SpeechStyle {
+  return {
+    rate: Math.round(rate * (1 + (secureRandom() * 2 - 1) * RATE_SPREAD) * 1000) / 1000,
+    pitch: Math.round((secureRandom() * 2 - 1) * PITCH_SPREAD * 100) / 100,
+  };
+}
+
+/**
+ * Speak a prompt of one round, the same way for every replay in that round
+ * `scope` names the round (and the player it was dealt to); a new scope
+ * always gets a new lead-in, speed and pitch.
+ */
+async function speakForRound(
+  synthesizer: SpeechSynthesizer,
+  scope: string,
+  prompt: SpeechPrompt,
+  text: string,
+  rate: number,
+  leadIn: boolean
+): Promise<SynthesizedSpeech> {
+  const key = `${scope}:${prompt}`;
+  const replay = replays.get(key);
+  if (replay) {
+    return replay;
+  }
+
+  const spoken = leadIn ? `${LEAD_INS[Math.floor(secureRandom() * LEAD_INS.length)]}: ${text}.` : text;
+  const synthesized = await synthesizer.synthesize(spoken, randomStyle(rate));
+
+  replays.set(key, synthesized);
+  if (replays.size > REPLAY_CACHE_SIZE) {
+    replays.delete(replays.keys().next().value!);
+  }
+  return synthesized;
+}
+
+/**
+ * Speak one of a word's prompts for a round
+ * The slow word and the definition are only spoken once their hints are in
+ * `boughtHints`; the definition says "blank" where the word would be.
+ */
+export async function getPromptAudio(
+  scope: string,
+  word: { word: string; sentence?: string; definition?: string },
+  prompt: SpeechPrompt,
+  boughtHints: HintType[]
+): Promise<PromptAudioResult> {
+  const synthesizer = getSpeech();
+  if (!synthesizer) {
+    return { success: false, status: 503, error: 'Spoken prompts are not configured on this server' };
+  }
+
+  switch (prompt) {
+    case 'word':
+      return { success: true, speech: await speakForRound(synthesizer, scope, prompt, word.word, PROMPT_RATE, true) };
+
+    case 'slow-word':
+      if (!boughtHints.includes('slow-replay')) {
+        return { success: false, status: 403, error: 'Slow replay has not been bought for this word' };
+      }
+      return {
+        success: true,
+        speech: await speakForRound(synthesizer, scope, prompt, word.word, SLOW_PROMPT_RATE, true),
+      };
+
+    case 'sentence':
+      if (!word.sentence) {
+        return { success: false, status: 404, error: 'No sentence available for this word' };
+      }
+      return {
+        success: true,
+        speech: await speakForRound(synthesizer, scope, prompt, word.sentence, PROMPT_RATE, false),
+      };
+
+    case 'definition':
+      if (!boughtHints.includes('definition')) {
+        return { success: false, status: 403, error: 'Definition hint has not been bought for this word' };
+      }
+      if (!word.definition) {
+        return { success: false, status: 404, error: 'No definition available for this word' };
+      }
+      return {
+        success: true,
+        speech: await speakForRound(
+          synthesizer,
+          scope,
+          prompt,
+          maskWord(word.definition, word.word, 'blank'),
+          PROMPT_RATE,
+          false
+        ),
+      };
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * SPEECH SYNTHESIZER INTERFACE
+ *
+ * Turns a prompt's text into audio. Implemented by Google Cloud
+ * Text-to-Speech and by a silent fake for tests and offline runs.
+ */
+
+export interface SynthesizedSpeech {
+  audio: Uint8Array<ArrayBuffer>;
+  contentType: string; // e.g. audio/mpeg
+}
+
+export interface SpeechStyle {
+  rate: number; // Relative to normal speech (1 = normal)
+  pitch: number; // Semitones from the voice's normal pitch
+}
+
+export interface SpeechSynthesizer {
+  // Name of the provider, e.g. 'google' or 'fake'
+  readonly name: string;
+
+  // Speak the text in the given style
+  synthesize(text: string, style: SpeechStyle): Promise<SynthesizedSpeech>;
+}
@@ -0,0 +1,107 @@
+/**
+ * KEY-VALUE STORAGE
+ *
+ * Server-wide key-value API backed by a pluggable store.
+ *
+ * Backend is selected with WORDMINT_KV_BACKEND:
+ * - supabase (default): kv_store_02a4aef8 table
+ * - memory: in-process Map, reset on restart
+ * - sqlite: local file at WORDMINT_SQLITE_PATH
+ */
+
+import type { KvStore } from './types.tsx';
+import { createMemoryStore } from './memory.tsx';
+
+export type { KvStore } from './types.tsx';
+
+// Attempts made by update() before giving up on a contended key
+const MAX_UPDATE_ATTEMPTS = 5;
+
+let store: KvStore | null = null;
+
+async function createStore(): Promise<KvStore> {
+  const backend = Deno.env.get('WORDMINT_KV_BACKEND') || 'supabase';
+
+  switch (backend) {
+    case 'supabase': {
+      // Loaded lazily so tests and offline runs never have to resolve the Supabase client
+      const { createSupabaseStore } = await import('./supabase.tsx');
+      return createSupabaseStore();
+    }
+    case 'memory':
+      return createMemoryStore();
+    case 'sqlite': {
+      // Loaded lazily so the edge runtime never has to resolve node:sqlite
+      const { createSqliteStore } = await import('./sqlite.tsx');
+      return createSqliteStore(Deno.env.get('WORDMINT_SQLITE_PATH') || './wordmint-kv.db');
+    }
+    default:
+      throw new Error(`Unknown WORDMINT_KV_BACKEND: ${backend}`);
+  }
+}
+
+async function getStore(): Promise<KvStore> {
+  if (!store) {
+    store = await createStore();
+    console.log(`🗄️ KV storage backend: ${Deno.env.get('WORDMINT_KV_BACKEND') || 'supabase'}`);
+  }
+  return store;
+}
+
+/**
+ * Replace the active store (used by tests and local tooling)
+ */
+export function useStore(kvStore: KvStore): void {
+  store = kvStore;
+}
+
+export const get = async (key: string): Promise<any> =>
+  (await getStore()).get(key);
+
+export const set = async (key: string, value: any): Promise<void> =>
+  (await getStore()).set(key, value);
+
+export const del = async (key: string): Promise<void> =>
+  (await getStore()).del(key);
+
+export const mget = async (keys: string[]): Promise<any[]> =>
+  (await getStore()).mget(keys);
+
+export const mset = async (keys: string[], values: any[]): Promise<void> =>
+  (await getStore()).mset(keys, values);
+
+export const mdel = async (keys: string[]): Promise<void> =>
+  (await getStore()).mdel(keys);
+
+export const getByPrefix = async (prefix: string): Promise<any[]> =>
+  (await getStore()).getByPrefix(prefix);
+
+export const compareAndSet = async (key: string, expected: any, value: any): Promise<boolean> =>
+  (await getStore()).compareAndSet(key, expected, value);
+
+/**
+ * Read-modify-write a key with compare-and-set, retrying on conflicts
+ *
+ * The updater receives the current value (undefined if missing) and returns
+ * the new value, or null to leave the key untouched. Returns the value that
+ * was written, or null if the updater aborted.
+ */
+export async function update<T>(
+  key: string,
+  updater: (current: T | undefined) => T | null
+): Promise<T | null> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const current: T | undefined = await get(key);
+    const next = updater(current);
+
+    if (next === null) {
+      return null;
+    }
+
+    if (await compareAndSet(key, current, next)) {
+      return next;
+    }
+  }
+
+  throw new Error(`Too much contention updating ${key}`);
+}
@@ -0,0 +1,65 @@
+/**
+ * IN-MEMORY STORAGE BACKEND
+ *
+ * Keeps all data in a Map for the lifetime of the process.
+ * Used for local development and tests; nothing is persisted.
+ *
+ * Values are stored serialized, so callers never share object references
+ * with the store (matching the behaviour of the database-backed stores).
+ */
+
+import type { KvStore } from './types.tsx';
+
+export function createMemoryStore(): KvStore {
+  const data = new Map<string, string>();
+
+  const read = (key: string): any => {
+    const raw = data.get(key);
+    return raw === undefined ? undefined : JSON.parse(raw);
+  };
+
+  return {
+    async get(key) {
+      return read(key);
+    },
+
+    async set(key, value) {
+      data.set(key, JSON.stringify(value));
+    },
+
+    async del(key) {
+      data.delete(key);
+    },
+
+    async mget(keys) {
+      return keys.filter(key => data.has(key)).map(read);
+    },
+
+    async mset(keys, values) {
+      keys.forEach((key, i) => data.set(key, JSON.stringify(values[i])));
+    },
+
+    async mdel(keys) {
+      keys.forEach(key => data.delete(key));
+    },
+
+    async getByPrefix(prefix) {
+      return [...data.keys()]
+        .filter(key => key.startsWith(prefix))
+        .sort()
+        .map(read);
+    },
+
+    async compareAndSet(key, expected, value) {
+      const current = data.get(key);
+      const expectedRaw = expected === undefined ? undefined : JSON.stringify(expected);
+
+      if (current !== expectedRaw) {
+        return false;
+      }
+
+      data.set(key, JSON.stringify(value));
+      return true;
+    },
+  };
+}
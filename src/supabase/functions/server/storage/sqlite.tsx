@@ -0,0 +1,96 @@
+/**
+ * SQLITE STORAGE BACKEND
+ *
+ * Persists data to a local SQLite file with the same single-table layout as
+ * the Supabase kv_store table. Useful for running the server offline.
+ *
+ * Path is configured with WORDMINT_SQLITE_PATH (defaults to ./wordmint-kv.db).
+ */
+
+import { DatabaseSync } from 'node:sqlite';
+import type { KvStore } from './types.tsx';
+
+export function createSqliteStore(path: string): KvStore {
+  const db = new DatabaseSync(path);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS kv_store (
+      key TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+
+  const selectOne = db.prepare('SELECT value FROM kv_store WHERE key = ?');
+  const upsert = db.prepare(
+    'INSERT INTO kv_store (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+  );
+  const deleteOne = db.prepare('DELETE FROM kv_store WHERE key = ?');
+  const selectPrefix = db.prepare(
+    "SELECT value FROM kv_store WHERE key >= ? AND key < ? ORDER BY key"
+  );
+  const insertIfAbsent = db.prepare(
+    'INSERT INTO kv_store (key, value) VALUES (?, ?) ON CONFLICT(key) DO NOTHING'
+  );
+  const updateIfEqual = db.prepare(
+    'UPDATE kv_store SET value = ? WHERE key = ? AND value = ?'
+  );
+
+  const read = (key: string): any => {
+    const row = selectOne.get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  };
+
+  const transaction = (fn: () => void) => {
+    db.exec('BEGIN');
+    try {
+      fn();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  return {
+    async get(key) {
+      return read(key);
+    },
+
+    async set(key, value) {
+      upsert.run(key, JSON.stringify(value));
+    },
+
+    async del(key) {
+      deleteOne.run(key);
+    },
+
+    async mget(keys) {
+      return keys.map(read).filter(value => value !== undefined);
+    },
+
+    async mset(keys, values) {
+      transaction(() => {
+        keys.forEach((key, i) => upsert.run(key, JSON.stringify(values[i])));
+      });
+    },
+
+    async mdel(keys) {
+      transaction(() => {
+        keys.forEach(key => deleteOne.run(key));
+      });
+    },
+
+    async getByPrefix(prefix) {
+      // Range scan instead of LIKE so prefixes containing % or _ match literally
+      const rows = selectPrefix.all(prefix, prefix + '\uffff') as { value: string }[];
+      return rows.map(row => JSON.parse(row.value));
+    },
+
+    async compareAndSet(key, expected, value) {
+      const result = expected === undefined
+        ? insertIfAbsent.run(key, JSON.stringify(value))
+        : updateIfEqual.run(JSON.stringify(value), key, JSON.stringify(expected));
+      return Number(result.changes) === 1;
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * SUPABASE STORAGE BACKEND
+ *
+ * Adapter over the generated kv_store module (kv_store_02a4aef8 table).
+ * compareAndSet inserts to create a key and otherwise calls the
+ * kv_compare_and_set_02a4aef8 function (supabase/migrations), which compares
+ * in the database so the expected value never has to fit in a URL.
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2.49.8';
+import * as kvStore from '../kv_store.tsx';
+import type { KvStore } from './types.tsx';
+
+const TABLE = 'kv_store_02a4aef8';
+const COMPARE_AND_SET = 'kv_compare_and_set_02a4aef8';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export function createSupabaseStore(): KvStore {
+  const client = () => createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  );
+
+  return {
+    get: kvStore.get,
+    set: kvStore.set,
+    del: kvStore.del,
+    mget: kvStore.mget,
+    mset: kvStore.mset,
+    mdel: kvStore.mdel,
+    getByPrefix: kvStore.getByPrefix,
+
+    async compareAndSet(key, expected, value) {
+      const supabase = client();
+
+      if (expected === undefined) {
+        const { error } = await supabase.from(TABLE).insert({ key, value });
+        if (error?.code === UNIQUE_VIOLATION) {
+          return false;
+        }
+        if (error) {
+          throw new Error(error.message);
+        }
+        return true;
+      }
+
+      // jsonb equality, so key order in `expected` does not matter
+      const { data, error } = await supabase.rpc(COMPARE_AND_SET, {
+        p_key: key,
+        p_expected: expected,
+        p_value: value,
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data === true;
+    },
+  };
+}
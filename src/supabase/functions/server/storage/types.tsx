@@ -0,0 +1,36 @@
+/**
+ * KEY-VALUE STORAGE INTERFACE
+ *
+ * Every storage backend (Supabase table, in-memory, SQLite) implements this
+ * interface so the server can run against any of them.
+ */
+
+export interface KvStore {
+  // Get the value stored under a key, or undefined when the key does not exist
+  get(key: string): Promise<any>;
+
+  // Store a value under a key, replacing any existing value
+  set(key: string, value: any): Promise<void>;
+
+  // Delete a key (no-op when it does not exist)
+  del(key: string): Promise<void>;
+
+  // Get the values for the keys that exist; missing keys are skipped
+  mget(keys: string[]): Promise<any[]>;
+
+  // Store multiple key-value pairs
+  mset(keys: string[], values: any[]): Promise<void>;
+
+  // Delete multiple keys
+  mdel(keys: string[]): Promise<void>;
+
+  // Get the values of every key starting with the prefix
+  getByPrefix(prefix: string): Promise<any[]>;
+
+  /**
+   * Atomically replace the value under a key, but only if it still equals `expected`
+   * Pass `expected = undefined` to write only if the key does not exist yet.
+   * Returns false (and writes nothing) when the current value differs.
+   */
+  compareAndSet(key: string, expected: any, value: any): Promise<boolean>;
+}
@@ -0,0 +1,243 @@
+/**
+ * ACHIEVEMENT RULES
+ *
+ * Each kind of rule in achievement-rules.ts on its own: comparators, windows,
+ * difficulty filters and the `all`, `any` and `not` combinators. The declared
+ * achievements are then checked against the unlock logic they replaced,
+ * which is kept here as it was written.
+ */
+
+import assert from 'node:assert/strict';
+import {
+  AchievementFacts,
+  AchievementRule,
+  WordFacts,
+  addToDayTally,
+  evaluateRule,
+  getMetricValue,
+  getRuleProgressValue,
+} from '../../../../utils/achievement-rules.ts';
+import { ACHIEVEMENTS, AchievementStats, checkUnlockedAchievements } from '../../../../utils/achievements.ts';
+
+const PLAYER = { totalWmintEarned: 120, streak: 2, maxStreak: 7, gamesPlayed: 12, level: 3 };
+
+function word(changes: Partial<WordFacts> = {}): WordFacts {
+  return { tier: 'normal', correct: true, answerMs: 8000, hintsUsed: 0, ...changes };
+}
+
+function facts(changes: Partial<AchievementFacts> = {}): AchievementFacts {
+  return { player: PLAYER, ...changes };
+}
+
+Deno.test('rules: a condition compares its metric to the threshold', () => {
+  const check = (comparator: '>=' | '>' | '<=' | '<' | '==', threshold: number) =>
+    evaluateRule({ metric: 'gamesPlayed', comparator, threshold }, facts());
+
+  assert.deepEqual([check('>=', 12), check('>=', 13)], [true, false]);
+  assert.deepEqual([check('>', 11), check('>', 12)], [true, false]);
+  assert.deepEqual([check('<=', 12), check('<=', 11)], [true, false]);
+  assert.deepEqual([check('<', 13), check('<', 12)], [true, false]);
+  assert.deepEqual([check('==', 12), check('==', 11)], [true, false]);
+});
+
+Deno.test('rules: all-time metrics read the player, counting the best streak', () => {
+  assert.equal(getMetricValue(facts(), 'wmintEarned'), 120);
+  assert.equal(getMetricValue(facts(), 'bestStreak'), 7);
+  assert.equal(getMetricValue(facts({ player: { ...PLAYER, streak: 9 } }), 'bestStreak'), 9);
+  assert.equal(getMetricValue(facts({ player: { ...PLAYER, maxStreak: undefined } }), 'bestStreak'), 2);
+  assert.equal(getMetricValue(facts(), 'level'), 3);
+  assert.equal(getMetricValue(facts(), 'gamesPlayed'), 12);
+
+  // Word metrics have no all-time value
+  assert.equal(getMetricValue(facts(), 'wordsCorrect'), undefined);
+});
+
+Deno.test('rules: day rules count today, by difficulty if asked', () => {
+  const today = { date: '2026-10-19', wordsCorrect: { easy: 4, hard: 9 }, gamesPlayed: 3 };
+  const hardDay: AchievementRule = {
+    metric: 'wordsCorrect',
+    window: 'day',
+    difficulty: 'hard',
+    comparator: '>=',
+    threshold: 10,
+  };
+
+  assert.equal(getMetricValue(facts({ today }), 'wordsCorrect', 'day'), 13);
+  assert.equal(getMetricValue(facts({ today }), 'wordsCorrect', 'day', 'normal'), 0);
+  assert.equal(getMetricValue(facts({ today }), 'gamesPlayed', 'day'), 3);
+  assert.equal(evaluateRule(hardDay, facts({ today })), false);
+
+  const tally = addToDayTally(today, '2026-10-19', word({ tier: 'hard' }), true);
+  assert.deepEqual(tally, { date: '2026-10-19', wordsCorrect: { easy: 4, hard: 10 }, gamesPlayed: 4 });
+  assert.equal(evaluateRule(hardDay, facts({ today: tally })), true);
+
+  // A new day starts over, and a missed word adds nothing
+  assert.deepEqual(addToDayTally(tally, '2026-10-20', word({ correct: false }), false), {
+    date: '2026-10-20',
+    wordsCorrect: {},
+    gamesPlayed: 0,
+  });
+
+  // Without today's tally a day rule never matches
+  assert.equal(evaluateRule({ ...hardDay, comparator: '>=', threshold: 0 }, facts()), false);
+});
+
+Deno.test('rules: game and answer rules see only the words they are given', () => {
+  const game = [word(), word({ tier: 'hard', hintsUsed: 2 }), word({ correct: false }), word({ tier: 'hard' })];
+  const answer = word({ answerMs: 3000 });
+
+  assert.equal(getMetricValue(facts({ game }), 'wordsCorrect', 'game'), 3);
+  assert.equal(getMetricValue(facts({ game }), 'wordsCorrect', 'game', 'hard'), 2);
+  assert.equal(getMetricValue(facts({ game }), 'wordsMissed', 'game'), 1);
+  assert.equal(getMetricValue(facts({ game }), 'hintsUsed', 'game'), 2);
+  assert.equal(getMetricValue(facts({ answer }), 'answerMs', 'answer'), 3000);
+  assert.equal(getMetricValue(facts({ answer }), 'wordsCorrect', 'answer'), 1);
+
+  // The answer is not the game, and neither is there without its facts
+  assert.equal(getMetricValue(facts({ answer }), 'wordsMissed', 'game'), undefined);
+  assert.equal(getMetricValue(facts({ game }), 'answerMs', 'answer'), undefined);
+  assert.equal(evaluateRule({ metric: 'wordsMissed', window: 'game', comparator: '==', threshold: 0 }, facts()), false);
+});
+
+Deno.test('rules: all, any and not combine rules', () => {
+  const yes: AchievementRule = { metric: 'level', comparator: '>=', threshold: 1 };
+  const no: AchievementRule = { metric: 'level', comparator: '>=', threshold: 99 };
+
+  assert.equal(evaluateRule({ all: [] }, facts()), true);
+  assert.equal(evaluateRule({ all: [yes, yes] }, facts()), true);
+  assert.equal(evaluateRule({ all: [yes, no] }, facts()), false);
+
+  assert.equal(evaluateRule({ any: [] }, facts()), false);
+  assert.equal(evaluateRule({ any: [no, yes] }, facts()), true);
+  assert.equal(evaluateRule({ any: [no, no] }, facts()), false);
+
+  assert.equal(evaluateRule({ not: no }, facts()), true);
+  assert.equal(evaluateRule({ not: { any: [no, { all: [yes] }] } }, facts()), false);
+});
+
+Deno.test('rules: progress is shown for single all-time thresholds only', () => {
+  assert.equal(getRuleProgressValue({ metric: 'gamesPlayed', comparator: '>=', threshold: 25 }, facts()), 12);
+  assert.equal(getRuleProgressValue({ metric: 'gamesPlayed', comparator: '==', threshold: 25 }, facts()), null);
+  assert.equal(
+    getRuleProgressValue({ metric: 'wordsCorrect', window: 'day', comparator: '>=', threshold: 10 }, facts()),
+    null
+  );
+  assert.equal(getRuleProgressValue({ all: [] }, facts()), null);
+});
+
+/**
+ * The unlocks before achievements became rules: a switch on each achievement's
+ * category against its requirement, plus the special ones flagged by the game
+ * session (a correct answer under 5 seconds, a game with every word right,
+ * and one with no hints as well)
+ */
+const LEGACY_REQUIREMENTS: Record<string, [category: string, requirement: number]> = {
+  'first-wmint': ['xp', 1],
+  'wmint-100': ['xp', 100],
+  'wmint-500': ['xp', 500],
+  'wmint-1000': ['xp', 1000],
+  'wmint-5000': ['xp', 5000],
+  'streak-3': ['streak', 3],
+  'streak-5': ['streak', 5],
+  'streak-10': ['streak', 10],
+  'streak-20': ['streak', 20],
+  'streak-50': ['streak', 50],
+  'games-1': ['games', 1],
+  'games-10': ['games', 10],
+  'games-25': ['games', 25],
+  'games-50': ['games', 50],
+  'games-100': ['games', 100],
+  'level-3': ['level', 3],
+  'level-5': ['level', 5],
+  'level-10': ['level', 10],
+  'level-20': ['level', 20],
+  'level-50': ['level', 50],
+  'first-win': ['special', 1],
+  'wallet-connected': ['special', 1],
+  'speed-demon': ['special', 1],
+  'perfect-game': ['special', 1],
+  'no-hints': ['special', 1],
+  'token-claimer': ['special', 1],
+};
+
+function legacyUnlocks(player: AchievementStats, answer?: WordFacts, game?: WordFacts[]): string[] {
+  const special = new Set(player.specialAchievements || []);
+  if (answer?.correct && answer.answerMs < 5000) {
+    special.add('speed-demon');
+  }
+  if (game && game.every(round => round.correct)) {
+    special.add('perfect-game');
+    if (game.every(round => round.hintsUsed === 0)) {
+      special.add('no-hints');
+    }
+  }
+
+  const streak = Math.max(player.maxStreak || 0, player.streak || 0);
+  return Object.entries(LEGACY_REQUIREMENTS)
+    .filter(([id, [category, requirement]]) => {
+      switch (category) {
+        case 'xp':
+          return player.totalWmintEarned >= requirement;
+        case 'streak':
+          return streak >= requirement;
+        case 'games':
+          return player.gamesPlayed >= requirement;
+        case 'level':
+          return player.level >= requirement;
+        default:
+          if (special.has(id)) return true;
+          if (id === 'first-win') return player.totalWmintEarned >= 1;
+          if (id === 'wallet-connected') return true;
+          if (id === 'token-claimer') return player.totalWmintEarned > 0;
+          return false;
+      }
+    })
+    .map(([id]) => id);
+}
+
+Deno.test('achievements: the rules unlock what the hard-coded checks did', () => {
+  assert.deepEqual(
+    ACHIEVEMENTS.map(achievement => achievement.id).filter(id => id in LEGACY_REQUIREMENTS),
+    Object.keys(LEGACY_REQUIREMENTS)
+  );
+
+  const players: AchievementStats[] = [];
+  for (const totalWmintEarned of [0, 1, 99, 100, 5000]) {
+    for (const [streak, maxStreak] of [[0, undefined], [3, 2], [0, 10], [50, 50]] as [number, number?][]) {
+      for (const [gamesPlayed, level] of [[0, 1], [10, 3], [25, 6], [100, 21], [250, 51]]) {
+        players.push({ totalWmintEarned, streak, maxStreak, gamesPlayed, level });
+      }
+    }
+  }
+  players.push({ ...players[0], specialAchievements: ['perfect-game'] });
+
+  const events: { answer?: WordFacts; game?: WordFacts[] }[] = [
+    {},
+    { answer: word({ correct: false, answerMs: 1000 }) },
+    { answer: word({ answerMs: 4999 }) },
+    { answer: word({ answerMs: 5000 }) },
+    { answer: word(), game: [word(), word(), word(), word(), word()] },
+    { answer: word(), game: [word(), word({ hintsUsed: 1 }), word(), word(), word()] },
+    { answer: word({ correct: false }), game: [word(), word(), word(), word(), word({ correct: false })] },
+  ];
+
+  for (const player of players) {
+    for (const event of events) {
+      const unlocked = checkUnlockedAchievements({ player, ...event }, player.specialAchievements)
+        .map(achievement => achievement.id)
+        .filter(id => id in LEGACY_REQUIREMENTS);
+      const expected = legacyUnlocks(player, event.answer, event.game);
+
+      // The one deliberate change: a first correct answer unlocks First Success before any WMINT is claimed
+      if (event.answer?.correct && !expected.includes('first-win')) {
+        expected.push('first-win');
+      }
+
+      assert.deepEqual(
+        [...unlocked].sort(),
+        [...expected].sort(),
+        JSON.stringify({ player, event })
+      );
+    }
+  }
+});
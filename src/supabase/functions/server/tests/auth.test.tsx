@@ -0,0 +1,220 @@
+/**
+ * SIGN-IN WITH SOLANA
+ *
+ * Nonces are single-use and short-lived, only the wallet's own key can turn
+ * one into a session, and sessions stop working once they expire. The
+ * middleware is mounted on a small app of its own so each check is seen alone.
+ */
+
+import assert from 'node:assert/strict';
+import { Hono } from 'npm:hono';
+import nacl from 'npm:tweetnacl@1.0.3';
+import bs58 from 'npm:bs58@5.0.0';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import {
+  AuthVariables,
+  CRON_SECRET_HEADER,
+  SESSION_HEADER,
+  createNonce,
+  verifySignIn,
+  revokeSession,
+  requireAuth,
+  requireAdmin,
+  requireCronSecret,
+} from '../auth.tsx';
+
+function newKeyPair() {
+  const keyPair = nacl.sign.keyPair();
+  return { walletAddress: bs58.encode(keyPair.publicKey), secretKey: keyPair.secretKey };
+}
+
+function sign(message: string, secretKey: Uint8Array): string {
+  return bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), secretKey));
+}
+
+async function signIn(keyPair: ReturnType<typeof newKeyPair>): Promise<string> {
+  const { nonce, message } = await createNonce(keyPair.walletAddress);
+  const result = await verifySignIn(keyPair.walletAddress, nonce!, sign(message!, keyPair.secretKey));
+  assert.equal(result.success, true);
+  return result.token!;
+}
+
+function createApp() {
+  const app = new Hono<{ Variables: AuthVariables }>();
+  app.get('/me', requireAuth, c => c.json({ walletAddress: c.get('walletAddress') }));
+  app.get('/admin', requireAuth, requireAdmin, c => c.json({ ok: true }));
+  app.post('/job', requireCronSecret, c => c.json({ ok: true }));
+  return app;
+}
+
+// Run with an environment variable set, restoring it afterwards
+async function withEnv(name: string, value: string | undefined, run: () => Promise<void>) {
+  const previous = Deno.env.get(name);
+  if (value === undefined) {
+    Deno.env.delete(name);
+  } else {
+    Deno.env.set(name, value);
+  }
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete(name);
+    } else {
+      Deno.env.set(name, previous);
+    }
+  }
+}
+
+Deno.test('nonce: issued for valid wallets only, naming the wallet and nonce', async () => {
+  kv.useStore(createMemoryStore());
+  const { walletAddress } = newKeyPair();
+
+  const issued = await createNonce(walletAddress);
+  assert.equal(issued.success, true);
+  assert.ok(issued.message!.includes(`Wallet: ${walletAddress}`));
+  assert.ok(issued.message!.includes(`Nonce: ${issued.nonce}`));
+
+  assert.deepEqual(await createNonce('not-a-wallet'), { success: false, error: 'Invalid wallet address' });
+  assert.equal((await createNonce(bs58.encode(new Uint8Array(16)))).success, false);
+});
+
+Deno.test('nonce: consumed by its first use, even a failed one', async () => {
+  kv.useStore(createMemoryStore());
+  const keyPair = newKeyPair();
+  const { nonce, message } = await createNonce(keyPair.walletAddress);
+  const signature = sign(message!, keyPair.secretKey);
+
+  assert.equal((await verifySignIn(keyPair.walletAddress, nonce!, 'bad-signature')).error, 'Invalid signature');
+  assert.equal(
+    (await verifySignIn(keyPair.walletAddress, nonce!, signature)).error,
+    'Unknown or already used nonce'
+  );
+
+  const fresh = await createNonce(keyPair.walletAddress);
+  const signedIn = await verifySignIn(keyPair.walletAddress, fresh.nonce!, sign(fresh.message!, keyPair.secretKey));
+  assert.equal(signedIn.success, true);
+  assert.equal(
+    (await verifySignIn(keyPair.walletAddress, fresh.nonce!, sign(fresh.message!, keyPair.secretKey))).success,
+    false
+  );
+});
+
+Deno.test('nonce: a new one replaces the unused one, and old ones expire', async () => {
+  kv.useStore(createMemoryStore());
+  const keyPair = newKeyPair();
+
+  const replaced = await createNonce(keyPair.walletAddress);
+  const current = await createNonce(keyPair.walletAddress);
+  assert.equal(
+    (await verifySignIn(keyPair.walletAddress, replaced.nonce!, sign(replaced.message!, keyPair.secretKey))).error,
+    'Unknown or already used nonce'
+  );
+
+  const nonceKey = `auth-nonce:${keyPair.walletAddress}`;
+  await kv.set(nonceKey, { ...(await kv.get(nonceKey)), expiresAt: Date.now() - 1 });
+  assert.equal(
+    (await verifySignIn(keyPair.walletAddress, current.nonce!, sign(current.message!, keyPair.secretKey))).error,
+    'Nonce expired'
+  );
+});
+
+Deno.test('signature: only the wallet key signing the issued message is accepted', async () => {
+  kv.useStore(createMemoryStore());
+  const keyPair = newKeyPair();
+  const impostor = newKeyPair();
+
+  const attempts = [
+    // Another key signing the right message
+    (message: string) => sign(message, impostor.secretKey),
+    // The right key signing something else
+    (message: string) => sign(`${message}\nExtra: line`, keyPair.secretKey),
+    // Not a signature at all
+    () => '0OIl',
+  ];
+
+  for (const signWith of attempts) {
+    const { nonce, message } = await createNonce(keyPair.walletAddress);
+    const result = await verifySignIn(keyPair.walletAddress, nonce!, signWith(message!));
+    assert.deepEqual(result, { success: false, error: 'Invalid signature' });
+  }
+
+  const { nonce, message } = await createNonce(keyPair.walletAddress);
+  const result = await verifySignIn(keyPair.walletAddress, nonce!, sign(message!, keyPair.secretKey));
+  assert.equal(result.success, true);
+  assert.ok(result.expiresAt! > Date.now());
+});
+
+Deno.test('requireAuth: sets the wallet for a live session and refuses the rest', async () => {
+  kv.useStore(createMemoryStore());
+  const app = createApp();
+  const keyPair = newKeyPair();
+  const token = await signIn(keyPair);
+
+  const me = await app.request('/me', { headers: { [SESSION_HEADER]: token } });
+  assert.deepEqual(await me.json(), { walletAddress: keyPair.walletAddress });
+
+  const missing = await app.request('/me');
+  assert.equal(missing.status, 401);
+  assert.equal((await missing.json()).error, 'Authentication required');
+
+  assert.equal((await app.request('/me', { headers: { [SESSION_HEADER]: 'unknown' } })).status, 401);
+
+  await revokeSession(token);
+  assert.equal((await app.request('/me', { headers: { [SESSION_HEADER]: token } })).status, 401);
+});
+
+Deno.test('requireAuth: an expired session is refused and deleted', async () => {
+  kv.useStore(createMemoryStore());
+  const app = createApp();
+  const token = await signIn(newKeyPair());
+  const sessionKey = `auth-session:${token}`;
+
+  await kv.set(sessionKey, { ...(await kv.get(sessionKey)), expiresAt: Date.now() - 1 });
+
+  const expired = await app.request('/me', { headers: { [SESSION_HEADER]: token } });
+  assert.equal(expired.status, 401);
+  assert.equal((await expired.json()).error, 'Session expired, please sign in again');
+  assert.equal(await kv.get(sessionKey), undefined);
+});
+
+Deno.test('requireAdmin: only wallets in WORDMINT_ADMIN_WALLETS get through', async () => {
+  kv.useStore(createMemoryStore());
+  const app = createApp();
+  const admin = newKeyPair();
+  const player = newKeyPair();
+  const adminToken = await signIn(admin);
+  const playerToken = await signIn(player);
+
+  await withEnv('WORDMINT_ADMIN_WALLETS', ` other-wallet , ${admin.walletAddress}`, async () => {
+    assert.equal((await app.request('/admin', { headers: { [SESSION_HEADER]: adminToken } })).status, 200);
+
+    const refused = await app.request('/admin', { headers: { [SESSION_HEADER]: playerToken } });
+    assert.equal(refused.status, 403);
+    assert.equal((await refused.json()).error, 'Admin access required');
+
+    assert.equal((await app.request('/admin')).status, 401);
+  });
+
+  await withEnv('WORDMINT_ADMIN_WALLETS', undefined, async () => {
+    assert.equal((await app.request('/admin', { headers: { [SESSION_HEADER]: adminToken } })).status, 403);
+  });
+});
+
+Deno.test('requireCronSecret: needs the configured secret, and refuses everything when unset', async () => {
+  const app = createApp();
+  const job = (secret?: string) =>
+    app.request('/job', { method: 'POST', headers: secret === undefined ? {} : { [CRON_SECRET_HEADER]: secret } });
+
+  await withEnv('WORDMINT_CRON_SECRET', 'cron-secret', async () => {
+    assert.equal((await job('cron-secret')).status, 200);
+    assert.equal((await job('wrong-secret')).status, 403);
+    assert.equal((await job()).status, 403);
+  });
+
+  await withEnv('WORDMINT_CRON_SECRET', undefined, async () => {
+    assert.equal((await job('')).status, 403);
+    assert.equal((await job()).status, 403);
+  });
+});
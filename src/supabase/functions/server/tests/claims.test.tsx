@@ -0,0 +1,277 @@
+/**
+ * CLAIM LEDGER
+ *
+ * Walks claims through every path of the state machine in claims.tsx against
+ * the fake ledger, on both local storage backends. Chains that fail on purpose
+ * are built by overriding methods of a fake one.
+ */
+
+import assert from 'node:assert/strict';
+import bs58 from 'npm:bs58@5.0.0';
+import * as kv from '../storage/index.tsx';
+import type { KvStore } from '../storage/types.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { createSqliteStore } from '../storage/sqlite.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import type { ChainAdapter } from '../chain/types.tsx';
+import { Claim, createClaim, getClaim, reconcileClaims } from '../claims.tsx';
+
+const backends: { name: string; open(): Promise<{ store: KvStore; close(): Promise<void> }> }[] = [
+  {
+    name: 'memory',
+    async open() {
+      return { store: createMemoryStore(), close: async () => {} };
+    },
+  },
+  {
+    name: 'sqlite',
+    async open() {
+      const dir = await Deno.makeTempDir({ prefix: 'wordmint-claims-' });
+      return {
+        store: createSqliteStore(`${dir}/kv.db`),
+        close: () => Deno.remove(dir, { recursive: true }),
+      };
+    },
+  },
+];
+
+function newWallet(): string {
+  return bs58.encode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function addPlayer(walletAddress: string, score: number, changes: Record<string, any> = {}) {
+  await kv.set(`player:${walletAddress}`, {
+    walletAddress,
+    score,
+    totalWmintEarned: 0,
+    level: 1,
+    gamesPlayed: 0,
+    ...changes,
+  });
+}
+
+function statuses(claim: Claim): string[] {
+  return claim.history.map(entry => entry.status);
+}
+
+/**
+ * A chain that signs a mint and then loses it in flight, as a dropped send would
+ * The signature stays unknown to the chain until `land` is called.
+ */
+function createDroppingChain() {
+  const fake = createFakeChain();
+  let blockHeight = 100;
+  let landed: { confirmed: boolean; failed: boolean } | null = null;
+
+  const chain: ChainAdapter = {
+    ...fake,
+    async mintTo(_ownerAddress, _amount, onSigned) {
+      const signature = 'dropped-signature';
+      await onSigned?.({ signature, mintAddress: await fake.getMintAddress(), lastValidBlockHeight: blockHeight + 150 });
+      return { success: false, signature, error: 'Transaction was not confirmed' };
+    },
+    async getSignatureStatus() {
+      return landed;
+    },
+    async getBlockHeight() {
+      return blockHeight;
+    },
+  };
+
+  return {
+    chain,
+    land(status: { confirmed: boolean; failed: boolean }) {
+      landed = status;
+    },
+    advance(blocks: number) {
+      blockHeight += blocks;
+    },
+  };
+}
+
+for (const backend of backends) {
+  const claimTest = (name: string, fn: () => Promise<void>) => {
+    Deno.test(`${backend.name}: ${name}`, async () => {
+      const { store, close } = await backend.open();
+      kv.useStore(store);
+      try {
+        await fn();
+      } finally {
+        await close();
+      }
+    });
+  };
+
+  claimTest('a claim mints the pending balance and confirms', async () => {
+    const chain = createFakeChain();
+    useChain(chain);
+    const wallet = newWallet();
+    await addPlayer(wallet, 12.5);
+
+    const result = await createClaim(wallet, 'claim-key-0001');
+
+    assert.equal(result.success, true);
+    assert.equal(result.claim?.status, 'confirmed');
+    assert.deepEqual(statuses(result.claim!), ['reserved', 'submitted', 'confirmed']);
+    assert.equal(result.claim?.amount, 12.5);
+    assert.deepEqual(await chain.getSignatureStatus(result.claim!.signature!), { confirmed: true, failed: false });
+    assert.equal(await chain.getTokenBalance(wallet), 12.5);
+
+    const player = await kv.get(`player:${wallet}`);
+    assert.equal(player.score, 0);
+    assert.equal(player.totalWmintEarned, 12.5);
+    assert.deepEqual(player.pendingClaims, {});
+  });
+
+  claimTest('replaying an idempotency key returns the original claim', async () => {
+    const chain = createFakeChain();
+    useChain(chain);
+    const wallet = newWallet();
+    await addPlayer(wallet, 3);
+
+    const first = await createClaim(wallet, 'claim-key-0002');
+    await kv.update(`player:${wallet}`, (player: any) => ({ ...player, score: 7 }));
+    const replay = await createClaim(wallet, 'claim-key-0002');
+
+    assert.equal(replay.success, true);
+    assert.equal(replay.claim?.id, first.claim?.id);
+    assert.equal(await chain.getTokenBalance(wallet), 3);
+    assert.equal((await kv.get(`player:${wallet}`)).score, 7);
+  });
+
+  claimTest('a claim needs a player with a pending balance', async () => {
+    useChain(createFakeChain());
+    const wallet = newWallet();
+
+    assert.equal((await createClaim(wallet, 'claim-key-0003')).status, 404);
+
+    await addPlayer(wallet, 0);
+    const empty = await createClaim(wallet, 'claim-key-0004');
+    assert.equal(empty.success, false);
+    assert.equal(empty.status, 400);
+  });
+
+  claimTest('a mint that fails before signing refunds the reservation', async () => {
+    const fake = createFakeChain();
+    useChain({
+      ...fake,
+      async mintTo() {
+        return { success: false, error: 'Mint authority not configured' };
+      },
+    });
+    const wallet = newWallet();
+    await addPlayer(wallet, 8);
+
+    const result = await createClaim(wallet, 'claim-key-0005');
+
+    assert.equal(result.success, true);
+    assert.deepEqual(statuses(result.claim!), ['reserved', 'failed', 'refunded']);
+    assert.equal(result.claim?.error, 'Mint authority not configured');
+
+    const player = await kv.get(`player:${wallet}`);
+    assert.equal(player.score, 8);
+    assert.deepEqual(player.pendingClaims, {});
+  });
+
+  claimTest('a dropped transaction stays submitted until its blockhash expires', async () => {
+    const dropping = createDroppingChain();
+    useChain(dropping.chain);
+    const wallet = newWallet();
+    await addPlayer(wallet, 6);
+
+    const result = await createClaim(wallet, 'claim-key-0006');
+    assert.equal(result.claim?.status, 'submitted');
+    assert.equal((await kv.get(`player:${wallet}`)).score, 0);
+
+    // Still within the blockhash's lifetime: the transaction could land
+    assert.equal((await reconcileClaims()).settled.submitted, 1);
+
+    dropping.advance(151);
+    const recovery = await reconcileClaims();
+    assert.equal(recovery.settled.refunded, 1);
+
+    const claim = await getClaim(result.claim!.id);
+    assert.deepEqual(statuses(claim!), ['reserved', 'submitted', 'failed', 'refunded']);
+    assert.equal(claim?.error, 'Transaction expired');
+    assert.equal((await kv.get(`player:${wallet}`)).score, 6);
+  });
+
+  claimTest('a submitted transaction that lands late is confirmed by recovery', async () => {
+    const dropping = createDroppingChain();
+    useChain(dropping.chain);
+    const wallet = newWallet();
+    await addPlayer(wallet, 4);
+
+    const result = await createClaim(wallet, 'claim-key-0007');
+    dropping.land({ confirmed: true, failed: false });
+
+    assert.equal((await reconcileClaims()).settled.confirmed, 1);
+    assert.equal((await getClaim(result.claim!.id))?.status, 'confirmed');
+
+    const player = await kv.get(`player:${wallet}`);
+    assert.equal(player.score, 0);
+    assert.equal(player.totalWmintEarned, 4);
+  });
+
+  claimTest('a submitted transaction that fails on-chain is refunded by recovery', async () => {
+    const dropping = createDroppingChain();
+    useChain(dropping.chain);
+    const wallet = newWallet();
+    await addPlayer(wallet, 9);
+
+    const result = await createClaim(wallet, 'claim-key-0008');
+    dropping.land({ confirmed: false, failed: true });
+    await reconcileClaims();
+
+    const claim = await getClaim(result.claim!.id);
+    assert.equal(claim?.status, 'refunded');
+    assert.equal(claim?.error, 'Transaction failed on-chain');
+    assert.equal((await kv.get(`player:${wallet}`)).score, 9);
+  });
+
+  claimTest('a reservation abandoned by a crashed request is refunded once stale', async () => {
+    useChain(createFakeChain());
+    const wallet = newWallet();
+    const reservedAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const claim: Claim = {
+      id: crypto.randomUUID(),
+      walletAddress: wallet,
+      idempotencyKey: 'claim-key-0009',
+      amount: 5,
+      status: 'reserved',
+      createdAt: reservedAt,
+      updatedAt: reservedAt,
+      history: [{ status: 'reserved', at: reservedAt }],
+    };
+    await kv.set(`claims:${claim.id}`, claim);
+    await addPlayer(wallet, 1, { pendingClaims: { [claim.id]: 5 } });
+
+    assert.equal((await reconcileClaims()).settled.refunded, 1);
+
+    const player = await kv.get(`player:${wallet}`);
+    assert.equal(player.score, 6);
+    assert.deepEqual(player.pendingClaims, {});
+  });
+
+  claimTest('a fresh reservation is left for its request to finish', async () => {
+    useChain(createFakeChain());
+    const wallet = newWallet();
+    const now = new Date().toISOString();
+    const claim: Claim = {
+      id: crypto.randomUUID(),
+      walletAddress: wallet,
+      idempotencyKey: 'claim-key-0010',
+      amount: 5,
+      status: 'reserved',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'reserved', at: now }],
+    };
+    await kv.set(`claims:${claim.id}`, claim);
+    await addPlayer(wallet, 0, { pendingClaims: { [claim.id]: 5 } });
+
+    assert.equal((await reconcileClaims()).settled.reserved, 1);
+    assert.equal((await getClaim(claim.id))?.status, 'reserved');
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * DAILY CHALLENGE
+ *
+ * The day's words come from a generator seeded with the date, so every
+ * player gets the same ones; each player has one attempt a day, and finished
+ * attempts are ranked by words correct, then total answer time.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { getSeededRandom } from '../seeded-random.tsx';
+import { DailyEntry, getDailyEntry, getDailyLeaderboard, getDailyPicks } from '../daily-challenge.tsx';
+import { GameSession, answerSession, startNextRound, startSession } from '../game-session.tsx';
+import app from '../app.tsx';
+import { BUILT_IN_PACK_ID, getBuiltInPack } from '../../../../utils/word-packs.ts';
+import { DAILY_TIERS, getDailyDate } from '../../../../utils/daily-challenge.ts';
+
+const FIRST = 'daily-first';
+const SECOND = 'daily-second';
+const THIRD = 'daily-third';
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+
+  for (const walletAddress of [FIRST, SECOND, THIRD]) {
+    await kv.set(`player:${walletAddress}`, {
+      walletAddress,
+      score: 0,
+      totalWmintEarned: 0,
+      streak: 0,
+      maxStreak: 0,
+      level: 1,
+      gamesPlayed: 0,
+    });
+  }
+}
+
+async function draw(label: string, count = 8): Promise<number[]> {
+  const random = await getSeededRandom(label);
+  return Array.from({ length: count }, random);
+}
+
+// Play the day's game, missing the words whose index is in `misses`
+async function playDaily(walletAddress: string, misses: number[] = []) {
+  const { session } = await startSession(walletAddress, 'daily', getBuiltInPack());
+
+  for (let index = 0; index < DAILY_TIERS.length; index++) {
+    if (index > 0) {
+      await startNextRound(session!.id, walletAddress);
+    }
+    const { word } = ((await kv.get(`session:${session!.id}`)) as GameSession).rounds[index];
+    await answerSession(session!.id, walletAddress, misses.includes(index) ? `${word}x` : word);
+  }
+  return session!;
+}
+
+Deno.test('seeded random: the same label always draws the same numbers', async () => {
+  const first = await draw('daily:2026-10-19');
+
+  assert.deepEqual(await draw('daily:2026-10-19'), first);
+  assert.notDeepEqual(await draw('daily:2026-10-20'), first);
+  assert.ok(first.every(value => value >= 0 && value < 1));
+});
+
+Deno.test('seeded random: the secret changes the draws, and they stay fixed for it', async () => {
+  const previous = Deno.env.get('WORDMINT_DAILY_SECRET');
+  const unsecret = await draw('daily:2026-10-19');
+
+  try {
+    Deno.env.set('WORDMINT_DAILY_SECRET', 'test-secret');
+    const secret = await draw('daily:2026-10-19');
+
+    assert.notDeepEqual(secret, unsecret);
+    assert.deepEqual(await draw('daily:2026-10-19'), secret);
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete('WORDMINT_DAILY_SECRET');
+    } else {
+      Deno.env.set('WORDMINT_DAILY_SECRET', previous);
+    }
+  }
+});
+
+Deno.test('daily: the day picks the same words in tier order, without repeats', async () => {
+  const picks = await getDailyPicks('2026-10-19');
+  const words = picks.map(pick => pick.entry.word);
+
+  assert.deepEqual(picks.map(pick => pick.tier), DAILY_TIERS);
+  assert.equal(new Set(words).size, words.length);
+  assert.deepEqual((await getDailyPicks('2026-10-19')).map(pick => pick.entry.word), words);
+  assert.notDeepEqual((await getDailyPicks('2026-10-20')).map(pick => pick.entry.word), words);
+});
+
+Deno.test('daily: every player plays the day\'s words, whatever pack they ask for', async () => {
+  await setUp();
+  const expected = (await getDailyPicks(getDailyDate())).map(pick => pick.entry.word);
+
+  const first = await startSession(FIRST, 'daily', getBuiltInPack());
+  const second = await startSession(SECOND, 'daily', { ...getBuiltInPack(), id: 'other-pack' }, true, true);
+
+  for (const { session } of [first, second]) {
+    assert.deepEqual(session!.rounds.map(round => round.word), expected);
+    assert.equal(session!.packId, BUILT_IN_PACK_ID);
+    assert.equal(session!.dailyDate, getDailyDate());
+  }
+
+  // Daily games are always timed and never give partial credit
+  assert.equal(second.session!.partialCredit, false);
+  assert.equal(second.session!.relaxed, false);
+});
+
+Deno.test('daily: one attempt per player per day, used up when it starts', async () => {
+  await setUp();
+  const { session } = await startSession(FIRST, 'daily', getBuiltInPack());
+
+  const again = await startSession(FIRST, 'daily', getBuiltInPack());
+  assert.equal(again.success, false);
+  assert.equal(again.status, 409);
+
+  const entry = await getDailyEntry(getDailyDate(), FIRST);
+  assert.equal(entry?.sessionId, session!.id);
+  assert.equal(entry?.completedAt, undefined);
+
+  // Other players still have theirs
+  assert.equal((await startSession(SECOND, 'daily', getBuiltInPack())).success, true);
+});
+
+Deno.test('daily: the leaderboard ranks finished attempts by words correct', async () => {
+  await setUp();
+  await playDaily(FIRST, [1, 3]);
+  await playDaily(SECOND);
+  await startSession(THIRD, 'daily', getBuiltInPack());
+
+  const leaderboard = await getDailyLeaderboard(getDailyDate(), 10);
+
+  assert.deepEqual(leaderboard.map(entry => [entry.rank, entry.walletAddress, entry.correctCount]), [
+    [1, SECOND, 5],
+    [2, FIRST, 3],
+  ]);
+  assert.deepEqual(leaderboard[1].marks, ['correct', 'missed', 'correct', 'missed', 'correct']);
+  assert.equal(leaderboard[0].totalRounds, DAILY_TIERS.length);
+});
+
+Deno.test('daily: ties are broken by total answer time', async () => {
+  await setUp();
+  const date = '2026-10-19';
+  const finished = (walletAddress: string, totalAnswerMs: number, completedAt: string): DailyEntry => ({
+    date,
+    walletAddress,
+    sessionId: `session-${walletAddress}`,
+    startedAt: `${date}T08:00:00.000Z`,
+    completedAt,
+    correctCount: 4,
+    totalRounds: 5,
+    totalAnswerMs,
+  });
+
+  await kv.set(`daily:${date}:${FIRST}`, finished(FIRST, 30_000, `${date}T09:00:00.000Z`));
+  await kv.set(`daily:${date}:${SECOND}`, finished(SECOND, 20_000, `${date}T10:00:00.000Z`));
+  await kv.set(`daily:${date}:${THIRD}`, finished(THIRD, 30_000, `${date}T08:30:00.000Z`));
+
+  const leaderboard = await getDailyLeaderboard(date, 10);
+  assert.deepEqual(leaderboard.map(entry => entry.walletAddress), [SECOND, THIRD, FIRST]);
+  assert.deepEqual((await getDailyLeaderboard(date, 1)).map(entry => entry.walletAddress), [SECOND]);
+});
+
+Deno.test('daily: the routes serve the leaderboard and a player\'s entry for today', async () => {
+  await setUp();
+  await playDaily(FIRST);
+
+  const board = await (await app.request('/make-server-02a4aef8/daily/leaderboard')).json();
+  assert.equal(board.date, getDailyDate());
+  assert.deepEqual(board.leaderboard.map((entry: { walletAddress: string }) => entry.walletAddress), [FIRST]);
+
+  assert.equal((await app.request('/make-server-02a4aef8/daily/leaderboard?date=yesterday')).status, 400);
+
+  const played = await (await app.request(`/make-server-02a4aef8/daily/${FIRST}`)).json();
+  assert.equal(played.entry.correctCount, DAILY_TIERS.length);
+
+  const unplayed = await (await app.request(`/make-server-02a4aef8/daily/${SECOND}`)).json();
+  assert.equal(unplayed.entry, null);
+  assert.ok(new Date(unplayed.resetsAt).getTime() > Date.now());
+});
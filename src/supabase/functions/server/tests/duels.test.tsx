@@ -0,0 +1,98 @@
+/**
+ * DUELS
+ *
+ * Duel words are handed out one at a time, and each word's countdown starts
+ * when it is first handed out. Duels that nobody comes back to are settled by
+ * the sweep job.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { Duel, answerDuel, createDuel, findDuelMatch, getDuel, joinDuel, startDuelRound, sweepDuels } from '../duels.tsx';
+
+const CREATOR = 'duel-creator';
+const OPPONENT = 'duel-opponent';
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+
+  for (const walletAddress of [CREATOR, OPPONENT]) {
+    await kv.set(`player:${walletAddress}`, {
+      walletAddress,
+      score: 100,
+      totalWmintEarned: 0,
+      level: 1,
+      gamesPlayed: 0,
+    });
+  }
+}
+
+// Move a duel's clock back, as if it had been left alone that long
+async function rewind(duelId: string, minutes: number) {
+  const shift = (iso?: string) => iso && new Date(new Date(iso).getTime() - minutes * 60 * 1000).toISOString();
+  await kv.update(`duel:${duelId}`, (duel: Duel | undefined): Duel | null =>
+    duel ? { ...duel, createdAt: shift(duel.createdAt)!, deadline: shift(duel.deadline) } : null
+  );
+}
+
+async function startActiveDuel() {
+  const { duel } = await createDuel(CREATOR, 'easy', 10);
+  await joinDuel(duel!.id, OPPONENT);
+  return duel!.id;
+}
+
+Deno.test('duel: asking again for the word in play returns it on its original clock', async () => {
+  await setUp();
+  const duelId = await startActiveDuel();
+
+  const first = await startDuelRound(duelId, CREATOR);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const again = await startDuelRound(duelId, CREATOR);
+
+  assert.equal(again.success, true);
+  assert.deepEqual(again.round, first.round);
+
+  // The next word gets its own clock once this one is answered
+  await answerDuel(duelId, CREATOR, 'not-the-word');
+  const next = await startDuelRound(duelId, CREATOR);
+  assert.equal(next.round?.roundNumber, 2);
+  assert.notEqual(next.round?.roundStartedAt, first.round?.roundStartedAt);
+
+  // The opponent's clock is their own
+  const player = (await getDuel(duelId))!.players.find(current => current.walletAddress === OPPONENT)!;
+  assert.equal(player.rounds[0].startedAt, undefined);
+});
+
+Deno.test('duel sweep: settles abandoned duels once and leaves live ones alone', async () => {
+  await setUp();
+
+  const { duel: queued } = await findDuelMatch(CREATOR, 'easy', 10);
+  await rewind(queued!.id, 11);
+
+  const abandoned = await startActiveDuel();
+  await rewind(abandoned, 60);
+
+  const { duel: fresh } = await createDuel(OPPONENT, 'easy', 10);
+  const live = await startActiveDuel();
+
+  assert.deepEqual(await sweepDuels(), { duels: 4, cancelled: 1, completed: 1 });
+
+  // Read straight from the store: getDuel would settle them itself
+  const stored = async (duelId: string): Promise<Duel> => kv.get(`duel:${duelId}`);
+  assert.equal((await stored(queued!.id)).status, 'cancelled');
+  assert.equal((await stored(abandoned)).status, 'completed');
+  assert.equal((await stored(abandoned)).winner, null);
+  assert.equal((await stored(fresh!.id)).status, 'waiting');
+  assert.equal((await stored(live)).status, 'active');
+  assert.deepEqual(await kv.get('duel-queue:easy:10'), []);
+
+  // Stakes of the cancelled duel and the drawn one are back; the two open duels still hold theirs
+  assert.equal((await kv.get(`player:${CREATOR}`)).score, 90);
+  assert.equal((await kv.get(`player:${OPPONENT}`)).score, 80);
+
+  assert.deepEqual(await sweepDuels(), { duels: 4, cancelled: 0, completed: 0 });
+});
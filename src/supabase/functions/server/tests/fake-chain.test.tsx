@@ -0,0 +1,92 @@
+/**
+ * FAKE LEDGER
+ *
+ * The fake chain adapter must behave the same way on every run: tests further
+ * up the stack assert on its signatures, balances and block heights.
+ */
+
+import assert from 'node:assert/strict';
+import bs58 from 'npm:bs58@5.0.0';
+import { createFakeChain } from '../chain/fake.tsx';
+import type { SignedMintTransaction } from '../chain/types.tsx';
+
+const ALICE = bs58.encode(new Uint8Array(32).fill(1));
+const BOB = bs58.encode(new Uint8Array(32).fill(2));
+
+Deno.test('fake chain: the same calls produce the same addresses and signatures', async () => {
+  const run = async (seed?: string) => {
+    const chain = createFakeChain({ seed });
+    return {
+      mint: await chain.getMintAddress(),
+      tokenAccount: await chain.ensureTokenAccount(ALICE),
+      first: (await chain.mintTo(ALICE, 5)).signature,
+      second: (await chain.mintTo(BOB, 5)).signature,
+      badge: await chain.mintBadge(ALICE, { name: 'First Word', symbol: 'WMB', uri: 'https://example.com/1.json' }),
+    };
+  };
+
+  const a = await run();
+  const b = await run();
+  assert.deepEqual(a, b);
+  assert.notEqual(a.first, a.second);
+
+  const other = await run('another-seed');
+  assert.notEqual(other.mint, a.mint);
+  assert.notEqual(other.first, a.first);
+});
+
+Deno.test('fake chain: mints add up per owner', async () => {
+  const chain = createFakeChain();
+
+  assert.equal(await chain.getTokenBalance(ALICE), 0);
+
+  await chain.mintTo(ALICE, 1.5);
+  await chain.mintTo(ALICE, 2.25);
+  await chain.mintTo(BOB, 10);
+
+  assert.equal(await chain.getTokenBalance(ALICE), 3.75);
+  assert.equal(await chain.getTokenBalance(BOB), 10);
+});
+
+Deno.test('fake chain: signs before minting and confirms immediately', async () => {
+  const chain = createFakeChain();
+  const heightBefore = await chain.getBlockHeight();
+
+  let signed: SignedMintTransaction | undefined;
+  let balanceWhenSigned: number | undefined;
+  const result = await chain.mintTo(ALICE, 4, async (transaction) => {
+    signed = transaction;
+    balanceWhenSigned = await chain.getTokenBalance(ALICE);
+  });
+
+  assert.equal(result.success, true);
+  assert.equal(signed?.signature, result.signature);
+  assert.equal(signed?.mintAddress, await chain.getMintAddress());
+  assert.equal(signed?.lastValidBlockHeight, heightBefore + 150);
+  assert.equal(balanceWhenSigned, 0);
+
+  assert.equal(await chain.getBlockHeight(), heightBefore + 1);
+  assert.deepEqual(await chain.getSignatureStatus(result.signature!), { confirmed: true, failed: false });
+  assert.equal(await chain.getSignatureStatus('unknown-signature'), null);
+});
+
+Deno.test('fake chain: rejects invalid owner addresses without signing', async () => {
+  const chain = createFakeChain();
+
+  const result = await chain.mintTo('not-an-address', 1);
+
+  assert.equal(result.success, false);
+  assert.equal(result.signature, undefined);
+  assert.match(result.error!, /Invalid public key/);
+  assert.equal(await chain.getBlockHeight(), 1);
+});
+
+Deno.test('fake chain: badge mints are looked up by signature', async () => {
+  const chain = createFakeChain();
+
+  const result = await chain.mintBadge(BOB, { name: 'Streak', symbol: 'WMB', uri: 'https://example.com/2.json' });
+
+  assert.equal(result.success, true);
+  assert.equal(await chain.getBadgeAssetId(result.signature!), result.assetId);
+  assert.equal(await chain.getBadgeAssetId('unknown-signature'), null);
+});
@@ -0,0 +1,165 @@
+/**
+ * HTTP ROUTES
+ *
+ * Drives the Hono app through `app.request`, the way the client does: sign in
+ * with a wallet signature, play a round and claim the reward, on the memory
+ * store and the fake ledger. Routes that need a session refuse calls without
+ * one before touching the store, and the public reads never write.
+ */
+
+import assert from 'node:assert/strict';
+import nacl from 'npm:tweetnacl@1.0.3';
+import bs58 from 'npm:bs58@5.0.0';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { useSpeech } from '../speech/index.tsx';
+import { createFakeSpeech } from '../speech/fake.tsx';
+import { SESSION_HEADER } from '../auth.tsx';
+import app from '../app.tsx';
+
+const API = '/make-server-02a4aef8';
+
+interface Wallet {
+  walletAddress: string;
+  secretKey: Uint8Array;
+}
+
+function newWallet(): Wallet {
+  const keyPair = nacl.sign.keyPair();
+  return { walletAddress: bs58.encode(keyPair.publicKey), secretKey: keyPair.secretKey };
+}
+
+function post(path: string, body: unknown, token?: string) {
+  return app.request(`${API}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token && { [SESSION_HEADER]: token }) },
+    body: JSON.stringify(body),
+  });
+}
+
+function get(path: string, token?: string) {
+  return app.request(`${API}${path}`, { headers: token ? { [SESSION_HEADER]: token } : {} });
+}
+
+// Sign in the way the client does, returning the session token
+async function signIn(wallet: Wallet): Promise<string> {
+  const { nonce, message } = await (await post('/auth/nonce', { walletAddress: wallet.walletAddress })).json();
+  const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), wallet.secretKey));
+
+  const response = await post('/auth/verify', { walletAddress: wallet.walletAddress, nonce, signature });
+  assert.equal(response.status, 200);
+  return (await response.json()).token;
+}
+
+function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+  useSpeech(createFakeSpeech());
+}
+
+// A player with a pending score, signed in
+async function addPlayer(score = 0) {
+  const wallet = newWallet();
+  await kv.set(`player:${wallet.walletAddress}`, {
+    walletAddress: wallet.walletAddress,
+    score,
+    totalWmintEarned: 0,
+    streak: 0,
+    maxStreak: 0,
+    level: 1,
+    gamesPlayed: 0,
+  });
+  return { wallet, token: await signIn(wallet) };
+}
+
+Deno.test('http: a signed-in player starts a game and answers its first word', async () => {
+  setUp();
+  const { wallet, token } = await addPlayer();
+
+  const started = await post('/session/start', { walletAddress: wallet.walletAddress, difficulty: 'normal' }, token);
+  assert.equal(started.status, 200);
+  const { session } = await started.json();
+  assert.equal(session.roundNumber, 1);
+  assert.equal(session.status, 'active');
+
+  const audio = await get(`/session/${session.sessionId}/audio/word`, token);
+  assert.equal(audio.status, 200);
+  await audio.body?.cancel();
+
+  // The word is only known to the server
+  const { word } = (await kv.get(`session:${session.sessionId}`)).rounds[0];
+  const answered = await post(`/session/${session.sessionId}/answer`, { answer: word }, token);
+  assert.equal(answered.status, 200);
+
+  const result = await answered.json();
+  assert.equal(result.correct, true);
+  assert.equal(result.word, word);
+  assert.equal(result.roundNumber, 1);
+  assert.ok(result.wmintEarned > 0);
+  assert.equal(result.player.score, result.wmintEarned);
+});
+
+Deno.test('http: a claim mints the pending score once per idempotency key', async () => {
+  setUp();
+  const { wallet, token } = await addPlayer(12.5);
+  const idempotencyKey = 'http-test-claim';
+
+  const first = await (await post('/claims', { idempotencyKey }, token)).json();
+  assert.equal(first.claim.status, 'confirmed');
+  assert.equal(first.claim.amount, 12.5);
+  assert.equal(first.claim.walletAddress, wallet.walletAddress);
+  assert.ok(first.explorerUrl.includes(first.claim.signature));
+  assert.equal(first.player.score, 0);
+
+  const retried = await (await post('/claims', { idempotencyKey }, token)).json();
+  assert.equal(retried.claim.id, first.claim.id);
+
+  const fetched = await get(`/claims/${first.claim.id}`, token);
+  assert.equal((await fetched.json()).claim.status, 'confirmed');
+
+  // Someone else's claim is not found, rather than forbidden
+  const other = await addPlayer();
+  assert.equal((await get(`/claims/${first.claim.id}`, other.token)).status, 404);
+});
+
+Deno.test('http: routes that need a session refuse calls without a valid one', async () => {
+  setUp();
+  const { wallet, token } = await addPlayer(50);
+  const start = { walletAddress: wallet.walletAddress, difficulty: 'normal' };
+
+  const unsigned = await post('/session/start', start);
+  assert.equal(unsigned.status, 401);
+  assert.equal((await unsigned.json()).error, 'Authentication required');
+
+  assert.equal((await post('/session/start', start, 'not-a-token')).status, 401);
+  assert.equal((await post('/claims', { idempotencyKey: 'http-test-claim' })).status, 401);
+  assert.equal((await kv.get(`player:${wallet.walletAddress}`)).score, 50);
+
+  // A valid session only acts for its own wallet
+  const other = await addPlayer();
+  assert.equal(
+    (await post('/session/start', { ...start, walletAddress: other.wallet.walletAddress }, token)).status,
+    403
+  );
+});
+
+Deno.test('http: the public achievement and badge reads never record unlocks', async () => {
+  setUp();
+  const { wallet, token } = await addPlayer();
+  await kv.set(`player:${wallet.walletAddress}`, {
+    ...(await kv.get(`player:${wallet.walletAddress}`)),
+    gamesPlayed: 10,
+    totalWmintEarned: 100,
+  });
+
+  const achievements = await get(`/achievements/${wallet.walletAddress}`);
+  assert.deepEqual(await achievements.json(), { unlocks: [] });
+  assert.deepEqual(await (await get(`/badges/${wallet.walletAddress}`)).json(), { badges: [] });
+
+  // The player's next game records what their stats already reached
+  await post('/session/start', { walletAddress: wallet.walletAddress, difficulty: 'normal' }, token);
+  const { unlocks } = await (await get(`/achievements/${wallet.walletAddress}`)).json();
+  assert.ok(unlocks.length > 0);
+});
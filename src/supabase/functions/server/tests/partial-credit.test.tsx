@@ -0,0 +1,139 @@
+/**
+ * PARTIAL CREDIT
+ *
+ * A near miss is one edit away from a word of five or more letters. In a game
+ * started with partial credit it pays PARTIAL_CREDIT_FACTOR of the tier's base
+ * reward and keeps the streak; anything further off, or any miss in a game
+ * without partial credit, pays nothing and resets the streak.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { GameSession, answerSession, startSession } from '../game-session.tsx';
+import { WordPack } from '../../../../utils/word-packs.ts';
+import {
+  NEAR_MISS_MAX_DISTANCE,
+  NEAR_MISS_MIN_LENGTH,
+  diffSpelling,
+  isNearMiss,
+} from '../../../../utils/spelling-diff.ts';
+import {
+  PARTIAL_CREDIT_FACTOR,
+  calculatePartialReward,
+  getWMINTForDifficulty,
+} from '../../../../utils/word-lists.ts';
+
+const PLAYER = 'partial-player';
+const LONG_WORDS = ['protocol', 'validator', 'consensus', 'ledger', 'oracle'];
+const SHORT_WORDS = ['hash', 'mint', 'node', 'peer', 'pool'];
+
+function createPack(words: string[]): WordPack {
+  return {
+    id: 'partial-pack',
+    name: 'Partial',
+    builtIn: false,
+    approvedAt: new Date().toISOString(),
+    tiers: { normal: words.map(word => ({ word })) },
+  };
+}
+
+// A misspelling of a word with its last `count` letters wrong
+function misspell(word: string, count: number): string {
+  const wrong = [...word.slice(-count)].map(letter => (letter === 'q' ? 'z' : 'q')).join('');
+  return word.slice(0, -count) + wrong;
+}
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+  await kv.set(`player:${PLAYER}`, {
+    walletAddress: PLAYER,
+    score: 0,
+    totalWmintEarned: 0,
+    streak: 3,
+    maxStreak: 3,
+    level: 1,
+    gamesPlayed: 0,
+  });
+}
+
+// Answer the round in play with a misspelling of its word
+async function answerWith(session: GameSession, spell: (word: string) => string) {
+  const current: GameSession = await kv.get(`session:${session.id}`);
+  const round = current.rounds[current.currentRound];
+  const result = await answerSession(session.id, PLAYER, spell(round.word));
+  assert.equal(result.success, true);
+  return { round: result.session!.rounds[current.currentRound], player: result.player };
+}
+
+Deno.test('near miss: one edit away from a word of five or more letters', () => {
+  assert.equal(NEAR_MISS_MAX_DISTANCE, 1);
+  assert.equal(NEAR_MISS_MIN_LENGTH, 5);
+
+  // Long enough, one edit of each kind
+  for (const answer of ['tokem', 'tokne', 'toke', 'tokens']) {
+    assert.equal(isNearMiss('token', diffSpelling('token', answer)), true, answer);
+  }
+
+  // One letter left out is a near miss, two are not
+  assert.equal(isNearMiss('protocol', diffSpelling('protocol', 'protocl')), true);
+  assert.equal(isNearMiss('protocol', diffSpelling('protocol', 'protcl')), false);
+  assert.equal(isNearMiss('token', diffSpelling('token', 'tokxx')), false);
+
+  // Too short, however close
+  assert.equal(isNearMiss('hash', diffSpelling('hash', 'hasj')), false);
+  assert.equal(isNearMiss(' hash ', diffSpelling('hash', 'hashh')), false);
+
+  // A correct answer is not a miss at all
+  assert.equal(isNearMiss('token', diffSpelling('token', 'Token')), false);
+});
+
+Deno.test('near miss: pays the partial factor of the base reward', () => {
+  assert.equal(PARTIAL_CREDIT_FACTOR, 0.5);
+  assert.equal(calculatePartialReward('easy'), 15);
+  assert.equal(calculatePartialReward('normal'), 25);
+  assert.equal(calculatePartialReward('hard'), 35);
+  assert.equal(calculatePartialReward('normal'), getWMINTForDifficulty('normal') * 10 * PARTIAL_CREDIT_FACTOR);
+});
+
+Deno.test('partial credit: a near miss pays part of the reward and keeps the streak', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', createPack(LONG_WORDS), true);
+
+  const { round, player } = await answerWith(session!, word => misspell(word, 1));
+
+  assert.equal(round.correct, false);
+  assert.equal(round.nearMiss, true);
+  assert.equal(round.wmintEarned, calculatePartialReward('normal'));
+  assert.equal(player.score, calculatePartialReward('normal'));
+  assert.equal(player.streak, 3);
+});
+
+Deno.test('partial credit: two edits away pays nothing and resets the streak', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', createPack(LONG_WORDS), true);
+
+  const { round, player } = await answerWith(session!, word => misspell(word, 2));
+
+  assert.equal(round.nearMiss, undefined);
+  assert.equal(round.wmintEarned, 0);
+  assert.equal(player.streak, 0);
+});
+
+Deno.test('partial credit: short words and games without it never pay a near miss', async () => {
+  await setUp();
+  const short = await startSession(PLAYER, 'normal', createPack(SHORT_WORDS), true);
+  const shortMiss = await answerWith(short.session!, word => misspell(word, 1));
+  assert.equal(shortMiss.round.nearMiss, undefined);
+  assert.equal(shortMiss.round.wmintEarned, 0);
+
+  await setUp();
+  const off = await startSession(PLAYER, 'normal', createPack(LONG_WORDS));
+  const offMiss = await answerWith(off.session!, word => misspell(word, 1));
+  assert.equal(offMiss.round.nearMiss, undefined);
+  assert.equal(offMiss.round.wmintEarned, 0);
+  assert.equal(offMiss.player.streak, 0);
+});
@@ -0,0 +1,137 @@
+/**
+ * PRACTICE IMPORT
+ *
+ * Guest practice stats are graded in the browser, so the server only takes
+ * them when they could have come from real practice games, only into a new
+ * player record, and keeps them apart: an import never pays WMINT or moves
+ * the streak, level or games played.
+ */
+
+import assert from 'node:assert/strict';
+import nacl from 'npm:tweetnacl@1.0.3';
+import bs58 from 'npm:bs58@5.0.0';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { SESSION_HEADER, createNonce, verifySignIn } from '../auth.tsx';
+import app from '../app.tsx';
+import {
+  EMPTY_PRACTICE_STATS,
+  PRACTICE_ROUNDS,
+  PracticeStats,
+  addPracticeGame,
+  gradePracticeRound,
+  sanitizePracticeStats,
+} from '../../../../utils/practice.ts';
+
+const STATS: PracticeStats = { gamesPlayed: 3, wordsAttempted: 15, wordsCorrect: 11, streak: 2, bestStreak: 6 };
+
+async function signIn() {
+  const keyPair = nacl.sign.keyPair();
+  const walletAddress = bs58.encode(keyPair.publicKey);
+  const { nonce, message } = await createNonce(walletAddress);
+  const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message!), keyPair.secretKey));
+  const { token } = await verifySignIn(walletAddress, nonce!, signature);
+  return { walletAddress, token: token! };
+}
+
+async function createPlayer(walletAddress: string, token: string, guestStats?: unknown) {
+  const response = await app.request('/make-server-02a4aef8/player', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: token },
+    body: JSON.stringify({ walletAddress, guestStats }),
+  });
+  assert.equal(response.status, 200);
+  return (await response.json()).player;
+}
+
+function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+}
+
+Deno.test('practice: stats that could come from real games are kept, and nothing else', () => {
+  assert.deepEqual(sanitizePracticeStats(STATS), STATS);
+  assert.deepEqual(sanitizePracticeStats(EMPTY_PRACTICE_STATS), EMPTY_PRACTICE_STATS);
+  assert.deepEqual(sanitizePracticeStats({ ...STATS, score: 5000, level: 40 }), STATS);
+});
+
+Deno.test('practice: stats that are not whole, or do not add up, are refused', () => {
+  const refused: unknown[] = [
+    null,
+    'stats',
+    [],
+    { ...STATS, gamesPlayed: undefined },
+    { ...STATS, wordsCorrect: -1 },
+    { ...STATS, wordsAttempted: 14.5 },
+    { ...STATS, streak: '2' },
+    // More words than the games could hold
+    { ...STATS, wordsAttempted: STATS.gamesPlayed * PRACTICE_ROUNDS + 1 },
+    // More right than tried, a best streak longer than the words right, a streak over the best
+    { ...STATS, wordsCorrect: 16 },
+    { ...STATS, bestStreak: 12 },
+    { ...STATS, streak: 7 },
+    // More games than a browser could believably have played
+    { gamesPlayed: 10001, wordsAttempted: 0, wordsCorrect: 0, streak: 0, bestStreak: 0 },
+  ];
+
+  for (const stats of refused) {
+    assert.equal(sanitizePracticeStats(stats), null, JSON.stringify(stats));
+  }
+});
+
+Deno.test('practice: games graded in the browser add up the way the import checks them', () => {
+  const rounds = ['token', 'chain', 'block', 'stake', 'mint'].map((word, index) =>
+    gradePracticeRound({ word, tier: 'easy' }, index === 2 ? 'blok' : word.toUpperCase())
+  );
+  assert.deepEqual(rounds.map(round => round.correct), [true, true, false, true, true]);
+  assert.ok(rounds[2].diff);
+
+  const stats = addPracticeGame(addPracticeGame(EMPTY_PRACTICE_STATS, rounds), rounds);
+  assert.deepEqual(stats, { gamesPlayed: 2, wordsAttempted: 10, wordsCorrect: 8, streak: 2, bestStreak: 4 });
+  assert.deepEqual(sanitizePracticeStats(stats), stats);
+});
+
+Deno.test('import: a new player brings in their practice stats but no WMINT', async () => {
+  setUp();
+  const { walletAddress, token } = await signIn();
+
+  const player = await createPlayer(walletAddress, token, STATS);
+
+  const { importedAt, ...imported } = player.practiceStats;
+  assert.deepEqual(imported, STATS);
+  assert.ok(importedAt);
+  assert.equal(player.score, 0);
+  assert.equal(player.totalWmintEarned, 0);
+  assert.equal(player.streak, 0);
+  assert.equal(player.level, 1);
+  assert.equal(player.gamesPlayed, 0);
+  assert.deepEqual(await kv.get(`player:${walletAddress}`), player);
+});
+
+Deno.test('import: stats that do not add up are dropped and the player is still created', async () => {
+  setUp();
+  const { walletAddress, token } = await signIn();
+
+  const player = await createPlayer(walletAddress, token, { ...STATS, wordsCorrect: 500 });
+
+  assert.equal(player.practiceStats, undefined);
+  assert.equal(player.score, 0);
+});
+
+Deno.test('import: only the new record takes them, once', async () => {
+  setUp();
+  const { walletAddress, token } = await signIn();
+
+  const created = await createPlayer(walletAddress, token, STATS);
+  const again = await createPlayer(walletAddress, token, { ...STATS, gamesPlayed: 9, wordsAttempted: 45 });
+
+  assert.deepEqual(again, created);
+  assert.deepEqual((await kv.get(`player:${walletAddress}`)).practiceStats, created.practiceStats);
+
+  // A player created without them can't bring them in later
+  const { walletAddress: other, token: otherToken } = await signIn();
+  await createPlayer(other, otherToken);
+  assert.equal((await createPlayer(other, otherToken, STATS)).practiceStats, undefined);
+});
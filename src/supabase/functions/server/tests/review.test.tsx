@@ -0,0 +1,146 @@
+/**
+ * REVIEW DECK
+ *
+ * SM-2 scheduling of missed words: recalled words come back after one day,
+ * six days, then the previous interval times the word's easiness; a word
+ * missed again starts over and comes back within the sitting.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import {
+  ReviewCard,
+  ReviewDeck,
+  addMissedWord,
+  getDueCards,
+  getReviewDeck,
+  getReviewQuality,
+  getReviewStatus,
+  recordReview,
+  scheduleReview,
+} from '../review.tsx';
+
+const PLAYER = 'review-player';
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function newCard(changes: Partial<ReviewCard> = {}): ReviewCard {
+  return {
+    word: 'rhythm',
+    tier: 'normal',
+    easiness: 2.5,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: NOW.toISOString(),
+    addedAt: NOW.toISOString(),
+    ...changes,
+  };
+}
+
+function after(ms: number): string {
+  return new Date(NOW.getTime() + ms).toISOString();
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+Deno.test('review: answers are graded 0-5', () => {
+  assert.equal(getReviewQuality(true, true, 0, 4_000, 10_000), 5);
+  assert.equal(getReviewQuality(true, true, 0, 6_000, 10_000), 4);
+  assert.equal(getReviewQuality(true, true, 1, 1_000, 10_000), 3);
+  assert.equal(getReviewQuality(false, true, 0, 1_000, 10_000), 1);
+  assert.equal(getReviewQuality(false, false, 0, 10_000, 10_000), 0);
+});
+
+Deno.test('review: passes space the word out by one day, six days, then interval times easiness', () => {
+  const first = scheduleReview(newCard(), 5, NOW);
+  assert.equal(first.interval, 1);
+  assert.equal(first.repetitions, 1);
+  assertClose(first.easiness, 2.6);
+  assert.equal(first.dueAt, after(DAY_MS));
+  assert.equal(first.lastReviewedAt, NOW.toISOString());
+
+  const second = scheduleReview(first, 4, NOW);
+  assert.equal(second.interval, 6);
+  assert.equal(second.repetitions, 2);
+  assertClose(second.easiness, 2.6);
+
+  // A pass with hints still counts, but makes the word a little harder
+  const third = scheduleReview(second, 3, NOW);
+  assert.equal(third.interval, Math.round(6 * 2.6));
+  assert.equal(third.repetitions, 3);
+  assertClose(third.easiness, 2.46);
+  assert.equal(third.dueAt, after(16 * DAY_MS));
+  assert.equal(third.lapses, 0);
+});
+
+Deno.test('review: a fail starts the word over and brings it back in ten minutes', () => {
+  const known = newCard({ easiness: 2.6, interval: 16, repetitions: 3, lapses: 1 });
+
+  const missed = scheduleReview(known, 1, NOW);
+  assert.equal(missed.interval, 0);
+  assert.equal(missed.repetitions, 0);
+  assert.equal(missed.lapses, 2);
+  assertClose(missed.easiness, 2.06);
+  assert.equal(missed.dueAt, after(10 * 60 * 1000));
+
+  // The next pass is a first recall again
+  assert.equal(scheduleReview(missed, 4, NOW).interval, 1);
+});
+
+Deno.test('review: easiness never drops below 1.3', () => {
+  const hard = newCard({ easiness: 1.4 });
+
+  assert.equal(scheduleReview(hard, 0, NOW).easiness, 1.3);
+  assert.equal(scheduleReview(scheduleReview(hard, 0, NOW), 1, NOW).easiness, 1.3);
+});
+
+Deno.test('review: due cards are counted up to now, most overdue first', () => {
+  const deck: ReviewDeck = {
+    walletAddress: PLAYER,
+    cards: {
+      late: newCard({ word: 'late', dueAt: after(-DAY_MS) }),
+      now: newCard({ word: 'now', dueAt: NOW.toISOString() }),
+      soon: newCard({ word: 'soon', dueAt: after(60 * 1000) }),
+      later: newCard({ word: 'later', dueAt: after(DAY_MS) }),
+    },
+    updatedAt: NOW.toISOString(),
+  };
+
+  assert.deepEqual(getDueCards(deck, NOW).map(card => card.word), ['late', 'now']);
+  assert.deepEqual(getReviewStatus(deck, NOW), { dueCount: 2, totalCards: 4, nextDueAt: after(60 * 1000) });
+
+  const empty: ReviewDeck = { walletAddress: PLAYER, cards: {}, updatedAt: NOW.toISOString() };
+  assert.deepEqual(getReviewStatus(empty, NOW), { dueCount: 0, totalCards: 0, nextDueAt: null });
+});
+
+Deno.test('review: missed words join the deck due now, and lapse when missed again', async () => {
+  kv.useStore(createMemoryStore());
+
+  await addMissedWord(PLAYER, { word: 'Rhythm', tier: 'hard' });
+  const added = (await getReviewDeck(PLAYER)).cards.rhythm;
+  assert.equal(added.word, 'Rhythm');
+  assert.equal(added.repetitions, 0);
+  assert.equal(added.lapses, 0);
+  assert.equal(getReviewStatus(await getReviewDeck(PLAYER)).dueCount, 1);
+
+  await recordReview(PLAYER, 'RHYTHM', 5);
+  const reviewed = (await getReviewDeck(PLAYER)).cards.rhythm;
+  assert.equal(reviewed.repetitions, 1);
+  assert.equal(reviewed.interval, 1);
+  assert.equal(getReviewStatus(await getReviewDeck(PLAYER)).dueCount, 0);
+
+  await addMissedWord(PLAYER, { word: 'rhythm', tier: 'hard' });
+  const relapsed = (await getReviewDeck(PLAYER)).cards.rhythm;
+  assert.equal(relapsed.repetitions, 0);
+  assert.equal(relapsed.lapses, 1);
+  assert.equal(relapsed.easiness, reviewed.easiness);
+  assert.equal(relapsed.addedAt, added.addedAt);
+
+  // Words not in the deck are ignored
+  await recordReview(PLAYER, 'unknown', 5);
+  assert.deepEqual(Object.keys((await getReviewDeck(PLAYER)).cards), ['rhythm']);
+});
@@ -0,0 +1,149 @@
+/**
+ * SEASONS
+ *
+ * Season IDs and boundaries around the turn of the year and of the month,
+ * and the archive of a finished season: created once however often it is
+ * asked for, by the rollover job or lazily when the season is first read.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import {
+  SeasonEntry,
+  addSeasonScore,
+  archiveSeason,
+  getSeasonArchives,
+  getSeasonLeaderboard,
+  rolloverSeasons,
+} from '../seasons.tsx';
+import {
+  SeasonPeriod,
+  getSeasonEnd,
+  getSeasonId,
+  getSeasonStart,
+  isSeasonEnded,
+  isValidSeasonId,
+} from '../../../../utils/seasons.ts';
+
+// A week and a month long over
+const PAST_WEEK = '2025-12-29';
+const PAST_MONTH = '2025-12';
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+async function addEntry(period: SeasonPeriod, seasonId: string, walletAddress: string, score: number) {
+  const entry: SeasonEntry = {
+    period,
+    seasonId,
+    walletAddress,
+    score,
+    gamesPlayed: 1,
+    level: 1,
+    updatedAt: `${getSeasonStart(period, seasonId).toISOString().slice(0, 10)}T12:00:00.000Z`,
+  };
+  await kv.set(`season:${period}:${seasonId}:${walletAddress}`, entry);
+}
+
+Deno.test('season IDs: weeks start on Monday, across the turn of the year', () => {
+  // 2026-01-01 is a Thursday; its week began on Monday 2025-12-29
+  assert.equal(getSeasonId('weekly', at('2025-12-29T00:00:00.000Z')), PAST_WEEK);
+  assert.equal(getSeasonId('weekly', at('2026-01-01T12:00:00.000Z')), PAST_WEEK);
+  assert.equal(getSeasonId('weekly', at('2026-01-04T23:59:59.999Z')), PAST_WEEK);
+  assert.equal(getSeasonId('weekly', at('2026-01-05T00:00:00.000Z')), '2026-01-05');
+
+  assert.equal(getSeasonStart('weekly', PAST_WEEK).toISOString(), '2025-12-29T00:00:00.000Z');
+  assert.equal(getSeasonEnd('weekly', PAST_WEEK).toISOString(), '2026-01-05T00:00:00.000Z');
+});
+
+Deno.test('season IDs: months roll over at midnight UTC on the 1st', () => {
+  assert.equal(getSeasonId('monthly', at('2026-01-31T23:59:59.999Z')), '2026-01');
+  assert.equal(getSeasonId('monthly', at('2026-02-01T00:00:00.000Z')), '2026-02');
+
+  assert.equal(getSeasonEnd('monthly', '2026-01').toISOString(), '2026-02-01T00:00:00.000Z');
+  assert.equal(getSeasonEnd('monthly', '2028-02').toISOString(), '2028-03-01T00:00:00.000Z');
+  assert.equal(getSeasonEnd('monthly', PAST_MONTH).toISOString(), '2026-01-01T00:00:00.000Z');
+});
+
+Deno.test('season IDs: only real seasons are valid, and they end at their boundary', () => {
+  assert.equal(isValidSeasonId('weekly', PAST_WEEK), true);
+  assert.equal(isValidSeasonId('weekly', '2025-12-30'), false); // A Tuesday
+  assert.equal(isValidSeasonId('weekly', '2025-12'), false);
+  assert.equal(isValidSeasonId('monthly', PAST_MONTH), true);
+  assert.equal(isValidSeasonId('monthly', '2025-13'), false);
+  assert.equal(isValidSeasonId('monthly', '2025-1'), false);
+
+  assert.equal(isSeasonEnded('weekly', PAST_WEEK, at('2026-01-04T23:59:59.999Z')), false);
+  assert.equal(isSeasonEnded('weekly', PAST_WEEK, at('2026-01-05T00:00:00.000Z')), true);
+});
+
+Deno.test('archive: a season archived twice keeps its first snapshot', async () => {
+  kv.useStore(createMemoryStore());
+  await addEntry('weekly', PAST_WEEK, 'second', 40);
+  await addEntry('weekly', PAST_WEEK, 'first', 90);
+
+  const archive = await archiveSeason('weekly', PAST_WEEK);
+  assert.deepEqual(archive.standings.map(standing => [standing.rank, standing.walletAddress]), [
+    [1, 'first'],
+    [2, 'second'],
+  ]);
+  assert.deepEqual(await kv.getByPrefix(`season:weekly:${PAST_WEEK}:`), []);
+
+  // An answer in flight at the reset writes a late entry; it is dropped, not added
+  await addEntry('weekly', PAST_WEEK, 'late', 500);
+  const again = await archiveSeason('weekly', PAST_WEEK);
+
+  assert.deepEqual(again, archive);
+  assert.deepEqual(await kv.getByPrefix(`season:weekly:${PAST_WEEK}:`), []);
+  assert.equal((await getSeasonArchives('weekly')).length, 1);
+});
+
+Deno.test('archive: reading a finished season archives it on the spot', async () => {
+  kv.useStore(createMemoryStore());
+  await addEntry('monthly', PAST_MONTH, 'player', 70);
+
+  const { season, leaderboard } = await getSeasonLeaderboard('monthly', PAST_MONTH, 10);
+
+  assert.equal(season.archived, true);
+  assert.equal(season.players, 1);
+  assert.deepEqual(leaderboard.map(standing => standing.walletAddress), ['player']);
+  assert.ok(await kv.get(`season-archive:monthly:${PAST_MONTH}`));
+  assert.deepEqual(await kv.getByPrefix(`season:monthly:${PAST_MONTH}:`), []);
+
+  // Read again, it comes from the archive
+  assert.deepEqual((await getSeasonLeaderboard('monthly', PAST_MONTH, 10)).leaderboard, leaderboard);
+});
+
+Deno.test('archive: running and empty seasons are read live and never archived', async () => {
+  kv.useStore(createMemoryStore());
+  await addSeasonScore({ walletAddress: 'player', level: 2 }, 30, 1);
+
+  const current = await getSeasonLeaderboard('weekly', getSeasonId('weekly'), 10);
+  assert.equal(current.season.archived, false);
+  assert.deepEqual(current.leaderboard, [{ rank: 1, walletAddress: 'player', score: 30, level: 2, gamesPlayed: 1 }]);
+
+  const empty = await getSeasonLeaderboard('weekly', PAST_WEEK, 10);
+  assert.equal(empty.season.archived, false);
+  assert.deepEqual(empty.leaderboard, []);
+
+  assert.deepEqual(await kv.getByPrefix('season-archive:'), []);
+});
+
+Deno.test('rollover: archives every finished season once, and leaves the running ones', async () => {
+  kv.useStore(createMemoryStore());
+  await addEntry('weekly', PAST_WEEK, 'player', 10);
+  await addEntry('monthly', PAST_MONTH, 'player', 10);
+  await addSeasonScore({ walletAddress: 'player' }, 20);
+
+  const { archived } = await rolloverSeasons();
+  assert.deepEqual(archived.map(season => `${season.period}:${season.seasonId}`).sort(), [
+    `monthly:${PAST_MONTH}`,
+    `weekly:${PAST_WEEK}`,
+  ]);
+  assert.deepEqual((await rolloverSeasons()).archived, []);
+
+  // The current seasons are still live
+  assert.equal((await kv.getByPrefix('season:')).length, 2);
+});
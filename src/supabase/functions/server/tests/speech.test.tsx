@@ -0,0 +1,193 @@
+/**
+ * SPEECH
+ *
+ * The word in play is only ever heard: session and duel payloads carry its
+ * length, and its prompts are served as audio for the round in play, spoken
+ * differently every round. The synthesizer used here "speaks" by echoing its
+ * style and text as bytes, and counts its calls so replays can be checked.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { getPromptAudio, useSpeech } from '../speech/index.tsx';
+import type { SpeechSynthesizer, SpeechStyle } from '../speech/types.tsx';
+import { answerSession, buyHint, getRoundAudio, startSession, toSessionView } from '../game-session.tsx';
+import { createDuel, getDuel, getDuelRoundAudio, joinDuel, startDuelRound } from '../duels.tsx';
+import { WordPack, getBuiltInPack } from '../../../../utils/word-packs.ts';
+import { PROMPT_RATE, SLOW_PROMPT_RATE } from '../../../../utils/speech-prompts.ts';
+
+const PLAYER = 'speech-player';
+const OPPONENT = 'speech-opponent';
+
+// Every word's definition says the word itself
+const DEFINED_PACK: WordPack = {
+  id: 'defined-pack',
+  name: 'Defined',
+  builtIn: false,
+  approvedAt: new Date().toISOString(),
+  tiers: {
+    normal: ['ledger', 'oracle', 'validator', 'protocol', 'consensus'].map(word => ({
+      word,
+      definition: `A ${word}, or ${word.toUpperCase()}, as used on chain`,
+    })),
+  },
+};
+
+function createEchoSpeech() {
+  const calls: string[] = [];
+  const synthesizer: SpeechSynthesizer = {
+    name: 'echo',
+    async synthesize(text, style) {
+      calls.push(text);
+      return { audio: new TextEncoder().encode(JSON.stringify({ text, style })), contentType: 'application/json' };
+    },
+  };
+  return { synthesizer, calls };
+}
+
+function heard(audio: Uint8Array | undefined): { text: string; style: SpeechStyle } {
+  return JSON.parse(new TextDecoder().decode(audio));
+}
+
+// The word after its lead-in, at about the given rate
+function assertSpoken(audio: Uint8Array | undefined, word: string, rate: number) {
+  const { text, style } = heard(audio);
+  assert.match(text, new RegExp(`^[A-Za-z ]+: ${word}\\.$`));
+  assert.ok(Math.abs(style.rate - rate) <= rate * 0.08 + 0.001);
+  assert.ok(Math.abs(style.pitch) <= 3);
+}
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+  const echo = createEchoSpeech();
+  useSpeech(echo.synthesizer);
+
+  for (const walletAddress of [PLAYER, OPPONENT]) {
+    await kv.set(`player:${walletAddress}`, {
+      walletAddress,
+      score: 100,
+      totalWmintEarned: 0,
+      streak: 0,
+      maxStreak: 0,
+      level: 1,
+      gamesPlayed: 0,
+    });
+  }
+  return echo;
+}
+
+Deno.test('session: the view has the word length but never the word', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', getBuiltInPack());
+  const round = session!.rounds[0];
+  const view = toSessionView(session!);
+
+  assert.equal(view.letters, round.word.length);
+  assert.equal(view.hasSentence, !!round.sentence);
+  assert.ok(!Object.values(view).includes(round.word));
+});
+
+Deno.test('session: prompts are spoken for the round in play only', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', getBuiltInPack());
+  const round = session!.rounds[0];
+
+  const word = await getRoundAudio(session!.id, PLAYER, 'word');
+  assertSpoken(word.speech?.audio, round.word, PROMPT_RATE);
+
+  assert.equal((await getRoundAudio(session!.id, OPPONENT, 'word')).status, 403);
+  assert.equal((await getRoundAudio('missing-session', PLAYER, 'word')).status, 404);
+
+  await answerSession(session!.id, PLAYER, round.word);
+  assert.equal((await getRoundAudio(session!.id, PLAYER, 'word')).status, 409);
+});
+
+Deno.test('session: the slow word needs the slow replay hint', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', getBuiltInPack());
+  const round = session!.rounds[0];
+
+  assert.equal((await getRoundAudio(session!.id, PLAYER, 'slow-word')).status, 403);
+
+  const bought = await buyHint(session!.id, PLAYER, 'slow-replay');
+  assert.equal(bought.success, true);
+  assert.deepEqual(Object.keys(bought.hint!).sort(), ['cost', 'type']);
+
+  const slow = await getRoundAudio(session!.id, PLAYER, 'slow-word');
+  assertSpoken(slow.speech?.audio, round.word, SLOW_PROMPT_RATE);
+});
+
+Deno.test('session: the definition needs its hint, and is spoken without the word', async () => {
+  await setUp();
+  const { session } = await startSession(PLAYER, 'normal', DEFINED_PACK);
+  const round = session!.rounds[0];
+
+  assert.equal((await getRoundAudio(session!.id, PLAYER, 'definition')).status, 403);
+
+  assert.equal((await buyHint(session!.id, PLAYER, 'definition')).success, true);
+  const { text } = heard((await getRoundAudio(session!.id, PLAYER, 'definition')).speech?.audio);
+
+  assert.equal(text, 'A blank, or blank, as used on chain');
+  assert.ok(!text.toLowerCase().includes(round.word));
+});
+
+Deno.test('session: replays within a round are synthesized once', async () => {
+  const echo = await setUp();
+  const { session } = await startSession(PLAYER, 'normal', getBuiltInPack());
+
+  const first = await getRoundAudio(session!.id, PLAYER, 'word');
+  const second = await getRoundAudio(session!.id, PLAYER, 'word');
+
+  assert.deepEqual(second.speech, first.speech);
+  assert.equal(echo.calls.length, 1);
+});
+
+Deno.test('duel: the round view has the word length and its audio follows the player', async () => {
+  await setUp();
+  const { duel } = await createDuel(PLAYER, 'normal', 0);
+  assert.equal((await getDuelRoundAudio(duel!.id, PLAYER, 'word')).status, 409);
+
+  await joinDuel(duel!.id, OPPONENT);
+  assert.equal((await getDuelRoundAudio(duel!.id, PLAYER, 'word')).status, 409);
+
+  const { round } = await startDuelRound(duel!.id, PLAYER);
+  const word = (await getDuel(duel!.id))!.words[0];
+
+  assert.equal(round?.letters, word.word.length);
+  assert.ok(!Object.values(round!).includes(word.word));
+
+  const audio = await getDuelRoundAudio(duel!.id, PLAYER, 'word');
+  assertSpoken(audio.speech?.audio, word.word, PROMPT_RATE);
+  assert.equal((await getDuelRoundAudio(duel!.id, PLAYER, 'slow-word')).status, 403);
+  assert.equal((await getDuelRoundAudio(duel!.id, PLAYER, 'definition')).status, 403);
+
+  // The opponent hasn't started their word yet
+  assert.equal((await getDuelRoundAudio(duel!.id, OPPONENT, 'word')).status, 409);
+});
+
+Deno.test('speech: the same word sounds different in every round', async () => {
+  await setUp();
+  const word = { word: 'necessary', sentence: 'It is necessary to sleep.' };
+
+  const rounds = await Promise.all(
+    Array.from({ length: 5 }, (_, index) => getPromptAudio(`session:test:${index}`, word, 'word', []))
+  );
+  const audio = new Set(rounds.map(round => new TextDecoder().decode(round.speech!.audio)));
+
+  assert.equal(audio.size, rounds.length);
+});
+
+Deno.test('speech: without a provider prompts are refused with a 503', async () => {
+  await setUp();
+  useSpeech(null);
+  const { session } = await startSession(PLAYER, 'normal', getBuiltInPack());
+
+  const result = await getRoundAudio(session!.id, PLAYER, 'word');
+
+  assert.equal(result.status, 503);
+  assert.match(result.error!, /not configured/);
+});
@@ -0,0 +1,111 @@
+/**
+ * SPELLING DIFF
+ *
+ * The letter-by-letter alignment shown on the result screen: each kind of
+ * edit, named from the player's side, at the edges of the word as well as
+ * inside it, and the per-kind counts tallied into the word history.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { getWordHistory, recordWordAttempt, summarizeMistakes } from '../word-history.tsx';
+import { SpellingDiffOp, diffSpelling } from '../../../../utils/spelling-diff.ts';
+
+const NO_EDITS = { insertion: 0, deletion: 0, substitution: 0, transposition: 0 };
+
+function matches(letters: string): SpellingDiffOp[] {
+  return [...letters].map(letter => ({ type: 'match', letter }));
+}
+
+Deno.test('diff: a correct answer is all matches, ignoring case and spaces around it', () => {
+  assert.deepEqual(diffSpelling('Rhythm', '  rhYTHM '), { ops: matches('rhythm'), distance: 0, counts: NO_EDITS });
+});
+
+Deno.test('diff: swapped neighbouring letters are one transposition', () => {
+  const diff = diffSpelling('receive', 'recieve');
+
+  assert.equal(diff.distance, 1);
+  assert.deepEqual(diff.ops, [
+    ...matches('rec'),
+    { type: 'transposition', expected: 'ei', actual: 'ie' },
+    ...matches('ve'),
+  ]);
+  assert.deepEqual(diff.counts, { ...NO_EDITS, transposition: 1 });
+});
+
+Deno.test('diff: extra letters at either edge are insertions', () => {
+  const first = diffSpelling('tunnel', 'stunnel');
+  assert.equal(first.distance, 1);
+  assert.deepEqual(first.ops, [{ type: 'insertion', actual: 's' }, ...matches('tunnel')]);
+
+  const last = diffSpelling('tunnel', 'tunnels');
+  assert.equal(last.distance, 1);
+  assert.deepEqual(last.ops, [...matches('tunnel'), { type: 'insertion', actual: 's' }]);
+});
+
+Deno.test('diff: missing letters at either edge are deletions', () => {
+  const first = diffSpelling('island', 'sland');
+  assert.equal(first.distance, 1);
+  assert.deepEqual(first.ops, [{ type: 'deletion', expected: 'i' }, ...matches('sland')]);
+
+  const last = diffSpelling('island', 'islan');
+  assert.equal(last.distance, 1);
+  assert.deepEqual(last.ops, [...matches('islan'), { type: 'deletion', expected: 'd' }]);
+});
+
+Deno.test('diff: an empty answer leaves out every letter', () => {
+  const diff = diffSpelling('cat', '   ');
+
+  assert.equal(diff.distance, 3);
+  assert.deepEqual(diff.ops, [...'cat'].map(expected => ({ type: 'deletion', expected })));
+  assert.deepEqual(diff.counts, { ...NO_EDITS, deletion: 3 });
+});
+
+Deno.test('diff: counts tally each kind of edit and add up to the distance', () => {
+  // "acomodate" for "accommodate": two letters left out
+  assert.deepEqual(diffSpelling('accommodate', 'acomodate').counts, { ...NO_EDITS, deletion: 2 });
+
+  // One of each: "ab" swapped, "d" wrong, "f" left out and an extra "s"
+  const diff = diffSpelling('abcdefgh', 'bacxeghs');
+
+  assert.deepEqual(diff.counts, { insertion: 1, deletion: 1, substitution: 1, transposition: 1 });
+  assert.equal(diff.distance, 4);
+  assert.deepEqual(diff.ops, [
+    { type: 'transposition', expected: 'ab', actual: 'ba' },
+    ...matches('c'),
+    { type: 'substitution', expected: 'd', actual: 'x' },
+    ...matches('e'),
+    { type: 'deletion', expected: 'f' },
+    ...matches('gh'),
+    { type: 'insertion', actual: 's' },
+  ]);
+});
+
+Deno.test('diff: the word history tallies counts per word and across words', async () => {
+  kv.useStore(createMemoryStore());
+  const player = 'diff-player';
+  const attempts = [
+    { word: 'receive', answer: 'recieve' },
+    { word: 'receive', answer: 'receve' },
+    { word: 'island', answer: 'iland' },
+    { word: 'island', answer: '' },
+  ];
+
+  for (const { word, answer } of attempts) {
+    await recordWordAttempt(player, {
+      word,
+      tier: 'normal',
+      answer,
+      correct: false,
+      answerMs: 1000,
+      // Blank answers are not diffed
+      diff: answer ? diffSpelling(word, answer) : undefined,
+    });
+  }
+
+  const history = await getWordHistory(player);
+  assert.deepEqual(history.words.receive.errorCounts, { transposition: 1, deletion: 1 });
+  assert.deepEqual(history.words.island.errorCounts, { deletion: 1 });
+  assert.deepEqual(summarizeMistakes(history).errorCounts, { transposition: 1, deletion: 2 });
+});
@@ -0,0 +1,145 @@
+/**
+ * KV STORE CONTRACT
+ *
+ * The same compare-and-set semantics checked against every storage backend.
+ * The Supabase backend runs only when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ * point at a project with `supabase/migrations` applied; its keys are removed
+ * afterwards.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import type { KvStore } from '../storage/types.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { createSqliteStore } from '../storage/sqlite.tsx';
+
+// Every key is scoped to this run, so a shared database is left as it was found.
+// Values carry their own key, since getByPrefix returns values only.
+const RUN = `test:${crypto.randomUUID()}`;
+
+function testKey(name: string): string {
+  return `${RUN}:${name}`;
+}
+
+interface Backend {
+  name: string;
+  ignore?: boolean;
+  open(): Promise<{ store: KvStore; close(): Promise<void> }>;
+}
+
+const hasSupabase = !!Deno.env.get('SUPABASE_URL') && !!Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const backends: Backend[] = [
+  {
+    name: 'memory',
+    async open() {
+      return { store: createMemoryStore(), close: async () => {} };
+    },
+  },
+  {
+    name: 'sqlite',
+    async open() {
+      const dir = await Deno.makeTempDir({ prefix: 'wordmint-kv-' });
+      return {
+        store: createSqliteStore(`${dir}/kv.db`),
+        close: () => Deno.remove(dir, { recursive: true }),
+      };
+    },
+  },
+  {
+    name: 'supabase',
+    ignore: !hasSupabase,
+    async open() {
+      const { createSupabaseStore } = await import('../storage/supabase.tsx');
+      const store = createSupabaseStore();
+      return {
+        store,
+        close: async () => {
+          const rows = await store.getByPrefix(`${RUN}:`);
+          await store.mdel(rows.map((row: { key: string }) => row.key));
+        },
+      };
+    },
+  },
+];
+
+function backendTest(backend: Backend, name: string, fn: (store: KvStore) => Promise<void>) {
+  Deno.test({
+    name: `${backend.name}: ${name}`,
+    ignore: backend.ignore,
+    async fn() {
+      const { store, close } = await backend.open();
+      try {
+        await fn(store);
+      } finally {
+        await close();
+      }
+    },
+  });
+}
+
+for (const backend of backends) {
+  backendTest(backend, 'compareAndSet with undefined only creates a missing key', async (store) => {
+    const key = testKey('create');
+    const first = { key, count: 1 };
+
+    assert.equal(await store.compareAndSet(key, undefined, first), true);
+    assert.equal(await store.compareAndSet(key, undefined, { key, count: 2 }), false);
+    assert.deepEqual(await store.get(key), first);
+  });
+
+  backendTest(backend, 'compareAndSet replaces only the expected value', async (store) => {
+    const key = testKey('replace');
+    const original = { key, count: 1 };
+    const updated = { key, count: 2 };
+    await store.set(key, original);
+
+    assert.equal(await store.compareAndSet(key, original, updated), true);
+    assert.deepEqual(await store.get(key), updated);
+
+    // The original is stale now
+    assert.equal(await store.compareAndSet(key, original, { key, count: 3 }), false);
+    assert.deepEqual(await store.get(key), updated);
+  });
+
+  backendTest(backend, 'compareAndSet fails on a missing key that was expected to exist', async (store) => {
+    const key = testKey('missing');
+
+    assert.equal(await store.compareAndSet(key, { key, count: 1 }, { key, count: 2 }), false);
+    assert.equal(await store.get(key), undefined);
+  });
+
+  backendTest(backend, 'compareAndSet handles values too large for a URL', async (store) => {
+    const key = testKey('large');
+    const words = Array.from({ length: 5000 }, (_, i) => `word-${i}`);
+    const original = { key, words };
+    const updated = { key, words: [...words, 'one-more'] };
+    await store.set(key, original);
+
+    assert.equal(await store.compareAndSet(key, original, updated), true);
+    assert.deepEqual(await store.get(key), updated);
+  });
+
+  backendTest(backend, 'update retries until concurrent writers all land', async (store) => {
+    const key = testKey('counter');
+    kv.useStore(store);
+
+    const increment = () => kv.update(key, (current: { key: string; count: number } | undefined) => ({
+      key,
+      count: (current?.count || 0) + 1,
+    }));
+    await Promise.all([increment(), increment(), increment(), increment()]);
+
+    assert.deepEqual(await store.get(key), { key, count: 4 });
+  });
+
+  backendTest(backend, 'update leaves the key untouched when the updater aborts', async (store) => {
+    const key = testKey('abort');
+    const original = { key, count: 1 };
+    await store.set(key, original);
+    kv.useStore(store);
+
+    assert.equal(await kv.update(key, () => null), null);
+    assert.deepEqual(await store.get(key), original);
+  });
+}
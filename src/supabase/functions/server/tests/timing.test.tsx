@@ -0,0 +1,141 @@
+/**
+ * ANSWER TIMING
+ *
+ * Each round's time limit comes from its word's tier, and the server times
+ * every answer from when it handed out the word. Answers a little late still
+ * count within the grace window; fast correct answers earn a speed multiplier
+ * on the base reward. Rounds are backdated in the store to stand in for time
+ * passing.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { GameSession, answerSession, startSession, toSessionView } from '../game-session.tsx';
+import { WordPack } from '../../../../utils/word-packs.ts';
+import {
+  RELAXED_REWARD_FACTOR,
+  SPEED_BONUSES,
+  WordTier,
+  calculateWordReward,
+  getSpeedMultiplier,
+  getTimeLimitForDifficulty,
+} from '../../../../utils/word-lists.ts';
+
+const PLAYER = 'timing-player';
+
+// Late answers within this of the time limit still count (SESSION_GRACE_MS)
+const GRACE_MS = 5000;
+
+const PACK: WordPack = {
+  id: 'timing-pack',
+  name: 'Timing',
+  builtIn: false,
+  approvedAt: new Date().toISOString(),
+  tiers: Object.fromEntries(
+    (['easy', 'normal', 'hard'] as WordTier[]).map(tier => [
+      tier,
+      ['protocol', 'validator', 'consensus', 'ledger', 'oracle'].map(word => ({ word })),
+    ])
+  ),
+};
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+  await kv.set(`player:${PLAYER}`, {
+    walletAddress: PLAYER,
+    score: 0,
+    totalWmintEarned: 0,
+    streak: 0,
+    maxStreak: 0,
+    level: 1,
+    gamesPlayed: 0,
+  });
+}
+
+// Answer the first round correctly, `elapsedMs` after it was handed out
+async function answerAfter(tier: WordTier, elapsedMs: number, relaxed = false) {
+  const { session } = await startSession(PLAYER, tier, PACK, false, relaxed);
+  const stored: GameSession = await kv.get(`session:${session!.id}`);
+  const rounds = [...stored.rounds];
+  rounds[0] = { ...rounds[0], startedAt: new Date(Date.now() - elapsedMs).toISOString() };
+  await kv.set(`session:${session!.id}`, { ...stored, rounds });
+
+  const result = await answerSession(session!.id, PLAYER, rounds[0].word);
+  assert.equal(result.success, true);
+  return result.session!.rounds[0];
+}
+
+Deno.test('timing: each tier has its own time limit, shown in the session view', async () => {
+  await setUp();
+  const limits: Record<WordTier, number> = { easy: 20, normal: 30, hard: 45 };
+
+  for (const tier of Object.keys(limits) as WordTier[]) {
+    assert.equal(getTimeLimitForDifficulty(tier), limits[tier]);
+    const { session } = await startSession(PLAYER, tier, PACK);
+    assert.equal(toSessionView(session!).timeLimit, limits[tier]);
+  }
+});
+
+Deno.test('timing: a late answer inside the grace window still counts', async () => {
+  for (const tier of ['easy', 'hard'] as WordTier[]) {
+    await setUp();
+    const round = await answerAfter(tier, getTimeLimitForDifficulty(tier) * 1000 + GRACE_MS - 1000);
+
+    assert.equal(round.correct, true);
+    assert.equal(round.speedMultiplier, undefined);
+    assert.equal(round.wmintEarned, calculateWordReward(tier, 0, 1));
+  }
+});
+
+Deno.test('timing: an answer after the grace window is a miss, even if spelled right', async () => {
+  await setUp();
+  const round = await answerAfter('normal', 30 * 1000 + GRACE_MS + 1000);
+
+  assert.equal(round.correct, false);
+  assert.equal(round.wmintEarned, 0);
+  assert.equal((await kv.get(`player:${PLAYER}`)).score, 0);
+});
+
+Deno.test('timing: relaxed games have no limit and no speed bonus', async () => {
+  await setUp();
+  const late = await answerAfter('normal', 10 * 60 * 1000, true);
+  assert.equal(late.correct, true);
+  assert.equal(late.wmintEarned, Math.round(calculateWordReward('normal', 0, 1) * RELAXED_REWARD_FACTOR));
+
+  await setUp();
+  const fast = await answerAfter('normal', 0, true);
+  assert.equal(fast.speedMultiplier, undefined);
+});
+
+Deno.test('speed: the multiplier steps down at a quarter and half of the time limit', () => {
+  assert.deepEqual(SPEED_BONUSES.map(bonus => bonus.multiplier), [1.5, 1.25]);
+
+  assert.equal(getSpeedMultiplier(0, 30), 1.5);
+  assert.equal(getSpeedMultiplier(7_500, 30), 1.5);
+  assert.equal(getSpeedMultiplier(7_501, 30), 1.25);
+  assert.equal(getSpeedMultiplier(15_000, 30), 1.25);
+  assert.equal(getSpeedMultiplier(15_001, 30), 1);
+  assert.equal(getSpeedMultiplier(60_000, 30), 1);
+});
+
+Deno.test('speed: fast correct answers are paid the multiplier on the base reward', async () => {
+  const cases = [
+    { elapsedMs: 1_000, multiplier: 1.5 },
+    { elapsedMs: 12_000, multiplier: 1.25 },
+    { elapsedMs: 20_000, multiplier: 1 },
+  ];
+
+  for (const { elapsedMs, multiplier } of cases) {
+    await setUp();
+    const round = await answerAfter('normal', elapsedMs);
+
+    assert.equal(round.correct, true);
+    assert.equal(round.speedMultiplier ?? 1, multiplier);
+    assert.equal(round.wmintEarned, calculateWordReward('normal', 0, 1, multiplier));
+    assert.ok(round.answerMs! >= elapsedMs);
+  }
+});
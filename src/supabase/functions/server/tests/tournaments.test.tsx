@@ -0,0 +1,91 @@
+/**
+ * TOURNAMENTS
+ *
+ * Every match of a tournament stage plays the same words, so nothing a
+ * player buys in one game may reveal them to the rest of the bracket.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { buyHint, startSession } from '../game-session.tsx';
+import type { Tournament } from '../tournaments.tsx';
+import { BUILT_IN_PACK_ID, getBuiltInPack } from '../../../../utils/word-packs.ts';
+
+const PLAYER = 'tournament-player';
+const OTHER = 'tournament-other';
+
+function createTournament(): Tournament {
+  const pack = getBuiltInPack();
+  const now = new Date();
+  return {
+    id: 'test-tournament',
+    name: 'Test Cup',
+    packId: BUILT_IN_PACK_ID,
+    packName: pack.name,
+    difficulty: 'normal',
+    words: pack.tiers.normal!,
+    prizePool: 0,
+    prizeSplit: [100],
+    maxPlayers: 2,
+    startsAt: now.toISOString(),
+    endsAt: new Date(now.getTime() + 60 * 60 * 1000).toISOString(),
+    createdBy: 'admin',
+    createdAt: now.toISOString(),
+    entrants: [PLAYER, OTHER].map(walletAddress => ({ walletAddress, registeredAt: now.toISOString() })),
+    seeds: [PLAYER, OTHER],
+  };
+}
+
+async function setUp() {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+
+  for (const walletAddress of [PLAYER, OTHER]) {
+    await kv.set(`player:${walletAddress}`, {
+      walletAddress,
+      score: 100,
+      totalWmintEarned: 0,
+      streak: 0,
+      maxStreak: 0,
+      level: 1,
+      gamesPlayed: 0,
+    });
+  }
+}
+
+Deno.test('tournament: players of a stage share its words', async () => {
+  await setUp();
+  const tournament = createTournament();
+
+  const [first, second] = await Promise.all(
+    [PLAYER, OTHER].map(walletAddress =>
+      startSession(walletAddress, tournament.difficulty, getBuiltInPack(), false, false, { tournament, stage: 0 })
+    )
+  );
+
+  assert.deepEqual(
+    first.session!.rounds.map(round => round.word),
+    second.session!.rounds.map(round => round.word)
+  );
+});
+
+Deno.test('tournament: hints are refused and cost nothing', async () => {
+  await setUp();
+  const tournament = createTournament();
+  const { session } = await startSession(PLAYER, tournament.difficulty, getBuiltInPack(), false, false, {
+    tournament,
+    stage: 0,
+  });
+
+  for (const type of ['first-letter', 'slow-replay'] as const) {
+    const result = await buyHint(session!.id, PLAYER, type);
+    assert.equal(result.success, false);
+    assert.equal(result.status, 403);
+    assert.match(result.error!, /not available in tournament games/);
+  }
+
+  assert.equal((await kv.get(`player:${PLAYER}`)).score, 100);
+});
@@ -0,0 +1,122 @@
+/**
+ * WORD PACKS
+ *
+ * The built-in pack feeds adaptive games and the mixed-tier daily set, which
+ * draw from every tier at once, so no word may appear in two tiers.
+ * Uploaded packs pay nothing until an admin approves them.
+ */
+
+import assert from 'node:assert/strict';
+import * as kv from '../storage/index.tsx';
+import { createMemoryStore } from '../storage/memory.tsx';
+import { useChain } from '../chain/index.tsx';
+import { createFakeChain } from '../chain/fake.tsx';
+import { approveWordPack, createWordPack, getWordPack } from '../word-packs.tsx';
+import { answerSession, startNextRound, startSession } from '../game-session.tsx';
+import { getBuiltInPack, validateWordPack } from '../../../../utils/word-packs.ts';
+import { WORD_TIERS, getWordList } from '../../../../utils/word-lists.ts';
+
+const UPLOADER = 'uploader-wallet';
+const ADMIN = 'admin-wallet';
+
+const EASY_WORDS_AS_HARD = JSON.stringify({
+  name: 'Three Letters',
+  tiers: { hard: ['cat', 'dog', 'sun', 'hat', 'pen'] },
+});
+
+async function addPlayer(walletAddress: string) {
+  await kv.set(`player:${walletAddress}`, {
+    walletAddress,
+    score: 0,
+    totalWmintEarned: 0,
+    streak: 0,
+    maxStreak: 0,
+    level: 1,
+    gamesPlayed: 0,
+  });
+}
+
+// Play a whole hard game on the pack, spelling every word right
+async function playPerfectGame(walletAddress: string, packId: string) {
+  const started = await startSession(walletAddress, 'hard', (await getWordPack(packId))!);
+  assert.equal(started.success, true);
+
+  let session = started.session!;
+  while (session.status === 'active') {
+    if (session.currentRound > 0) {
+      session = (await startNextRound(session.id, walletAddress)).session!;
+    }
+    const answered = await answerSession(session.id, walletAddress, session.rounds[session.currentRound].word);
+    assert.equal(answered.success, true);
+    session = answered.session!;
+  }
+
+  return { session, player: await kv.get(`player:${walletAddress}`) };
+}
+
+Deno.test('built-in pack: every word appears in exactly one tier', () => {
+  const words = WORD_TIERS.flatMap(tier => (getBuiltInPack().tiers[tier] || []).map(entry => entry.word));
+
+  assert.equal(new Set(words).size, words.length);
+});
+
+Deno.test('built-in pack: a word listed in several tiers stays in the first', () => {
+  const pack = getBuiltInPack();
+  const [first, ...later] = WORD_TIERS;
+  const shared = getWordList(first).find(word => later.some(tier => getWordList(tier).includes(word)));
+
+  // Nothing to check once the compiled lists no longer overlap
+  if (!shared) {
+    return;
+  }
+
+  assert.ok(pack.tiers[first]!.some(entry => entry.word === shared));
+  for (const tier of later) {
+    assert.ok(!pack.tiers[tier]!.some(entry => entry.word === shared));
+  }
+});
+
+Deno.test('built-in pack: passes the same validation as an upload', () => {
+  const pack = getBuiltInPack();
+  const validation = validateWordPack({ name: pack.name, description: pack.description, tiers: pack.tiers });
+
+  assert.deepEqual(validation.errors, []);
+  assert.deepEqual(validation.warnings, []);
+});
+
+Deno.test('uploaded pack: games pay nothing and leave the stats alone until approved', async () => {
+  kv.useStore(createMemoryStore());
+  useChain(createFakeChain());
+  await addPlayer(UPLOADER);
+
+  const { pack } = await createWordPack(UPLOADER, 'json', EASY_WORDS_AS_HARD, {});
+  const unapproved = await playPerfectGame(UPLOADER, pack!.id);
+
+  assert.ok(unapproved.session.rounds.every(round => round.unrewarded && round.wmintEarned === 0));
+  assert.equal(unapproved.player.score, 0);
+  assert.equal(unapproved.player.streak, 0);
+  assert.equal(unapproved.player.gamesPlayed, 0);
+
+  const approval = await approveWordPack(pack!.id, ADMIN);
+  assert.equal(approval.success, true);
+  assert.equal(approval.pack?.approvedBy, ADMIN);
+
+  const approved = await playPerfectGame(UPLOADER, pack!.id);
+
+  assert.ok(approved.session.rounds.every(round => !round.unrewarded && round.wmintEarned! > 0));
+  assert.ok(approved.player.score > 0);
+  assert.equal(approved.player.streak, 5);
+  assert.equal(approved.player.gamesPlayed, 1);
+});
+
+Deno.test('uploaded pack: approving twice keeps the first approval', async () => {
+  kv.useStore(createMemoryStore());
+  const { pack } = await createWordPack(UPLOADER, 'json', EASY_WORDS_AS_HARD, {});
+
+  const first = await approveWordPack(pack!.id, ADMIN);
+  const second = await approveWordPack(pack!.id, 'another-admin');
+
+  assert.equal(second.pack?.approvedBy, ADMIN);
+  assert.equal(second.pack?.approvedAt, first.pack?.approvedAt);
+  assert.equal((await approveWordPack('missing-pack', ADMIN)).status, 404);
+});
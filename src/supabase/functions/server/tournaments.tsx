@@ -0,0 +1,970 @@
+/**
+ * TOURNAMENTS
+ *
+ * Scheduled single-elimination tournaments. An admin sets the schedule, the
+ * word pack tier and the prize pool; players register with their wallet until
+ * the tournament starts, when registration closes and the entrants are seeded
+ * by all-time WMINT earned (earliest registration breaks ties). Missing slots
+ * in the bracket are byes for the top seeds.
+ *
+ * The time between start and end is split evenly into one window per round of
+ * the bracket. In its round's window each player still in plays one regular
+ * server-graded game (see game-session.tsx) on words seeded for that round, so
+ * both players of a match get the same words. A match is decided once both
+ * players have finished, or STAGE_GRACE_MS after the window closes: most words
+ * correct wins, then the lower total answer time, and a finished game beats
+ * one that was never played. Anything still level goes to the higher seed.
+ *
+ * The bracket is never stored; it is worked out from the seeds and results on
+ * every read, so there is nothing to advance on a schedule.
+ *
+ * Once the final is decided, the payout job mints each place's share of the
+ * prize pool with mintTokensToPlayer, a batch at a time. Payout records follow
+ * the same write-the-signature-first pattern as claims.tsx, so a payout is
+ * never minted twice and confirmed payouts count towards the leaderboard.
+ */
+
+import * as kv from './storage/index.tsx';
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import { WordTier, pickRandom } from '../../../utils/word-lists.ts';
+import { WordPackEntry } from '../../../utils/word-packs.ts';
+import {
+  TournamentStatus,
+  TournamentTurnState,
+  TOURNAMENT_SIZES,
+  TOURNAMENT_TIERS,
+  DEFAULT_TOURNAMENT_SIZE,
+  DEFAULT_PRIZE_SPLIT,
+  MIN_TOURNAMENT_STAGE_MINUTES,
+  getBracketSize,
+  getStageCount,
+  getStageName,
+  splitPrizePool,
+  isValidPrizeSplit,
+} from '../../../utils/tournaments.ts';
+import { getSeededRandom } from './seeded-random.tsx';
+import { getWordPack } from './word-packs.tsx';
+import {
+  mintTokensToPlayer,
+  getSignatureStatus,
+  getCurrentBlockHeight,
+} from './solana-token.tsx';
+import { recordAchievements } from './achievements.tsx';
+import { addSeasonScore } from './seasons.tsx';
+import type { GameSummary } from './game-session.tsx';
+
+// Games still finishing when their round's window closes are counted for this long after
+const STAGE_GRACE_MS = 5 * 60 * 1000;
+
+// Prize mints sent per payout run, to stay well inside the function time limit
+const PAYOUT_BATCH_SIZE = 20;
+
+// Payouts left mid-submission (before signing) by a crashed run are retried after this
+const STUCK_PAYOUT_AFTER_MS = 2 * 60 * 1000;
+
+const MAX_PRIZE_POOL = 1_000_000;
+const MAX_NAME_LENGTH = 60;
+
+export interface TournamentEntrant {
+  walletAddress: string;
+  registeredAt: string;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  packId: string;
+  packName: string;
+  difficulty: WordTier;
+  // The tier's words when the tournament was created, so pack edits and deletes don't affect it
+  words: WordPackEntry[];
+  prizePool: number; // WMINT
+  prizeSplit: number[]; // Percent of the pool per finishing place
+  maxPlayers: number;
+  startsAt: string;
+  endsAt: string;
+  createdBy: string;
+  createdAt: string;
+  entrants: TournamentEntrant[];
+  seeds?: string[]; // Wallets in seed order, fixed when the tournament starts
+  paidAt?: string; // Every prize confirmed
+}
+
+/**
+ * One player's game in one round, claimed when the game starts
+ */
+export interface TournamentGameResult {
+  tournamentId: string;
+  stage: number;
+  walletAddress: string;
+  sessionId: string;
+  startedAt: string;
+  completedAt?: string;
+  correctCount?: number;
+  totalAnswerMs?: number;
+}
+
+export type TournamentPayoutStatus = 'pending' | 'submitting' | 'submitted' | 'confirmed';
+
+export interface TournamentPayout {
+  tournamentId: string;
+  walletAddress: string;
+  place: number;
+  amount: number;
+  status: TournamentPayoutStatus;
+  attempts: number;
+  signature?: string;
+  lastValidBlockHeight?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BracketPlayer {
+  walletAddress: string;
+  seed: number;
+  played: boolean; // Started this round's game
+  correctCount: number | null; // Null until the game is finished
+  totalAnswerMs: number | null;
+}
+
+export interface BracketMatch {
+  players: (BracketPlayer | null)[]; // Null for a bye, or a player not known yet
+  winner: string | null;
+  decided: boolean;
+}
+
+export interface BracketStage {
+  stage: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  matches: BracketMatch[];
+}
+
+export interface TournamentStanding {
+  place: number;
+  walletAddress: string;
+  seed: number;
+  prize: number;
+}
+
+/**
+ * Where a player stands, and which round's game they may play now
+ */
+export interface TournamentTurn {
+  state: TournamentTurnState;
+  stage: number | null;
+}
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  packName: string;
+  difficulty: WordTier;
+  prizePool: number;
+  maxPlayers: number;
+  entrantCount: number;
+  startsAt: string;
+  endsAt: string;
+  status: TournamentStatus;
+}
+
+/**
+ * What anyone may see of a tournament: everything but the words
+ */
+export interface TournamentView extends TournamentSummary {
+  packId: string;
+  prizeSplit: number[];
+  prizes: number[]; // WMINT per finishing place
+  entrants: TournamentEntrant[];
+  stages: BracketStage[];
+  standings: TournamentStanding[];
+  payouts: { walletAddress: string; place: number; amount: number; status: TournamentPayoutStatus }[];
+  paidAt: string | null;
+  turn: TournamentTurn | null; // For the wallet asked about
+}
+
+export interface TournamentResponse {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  tournament?: Tournament;
+}
+
+interface TournamentState {
+  tournament: Tournament;
+  status: TournamentStatus;
+  stages: BracketStage[];
+  standings: TournamentStanding[];
+}
+
+function tournamentKey(tournamentId: string): string {
+  return `tournament:${tournamentId}`;
+}
+
+function resultKey(tournamentId: string, stage: number, walletAddress: string): string {
+  return `tournament-result:${tournamentId}:${stage}:${walletAddress}`;
+}
+
+function payoutKey(tournamentId: string, walletAddress: string): string {
+  return `tournament-payout:${tournamentId}:${walletAddress}`;
+}
+
+function getStageWindow(tournament: Tournament, stage: number, stageCount: number): { startsAt: number; endsAt: number } {
+  const start = new Date(tournament.startsAt).getTime();
+  const length = (new Date(tournament.endsAt).getTime() - start) / stageCount;
+  return { startsAt: start + stage * length, endsAt: start + (stage + 1) * length };
+}
+
+/**
+ * Seeds in bracket order, so the top seeds can only meet in the late rounds:
+ * [1, 2] -> [1, 4, 2, 3] -> [1, 8, 4, 5, 2, 7, 3, 6] ...
+ */
+function getSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, next - seed]);
+  }
+  return order;
+}
+
+/**
+ * Negative when `a` did better: a finished game first, then most correct,
+ * then fastest, then the higher seed
+ */
+function compareBracketPlayers(a: BracketPlayer, b: BracketPlayer): number {
+  const aFinished = a.correctCount !== null;
+  const bFinished = b.correctCount !== null;
+  if (aFinished !== bFinished) {
+    return aFinished ? -1 : 1;
+  }
+
+  if (aFinished) {
+    const difference = b.correctCount! - a.correctCount! || a.totalAnswerMs! - b.totalAnswerMs!;
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return a.seed - b.seed;
+}
+
+/**
+ * Work out every round of the bracket from the seeds and results so far
+ */
+function buildBracket(
+  tournament: Tournament,
+  results: Map<string, TournamentGameResult>,
+  now: number
+): BracketStage[] {
+  const seeds = tournament.seeds || [];
+  if (seeds.length < 2) {
+    return [];
+  }
+
+  const stageCount = getStageCount(seeds.length);
+
+  // Players going into the round: null for a bye, undefined while their previous match is undecided
+  type Slot = { walletAddress: string; seed: number } | null | undefined;
+  let slots: Slot[] = getSeedOrder(getBracketSize(seeds.length)).map(seed =>
+    seed <= seeds.length ? { walletAddress: seeds[seed - 1], seed } : null
+  );
+
+  const stages: BracketStage[] = [];
+  for (let stage = 0; stage < stageCount; stage++) {
+    const window = getStageWindow(tournament, stage, stageCount);
+    const windowClosed = now >= window.endsAt + STAGE_GRACE_MS;
+    const matches: BracketMatch[] = [];
+    const advancing: Slot[] = [];
+
+    for (let index = 0; index < slots.length; index += 2) {
+      const pair = [slots[index], slots[index + 1]];
+      const players: (BracketPlayer | null)[] = pair.map(slot => {
+        if (!slot) {
+          return null;
+        }
+        const result = results.get(`${stage}:${slot.walletAddress}`);
+        return {
+          ...slot,
+          played: !!result,
+          correctCount: result?.completedAt ? result.correctCount! : null,
+          totalAnswerMs: result?.completedAt ? result.totalAnswerMs! : null,
+        };
+      });
+
+      let decided = false;
+      let winner: Slot = undefined;
+      if (pair.every(slot => slot !== undefined)) {
+        if (!players[0] || !players[1]) {
+          // A bye
+          decided = true;
+          winner = pair[0] || pair[1];
+        } else if (windowClosed || players.every(player => player!.correctCount !== null)) {
+          decided = true;
+          winner = compareBracketPlayers(players[0], players[1]) <= 0 ? pair[0] : pair[1];
+        }
+      }
+
+      matches.push({ players, winner: winner?.walletAddress ?? null, decided });
+      advancing.push(decided ? winner : undefined);
+    }
+
+    stages.push({
+      stage,
+      name: getStageName(stage, stageCount),
+      startsAt: new Date(window.startsAt).toISOString(),
+      endsAt: new Date(window.endsAt).toISOString(),
+      matches,
+    });
+    slots = advancing;
+  }
+
+  return stages;
+}
+
+/**
+ * Final places once the final is decided: the champion, the runner-up, then the
+ * losers of each earlier round, ranked against each other by their losing game
+ */
+function getStandings(tournament: Tournament, stages: BracketStage[]): TournamentStanding[] {
+  const final = stages[stages.length - 1]?.matches[0];
+  if (!final?.decided || !final.winner) {
+    return [];
+  }
+
+  const champion = final.players.find(player => player?.walletAddress === final.winner)!;
+  const ranked: BracketPlayer[] = [champion];
+  for (let stage = stages.length - 1; stage >= 0; stage--) {
+    const losers = stages[stage].matches
+      .flatMap(match => match.players.filter(player => player && player.walletAddress !== match.winner))
+      .filter((player): player is BracketPlayer => !!player)
+      .sort(compareBracketPlayers);
+    ranked.push(...losers);
+  }
+
+  const prizes = splitPrizePool(tournament.prizePool, tournament.prizeSplit);
+  return ranked.map((player, index) => ({
+    place: index + 1,
+    walletAddress: player.walletAddress,
+    seed: player.seed,
+    prize: prizes[index] || 0,
+  }));
+}
+
+async function getResults(tournamentId: string): Promise<Map<string, TournamentGameResult>> {
+  const results: TournamentGameResult[] = await kv.getByPrefix(`tournament-result:${tournamentId}:`);
+  return new Map(results.map(result => [`${result.stage}:${result.walletAddress}`, result]));
+}
+
+/**
+ * Fix the seeds of a tournament that has started: highest all-time WMINT earned first
+ */
+async function seedTournament(tournament: Tournament): Promise<Tournament> {
+  const players = await Promise.all(
+    tournament.entrants.map(entrant => kv.get(`player:${entrant.walletAddress}`))
+  );
+  const earned = new Map(
+    tournament.entrants.map((entrant, index) => [entrant.walletAddress, players[index]?.totalWmintEarned || 0])
+  );
+
+  const seeds = [...tournament.entrants]
+    .sort((a, b) =>
+      earned.get(b.walletAddress)! - earned.get(a.walletAddress)! ||
+      a.registeredAt.localeCompare(b.registeredAt)
+    )
+    .map(entrant => entrant.walletAddress);
+
+  const seeded = await kv.update(tournamentKey(tournament.id), (current: Tournament | undefined) =>
+    current && !current.seeds ? { ...current, seeds } : null
+  );
+
+  console.log(`🏆 Seeded tournament ${tournament.id} with ${seeds.length} players`);
+
+  return seeded ?? (await kv.get(tournamentKey(tournament.id)));
+}
+
+/**
+ * Get a tournament, seeding it first if it has just started
+ */
+export async function getTournament(tournamentId: string): Promise<Tournament | undefined> {
+  const tournament: Tournament | undefined = await kv.get(tournamentKey(tournamentId));
+
+  if (
+    tournament &&
+    !tournament.seeds &&
+    tournament.entrants.length >= 2 &&
+    Date.now() >= new Date(tournament.startsAt).getTime()
+  ) {
+    return seedTournament(tournament);
+  }
+
+  return tournament;
+}
+
+async function getTournamentState(tournament: Tournament, now = Date.now()): Promise<TournamentState> {
+  if (now < new Date(tournament.startsAt).getTime()) {
+    return { tournament, status: 'registration', stages: [], standings: [] };
+  }
+
+  if (tournament.entrants.length < 2) {
+    return { tournament, status: 'cancelled', stages: [], standings: [] };
+  }
+
+  const stages = buildBracket(tournament, await getResults(tournament.id), now);
+  const standings = getStandings(tournament, stages);
+
+  return { tournament, status: standings.length > 0 ? 'finished' : 'live', stages, standings };
+}
+
+/**
+ * A player's place in the bracket: walks their matches from the first round
+ * until they lose, win the final or reach a match still undecided
+ */
+function getTurn(state: TournamentState, walletAddress: string, now: number): TournamentTurn {
+  const { tournament, status, stages } = state;
+
+  if (!tournament.entrants.some(entrant => entrant.walletAddress === walletAddress)) {
+    return { state: 'unregistered', stage: null };
+  }
+
+  if (status === 'registration' || status === 'cancelled') {
+    return { state: status === 'registration' ? 'registered' : 'cancelled', stage: null };
+  }
+
+  for (const { stage, startsAt, endsAt, matches } of stages) {
+    const match = matches.find(candidate =>
+      candidate.players.some(player => player?.walletAddress === walletAddress)
+    );
+    if (!match) {
+      break;
+    }
+
+    const player = match.players.find(candidate => candidate?.walletAddress === walletAddress)!;
+
+    if (match.decided) {
+      if (match.winner !== walletAddress) {
+        return { state: 'eliminated', stage };
+      }
+      continue;
+    }
+
+    if (player.played) {
+      return { state: 'played', stage };
+    }
+    if (now < new Date(startsAt).getTime()) {
+      return { state: 'waiting', stage };
+    }
+    return { state: now < new Date(endsAt).getTime() ? 'ready' : 'missed', stage };
+  }
+
+  return { state: 'champion', stage: null };
+}
+
+function toTournamentSummary(state: TournamentState): TournamentSummary {
+  const { tournament } = state;
+  return {
+    id: tournament.id,
+    name: tournament.name,
+    packName: tournament.packName,
+    difficulty: tournament.difficulty,
+    prizePool: tournament.prizePool,
+    maxPlayers: tournament.maxPlayers,
+    entrantCount: tournament.entrants.length,
+    startsAt: tournament.startsAt,
+    endsAt: tournament.endsAt,
+    status: state.status,
+  };
+}
+
+/**
+ * List every tournament: open and live ones soonest first, then past ones newest first
+ */
+export async function listTournaments(): Promise<TournamentSummary[]> {
+  const tournaments: Tournament[] = await kv.getByPrefix('tournament:');
+  const summaries = await Promise.all(
+    tournaments.map(async tournament => toTournamentSummary(await getTournamentState(tournament)))
+  );
+
+  const isOver = (summary: TournamentSummary) => summary.status === 'finished' || summary.status === 'cancelled';
+  return summaries.sort((a, b) =>
+    Number(isOver(a)) - Number(isOver(b)) ||
+    (isOver(a) ? b.startsAt.localeCompare(a.startsAt) : a.startsAt.localeCompare(b.startsAt))
+  );
+}
+
+/**
+ * A tournament with its bracket, standings and payouts, and where `walletAddress` stands
+ */
+export async function getTournamentView(
+  tournamentId: string,
+  walletAddress?: string
+): Promise<TournamentView | undefined> {
+  const tournament = await getTournament(tournamentId);
+  if (!tournament) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const state = await getTournamentState(tournament, now);
+  const payouts: TournamentPayout[] = await kv.getByPrefix(`tournament-payout:${tournamentId}:`);
+
+  return {
+    ...toTournamentSummary(state),
+    packId: tournament.packId,
+    prizeSplit: tournament.prizeSplit,
+    prizes: splitPrizePool(tournament.prizePool, tournament.prizeSplit),
+    entrants: tournament.entrants,
+    stages: state.stages,
+    standings: state.standings,
+    payouts: payouts
+      .sort((a, b) => a.place - b.place)
+      .map(({ walletAddress, place, amount, status }) => ({ walletAddress, place, amount, status })),
+    paidAt: tournament.paidAt ?? null,
+    turn: walletAddress ? getTurn(state, walletAddress, now) : null,
+  };
+}
+
+/**
+ * Create a tournament from an admin's request, validating every field
+ */
+export async function createTournament(
+  createdBy: string,
+  input: Record<string, any>,
+  wordsPerGame: number
+): Promise<TournamentResponse> {
+  const {
+    name,
+    packId,
+    difficulty,
+    prizePool = 0,
+    prizeSplit = DEFAULT_PRIZE_SPLIT,
+    maxPlayers = DEFAULT_TOURNAMENT_SIZE,
+    startsAt,
+    endsAt,
+  } = input;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { success: false, status: 400, error: `Name must be 1-${MAX_NAME_LENGTH} characters` };
+  }
+
+  if (!TOURNAMENT_TIERS.includes(difficulty)) {
+    return { success: false, status: 400, error: 'Difficulty must be easy, normal or hard' };
+  }
+
+  if (!Number.isInteger(prizePool) || prizePool < 0 || prizePool > MAX_PRIZE_POOL) {
+    return { success: false, status: 400, error: `Prize pool must be a whole number from 0 to ${MAX_PRIZE_POOL}` };
+  }
+
+  if (!isValidPrizeSplit(prizeSplit)) {
+    return { success: false, status: 400, error: 'Prize split must be whole percentages adding up to 100' };
+  }
+
+  if (!TOURNAMENT_SIZES.includes(maxPlayers)) {
+    return { success: false, status: 400, error: `Max players must be one of ${TOURNAMENT_SIZES.join(', ')}` };
+  }
+
+  if (prizeSplit.length > maxPlayers) {
+    return { success: false, status: 400, error: 'Prize split has more places than players' };
+  }
+
+  const start = new Date(startsAt).getTime();
+  const end = new Date(endsAt).getTime();
+  if (typeof startsAt !== 'string' || typeof endsAt !== 'string' || isNaN(start) || isNaN(end)) {
+    return { success: false, status: 400, error: 'Start and end times are required' };
+  }
+
+  if (start <= Date.now()) {
+    return { success: false, status: 400, error: 'Start time must be in the future' };
+  }
+
+  // Even a full bracket needs every round's window to be long enough to play in
+  const minLength = getStageCount(maxPlayers) * MIN_TOURNAMENT_STAGE_MINUTES * 60 * 1000;
+  if (end - start < minLength) {
+    return {
+      success: false,
+      status: 400,
+      error: `A ${maxPlayers}-player tournament needs at least ${minLength / 60000} minutes between start and end`
+    };
+  }
+
+  const pack = typeof packId === 'string' ? await getWordPack(packId) : undefined;
+  if (!pack) {
+    return { success: false, status: 404, error: 'Word pack not found' };
+  }
+
+  const words = pack.tiers[difficulty as WordTier] || [];
+  if (words.length < wordsPerGame) {
+    return { success: false, status: 400, error: `This pack has too few ${difficulty} words` };
+  }
+
+  const tournament: Tournament = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    packId: pack.id,
+    packName: pack.name,
+    difficulty,
+    words,
+    prizePool,
+    prizeSplit,
+    maxPlayers,
+    startsAt: new Date(start).toISOString(),
+    endsAt: new Date(end).toISOString(),
+    createdBy,
+    createdAt: new Date().toISOString(),
+    entrants: [],
+  };
+
+  await kv.set(tournamentKey(tournament.id), tournament);
+
+  console.log(`🏆 Tournament ${tournament.id} "${tournament.name}" created by ${createdBy}`);
+
+  return { success: true, tournament };
+}
+
+/**
+ * Register a player, until the tournament starts or fills up
+ */
+export async function registerForTournament(
+  tournamentId: string,
+  walletAddress: string
+): Promise<TournamentResponse> {
+  let failure = undefined as { status: ContentfulStatusCode; error: string } | undefined;
+
+  const registered = await kv.update(tournamentKey(tournamentId), (tournament: Tournament | undefined) => {
+    failure = undefined;
+
+    if (!tournament) {
+      failure = { status: 404, error: 'Tournament not found' };
+      return null;
+    }
+
+    if (Date.now() >= new Date(tournament.startsAt).getTime()) {
+      failure = { status: 409, error: 'Registration has closed' };
+      return null;
+    }
+
+    if (tournament.entrants.some(entrant => entrant.walletAddress === walletAddress)) {
+      failure = { status: 409, error: "You're already registered" };
+      return null;
+    }
+
+    if (tournament.entrants.length >= tournament.maxPlayers) {
+      failure = { status: 409, error: 'This tournament is full' };
+      return null;
+    }
+
+    return {
+      ...tournament,
+      entrants: [...tournament.entrants, { walletAddress, registeredAt: new Date().toISOString() }],
+    };
+  });
+
+  if (!registered) {
+    return { success: false, ...(failure || { status: 409, error: 'Registration failed, please retry' }) };
+  }
+
+  return { success: true, tournament: registered };
+}
+
+/**
+ * The round a player may play right now, or why they can't
+ */
+export async function getPlayableStage(
+  tournament: Tournament,
+  walletAddress: string
+): Promise<{ stage?: number; status?: ContentfulStatusCode; error?: string }> {
+  const now = Date.now();
+  const turn = getTurn(await getTournamentState(tournament, now), walletAddress, now);
+
+  switch (turn.state) {
+    case 'ready':
+      return { stage: turn.stage! };
+    case 'unregistered':
+      return { status: 403, error: "You're not registered for this tournament" };
+    case 'registered':
+      return { status: 409, error: "The tournament hasn't started yet" };
+    case 'waiting':
+      return { status: 409, error: "Your next round hasn't opened yet" };
+    case 'played':
+      return { status: 409, error: "You've already played this round" };
+    case 'missed':
+      return { status: 409, error: 'This round has closed' };
+    default:
+      return { status: 409, error: 'You have no rounds left to play' };
+  }
+}
+
+/**
+ * A round's words: the same for every player in that round
+ */
+export async function getTournamentPicks(
+  tournament: Tournament,
+  stage: number,
+  count: number
+): Promise<{ entry: WordPackEntry; tier: WordTier }[]> {
+  const random = await getSeededRandom(`tournament:${tournament.id}:${stage}`);
+  return pickRandom(tournament.words, count, random).map(entry => ({ entry, tier: tournament.difficulty }));
+}
+
+/**
+ * Claim a player's game for a round
+ * Returns false if they have already started one.
+ */
+export async function claimTournamentGame(
+  tournamentId: string,
+  stage: number,
+  walletAddress: string,
+  sessionId: string
+): Promise<boolean> {
+  const result: TournamentGameResult = {
+    tournamentId,
+    stage,
+    walletAddress,
+    sessionId,
+    startedAt: new Date().toISOString(),
+  };
+  return kv.compareAndSet(resultKey(tournamentId, stage, walletAddress), undefined, result);
+}
+
+/**
+ * Fill in a finished round game, unless it finished too late to count
+ */
+export async function recordTournamentResult(
+  tournamentId: string,
+  stage: number,
+  walletAddress: string,
+  summary: GameSummary
+): Promise<void> {
+  const tournament: Tournament | undefined = await kv.get(tournamentKey(tournamentId));
+  if (!tournament?.seeds) {
+    return;
+  }
+
+  const window = getStageWindow(tournament, stage, getStageCount(tournament.seeds.length));
+  if (Date.now() >= window.endsAt + STAGE_GRACE_MS) {
+    console.log(`⏰ Tournament ${tournamentId} round ${stage + 1} game by ${walletAddress} finished too late`);
+    return;
+  }
+
+  await kv.update(resultKey(tournamentId, stage, walletAddress), (result: TournamentGameResult | undefined) => {
+    if (!result || result.completedAt) {
+      return null;
+    }
+
+    return {
+      ...result,
+      completedAt: new Date().toISOString(),
+      correctCount: summary.correctCount,
+      totalAnswerMs: summary.rounds.reduce((total, round) => total + (round.answerMs || 0), 0),
+    };
+  });
+}
+
+async function transitionPayout(
+  payout: TournamentPayout,
+  status: TournamentPayoutStatus,
+  changes: Partial<TournamentPayout> = {}
+): Promise<TournamentPayout> {
+  const updated: TournamentPayout = {
+    ...payout,
+    ...changes,
+    status,
+    updatedAt: new Date().toISOString(),
+  };
+  if (!(await kv.compareAndSet(payoutKey(payout.tournamentId, payout.walletAddress), payout, updated))) {
+    throw new Error(`Payout ${payout.tournamentId}:${payout.walletAddress} was updated concurrently`);
+  }
+  return updated;
+}
+
+/**
+ * Mark a payout confirmed and count it in the player's all-time total and seasons
+ */
+async function confirmPayout(payout: TournamentPayout): Promise<TournamentPayout> {
+  const confirmed = await transitionPayout(payout, 'confirmed', { error: undefined });
+  const updatedPlayer = await kv.update(`player:${payout.walletAddress}`, (player: any) =>
+    player
+      ? {
+          ...player,
+          totalWmintEarned: (player.totalWmintEarned || 0) + payout.amount,
+          lastUpdated: new Date().toISOString()
+        }
+      : null
+  );
+  console.log(`✅ Tournament ${payout.tournamentId}: ${payout.amount} WMINT confirmed for ${payout.walletAddress}`);
+
+  if (updatedPlayer) {
+    try {
+      await addSeasonScore(updatedPlayer, payout.amount);
+    } catch (error) {
+      console.log(`Error updating season score: ${error}`);
+    }
+
+    try {
+      await recordAchievements(updatedPlayer, 'tournament', payout.tournamentId);
+    } catch (error) {
+      console.log(`Error recording achievements: ${error}`);
+    }
+  }
+
+  return confirmed;
+}
+
+/**
+ * Settle a submitted payout against the chain; failed and expired ones go back to pending
+ */
+async function reconcilePayout(payout: TournamentPayout): Promise<TournamentPayout> {
+  if (payout.status === 'submitted' && payout.signature) {
+    const status = await getSignatureStatus(payout.signature);
+
+    if (status?.confirmed) {
+      return confirmPayout(payout);
+    }
+
+    if (status?.failed) {
+      return transitionPayout(payout, 'pending', { error: 'Transaction failed on-chain' });
+    }
+
+    if (!status && payout.lastValidBlockHeight !== undefined) {
+      const blockHeight = await getCurrentBlockHeight();
+      if (blockHeight > payout.lastValidBlockHeight) {
+        return transitionPayout(payout, 'pending', { error: 'Transaction expired' });
+      }
+    }
+  }
+
+  // Never signed, so never sent: safe to try again
+  if (payout.status === 'submitting') {
+    const age = Date.now() - new Date(payout.updatedAt).getTime();
+    if (age > STUCK_PAYOUT_AFTER_MS) {
+      return transitionPayout(payout, 'pending', { error: 'Payout abandoned before submission' });
+    }
+  }
+
+  return payout;
+}
+
+/**
+ * Mint a pending payout, recording the signature before the transaction is sent
+ */
+async function sendPayout(payout: TournamentPayout): Promise<TournamentPayout> {
+  let current = await transitionPayout(payout, 'submitting', { attempts: payout.attempts + 1 });
+
+  console.log(`🪙 Tournament ${payout.tournamentId}: minting ${payout.amount} WMINT to ${payout.walletAddress}`);
+  const result = await mintTokensToPlayer(payout.walletAddress, payout.amount, async (signed) => {
+    current = await transitionPayout(current, 'submitted', {
+      signature: signed.signature,
+      lastValidBlockHeight: signed.lastValidBlockHeight,
+    });
+  });
+
+  if (result.success) {
+    return confirmPayout(current);
+  }
+
+  if (current.status === 'submitted') {
+    // The transaction may still land; the next run reconciles it
+    console.log(`⚠️ Tournament payout unconfirmed: ${result.error}`);
+    return current;
+  }
+
+  console.log(`❌ Tournament payout failed before submission: ${result.error}`);
+  return transitionPayout(current, 'pending', { error: result.error });
+}
+
+/**
+ * Create the payout records for a finished tournament's prize places
+ * Create-only, so a place is never paid twice.
+ */
+async function createPayouts(state: TournamentState): Promise<void> {
+  const now = new Date().toISOString();
+  for (const standing of state.standings) {
+    if (standing.prize <= 0) {
+      continue;
+    }
+
+    const payout: TournamentPayout = {
+      tournamentId: state.tournament.id,
+      walletAddress: standing.walletAddress,
+      place: standing.place,
+      amount: standing.prize,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await kv.compareAndSet(payoutKey(payout.tournamentId, payout.walletAddress), undefined, payout);
+  }
+}
+
+/**
+ * PAYOUT JOB: pay the prizes of finished tournaments, up to PAYOUT_BATCH_SIZE mints per run
+ * Reconciles earlier mints first and marks a tournament paid once all its payouts are confirmed.
+ */
+export async function processTournamentPayouts(): Promise<{
+  tournaments: number;
+  minted: number;
+  confirmed: number;
+  paid: number;
+}> {
+  const tournaments: Tournament[] = await kv.getByPrefix('tournament:');
+  const totals = { tournaments: 0, minted: 0, confirmed: 0, paid: 0 };
+
+  for (const stored of tournaments) {
+    if (stored.paidAt) {
+      continue;
+    }
+
+    const tournament = await getTournament(stored.id);
+    if (!tournament) {
+      continue;
+    }
+
+    const state = await getTournamentState(tournament);
+    if (state.status !== 'finished') {
+      continue;
+    }
+
+    totals.tournaments++;
+    await createPayouts(state);
+
+    const payouts: TournamentPayout[] = await kv.getByPrefix(`tournament-payout:${tournament.id}:`);
+    let allConfirmed = true;
+
+    for (const payout of payouts.sort((a, b) => a.place - b.place)) {
+      let current = payout;
+      try {
+        if (current.status !== 'confirmed') {
+          current = await reconcilePayout(current);
+        }
+
+        if (current.status === 'pending' && totals.minted < PAYOUT_BATCH_SIZE) {
+          totals.minted++;
+          current = await sendPayout(current);
+        }
+      } catch (error) {
+        console.log(`Error paying out tournament ${tournament.id} to ${payout.walletAddress}: ${error}`);
+      }
+
+      if (current.status === 'confirmed') {
+        if (payout.status !== 'confirmed') {
+          totals.confirmed++;
+        }
+      } else {
+        allConfirmed = false;
+      }
+    }
+
+    if (allConfirmed) {
+      await kv.update(tournamentKey(tournament.id), (current: Tournament | undefined) =>
+        current && !current.paidAt ? { ...current, paidAt: new Date().toISOString() } : null
+      );
+      totals.paid++;
+      console.log(`🏆 Tournament ${tournament.id} fully paid out`);
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,150 @@
+/**
+ * WORD HISTORY
+ *
+ * Per-player spelling record for every word they have been asked, across all
+ * modes and packs: attempts, correct answers, the current run of correct
+ * answers, answer times and the most recent misspellings. Adaptive mode picks
+ * words from it.
+ *
+ * Misspellings are also tallied by kind of mistake (see spelling-diff.ts), per
+ * word and for the player overall, for the dashboard's common mistakes panel.
+ */
+
+import * as kv from './storage/index.tsx';
+import { WordTier } from '../../../utils/word-lists.ts';
+import { SpellingDiff, SpellingEditType } from '../../../utils/spelling-diff.ts';
+
+// Distinct misspellings kept per word, most recent first
+const MAX_MISTAKES = 5;
+
+// Words listed in a player's mistake summary
+const MOST_MISSED_LIMIT = 5;
+
+export interface WordStats {
+  tier: WordTier; // Tier the word was last played at
+  attempts: number;
+  correct: number;
+  streak: number; // Correct answers in a row
+  lastSeen: string;
+  lastCorrect?: string;
+  lastAnswerMs?: number;
+  fastestCorrectMs?: number;
+  mistakes: string[];
+  errorCounts?: Partial<Record<SpellingEditType, number>>;
+}
+
+export interface WordHistory {
+  walletAddress: string;
+  words: Record<string, WordStats>;
+  errorCounts?: Partial<Record<SpellingEditType, number>>; // Across all words
+  updatedAt: string;
+}
+
+export interface WordAttempt {
+  word: string;
+  tier: WordTier;
+  answer: string;
+  correct: boolean;
+  answerMs: number; // Time to answer, as measured by the server
+  diff?: SpellingDiff; // Letter diff of a misspelled answer; blank answers have none
+}
+
+export interface MistakeSummary {
+  errorCounts: Partial<Record<SpellingEditType, number>>;
+  mostMissed: { word: string; misses: number; attempts: number; lastMistake: string | null }[];
+}
+
+function historyKey(walletAddress: string): string {
+  return `word-history:${walletAddress}`;
+}
+
+/**
+ * Get the stats for one word, or undefined if the player hasn't been asked it
+ */
+export function getWordStats(history: WordHistory, word: string): WordStats | undefined {
+  const key = word.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(history.words, key) ? history.words[key] : undefined;
+}
+
+export function getWordAccuracy(stats: WordStats): number {
+  return stats.attempts > 0 ? stats.correct / stats.attempts : 0;
+}
+
+function addErrorCounts(
+  counts: Partial<Record<SpellingEditType, number>> = {},
+  diff: SpellingDiff
+): Partial<Record<SpellingEditType, number>> {
+  const total = { ...counts };
+  for (const [type, count] of Object.entries(diff.counts) as [SpellingEditType, number][]) {
+    if (count > 0) {
+      total[type] = (total[type] || 0) + count;
+    }
+  }
+  return total;
+}
+
+/**
+ * Get a player's word history (empty if they haven't answered anything yet)
+ */
+export async function getWordHistory(walletAddress: string): Promise<WordHistory> {
+  const history: WordHistory | undefined = await kv.get(historyKey(walletAddress));
+  return history || { walletAddress, words: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * A player's kinds of mistakes and the words they miss most
+ */
+export function summarizeMistakes(history: WordHistory): MistakeSummary {
+  const mostMissed = Object.entries(history.words)
+    .map(([word, stats]) => ({
+      word,
+      misses: stats.attempts - stats.correct,
+      attempts: stats.attempts,
+      lastMistake: stats.mistakes[0] || null,
+    }))
+    .filter(({ misses }) => misses > 0)
+    .sort((a, b) => b.misses - a.misses || a.word.localeCompare(b.word))
+    .slice(0, MOST_MISSED_LIMIT);
+
+  return { errorCounts: history.errorCounts || {}, mostMissed };
+}
+
+/**
+ * Record one graded answer
+ */
+export async function recordWordAttempt(walletAddress: string, attempt: WordAttempt): Promise<void> {
+  const { word, tier, answer, correct, answerMs, diff } = attempt;
+  const now = new Date().toISOString();
+  const key = word.toLowerCase();
+  const misspelling = answer.trim().toLowerCase();
+
+  await kv.update(historyKey(walletAddress), (history: WordHistory | undefined) => {
+    const words = { ...(history?.words || {}) };
+    const stats = history && getWordStats(history, key);
+
+    words[key] = {
+      tier,
+      attempts: (stats?.attempts || 0) + 1,
+      correct: (stats?.correct || 0) + (correct ? 1 : 0),
+      streak: correct ? (stats?.streak || 0) + 1 : 0,
+      lastSeen: now,
+      lastCorrect: correct ? now : stats?.lastCorrect,
+      lastAnswerMs: answerMs,
+      fastestCorrectMs: correct
+        ? Math.min(stats?.fastestCorrectMs ?? Infinity, answerMs)
+        : stats?.fastestCorrectMs,
+      mistakes: correct || !misspelling
+        ? stats?.mistakes || []
+        : [misspelling, ...(stats?.mistakes || []).filter(mistake => mistake !== misspelling)]
+          .slice(0, MAX_MISTAKES),
+      errorCounts: diff ? addErrorCounts(stats?.errorCounts, diff) : stats?.errorCounts,
+    };
+
+    return {
+      walletAddress,
+      words,
+      errorCounts: diff ? addErrorCounts(history?.errorCounts, diff) : history?.errorCounts,
+      updatedAt: now,
+    };
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * WORD PACKS
+ *
+ * Community and teacher word lists stored in the KV store.
+ * Uploads are parsed and validated with the same rules the upload form uses;
+ * the built-in Web3 pack is never stored and can't be deleted.
+ * Uploads start out unapproved and earn no WMINT until an admin approves them.
+ */
+
+import * as kv from './storage/index.tsx';
+import type { ContentfulStatusCode } from 'npm:hono/utils/http-status';
+import {
+  WordPack,
+  WordPackFormat,
+  WordPackSummary,
+  BUILT_IN_PACK_ID,
+  getBuiltInPack,
+  summarizeWordPack,
+  parseWordPack,
+} from '../../../utils/word-packs.ts';
+
+// Keeps one wallet from filling the store with packs
+const MAX_PACKS_PER_WALLET = 20;
+
+export interface WordPackResult {
+  success: boolean;
+  error?: string;
+  status?: ContentfulStatusCode;
+  pack?: WordPack;
+  errors?: string[];
+  warnings?: string[];
+}
+
+function packKey(packId: string): string {
+  return `word-packs:${packId}`;
+}
+
+export function isWordPackFormat(format: unknown): format is WordPackFormat {
+  return format === 'json' || format === 'csv';
+}
+
+/**
+ * Get a pack by ID, including the built-in pack
+ */
+export async function getWordPack(packId: string): Promise<WordPack | undefined> {
+  if (packId === BUILT_IN_PACK_ID) {
+    return getBuiltInPack();
+  }
+  return kv.get(packKey(packId));
+}
+
+/**
+ * List every pack, built-in first, then newest first
+ */
+export async function listWordPacks(): Promise<WordPackSummary[]> {
+  const packs: WordPack[] = await kv.getByPrefix('word-packs:');
+  packs.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+
+  return [getBuiltInPack(), ...packs].map(summarizeWordPack);
+}
+
+/**
+ * Validate and store an uploaded pack
+ */
+export async function createWordPack(
+  walletAddress: string,
+  format: WordPackFormat,
+  content: string,
+  overrides: { name?: string; description?: string }
+): Promise<WordPackResult> {
+  const validation = parseWordPack(format, content, overrides);
+
+  if (!validation.pack) {
+    return {
+      success: false,
+      status: 400,
+      error: 'Word pack is invalid',
+      errors: validation.errors,
+      warnings: validation.warnings,
+    };
+  }
+
+  const packs: WordPack[] = await kv.getByPrefix('word-packs:');
+  if (packs.filter(pack => pack.createdBy === walletAddress).length >= MAX_PACKS_PER_WALLET) {
+    return {
+      success: false,
+      status: 409,
+      error: `You can upload at most ${MAX_PACKS_PER_WALLET} word packs; delete one first`,
+    };
+  }
+
+  const pack: WordPack = {
+    ...validation.pack,
+    id: crypto.randomUUID(),
+    builtIn: false,
+    createdBy: walletAddress,
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.set(packKey(pack.id), pack);
+
+  return { success: true, pack, warnings: validation.warnings };
+}
+
+/**
+ * Delete a pack; only its uploader or an admin may do so
+ */
+export async function deleteWordPack(
+  packId: string,
+  walletAddress: string,
+  isAdmin: boolean
+): Promise<WordPackResult> {
+  if (packId === BUILT_IN_PACK_ID) {
+    return { success: false, status: 403, error: 'The built-in pack cannot be deleted' };
+  }
+
+  const pack: WordPack | undefined = await kv.get(packKey(packId));
+  if (!pack) {
+    return { success: false, status: 404, error: 'Word pack not found' };
+  }
+
+  if (pack.createdBy !== walletAddress && !isAdmin) {
+    return { success: false, status: 403, error: 'Only the uploader can delete this pack' };
+  }
+
+  await kv.del(packKey(packId));
+
+  return { success: true, pack };
+}
+
+/**
+ * Approve a pack so games on it earn WMINT (admins only; checked by the route)
+ * Approving an approved pack leaves it unchanged.
+ */
+export async function approveWordPack(packId: string, walletAddress: string): Promise<WordPackResult> {
+  if (packId === BUILT_IN_PACK_ID) {
+    return { success: false, status: 400, error: 'The built-in pack is always approved' };
+  }
+
+  const pack = await kv.update(packKey(packId), (current: WordPack | undefined) => {
+    if (!current || current.approvedAt) {
+      return null;
+    }
+    return { ...current, approvedBy: walletAddress, approvedAt: new Date().toISOString() };
+  });
+
+  const approved: WordPack | undefined = pack ?? await kv.get(packKey(packId));
+  if (!approved) {
+    return { success: false, status: 404, error: 'Word pack not found' };
+  }
+
+  return { success: true, pack: approved };
+}
@@ -0,0 +1,20 @@
+-- Compare-and-set for the KV store (storage/supabase.tsx).
+-- The expected value travels in the request body rather than the query
+-- string, so records of any size can be compared. jsonb equality ignores
+-- key order and whitespace.
+create or replace function kv_compare_and_set_02a4aef8(p_key text, p_expected jsonb, p_value jsonb)
+returns boolean
+language sql
+as $$
+  with updated as (
+    update kv_store_02a4aef8
+    set value = p_value
+    where key = p_key and value = p_expected
+    returning 1
+  )
+  select exists (select 1 from updated);
+$$;
+
+-- Only the server (service role) may call it
+revoke execute on function kv_compare_and_set_02a4aef8(text, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function kv_compare_and_set_02a4aef8(text, jsonb, jsonb) to service_role;
@@ -0,0 +1,69 @@
+/**
+ * Accessibility Settings
+ *
+ * Per-player options for how games look and sound, saved on the player record
+ * so they follow the wallet to any device. Shared by the settings panel, the
+ * game screens and the server, which checks saved settings and starts relaxed
+ * games without a time limit.
+ */
+
+export interface AccessibilitySettings {
+  largeKeyboard: boolean; // On-screen letter keyboard with large keys
+  dyslexiaFont: boolean; // Dyslexia-friendly font with wider letter spacing
+  highContrast: boolean; // Brighter text and borders on a black background
+  announcements: boolean; // Screen-reader announcements for the timer and results
+  relaxedMode: boolean; // No timer, for a share of the reward
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  largeKeyboard: false,
+  dyslexiaFont: false,
+  highContrast: false,
+  announcements: false,
+  relaxedMode: false,
+};
+
+// Seconds left at which the timer is announced, besides the halfway point
+const TIMER_MILESTONES = [10, 5];
+
+/**
+ * Check settings sent by a client: every option must be a boolean
+ * Returns null if they aren't.
+ */
+export function sanitizeAccessibilitySettings(raw: unknown): AccessibilitySettings | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const settings = raw as Record<string, unknown>;
+  const fields = Object.keys(DEFAULT_ACCESSIBILITY_SETTINGS) as (keyof AccessibilitySettings)[];
+  if (!fields.every(field => typeof settings[field] === 'boolean')) {
+    return null;
+  }
+
+  return Object.fromEntries(fields.map(field => [field, settings[field]])) as unknown as AccessibilitySettings;
+}
+
+/**
+ * A player's settings, with defaults for players who never saved any
+ */
+export function getAccessibilitySettings(player: { accessibility?: Partial<AccessibilitySettings> } | null): AccessibilitySettings {
+  return { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...player?.accessibility };
+}
+
+/**
+ * What a screen reader should say with `timeLeft` seconds to go, if anything
+ * The timer is announced at its halfway point, at 10 and 5 seconds, and when time runs out.
+ */
+export function getTimerAnnouncement(timeLeft: number, timeLimit: number): string | null {
+  if (timeLeft === 0) {
+    return "Time's up";
+  }
+
+  const halfway = Math.floor(timeLimit / 2);
+  if (timeLeft === halfway || TIMER_MILESTONES.includes(timeLeft)) {
+    return `${timeLeft} seconds left`;
+  }
+
+  return null;
+}
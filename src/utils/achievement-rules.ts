@@ -0,0 +1,184 @@
+/**
+ * Achievement Rules
+ *
+ * Achievements unlock on declarative rules rather than code, so a new one is
+ * a new entry in achievements.ts. A rule compares a metric to a threshold
+ * over a window, optionally counting only words of one difficulty, and rules
+ * combine with `all`, `any` and `not`.
+ *
+ * Windows:
+ * - all-time: the player's lifetime stats
+ * - day: the player's activity so far today (UTC, like the daily challenge)
+ * - game: the game just finished
+ * - answer: the answer just graded
+ *
+ * The same engine runs on the server, which records unlocks as answers and
+ * claims come in, and in the browser, which can only check all-time rules
+ * because it doesn't see the events behind the others.
+ */
+
+import { WordTier } from './word-lists.ts';
+
+export type AchievementMetric =
+  | 'wmintEarned' // WMINT claimed to the wallet (all-time)
+  | 'bestStreak' // Longest run of correct answers (all-time)
+  | 'level' // Player level (all-time)
+  | 'gamesPlayed' // Completed games (all-time, day)
+  | 'wordsCorrect' // Words spelled correctly (answer, game, day)
+  | 'wordsMissed' // Words missed, near misses included (answer, game)
+  | 'hintsUsed' // Hints bought (answer, game)
+  | 'answerMs'; // Time taken by the answer (answer)
+
+export type AchievementWindow = 'all-time' | 'day' | 'game' | 'answer';
+
+export type AchievementComparator = '>=' | '>' | '<=' | '<' | '==';
+
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  comparator: AchievementComparator;
+  threshold: number;
+  window?: AchievementWindow; // Defaults to all-time
+  difficulty?: WordTier; // Count only words of this tier (word metrics)
+}
+
+export type AchievementRule =
+  | AchievementCondition
+  | { all: AchievementRule[] } // Every rule holds (an empty list always holds)
+  | { any: AchievementRule[] } // At least one rule holds
+  | { not: AchievementRule };
+
+// One graded word
+export interface WordFacts {
+  tier: WordTier;
+  correct: boolean;
+  answerMs: number;
+  hintsUsed: number;
+}
+
+// A player's activity on one UTC day
+export interface DayTally {
+  date: string; // YYYY-MM-DD
+  wordsCorrect: Partial<Record<WordTier, number>>;
+  gamesPlayed: number;
+}
+
+// What rules are checked against; windows without facts never match
+export interface AchievementFacts {
+  player: {
+    totalWmintEarned: number;
+    streak: number;
+    maxStreak?: number; // Best streak so far; missing on players from before it was tracked
+    gamesPlayed: number;
+    level: number;
+  };
+  today?: DayTally;
+  game?: WordFacts[]; // Every word of the finished game
+  answer?: WordFacts;
+}
+
+function countWords(words: WordFacts[], difficulty: WordTier | undefined, matches: (word: WordFacts) => boolean): number {
+  return words.filter(word => (!difficulty || word.tier === difficulty) && matches(word)).length;
+}
+
+/**
+ * A metric's value over a window, or undefined when the facts don't cover it
+ */
+export function getMetricValue(
+  facts: AchievementFacts,
+  metric: AchievementMetric,
+  window: AchievementWindow = 'all-time',
+  difficulty?: WordTier
+): number | undefined {
+  const { player, today, game, answer } = facts;
+  const words = window === 'game' ? game : window === 'answer' && answer ? [answer] : undefined;
+
+  switch (metric) {
+    case 'wmintEarned':
+      return window === 'all-time' ? player.totalWmintEarned || 0 : undefined;
+    case 'bestStreak':
+      return window === 'all-time' ? Math.max(player.maxStreak || 0, player.streak || 0) : undefined;
+    case 'level':
+      return window === 'all-time' ? player.level || 1 : undefined;
+    case 'gamesPlayed':
+      if (window === 'all-time') return player.gamesPlayed || 0;
+      if (window === 'day') return today?.gamesPlayed;
+      return undefined;
+    case 'wordsCorrect':
+      if (window === 'day' && today) {
+        return difficulty
+          ? today.wordsCorrect[difficulty] || 0
+          : Object.values(today.wordsCorrect).reduce((total, count) => total + (count || 0), 0);
+      }
+      return words && countWords(words, difficulty, word => word.correct);
+    case 'wordsMissed':
+      return words && countWords(words, difficulty, word => !word.correct);
+    case 'hintsUsed':
+      return words?.reduce((total, word) => total + word.hintsUsed, 0);
+    case 'answerMs':
+      return window === 'answer' ? answer?.answerMs : undefined;
+  }
+}
+
+function compare(value: number, comparator: AchievementComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>=':
+      return value >= threshold;
+    case '>':
+      return value > threshold;
+    case '<=':
+      return value <= threshold;
+    case '<':
+      return value < threshold;
+    case '==':
+      return value === threshold;
+  }
+}
+
+/**
+ * Check a rule against the facts
+ */
+export function evaluateRule(rule: AchievementRule, facts: AchievementFacts): boolean {
+  if ('all' in rule) {
+    return rule.all.every(child => evaluateRule(child, facts));
+  }
+  if ('any' in rule) {
+    return rule.any.some(child => evaluateRule(child, facts));
+  }
+  if ('not' in rule) {
+    return !evaluateRule(rule.not, facts);
+  }
+
+  const value = getMetricValue(facts, rule.metric, rule.window, rule.difficulty);
+  return value !== undefined && compare(value, rule.comparator, rule.threshold);
+}
+
+/**
+ * How far the player is towards a single all-time `>=` rule, as its current value
+ * Null for other rules, which unlock all at once.
+ */
+export function getRuleProgressValue(rule: AchievementRule, facts: AchievementFacts): number | null {
+  if (!('metric' in rule) || (rule.window ?? 'all-time') !== 'all-time' || rule.comparator !== '>=') {
+    return null;
+  }
+  return getMetricValue(facts, rule.metric, 'all-time', rule.difficulty) ?? null;
+}
+
+/**
+ * Add a graded word, and the game if it was the last word, to a day's tally
+ * A tally from an earlier day starts over.
+ */
+export function addToDayTally(
+  tally: DayTally | undefined,
+  date: string,
+  word: WordFacts,
+  completedGame: boolean
+): DayTally {
+  const current: DayTally = tally?.date === date ? tally : { date, wordsCorrect: {}, gamesPlayed: 0 };
+  return {
+    date,
+    wordsCorrect: word.correct
+      ? { ...current.wordsCorrect, [word.tier]: (current.wordsCorrect[word.tier] || 0) + 1 }
+      : current.wordsCorrect,
+    gamesPlayed: current.gamesPlayed + (completedGame ? 1 : 0),
+  };
+}
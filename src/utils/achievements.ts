@@ -2,15 +2,31 @@
  * Achievements & Badges System
  * 
  * Defines all available achievements and badge unlock conditions
+ * Each unlocks on a declarative rule evaluated by achievement-rules.ts, so a
+ * new achievement is a new entry here.
+ * Shared with the server, which records unlocks and mints each badge as an NFT
  */
 
+import { AchievementFacts, AchievementRule, evaluateRule, getRuleProgressValue } from './achievement-rules.ts';
+
+// What a player's stats need for achievements to be checked against them
+export interface AchievementStats {
+  totalWmintEarned: number;
+  streak: number;
+  maxStreak?: number; // Best streak so far; missing on players from before it was tracked
+  gamesPlayed: number;
+  level: number;
+  specialAchievements?: string[]; // Unlocked before rules; kept so they stay unlocked
+}
+
 export interface Achievement {
   id: string;
   name: string;
   description: string;
   icon: string; // Emoji or icon identifier
   category: 'xp' | 'streak' | 'games' | 'level' | 'difficulty' | 'special';
-  requirement: number;
+  requirement: number; // Shown to players; the rule decides the unlock
+  rule: AchievementRule;
   badge: {
     color: string;
     glow: string;
@@ -18,6 +34,13 @@ export interface Achievement {
   };
 }
 
+// Mint progress of an unlocked achievement's badge NFT
+export type BadgeMintStatus = 'pending' | 'submitting' | 'submitted' | 'confirmed';
+
+// What triggered an achievement unlock: a new player, an answer, a claim, a tournament prize,
+// or catching up the record of a player whose stats changed before unlocks were recorded
+export type UnlockSource = 'signup' | 'game' | 'claim' | 'tournament' | 'sync';
+
 export const ACHIEVEMENTS: Achievement[] = [
   // WMINT Token Milestones (replacing XP)
   {
@@ -27,6 +50,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🪙',
     category: 'xp',
     requirement: 1,
+    rule: { metric: 'wmintEarned', comparator: '>=', threshold: 1 },
     badge: {
       color: 'from-emerald-500 to-emerald-600',
       glow: 'shadow-emerald-500/50',
@@ -40,6 +64,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '💰',
     category: 'xp',
     requirement: 100,
+    rule: { metric: 'wmintEarned', comparator: '>=', threshold: 100 },
     badge: {
       color: 'from-green-500 to-emerald-600',
       glow: 'shadow-green-500/50',
@@ -53,6 +78,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '💎',
     category: 'xp',
     requirement: 500,
+    rule: { metric: 'wmintEarned', comparator: '>=', threshold: 500 },
     badge: {
       color: 'from-blue-500 to-cyan-600',
       glow: 'shadow-blue-500/50',
@@ -66,6 +92,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🐋',
     category: 'xp',
     requirement: 1000,
+    rule: { metric: 'wmintEarned', comparator: '>=', threshold: 1000 },
     badge: {
       color: 'from-purple-500 to-pink-600',
       glow: 'shadow-purple-500/50',
@@ -79,6 +106,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '👑',
     category: 'xp',
     requirement: 5000,
+    rule: { metric: 'wmintEarned', comparator: '>=', threshold: 5000 },
     badge: {
       color: 'from-amber-500 to-yellow-400',
       glow: 'shadow-amber-500/50',
@@ -94,6 +122,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🔥',
     category: 'streak',
     requirement: 3,
+    rule: { metric: 'bestStreak', comparator: '>=', threshold: 3 },
     badge: {
       color: 'from-orange-500 to-red-500',
       glow: 'shadow-orange-500/50',
@@ -107,6 +136,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🌶️',
     category: 'streak',
     requirement: 5,
+    rule: { metric: 'bestStreak', comparator: '>=', threshold: 5 },
     badge: {
       color: 'from-red-500 to-orange-500',
       glow: 'shadow-red-500/50',
@@ -120,6 +150,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '💥',
     category: 'streak',
     requirement: 10,
+    rule: { metric: 'bestStreak', comparator: '>=', threshold: 10 },
     badge: {
       color: 'from-orange-500 to-red-600',
       glow: 'shadow-red-500/50',
@@ -133,6 +164,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '⚡',
     category: 'streak',
     requirement: 20,
+    rule: { metric: 'bestStreak', comparator: '>=', threshold: 20 },
     badge: {
       color: 'from-yellow-500 to-orange-600',
       glow: 'shadow-yellow-500/50',
@@ -146,6 +178,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🌟',
     category: 'streak',
     requirement: 50,
+    rule: { metric: 'bestStreak', comparator: '>=', threshold: 50 },
     badge: {
       color: 'from-amber-400 to-yellow-500',
       glow: 'shadow-amber-500/50',
@@ -161,6 +194,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🎮',
     category: 'games',
     requirement: 1,
+    rule: { metric: 'gamesPlayed', comparator: '>=', threshold: 1 },
     badge: {
       color: 'from-slate-500 to-slate-600',
       glow: 'shadow-slate-500/50',
@@ -174,6 +208,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🎯',
     category: 'games',
     requirement: 10,
+    rule: { metric: 'gamesPlayed', comparator: '>=', threshold: 10 },
     badge: {
       color: 'from-cyan-500 to-blue-500',
       glow: 'shadow-cyan-500/50',
@@ -187,6 +222,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '⚔️',
     category: 'games',
     requirement: 25,
+    rule: { metric: 'gamesPlayed', comparator: '>=', threshold: 25 },
     badge: {
       color: 'from-blue-500 to-indigo-600',
       glow: 'shadow-blue-500/50',
@@ -200,6 +236,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🏆',
     category: 'games',
     requirement: 50,
+    rule: { metric: 'gamesPlayed', comparator: '>=', threshold: 50 },
     badge: {
       color: 'from-indigo-500 to-purple-600',
       glow: 'shadow-indigo-500/50',
@@ -213,6 +250,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🥇',
     category: 'games',
     requirement: 100,
+    rule: { metric: 'gamesPlayed', comparator: '>=', threshold: 100 },
     badge: {
       color: 'from-yellow-400 to-amber-500',
       glow: 'shadow-yellow-500/50',
@@ -228,6 +266,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '📖',
     category: 'level',
     requirement: 3,
+    rule: { metric: 'level', comparator: '>=', threshold: 3 },
     badge: {
       color: 'from-green-500 to-emerald-600',
       glow: 'shadow-green-500/50',
@@ -241,6 +280,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '⭐',
     category: 'level',
     requirement: 5,
+    rule: { metric: 'level', comparator: '>=', threshold: 5 },
     badge: {
       color: 'from-blue-500 to-cyan-600',
       glow: 'shadow-blue-500/50',
@@ -254,6 +294,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🎓',
     category: 'level',
     requirement: 10,
+    rule: { metric: 'level', comparator: '>=', threshold: 10 },
     badge: {
       color: 'from-purple-500 to-indigo-600',
       glow: 'shadow-purple-500/50',
@@ -267,6 +308,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🧙',
     category: 'level',
     requirement: 20,
+    rule: { metric: 'level', comparator: '>=', threshold: 20 },
     badge: {
       color: 'from-purple-500 to-pink-600',
       glow: 'shadow-purple-500/50',
@@ -280,6 +322,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '📚',
     category: 'level',
     requirement: 50,
+    rule: { metric: 'level', comparator: '>=', threshold: 50 },
     badge: {
       color: 'from-amber-500 to-yellow-400',
       glow: 'shadow-amber-500/50',
@@ -287,6 +330,42 @@ export const ACHIEVEMENTS: Achievement[] = [
     }
   },
 
+  // Difficulty Achievements
+  {
+    id: 'hard-day-10',
+    name: 'Hard Day',
+    description: 'Spell 10 hard words correctly in one day',
+    icon: '🏋️',
+    category: 'difficulty',
+    requirement: 10,
+    rule: { metric: 'wordsCorrect', window: 'day', difficulty: 'hard', comparator: '>=', threshold: 10 },
+    badge: {
+      color: 'from-orange-500 to-red-600',
+      glow: 'shadow-orange-500/50',
+      rarity: 'rare'
+    }
+  },
+  {
+    id: 'hard-flawless',
+    name: 'Iron Speller',
+    description: 'Spell every word of a Hard game correctly without hints',
+    icon: '🛡️',
+    category: 'difficulty',
+    requirement: 1,
+    rule: {
+      all: [
+        { metric: 'wordsMissed', window: 'game', comparator: '==', threshold: 0 },
+        { metric: 'wordsCorrect', window: 'game', difficulty: 'hard', comparator: '>=', threshold: 5 },
+        { metric: 'hintsUsed', window: 'game', comparator: '==', threshold: 0 }
+      ]
+    },
+    badge: {
+      color: 'from-amber-400 to-yellow-500',
+      glow: 'shadow-amber-500/50',
+      rarity: 'legendary'
+    }
+  },
+
   // Special Achievements
   {
     id: 'first-win',
@@ -295,6 +374,12 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '✨',
     category: 'special',
     requirement: 1,
+    rule: {
+      any: [
+        { metric: 'wordsCorrect', window: 'answer', comparator: '>=', threshold: 1 },
+        { metric: 'wmintEarned', comparator: '>=', threshold: 1 }
+      ]
+    },
     badge: {
       color: 'from-emerald-500 to-teal-500',
       glow: 'shadow-emerald-500/50',
@@ -308,6 +393,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🔗',
     category: 'special',
     requirement: 1,
+    rule: { all: [] }, // Unlocked by having a player record
     badge: {
       color: 'from-purple-500 to-purple-600',
       glow: 'shadow-purple-500/50',
@@ -317,10 +403,16 @@ export const ACHIEVEMENTS: Achievement[] = [
   {
     id: 'speed-demon',
     name: 'Speed Demon',
-    description: 'Complete a word in under 5 seconds',
+    description: 'Spell a word correctly in under 5 seconds',
     icon: '⚡',
     category: 'special',
     requirement: 1,
+    rule: {
+      all: [
+        { metric: 'wordsCorrect', window: 'answer', comparator: '>=', threshold: 1 },
+        { metric: 'answerMs', window: 'answer', comparator: '<', threshold: 5000 }
+      ]
+    },
     badge: {
       color: 'from-yellow-500 to-amber-600',
       glow: 'shadow-yellow-500/50',
@@ -334,12 +426,32 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '💯',
     category: 'special',
     requirement: 1,
+    rule: { metric: 'wordsMissed', window: 'game', comparator: '==', threshold: 0 },
     badge: {
       color: 'from-pink-500 to-rose-600',
       glow: 'shadow-pink-500/50',
       rarity: 'epic'
     }
   },
+  {
+    id: 'no-hints',
+    name: 'Unassisted',
+    description: 'Get all words correct in a session without using hints',
+    icon: '🧠',
+    category: 'special',
+    requirement: 1,
+    rule: {
+      all: [
+        { metric: 'wordsMissed', window: 'game', comparator: '==', threshold: 0 },
+        { metric: 'hintsUsed', window: 'game', comparator: '==', threshold: 0 }
+      ]
+    },
+    badge: {
+      color: 'from-indigo-500 to-violet-600',
+      glow: 'shadow-indigo-500/50',
+      rarity: 'epic'
+    }
+  },
   {
     id: 'token-claimer',
     name: 'Token Claimer',
@@ -347,6 +459,7 @@ export const ACHIEVEMENTS: Achievement[] = [
     icon: '🎁',
     category: 'special',
     requirement: 1,
+    rule: { metric: 'wmintEarned', comparator: '>', threshold: 0 },
     badge: {
       color: 'from-emerald-500 to-green-600',
       glow: 'shadow-emerald-500/50',
@@ -356,42 +469,46 @@ export const ACHIEVEMENTS: Achievement[] = [
 ];
 
 /**
- * Check which achievements a player has unlocked
+ * Find an achievement by ID
+ */
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
+
+/**
+ * Check which achievements the facts unlock
+ * Achievements in `alreadyUnlocked` count as unlocked whatever their rules say.
  */
 export function checkUnlockedAchievements(
-  totalWmintEarned: number,
-  streak: number,
-  gamesPlayed: number,
-  level: number,
-  specialAchievements: string[] = [] // Track special achievements separately
+  facts: AchievementFacts,
+  alreadyUnlocked: string[] = []
 ): Achievement[] {
-  return ACHIEVEMENTS.filter(achievement => {
-    switch (achievement.category) {
-      case 'xp':
-        return totalWmintEarned >= achievement.requirement;
-      case 'streak':
-        return streak >= achievement.requirement;
-      case 'games':
-        return gamesPlayed >= achievement.requirement;
-      case 'level':
-        return level >= achievement.requirement;
-      case 'special':
-        // Special achievements need to be tracked separately
-        // Check if this special achievement was earned
-        if (specialAchievements.includes(achievement.id)) {
-          return true;
-        }
-        
-        // Auto-unlock based on basic conditions
-        if (achievement.id === 'first-win') return totalWmintEarned >= 1;
-        if (achievement.id === 'wallet-connected') return true; // Always unlocked if viewing
-        if (achievement.id === 'token-claimer') return totalWmintEarned > 0; // Claimed at least once
-        
-        return false;
-      default:
-        return false;
-    }
-  });
+  return ACHIEVEMENTS.filter(achievement =>
+    alreadyUnlocked.includes(achievement.id) || evaluateRule(achievement.rule, facts)
+  );
+}
+
+/**
+ * Check which achievements a player's stats unlock
+ * Only all-time rules can match without an answer, game or day to go on. Streak
+ * achievements count the best streak, so they stay unlocked after a streak resets.
+ */
+export function checkPlayerAchievements(player: AchievementStats): Achievement[] {
+  return checkUnlockedAchievements({ player }, player.specialAchievements);
+}
+
+/**
+ * A player's current value towards an achievement, or null if it unlocks all at once
+ */
+export function getAchievementValue(achievement: Achievement, player: AchievementStats): number | null {
+  return getRuleProgressValue(achievement.rule, { player });
+}
+
+/**
+ * A player's best streak, counting the current one
+ */
+export function getBestStreak(player: Pick<AchievementStats, 'streak' | 'maxStreak'>): number {
+  return Math.max(player.maxStreak || 0, player.streak || 0);
 }
 
 /**
@@ -1,6 +1,19 @@
 import { getServerUrl } from './supabase/client';
 import { publicAnonKey } from './supabase/info';
 import { PlayerData } from '../App';
+import { DifficultyMode, WordTier } from './word-lists';
+import { HintType, HintReveal } from './hints';
+import { SpeechPrompt } from './speech-prompts';
+import { WordPackFormat, WordPackSummary, BUILT_IN_PACK_ID } from './word-packs';
+import { SpellingDiffOp, SpellingEditType } from './spelling-diff';
+import { DailyRoundMark } from './daily-challenge';
+import { SeasonPeriod } from './seasons';
+import { DuelStatus, DuelRoundResult } from './duels';
+import { TournamentStatus, TournamentTurnState } from './tournaments';
+import { PracticeStats } from './practice';
+import { AccessibilitySettings } from './accessibility';
+import { BadgeMintStatus, UnlockSource } from './achievements';
+import { getAuthHeaders } from './auth';
 
 const headers = {
   'Content-Type': 'application/json',
@@ -31,12 +44,16 @@ export async function fetchPlayerData(walletAddress: string): Promise<PlayerData
   }
 }
 
-export async function createOrUpdatePlayer(playerData: PlayerData): Promise<PlayerData> {
+/**
+ * Create a new player, optionally bringing in a guest's practice stats
+ * (an existing player is returned unchanged)
+ */
+export async function createPlayer(walletAddress: string, guestStats?: PracticeStats): Promise<PlayerData> {
   try {
     const response = await fetch(getServerUrl('/player'), {
       method: 'POST',
-      headers,
-      body: JSON.stringify(playerData)
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ walletAddress, guestStats })
     });
     
     if (!response.ok) {
@@ -48,33 +65,363 @@ export async function createOrUpdatePlayer(playerData: PlayerData): Promise<Play
     const result = await response.json();
     return result.player;
   } catch (error) {
-    console.error('Error in createOrUpdatePlayer:', error);
+    console.error('Error in createPlayer:', error);
     throw error;
   }
 }
 
-export async function updatePlayerStats(
-  walletAddress: string, 
-  scoreIncrease: number, 
-  isCorrect: boolean
+/**
+ * Save the signed-in player's accessibility settings
+ */
+export async function updateAccessibilitySettings(
+  walletAddress: string,
+  settings: AccessibilitySettings
 ): Promise<PlayerData> {
   try {
-    const response = await fetch(getServerUrl(`/player/${walletAddress}/stats`), {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify({ scoreIncrease, isCorrect })
+    const response = await fetch(getServerUrl(`/player/${walletAddress}/accessibility`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ settings })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error saving accessibility settings:', error);
+      throw new Error(error.error || 'Failed to save accessibility settings');
+    }
+    
+    const result = await response.json();
+    return result.player;
+  } catch (error) {
+    console.error('Error in updateAccessibilitySettings:', error);
+    throw error;
+  }
+}
+
+export interface GameSessionInfo {
+  sessionId: string;
+  difficulty: DifficultyMode;
+  packId: string;
+  partialCredit: boolean; // Near misses earn part of the reward
+  relaxed: boolean; // No time limit, reduced reward
+  dailyDate: string | null; // UTC day of a daily challenge game
+  tournamentId: string | null; // Set for tournament games
+  letters: number | null; // Null until the current round is started; the word is only heard
+  hasSentence: boolean; // The definition is only available as a hint
+  roundNumber: number;
+  totalRounds: number;
+  timeLimit: number; // Seconds for the current round, by its word's tier
+  roundStartedAt: string | null;
+  status: 'active' | 'completed';
+}
+
+export async function startGameSession(
+  walletAddress: string,
+  difficulty: DifficultyMode,
+  packId: string = BUILT_IN_PACK_ID,
+  partialCredit: boolean = false
+): Promise<GameSessionInfo> {
+  try {
+    const response = await fetch(getServerUrl('/session/start'), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ walletAddress, difficulty, packId, partialCredit })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error starting game session:', error);
+      throw new Error(error.error || 'Failed to start game session');
+    }
+    
+    const result = await response.json();
+    return result.session;
+  } catch (error) {
+    console.error('Error in startGameSession:', error);
+    throw error;
+  }
+}
+
+export async function startNextRound(sessionId: string): Promise<GameSessionInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/session/${sessionId}/next`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
     });
     
     if (!response.ok) {
       const error = await response.json();
-      console.error('Error updating player stats:', error);
-      throw new Error(error.error || 'Failed to update player stats');
+      console.error('Error starting next round:', error);
+      throw new Error(error.error || 'Failed to start next round');
     }
     
     const result = await response.json();
-    return result.data;
+    return result.session;
+  } catch (error) {
+    console.error('Error in startNextRound:', error);
+    throw error;
+  }
+}
+
+export interface RoundSummary {
+  roundNumber: number;
+  word: string;
+  answer: string;
+  correct: boolean;
+  nearMiss: boolean; // Misspelled, but earned partial credit
+  answerMs: number | null; // Time to answer, as measured by the server
+  speedMultiplier: number;
+  wmintEarned: number;
+  hintsUsed: number;
+  hintCost: number; // WMINT spent on hints this round
+  diff: SpellingDiffOp[] | null;
+}
+
+export interface GameSummary {
+  rounds: RoundSummary[];
+  correctCount: number;
+  totalRounds: number;
+  wmintEarned: number;
+  hintsUsed: number;
+  hintCost: number;
+  fastestCorrectMs: number | null;
+}
+
+export interface SessionAnswerResult {
+  correct: boolean;
+  nearMiss: boolean;
+  word: string;
+  wmintEarned: number;
+  answerMs: number;
+  speedMultiplier: number; // Speed bonus on the base reward (1 when none)
+  roundNumber: number;
+  totalRounds: number;
+  completed: boolean;
+  summary: GameSummary | null; // Set once the last round is answered
+  addedToReview: boolean; // A missed word was added to the review deck
+  diff: SpellingDiffOp[] | null; // Letter diff of a misspelled answer
+  unlocked: AchievementUnlock[]; // Achievements this answer unlocked
+  player: PlayerData;
+}
+
+export async function submitSessionAnswer(
+  sessionId: string,
+  answer: string
+): Promise<SessionAnswerResult> {
+  try {
+    const response = await fetch(getServerUrl(`/session/${sessionId}/answer`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ answer })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error submitting answer:', error);
+      throw new Error(error.error || 'Failed to submit answer');
+    }
+    
+    return await response.json();
   } catch (error) {
-    console.error('Error in updatePlayerStats:', error);
+    console.error('Error in submitSessionAnswer:', error);
+    throw error;
+  }
+}
+
+export interface HintPurchaseResult {
+  hint: HintReveal;
+  player: PlayerData; // Score already reduced by the hint's cost
+}
+
+export async function buyHint(sessionId: string, type: HintType): Promise<HintPurchaseResult> {
+  try {
+    const response = await fetch(getServerUrl(`/session/${sessionId}/hint`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ type })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error buying hint:', error);
+      throw new Error(error.error || 'Failed to buy hint');
+    }
+    
+    const result = await response.json();
+    return { hint: result.hint, player: result.player };
+  } catch (error) {
+    console.error('Error in buyHint:', error);
+    throw error;
+  }
+}
+
+export async function fetchSessionAudio(sessionId: string, prompt: SpeechPrompt): Promise<Blob> {
+  try {
+    const response = await fetch(getServerUrl(`/session/${sessionId}/audio/${prompt}`), {
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching prompt audio:', error);
+      throw new Error(error.error || 'Failed to fetch prompt audio');
+    }
+    
+    return await response.blob();
+  } catch (error) {
+    console.error('Error in fetchSessionAudio:', error);
+    throw error;
+  }
+}
+
+export async function fetchWordPacks(
+  walletAddress?: string
+): Promise<{ packs: WordPackSummary[]; canApprove: boolean }> {
+  try {
+    const query = walletAddress ? `?walletAddress=${encodeURIComponent(walletAddress)}` : '';
+    const response = await fetch(getServerUrl(`/word-packs${query}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching word packs:', error);
+      throw new Error(error.error || 'Failed to fetch word packs');
+    }
+    
+    const result = await response.json();
+    return { packs: result.packs, canApprove: !!result.canApprove };
+  } catch (error) {
+    console.error('Error in fetchWordPacks:', error);
+    throw error;
+  }
+}
+
+export interface WordPackUploadResult {
+  pack: WordPackSummary;
+  warnings: string[];
+}
+
+export async function uploadWordPack(
+  format: WordPackFormat,
+  content: string,
+  details: { name?: string; description?: string } = {}
+): Promise<WordPackUploadResult> {
+  try {
+    const response = await fetch(getServerUrl('/word-packs'), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ format, content, ...details })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error uploading word pack:', error);
+      // Validation failures list every problem found in the pack
+      throw new Error(error.errors?.length ? error.errors.join('\n') : error.error || 'Failed to upload word pack');
+    }
+    
+    const result = await response.json();
+    return { pack: result.pack, warnings: result.warnings || [] };
+  } catch (error) {
+    console.error('Error in uploadWordPack:', error);
+    throw error;
+  }
+}
+
+export async function approveWordPack(packId: string): Promise<WordPackSummary> {
+  try {
+    const response = await fetch(getServerUrl(`/word-packs/${packId}/approve`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error approving word pack:', error);
+      throw new Error(error.error || 'Failed to approve word pack');
+    }
+    
+    const result = await response.json();
+    return result.pack;
+  } catch (error) {
+    console.error('Error in approveWordPack:', error);
+    throw error;
+  }
+}
+
+export async function deleteWordPack(packId: string): Promise<void> {
+  try {
+    const response = await fetch(getServerUrl(`/word-packs/${packId}`), {
+      method: 'DELETE',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error deleting word pack:', error);
+      throw new Error(error.error || 'Failed to delete word pack');
+    }
+  } catch (error) {
+    console.error('Error in deleteWordPack:', error);
+    throw error;
+  }
+}
+
+export interface ReviewStatus {
+  dueCount: number;
+  totalCards: number;
+  nextDueAt: string | null;
+}
+
+export async function fetchReviewStatus(walletAddress: string): Promise<ReviewStatus> {
+  try {
+    const response = await fetch(getServerUrl(`/review/${walletAddress}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching review status:', error);
+      throw new Error(error.error || 'Failed to fetch review status');
+    }
+    
+    const result = await response.json();
+    return {
+      dueCount: result.dueCount,
+      totalCards: result.totalCards,
+      nextDueAt: result.nextDueAt
+    };
+  } catch (error) {
+    console.error('Error in fetchReviewStatus:', error);
+    throw error;
+  }
+}
+
+export interface MistakeSummary {
+  errorCounts: Partial<Record<SpellingEditType, number>>;
+  mostMissed: { word: string; misses: number; attempts: number; lastMistake: string | null }[];
+}
+
+export async function fetchMistakeSummary(walletAddress: string): Promise<MistakeSummary> {
+  try {
+    const response = await fetch(getServerUrl(`/mistakes/${walletAddress}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching mistake summary:', error);
+      throw new Error(error.error || 'Failed to fetch mistake summary');
+    }
+    
+    const result = await response.json();
+    return {
+      errorCounts: result.errorCounts,
+      mostMissed: result.mostMissed
+    };
+  } catch (error) {
+    console.error('Error in fetchMistakeSummary:', error);
     throw error;
   }
 }
@@ -107,88 +454,752 @@ export async function fetchLeaderboard(limit: number = 10): Promise<LeaderboardE
   }
 }
 
-export async function deletePlayerData(walletAddress: string): Promise<void> {
+export interface SeasonSummary {
+  period: SeasonPeriod;
+  seasonId: string;
+  startsAt: string;
+  endsAt: string;
+  players: number;
+  archived: boolean; // Final standings, snapshotted when the season ended
+}
+
+export interface SeasonLeaderboard {
+  season: SeasonSummary;
+  leaderboard: LeaderboardEntry[]; // Score and games played count this season only
+}
+
+// Omit `seasonId` for the season in play
+export async function fetchSeasonLeaderboard(
+  period: SeasonPeriod,
+  seasonId?: string,
+  limit: number = 10
+): Promise<SeasonLeaderboard> {
   try {
-    const response = await fetch(getServerUrl(`/player/${walletAddress}`), {
-      method: 'DELETE',
+    const query = `season=${period}&limit=${limit}${seasonId ? `&seasonId=${seasonId}` : ''}`;
+    const response = await fetch(getServerUrl(`/leaderboard?${query}`), {
       headers
     });
     
     if (!response.ok) {
       const error = await response.json();
-      console.error('Error deleting player data:', error);
-      throw new Error(error.error || 'Failed to delete player data');
+      console.error('Error fetching season leaderboard:', error);
+      throw new Error(error.error || 'Failed to fetch season leaderboard');
     }
+    
+    const result = await response.json();
+    return {
+      season: result.season,
+      leaderboard: result.leaderboard
+    };
   } catch (error) {
-    console.error('Error in deletePlayerData:', error);
+    console.error('Error in fetchSeasonLeaderboard:', error);
     throw error;
   }
 }
 
-export interface MintTokensResult {
-  success: boolean;
-  signature?: string;
-  mintAddress?: string;
-  amount?: number;
-  explorerUrl?: string;
-  error?: string;
+export async function fetchSeasons(period: SeasonPeriod): Promise<{ currentSeasonId: string; seasons: SeasonSummary[] }> {
+  try {
+    const response = await fetch(getServerUrl(`/leaderboard/seasons?season=${period}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching seasons:', error);
+      throw new Error(error.error || 'Failed to fetch seasons');
+    }
+    
+    const result = await response.json();
+    return {
+      currentSeasonId: result.currentSeasonId,
+      seasons: result.seasons
+    };
+  } catch (error) {
+    console.error('Error in fetchSeasons:', error);
+    throw error;
+  }
 }
 
-export async function mintTokens(
-  walletAddress: string,
-  amount: number,
-  gameId: string
-): Promise<MintTokensResult> {
+export interface DailyEntry {
+  date: string;
+  startedAt: string;
+  completedAt?: string; // Unset while the game is in progress (or was abandoned)
+  correctCount?: number;
+  totalRounds?: number;
+  totalAnswerMs?: number;
+  wmintEarned?: number;
+  marks?: DailyRoundMark[];
+}
+
+export interface DailyStatus {
+  date: string;
+  resetsAt: string;
+  entry: DailyEntry | null; // Null until the player starts today's challenge
+}
+
+export async function fetchDailyStatus(walletAddress: string): Promise<DailyStatus> {
+  try {
+    const response = await fetch(getServerUrl(`/daily/${walletAddress}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching daily challenge:', error);
+      throw new Error(error.error || 'Failed to fetch daily challenge');
+    }
+    
+    const result = await response.json();
+    return {
+      date: result.date,
+      resetsAt: result.resetsAt,
+      entry: result.entry
+    };
+  } catch (error) {
+    console.error('Error in fetchDailyStatus:', error);
+    throw error;
+  }
+}
+
+export interface DailyLeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  correctCount: number;
+  totalRounds: number;
+  totalAnswerMs: number;
+  marks: DailyRoundMark[];
+}
+
+export async function fetchDailyLeaderboard(limit: number = 10): Promise<DailyLeaderboardEntry[]> {
+  try {
+    const response = await fetch(getServerUrl(`/daily/leaderboard?limit=${limit}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching daily leaderboard:', error);
+      throw new Error(error.error || 'Failed to fetch daily leaderboard');
+    }
+    
+    const result = await response.json();
+    return result.leaderboard;
+  } catch (error) {
+    console.error('Error in fetchDailyLeaderboard:', error);
+    throw error;
+  }
+}
+
+export interface DuelPlayerProgress {
+  walletAddress: string;
+  results: DuelRoundResult[]; // Answered words, in order
+  correctCount: number;
+  totalAnswerMs: number;
+  finished: boolean;
+}
+
+export interface DuelInfo {
+  duelId: string;
+  status: DuelStatus;
+  difficulty: WordTier;
+  stake: number;
+  pot: number;
+  totalRounds: number;
+  players: DuelPlayerProgress[]; // Creator first
+  deadline: string | null;
+  winner: string | null; // Null until completed, and on a draw
+  updatedAt: string;
+}
+
+export interface DuelRoundInfo {
+  duelId: string;
+  letters: number; // The word is only heard, through fetchDuelAudio
+  hasSentence: boolean;
+  roundNumber: number;
+  totalRounds: number;
+  timeLimit: number;
+  roundStartedAt: string;
+}
+
+export interface DuelAnswerResult {
+  correct: boolean;
+  word: string;
+  duel: DuelInfo;
+}
+
+/**
+ * Open a duel: matchmaking pairs you with the next player at the same tier and stake,
+ * otherwise share the duel's invite link
+ */
+export async function openDuel(
+  difficulty: WordTier,
+  stake: number,
+  matchmaking: boolean
+): Promise<DuelInfo> {
+  try {
+    const response = await fetch(getServerUrl('/duels'), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ difficulty, stake, matchmaking })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error opening duel:', error);
+      throw new Error(error.error || 'Failed to open duel');
+    }
+    
+    const result = await response.json();
+    return result.duel;
+  } catch (error) {
+    console.error('Error in openDuel:', error);
+    throw error;
+  }
+}
+
+export async function fetchDuel(duelId: string): Promise<DuelInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/duels/${duelId}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching duel:', error);
+      throw new Error(error.error || 'Failed to fetch duel');
+    }
+    
+    const result = await response.json();
+    return result.duel;
+  } catch (error) {
+    console.error('Error in fetchDuel:', error);
+    throw error;
+  }
+}
+
+export async function joinDuel(duelId: string): Promise<DuelInfo> {
   try {
-    const response = await fetch(getServerUrl('/mint-tokens'), {
+    const response = await fetch(getServerUrl(`/duels/${duelId}/join`), {
       method: 'POST',
-      headers,
-      body: JSON.stringify({
-        walletAddress,
-        amount,
-        gameScore: amount,
-        gameId
-      })
+      headers: { ...headers, ...getAuthHeaders() }
     });
     
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error joining duel:', error);
+      throw new Error(error.error || 'Failed to join duel');
+    }
+    
     const result = await response.json();
+    return result.duel;
+  } catch (error) {
+    console.error('Error in joinDuel:', error);
+    throw error;
+  }
+}
+
+export async function cancelDuel(duelId: string): Promise<DuelInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/duels/${duelId}/cancel`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
     
     if (!response.ok) {
-      console.error('Error minting tokens:', result);
-      throw new Error(result.error || 'Failed to mint tokens');
+      const error = await response.json();
+      console.error('Error cancelling duel:', error);
+      throw new Error(error.error || 'Failed to cancel duel');
     }
     
-    return result;
+    const result = await response.json();
+    return result.duel;
+  } catch (error) {
+    console.error('Error in cancelDuel:', error);
+    throw error;
+  }
+}
+
+export async function startDuelRound(duelId: string): Promise<DuelRoundInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/duels/${duelId}/next`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error starting duel round:', error);
+      throw new Error(error.error || 'Failed to start duel round');
+    }
+    
+    const result = await response.json();
+    return result.round;
+  } catch (error) {
+    console.error('Error in startDuelRound:', error);
+    throw error;
+  }
+}
+
+export async function fetchDuelAudio(duelId: string, prompt: SpeechPrompt): Promise<Blob> {
+  try {
+    const response = await fetch(getServerUrl(`/duels/${duelId}/audio/${prompt}`), {
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching duel prompt audio:', error);
+      throw new Error(error.error || 'Failed to fetch duel prompt audio');
+    }
+    
+    return await response.blob();
   } catch (error) {
-    console.error('Error in mintTokens:', error);
+    console.error('Error in fetchDuelAudio:', error);
     throw error;
   }
 }
 
-export async function resetPlayerScore(
+export async function submitDuelAnswer(duelId: string, answer: string): Promise<DuelAnswerResult> {
+  try {
+    const response = await fetch(getServerUrl(`/duels/${duelId}/answer`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ answer })
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error answering duel:', error);
+      throw new Error(error.error || 'Failed to answer duel');
+    }
+    
+    const result = await response.json();
+    return { correct: result.correct, word: result.word, duel: result.duel };
+  } catch (error) {
+    console.error('Error in submitDuelAnswer:', error);
+    throw error;
+  }
+}
+
+// Wait before reconnecting after the duel stream drops or times out
+const DUEL_RECONNECT_MS = 1000;
+
+/**
+ * Follow a duel's progress over server-sent events until it ends
+ *
+ * Read with fetch rather than EventSource, which can't send the Authorization
+ * header the functions gateway needs. The server closes the stream every
+ * minute or so; it is reopened until the duel is completed or cancelled.
+ * Returns a function that stops following.
+ */
+export function subscribeToDuel(
+  duelId: string,
+  onUpdate: (duel: DuelInfo) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const controller = new AbortController();
+  let finished = false;
+
+  const handleEvent = (block: string) => {
+    const event = block.match(/^event: ?(.*)$/m)?.[1] || 'message';
+    const data = block.split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) {
+      return;
+    }
+
+    const payload = JSON.parse(data);
+    if (event === 'error') {
+      finished = true;
+      onError?.(new Error(payload.error || 'Duel stream failed'));
+      return;
+    }
+
+    if (event === 'duel') {
+      finished = payload.status === 'completed' || payload.status === 'cancelled';
+      onUpdate(payload);
+    }
+  };
+
+  const follow = async () => {
+    while (!finished && !controller.signal.aborted) {
+      try {
+        const response = await fetch(getServerUrl(`/duels/${duelId}/events`), {
+          headers,
+          signal: controller.signal
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error('Failed to follow duel');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
+          const blocks = buffer.split('\n\n');
+          buffer = blocks.pop() || '';
+          blocks.forEach(handleEvent);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Error in subscribeToDuel:', error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, DUEL_RECONNECT_MS));
+    }
+  };
+
+  follow();
+  return () => controller.abort();
+}
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  packName: string;
+  difficulty: WordTier;
+  prizePool: number;
+  maxPlayers: number;
+  entrantCount: number;
+  startsAt: string;
+  endsAt: string;
+  status: TournamentStatus;
+}
+
+export interface TournamentBracketPlayer {
+  walletAddress: string;
+  seed: number;
+  played: boolean;
+  correctCount: number | null; // Null until their game is finished
+  totalAnswerMs: number | null;
+}
+
+export interface TournamentMatch {
+  players: (TournamentBracketPlayer | null)[]; // Null for a bye, or a player not known yet
+  winner: string | null;
+  decided: boolean;
+}
+
+export interface TournamentStage {
+  stage: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  matches: TournamentMatch[];
+}
+
+export interface TournamentStanding {
+  place: number;
+  walletAddress: string;
+  seed: number;
+  prize: number;
+}
+
+export interface TournamentInfo extends TournamentSummary {
+  packId: string;
+  prizeSplit: number[];
+  prizes: number[]; // WMINT per finishing place
+  entrants: { walletAddress: string; registeredAt: string }[];
+  stages: TournamentStage[];
+  standings: TournamentStanding[];
+  payouts: { walletAddress: string; place: number; amount: number; status: string }[];
+  paidAt: string | null;
+  turn: { state: TournamentTurnState; stage: number | null } | null;
+}
+
+export interface TournamentInput {
+  name: string;
+  packId: string;
+  difficulty: WordTier;
+  prizePool: number;
+  maxPlayers: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export async function fetchTournaments(
+  walletAddress?: string
+): Promise<{ tournaments: TournamentSummary[]; canCreate: boolean }> {
+  try {
+    const query = walletAddress ? `?walletAddress=${encodeURIComponent(walletAddress)}` : '';
+    const response = await fetch(getServerUrl(`/tournaments${query}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching tournaments:', error);
+      throw new Error(error.error || 'Failed to fetch tournaments');
+    }
+    
+    const result = await response.json();
+    return { tournaments: result.tournaments, canCreate: !!result.canCreate };
+  } catch (error) {
+    console.error('Error in fetchTournaments:', error);
+    throw error;
+  }
+}
+
+export async function fetchTournament(tournamentId: string, walletAddress?: string): Promise<TournamentInfo> {
+  try {
+    const query = walletAddress ? `?walletAddress=${encodeURIComponent(walletAddress)}` : '';
+    const response = await fetch(getServerUrl(`/tournaments/${tournamentId}${query}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching tournament:', error);
+      throw new Error(error.error || 'Failed to fetch tournament');
+    }
+    
+    const result = await response.json();
+    return result.tournament;
+  } catch (error) {
+    console.error('Error in fetchTournament:', error);
+    throw error;
+  }
+}
+
+export async function createTournament(input: TournamentInput): Promise<TournamentInfo> {
+  try {
+    const response = await fetch(getServerUrl('/tournaments'), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify(input)
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error creating tournament:', error);
+      throw new Error(error.error || 'Failed to create tournament');
+    }
+    
+    const result = await response.json();
+    return result.tournament;
+  } catch (error) {
+    console.error('Error in createTournament:', error);
+    throw error;
+  }
+}
+
+export async function registerForTournament(tournamentId: string): Promise<TournamentInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/tournaments/${tournamentId}/register`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error registering for tournament:', error);
+      throw new Error(error.error || 'Failed to register for tournament');
+    }
+    
+    const result = await response.json();
+    return result.tournament;
+  } catch (error) {
+    console.error('Error in registerForTournament:', error);
+    throw error;
+  }
+}
+
+/**
+ * Start the player's game for their current tournament round
+ * The session is played like any other game
+ */
+export async function startTournamentGame(tournamentId: string): Promise<GameSessionInfo> {
+  try {
+    const response = await fetch(getServerUrl(`/tournaments/${tournamentId}/play`), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error starting tournament game:', error);
+      throw new Error(error.error || 'Failed to start tournament game');
+    }
+    
+    const result = await response.json();
+    return result.session;
+  } catch (error) {
+    console.error('Error in startTournamentGame:', error);
+    throw error;
+  }
+}
+
+export interface BadgeInfo {
+  achievementId: string;
+  unlockedAt: string;
+  status: BadgeMintStatus;
+  signature: string | null; // Mint transaction, once sent
+  assetId: string | null; // Compressed NFT address, once confirmed
+  mintedAt: string | null;
+}
+
+export interface AchievementUnlock {
+  achievementId: string;
+  unlockedAt: string;
+  context: {
+    source: UnlockSource;
+    referenceId?: string; // Game session, claim or tournament ID
+    stats: {
+      totalWmintEarned: number;
+      streak: number;
+      maxStreak: number;
+      gamesPlayed: number;
+      level: number;
+    };
+  };
+  seenAt?: string; // Unset while the unlock is in the inbox
+}
+
+export interface AchievementUnlockInfo extends AchievementUnlock {
+  badge: BadgeInfo | null; // Null until the badge is created
+}
+
+// Get a player's recorded achievement unlocks, oldest first, with their NFT badges
+export async function fetchAchievements(walletAddress: string): Promise<AchievementUnlockInfo[]> {
+  try {
+    const response = await fetch(getServerUrl(`/achievements/${walletAddress}`), {
+      headers
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching achievements:', error);
+      throw new Error(error.error || 'Failed to fetch achievements');
+    }
+    
+    const result = await response.json();
+    return result.unlocks;
+  } catch (error) {
+    console.error('Error in fetchAchievements:', error);
+    throw error;
+  }
+}
+
+// Get the unlocks the player hasn't been shown yet, e.g. ones earned while offline
+export async function fetchAchievementInbox(walletAddress: string): Promise<AchievementUnlock[]> {
+  try {
+    const response = await fetch(getServerUrl(`/achievements/${walletAddress}/inbox`), {
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error fetching achievement inbox:', error);
+      throw new Error(error.error || 'Failed to fetch achievement inbox');
+    }
+    
+    const result = await response.json();
+    return result.unlocks;
+  } catch (error) {
+    console.error('Error in fetchAchievementInbox:', error);
+    throw error;
+  }
+}
+
+// Mark unlocks as shown; returns the unlocks still in the inbox
+export async function markAchievementsSeen(
   walletAddress: string,
-  claimedAmount: number
-): Promise<PlayerData> {
+  achievementIds: string[]
+): Promise<AchievementUnlock[]> {
   try {
-    const response = await fetch(getServerUrl('/reset-score'), {
+    const response = await fetch(getServerUrl(`/achievements/${walletAddress}/seen`), {
       method: 'POST',
-      headers,
-      body: JSON.stringify({
-        walletAddress,
-        claimedAmount
-      })
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ achievementIds })
     });
     
     if (!response.ok) {
       const error = await response.json();
-      console.error('Error resetting score:', error);
-      throw new Error(error.error || 'Failed to reset score');
+      console.error('Error marking achievements seen:', error);
+      throw new Error(error.error || 'Failed to mark achievements seen');
     }
     
     const result = await response.json();
-    return result.player;
+    return result.unlocks;
   } catch (error) {
-    console.error('Error in resetPlayerScore:', error);
+    console.error('Error in markAchievementsSeen:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function deletePlayerData(walletAddress: string): Promise<void> {
+  try {
+    const response = await fetch(getServerUrl(`/player/${walletAddress}`), {
+      method: 'DELETE',
+      headers: { ...headers, ...getAuthHeaders() }
+    });
+    
+    if (!response.ok) {
+      const error = await response.json();
+      console.error('Error deleting player data:', error);
+      throw new Error(error.error || 'Failed to delete player data');
+    }
+  } catch (error) {
+    console.error('Error in deletePlayerData:', error);
+    throw error;
+  }
+}
+
+export type ClaimStatus = 'reserved' | 'submitted' | 'confirmed' | 'failed' | 'refunded';
+
+export interface ClaimRecord {
+  id: string;
+  amount: number;
+  status: ClaimStatus;
+  signature?: string;
+  mintAddress?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClaimRewardsResult {
+  claim: ClaimRecord;
+  player: PlayerData;
+  explorerUrl: string | null;
+  unlocked: AchievementUnlock[]; // Achievements the claimed WMINT unlocked
+}
+
+/**
+ * Claim the full pending balance in one step
+ * Retrying with the same idempotency key returns the original claim
+ */
+export async function claimRewards(idempotencyKey: string): Promise<ClaimRewardsResult> {
+  try {
+    const response = await fetch(getServerUrl('/claims'), {
+      method: 'POST',
+      headers: { ...headers, ...getAuthHeaders() },
+      body: JSON.stringify({ idempotencyKey })
+    });
+    
+    const result = await response.json();
+    
+    if (!response.ok) {
+      console.error('Error claiming rewards:', result);
+      throw new Error(result.error || 'Failed to claim rewards');
+    }
+    
+    return result;
+  } catch (error) {
+    console.error('Error in claimRewards:', error);
+    throw error;
+  }
+}
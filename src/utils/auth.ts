@@ -0,0 +1,164 @@
+/**
+ * SIGN-IN WITH SOLANA (CLIENT)
+ *
+ * Proves wallet ownership to the WordMint server:
+ * 1. Request a nonce for the wallet address
+ * 2. Sign the returned message with the wallet's signMessage
+ * 3. Exchange the signature for a short-lived session token
+ *
+ * The token is sent with every player-mutating API request.
+ */
+
+import bs58 from 'bs58';
+import { getServerUrl } from './supabase/client';
+import { publicAnonKey } from './supabase/info';
+import { detectWallet } from './wallet';
+import { getMobileWalletProvider } from './mobile-wallet-adapter';
+
+const AUTH_SESSION_KEY = 'wordmint_auth_session';
+
+// Header the server middleware reads the session token from
+export const SESSION_HEADER = 'X-WordMint-Session';
+
+// Sign in again slightly before the server-side expiry
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface AuthSession {
+  walletAddress: string;
+  token: string;
+  expiresAt: number;
+}
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${publicAnonKey}`
+};
+
+/**
+ * Get the stored session, if it is still valid (and belongs to the given wallet)
+ */
+export function getAuthSession(walletAddress?: string): AuthSession | null {
+  const sessionData = localStorage.getItem(AUTH_SESSION_KEY);
+  if (!sessionData) return null;
+
+  try {
+    const session: AuthSession = JSON.parse(sessionData);
+
+    if (Date.now() > session.expiresAt - EXPIRY_MARGIN_MS) {
+      clearAuthSession();
+      return null;
+    }
+
+    if (walletAddress && session.walletAddress !== walletAddress) {
+      return null;
+    }
+
+    return session;
+  } catch {
+    clearAuthSession();
+    return null;
+  }
+}
+
+/**
+ * Forget the stored session token
+ */
+export function clearAuthSession(): void {
+  localStorage.removeItem(AUTH_SESSION_KEY);
+}
+
+/**
+ * Headers to attach to authenticated API requests
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const session = getAuthSession();
+  return session ? { [SESSION_HEADER]: session.token } : {};
+}
+
+/**
+ * Sign a message with the injected wallet provider (desktop extension or wallet browser)
+ */
+async function signWithWallet(message: string): Promise<string> {
+  const provider = detectWallet() || getMobileWalletProvider();
+
+  if (!provider?.signMessage) {
+    throw new Error('Your wallet does not support message signing. Open WordMint in Phantom or Solflare to sign in.');
+  }
+
+  const encodedMessage = new TextEncoder().encode(message);
+  const signed = await provider.signMessage(encodedMessage, 'utf8');
+
+  // Phantom returns { signature }, some wallets return the bytes directly
+  const signature: Uint8Array = signed?.signature ?? signed;
+  return bs58.encode(signature);
+}
+
+/**
+ * Sign in with the connected wallet
+ * Reuses the stored session when it is still valid for this wallet
+ */
+export async function signInWithWallet(walletAddress: string): Promise<AuthSession> {
+  const existingSession = getAuthSession(walletAddress);
+  if (existingSession) {
+    return existingSession;
+  }
+
+  try {
+    const nonceResponse = await fetch(getServerUrl('/auth/nonce'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ walletAddress })
+    });
+
+    if (!nonceResponse.ok) {
+      const error = await nonceResponse.json();
+      throw new Error(error.error || 'Failed to request sign-in nonce');
+    }
+
+    const { nonce, message } = await nonceResponse.json();
+    const signature = await signWithWallet(message);
+
+    const verifyResponse = await fetch(getServerUrl('/auth/verify'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ walletAddress, nonce, signature })
+    });
+
+    if (!verifyResponse.ok) {
+      const error = await verifyResponse.json();
+      throw new Error(error.error || 'Failed to verify wallet signature');
+    }
+
+    const result = await verifyResponse.json();
+    const session: AuthSession = {
+      walletAddress,
+      token: result.token,
+      expiresAt: result.expiresAt
+    };
+
+    localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+    return session;
+  } catch (error) {
+    console.error('Error in signInWithWallet:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke the session server-side and forget it locally
+ */
+export async function signOut(): Promise<void> {
+  const session = getAuthSession();
+  clearAuthSession();
+
+  if (!session) return;
+
+  try {
+    await fetch(getServerUrl('/auth/logout'), {
+      method: 'POST',
+      headers: { ...headers, [SESSION_HEADER]: session.token }
+    });
+  } catch (error) {
+    console.error('Error in signOut:', error);
+  }
+}
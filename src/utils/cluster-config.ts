@@ -0,0 +1,108 @@
+/**
+ * SOLANA CLUSTER CONFIGURATION
+ *
+ * Single source of cluster settings shared by the frontend and the edge function.
+ * The server picks the active cluster (WORDMINT_SOLANA_CLUSTER) and publishes
+ * it at GET /cluster, so the same frontend build works against any cluster.
+ *
+ * This module must stay free of browser and Deno APIs so both sides can import it.
+ */
+
+export type SolanaCluster = 'localnet' | 'devnet' | 'mainnet-beta';
+
+export type ClusterCommitment = 'processed' | 'confirmed' | 'finalized';
+
+export interface ClusterConfig {
+  cluster: SolanaCluster;
+  label: string;
+  rpcUrl: string;
+  commitment: ClusterCommitment;
+  explorerBaseUrl: string;
+  // Cluster name passed to wallet deep links (wallets have no localnet option)
+  walletCluster: 'devnet' | 'mainnet-beta';
+}
+
+export const DEFAULT_CLUSTER: SolanaCluster = 'devnet';
+
+export const CLUSTERS: Record<SolanaCluster, ClusterConfig> = {
+  'localnet': {
+    cluster: 'localnet',
+    label: 'Localnet',
+    rpcUrl: 'http://127.0.0.1:8899',
+    commitment: 'confirmed',
+    explorerBaseUrl: 'https://explorer.solana.com',
+    walletCluster: 'devnet',
+  },
+  'devnet': {
+    cluster: 'devnet',
+    label: 'Devnet',
+    rpcUrl: 'https://api.devnet.solana.com',
+    commitment: 'confirmed',
+    explorerBaseUrl: 'https://explorer.solana.com',
+    walletCluster: 'devnet',
+  },
+  'mainnet-beta': {
+    cluster: 'mainnet-beta',
+    label: 'Mainnet',
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    commitment: 'finalized',
+    explorerBaseUrl: 'https://explorer.solana.com',
+    walletCluster: 'mainnet-beta',
+  },
+};
+
+const COMMITMENTS: ClusterCommitment[] = ['processed', 'confirmed', 'finalized'];
+
+export function isSolanaCluster(cluster: unknown): cluster is SolanaCluster {
+  return typeof cluster === 'string' && cluster in CLUSTERS;
+}
+
+/**
+ * Build the config for a cluster, applying optional RPC URL and commitment overrides
+ * Throws on an unknown cluster or commitment so misconfiguration fails loudly
+ */
+export function resolveClusterConfig(
+  cluster: string = DEFAULT_CLUSTER,
+  overrides: { rpcUrl?: string; commitment?: string } = {}
+): ClusterConfig {
+  if (!isSolanaCluster(cluster)) {
+    throw new Error(`Unknown Solana cluster: ${cluster}. Expected one of: ${Object.keys(CLUSTERS).join(', ')}`);
+  }
+
+  if (overrides.commitment && !COMMITMENTS.includes(overrides.commitment as ClusterCommitment)) {
+    throw new Error(`Unknown commitment: ${overrides.commitment}`);
+  }
+
+  return {
+    ...CLUSTERS[cluster],
+    ...(overrides.rpcUrl ? { rpcUrl: overrides.rpcUrl } : {}),
+    ...(overrides.commitment ? { commitment: overrides.commitment as ClusterCommitment } : {}),
+  };
+}
+
+/**
+ * Explorer query string selecting the cluster (mainnet is the explorer default)
+ */
+function explorerQuery(config: ClusterConfig): string {
+  if (config.cluster === 'mainnet-beta') {
+    return '';
+  }
+  if (config.cluster === 'localnet') {
+    return `?cluster=custom&customUrl=${encodeURIComponent(config.rpcUrl)}`;
+  }
+  return `?cluster=${config.cluster}`;
+}
+
+/**
+ * Solana Explorer URL for a transaction on the given cluster
+ */
+export function getExplorerTxUrl(config: ClusterConfig, signature: string): string {
+  return `${config.explorerBaseUrl}/tx/${signature}${explorerQuery(config)}`;
+}
+
+/**
+ * Solana Explorer URL for an address on the given cluster
+ */
+export function getExplorerAddressUrl(config: ClusterConfig, address: string): string {
+  return `${config.explorerBaseUrl}/address/${address}${explorerQuery(config)}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * ACTIVE CLUSTER (CLIENT)
+ *
+ * The server decides which Solana cluster WordMint runs on and publishes it
+ * at GET /cluster. Until that has loaded, the default cluster is assumed.
+ */
+
+import { getServerUrl } from './supabase/client';
+import { publicAnonKey } from './supabase/info';
+import {
+  ClusterConfig,
+  CLUSTERS,
+  DEFAULT_CLUSTER,
+  getExplorerTxUrl,
+  getExplorerAddressUrl,
+} from './cluster-config';
+
+export interface ActiveCluster extends ClusterConfig {
+  // Rewards go to the server's in-process fake ledger, not a real cluster
+  fakeLedger: boolean;
+}
+
+let activeCluster: ActiveCluster = { ...CLUSTERS[DEFAULT_CLUSTER], fakeLedger: false };
+let loadPromise: Promise<ActiveCluster> | null = null;
+
+/**
+ * The active cluster (the default until loadActiveCluster has resolved)
+ */
+export function getActiveCluster(): ActiveCluster {
+  return activeCluster;
+}
+
+/**
+ * Fetch the server's cluster once; later calls share the same request
+ */
+export function loadActiveCluster(): Promise<ActiveCluster> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const response = await fetch(getServerUrl('/cluster'), {
+          headers: { 'Authorization': `Bearer ${publicAnonKey}` }
+        });
+
+        if (!response.ok) {
+          throw new Error(`Cluster request failed with status ${response.status}`);
+        }
+
+        activeCluster = await response.json();
+      } catch (error) {
+        console.error('Error loading cluster config, assuming default:', error);
+        // Allow a later call to retry
+        loadPromise = null;
+      }
+      return activeCluster;
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Display name for the active network, e.g. "Solana Devnet"
+ */
+export function getNetworkLabel(cluster: ActiveCluster = activeCluster): string {
+  return cluster.fakeLedger ? 'Local Test Ledger' : `Solana ${cluster.label}`;
+}
+
+/**
+ * Solana Explorer URL for a transaction on the active cluster
+ */
+export function getExplorerUrl(signature: string): string {
+  return getExplorerTxUrl(activeCluster, signature);
+}
+
+/**
+ * Solana Explorer URL for an address on the active cluster
+ */
+export function getAddressExplorerUrl(address: string): string {
+  return getExplorerAddressUrl(activeCluster, address);
+}
@@ -0,0 +1,71 @@
+/**
+ * Daily Challenge
+ *
+ * Every UTC day the server picks one sequence of words from the built-in pack,
+ * the same for every player. Each player gets one attempt, ranked on a
+ * separate daily leaderboard by words correct, then total answer time.
+ * Shared by the server and the dashboard, leaderboard and share button.
+ */
+
+import { WordTier } from './word-lists.ts';
+
+// Tier of each word, in order: two easy, two normal, one hard
+export const DAILY_TIERS: WordTier[] = ['easy', 'easy', 'normal', 'normal', 'hard'];
+
+export type DailyRoundMark = 'correct' | 'hinted' | 'missed';
+
+const MARK_EMOJI: Record<DailyRoundMark, string> = {
+  correct: '🟩',
+  hinted: '🟨',
+  missed: '🟥',
+};
+
+/**
+ * The challenge day for a moment in time, as YYYY-MM-DD in UTC
+ */
+export function getDailyDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * When the next challenge starts (the next UTC midnight)
+ */
+export function getNextDailyReset(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+export function getDailyRoundMark(round: { correct: boolean; hintsUsed: number }): DailyRoundMark {
+  if (!round.correct) {
+    return 'missed';
+  }
+  return round.hintsUsed > 0 ? 'hinted' : 'correct';
+}
+
+/**
+ * One emoji square per word: 🟩 correct, 🟨 correct with hints, 🟥 missed
+ */
+export function formatDailyMarks(marks: DailyRoundMark[]): string {
+  return marks.map(mark => MARK_EMOJI[mark]).join('');
+}
+
+/**
+ * Spoiler-free result to paste elsewhere, e.g.
+ *   WordMint Daily 2026-10-19 4/5 ⏱ 23.4s
+ *   🟩🟩🟨🟥🟩
+ */
+export function formatDailyShareText(
+  date: string,
+  marks: DailyRoundMark[],
+  totalAnswerMs: number,
+  url?: string
+): string {
+  const correct = marks.filter(mark => mark !== 'missed').length;
+  const lines = [
+    `WordMint Daily ${date} ${correct}/${marks.length} ⏱ ${(totalAnswerMs / 1000).toFixed(1)}s`,
+    formatDailyMarks(marks),
+  ];
+  if (url) {
+    lines.push(url);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+/**
+ * Duels
+ *
+ * Head-to-head games: two players spell the same words from one tier of the
+ * built-in pack at the same time, and the winner takes the pot of both stakes.
+ * Shared by the server and the duel lobby.
+ */
+
+import { WordTier } from './word-lists.ts';
+
+// WMINT each player puts into the pot, paid from their pending score
+export const DUEL_STAKES = [0, 10, 25, 50];
+
+export const DUEL_TIERS: WordTier[] = ['easy', 'normal', 'hard'];
+
+export type DuelStatus = 'waiting' | 'active' | 'completed' | 'cancelled';
+
+export type DuelRoundResult = 'correct' | 'missed';
+
+export function isDuelStake(stake: unknown): stake is number {
+  return DUEL_STAKES.includes(stake as number);
+}
+
+/**
+ * Link that opens the duel lobby ready to join
+ */
+export function getDuelInviteUrl(origin: string, duelId: string): string {
+  return `${origin}/?duel=${encodeURIComponent(duelId)}`;
+}
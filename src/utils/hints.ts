@@ -0,0 +1,66 @@
+/**
+ * Hint Catalog
+ * 
+ * Hints a player can buy during a round, paid from their pending WMINT score.
+ * Shared by the game screen and the server, which charges and reveals them.
+ */
+
+export type HintType = 'first-letter' | 'random-letter' | 'definition' | 'slow-replay';
+
+export interface HintInfo {
+  type: HintType;
+  name: string;
+  description: string;
+  cost: number; // WMINT deducted from the pending score
+  repeatable: boolean; // Can be bought more than once per round
+}
+
+export const HINTS: HintInfo[] = [
+  {
+    type: 'slow-replay',
+    name: 'Slow Replay',
+    description: 'Hear the word spoken slowly, as often as you like',
+    cost: 5,
+    repeatable: false
+  },
+  {
+    type: 'first-letter',
+    name: 'First Letter',
+    description: 'Reveal the first letter',
+    cost: 10,
+    repeatable: false
+  },
+  {
+    type: 'random-letter',
+    name: 'Random Letter',
+    description: 'Reveal a letter at a random position',
+    cost: 15,
+    repeatable: true
+  },
+  {
+    type: 'definition',
+    name: 'Definition',
+    description: 'Show what the word means',
+    cost: 20,
+    repeatable: false
+  }
+];
+
+/**
+ * What a bought hint reveals
+ */
+export interface HintReveal {
+  type: HintType;
+  cost: number;
+  position?: number; // Letter hints: index of the revealed letter
+  letter?: string;
+  definition?: string; // Definition hint: the definition with the word blanked out
+}
+
+export function getHintInfo(type: HintType): HintInfo | undefined {
+  return HINTS.find(hint => hint.type === type);
+}
+
+export function isHintType(type: unknown): type is HintType {
+  return HINTS.some(hint => hint.type === type);
+}
@@ -16,6 +16,7 @@
 import bs58 from 'bs58';
 // NOTE: Must install the dependency: npm install tweetnacl
 import * as nacl from 'tweetnacl';
+import { getActiveCluster } from './cluster';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -127,7 +128,7 @@ export function generatePhantomDeepLink(config: DeepLinkConfig, session: MobileW
   const params = new URLSearchParams({
     app_url: appUrl,
     redirect_link: redirectUrl,
-    cluster: 'devnet', // Use devnet for WordMint
+    cluster: getActiveCluster().walletCluster,
     ref: appName.toLowerCase().replace(/\s+/g, ''),
     // CRITICAL FIX: Use Base58 encoded key
     dapp_encryption_public_key: base58PublicKey
@@ -162,7 +163,7 @@ export function generateSolflareDeepLink(config: DeepLinkConfig, session: Mobile
   const params = new URLSearchParams({
     app_url: appUrl,
     redirect_link: redirectUrl,
-    cluster: 'devnet',
+    cluster: getActiveCluster().walletCluster,
     ref: appName.toLowerCase().replace(/\s+/g, ''),
     // CRITICAL FIX: Use Base58 encoded key
     dapp_encryption_public_key: base58PublicKey 
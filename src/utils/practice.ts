@@ -0,0 +1,139 @@
+/**
+ * Practice Mode
+ *
+ * Guest games for trying WordMint without a wallet. Words come from the
+ * built-in pack and are graded in the browser, so nothing is sent to the
+ * server and nothing is earned. The guest's running stats live in
+ * localStorage and can be brought into a new player record when they connect
+ * a wallet; the server keeps them apart as practice stats and never turns
+ * them into WMINT, streaks or levels.
+ */
+
+import { WordTier, pickRandom } from './word-lists.ts';
+import { getBuiltInPack } from './word-packs.ts';
+import { isAcceptedSpelling } from './word-entries.ts';
+import { SpellingDiffOp, diffSpelling } from './spelling-diff.ts';
+
+// Words per practice game, like a regular game
+export const PRACTICE_ROUNDS = 5;
+
+export const PRACTICE_TIERS: WordTier[] = ['easy', 'normal', 'hard'];
+
+// Imported stats above this are not believable from a browser and are refused
+const MAX_IMPORTED_GAMES = 10000;
+
+const GUEST_STATS_KEY = 'wordmint_guest_stats';
+
+export interface PracticeStats {
+  gamesPlayed: number;
+  wordsAttempted: number;
+  wordsCorrect: number;
+  streak: number; // Correct words in a row, across games
+  bestStreak: number;
+}
+
+export interface PracticeRound {
+  word: string;
+  tier: WordTier;
+  definition?: string;
+  sentence?: string;
+  alternates?: string[];
+  answer?: string;
+  correct?: boolean;
+  diff?: SpellingDiffOp[]; // Letter diff of a misspelled answer
+}
+
+export const EMPTY_PRACTICE_STATS: PracticeStats = {
+  gamesPlayed: 0,
+  wordsAttempted: 0,
+  wordsCorrect: 0,
+  streak: 0,
+  bestStreak: 0,
+};
+
+/**
+ * A practice game's words, from one tier of the built-in pack
+ */
+export function createPracticeRounds(tier: WordTier): PracticeRound[] {
+  const entries = getBuiltInPack().tiers[tier] || [];
+  return pickRandom(entries, PRACTICE_ROUNDS).map(entry => ({ ...entry, tier }));
+}
+
+/**
+ * Grade an answer the way the server grades a regular game (alternate spellings accepted)
+ */
+export function gradePracticeRound(round: PracticeRound, answer: string): PracticeRound {
+  const correct = isAcceptedSpelling(round.word, answer, round.alternates);
+  return {
+    ...round,
+    answer,
+    correct,
+    ...(!correct && answer.trim() && { diff: diffSpelling(round.word, answer).ops }),
+  };
+}
+
+/**
+ * Add a finished practice game to the guest's stats
+ */
+export function addPracticeGame(stats: PracticeStats, rounds: PracticeRound[]): PracticeStats {
+  let { streak, bestStreak } = stats;
+  for (const round of rounds) {
+    streak = round.correct ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  }
+
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wordsAttempted: stats.wordsAttempted + rounds.length,
+    wordsCorrect: stats.wordsCorrect + rounds.filter(round => round.correct).length,
+    streak,
+    bestStreak,
+  };
+}
+
+/**
+ * Check stats sent for import: whole numbers that could have come from real practice games
+ * Returns null if they couldn't have.
+ */
+export function sanitizePracticeStats(raw: unknown): PracticeStats | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const stats = raw as Record<string, unknown>;
+  const fields = Object.keys(EMPTY_PRACTICE_STATS) as (keyof PracticeStats)[];
+  if (!fields.every(field => Number.isInteger(stats[field]) && (stats[field] as number) >= 0)) {
+    return null;
+  }
+
+  const { gamesPlayed, wordsAttempted, wordsCorrect, streak, bestStreak } = stats as unknown as PracticeStats;
+  const consistent =
+    gamesPlayed <= MAX_IMPORTED_GAMES &&
+    wordsAttempted <= gamesPlayed * PRACTICE_ROUNDS &&
+    wordsCorrect <= wordsAttempted &&
+    bestStreak <= wordsCorrect &&
+    streak <= bestStreak;
+
+  return consistent ? { gamesPlayed, wordsAttempted, wordsCorrect, streak, bestStreak } : null;
+}
+
+/**
+ * The guest's stats saved in this browser, if they have played practice games
+ */
+export function loadGuestStats(): PracticeStats | null {
+  try {
+    const saved = localStorage.getItem(GUEST_STATS_KEY);
+    return saved ? sanitizePracticeStats(JSON.parse(saved)) : null;
+  } catch (error) {
+    console.error('Failed to load guest stats:', error);
+    return null;
+  }
+}
+
+export function saveGuestStats(stats: PracticeStats): void {
+  localStorage.setItem(GUEST_STATS_KEY, JSON.stringify(stats));
+}
+
+export function clearGuestStats(): void {
+  localStorage.removeItem(GUEST_STATS_KEY);
+}
@@ -0,0 +1,31 @@
+/**
+ * Profanity Filter
+ *
+ * Keeps offensive words out of uploaded word packs.
+ * Whole words are matched exactly; roots are matched anywhere in a word.
+ * Roots are only listed where they can't appear inside innocent words
+ * ("ass" is a whole word only, since it appears in "class" and "passage").
+ */
+
+const BLOCKED_WORDS = new Set([
+  'arse', 'ass', 'asses', 'bastard', 'bitch', 'bitches', 'bollocks', 'cunt',
+  'cunts', 'dick', 'dicks', 'dildo', 'dyke', 'fag', 'fags', 'jizz', 'kike',
+  'piss', 'porn', 'prick', 'pussy', 'retard', 'retarded', 'slut', 'sluts',
+  'spic', 'tits', 'twat', 'wank', 'wanker', 'whore'
+]);
+
+const BLOCKED_ROOTS = [
+  'asshole', 'blowjob', 'bullshit', 'cocksuck', 'faggot', 'fuck',
+  'handjob', 'nigga', 'nigger', 'shit', 'tranny'
+];
+
+/**
+ * Check whether text contains a blocked word
+ */
+export function containsProfanity(text: string): boolean {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+
+  return words.some(word =>
+    BLOCKED_WORDS.has(word) || BLOCKED_ROOTS.some(root => word.includes(root))
+  );
+}
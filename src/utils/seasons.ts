@@ -0,0 +1,78 @@
+/**
+ * Seasons
+ *
+ * Seasonal leaderboards rank players by the WMINT they earn within a season,
+ * so everyone starts level when one begins. Weekly seasons start on Monday
+ * and monthly ones on the 1st, both at midnight UTC like the daily challenge.
+ * A season is identified by its first day: YYYY-MM-DD for a week, YYYY-MM
+ * for a month.
+ * Shared by the server and the leaderboard's season selector.
+ */
+
+export type SeasonPeriod = 'weekly' | 'monthly';
+
+export const SEASON_PERIODS: SeasonPeriod[] = ['weekly', 'monthly'];
+
+/**
+ * The season in play at a moment in time
+ */
+export function getSeasonId(period: SeasonPeriod, now: Date = new Date()): string {
+  if (period === 'monthly') {
+    return now.toISOString().slice(0, 7);
+  }
+  // Back up to Monday (getUTCDay is 0 for Sunday)
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * When a season starts
+ */
+export function getSeasonStart(period: SeasonPeriod, seasonId: string): Date {
+  return new Date(period === 'monthly' ? `${seasonId}-01T00:00:00Z` : `${seasonId}T00:00:00Z`);
+}
+
+/**
+ * When a season ends (the start of the next one)
+ */
+export function getSeasonEnd(period: SeasonPeriod, seasonId: string): Date {
+  const start = getSeasonStart(period, seasonId);
+  return period === 'monthly'
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 7));
+}
+
+/**
+ * Whether an ID names a season of this period (a week ID must be a Monday)
+ */
+export function isValidSeasonId(period: SeasonPeriod, seasonId: string): boolean {
+  const pattern = period === 'monthly' ? /^\d{4}-\d{2}$/ : /^\d{4}-\d{2}-\d{2}$/;
+  if (!pattern.test(seasonId)) {
+    return false;
+  }
+  const start = getSeasonStart(period, seasonId);
+  return !isNaN(start.getTime()) && getSeasonId(period, start) === seasonId;
+}
+
+/**
+ * Whether a season is over
+ */
+export function isSeasonEnded(period: SeasonPeriod, seasonId: string, now: Date = new Date()): boolean {
+  return getSeasonEnd(period, seasonId).getTime() <= now.getTime();
+}
+
+/**
+ * A season's name for the season selector, e.g. "This week", "Week of Oct 12" or "September 2026"
+ */
+export function formatSeasonName(period: SeasonPeriod, seasonId: string, now: Date = new Date()): string {
+  if (seasonId === getSeasonId(period, now)) {
+    return period === 'monthly' ? 'This month' : 'This week';
+  }
+
+  const start = getSeasonStart(period, seasonId);
+  if (period === 'monthly') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+  return `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`;
+}
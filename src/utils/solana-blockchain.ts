@@ -1,7 +1,8 @@
 /**
  * SOLANA BLOCKCHAIN INTEGRATION
  * 
- * Real Solana devnet integration for WordMint SPL token rewards
+ * Real Solana integration for WordMint SPL token rewards
+ * Targets whichever cluster the server is configured for (see utils/cluster.ts)
  * This is NOT a mock - all transactions are real and verifiable on-chain
  */
 
@@ -25,11 +26,23 @@ import {
   getAssociatedTokenAddress
 } from '@solana/spl-token';
 
-// Solana Devnet RPC endpoint
-export const DEVNET_RPC = 'https://api.devnet.solana.com';
+import { getActiveCluster, getExplorerUrl } from './cluster';
 
-// Initialize connection to Solana devnet
-export const connection = new Connection(DEVNET_RPC, 'confirmed');
+export { getExplorerUrl, getAddressExplorerUrl } from './cluster';
+
+let cachedConnection: Connection | null = null;
+
+/**
+ * Connection to the active cluster's RPC endpoint
+ */
+export function getConnection(): Connection {
+  const { rpcUrl, commitment } = getActiveCluster();
+
+  if (!cachedConnection || cachedConnection.rpcEndpoint !== rpcUrl) {
+    cachedConnection = new Connection(rpcUrl, commitment);
+  }
+  return cachedConnection;
+}
 
 // WordMint SPL Token details (will be stored in backend after mint creation)
 export const WORDMINT_TOKEN = {
@@ -62,20 +75,6 @@ export interface TransactionResult {
   explorerUrl?: string;
 }
 
-/**
- * Get Solana Explorer URL for devnet transaction
- */
-export function getExplorerUrl(signature: string): string {
-  return `https://explorer.solana.com/tx/${signature}?cluster=devnet`;
-}
-
-/**
- * Get Solana Explorer URL for devnet address
- */
-export function getAddressExplorerUrl(address: string): string {
-  return `https://explorer.solana.com/address/${address}?cluster=devnet`;
-}
-
 /**
  * Shorten a public key or signature for display
  */
@@ -92,7 +91,7 @@ export async function checkSolBalance(publicKey: string): Promise<{
 }> {
   try {
     const pubKey = new PublicKey(publicKey);
-    const balance = await connection.getBalance(pubKey);
+    const balance = await getConnection().getBalance(pubKey);
     const solBalance = balance / LAMPORTS_PER_SOL;
     
     // Require at least 0.01 SOL for transaction fees
@@ -131,7 +130,7 @@ export async function fetchTokenBalance(
     );
     
     // Fetch account info
-    const accountInfo = await getAccount(connection, tokenAccountAddress);
+    const accountInfo = await getAccount(getConnection(), tokenAccountAddress);
     
     // Convert from token units to human-readable amount
     const balance = Number(accountInfo.amount) / Math.pow(10, WORDMINT_TOKEN.decimals);
@@ -216,7 +215,7 @@ export async function createTokenAccount(
     
     // Check if account already exists
     try {
-      await getAccount(connection, tokenAccountAddress);
+      await getAccount(getConnection(), tokenAccountAddress);
       // Account exists, no need to create
       return {
         success: true,
@@ -241,7 +240,7 @@ export async function createTokenAccount(
     const transaction = new Transaction().add(instruction);
     
     // Get latest blockhash
-    const { blockhash } = await connection.getLatestBlockhash();
+    const { blockhash } = await getConnection().getLatestBlockhash();
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = publicKey;
     
@@ -249,12 +248,12 @@ export async function createTokenAccount(
     const signedTransaction = await signTransaction(transaction);
     
     // Send transaction
-    const signature = await connection.sendRawTransaction(
+    const signature = await getConnection().sendRawTransaction(
       signedTransaction.serialize()
     );
     
     // Wait for confirmation
-    await connection.confirmTransaction(signature, 'confirmed');
+    await getConnection().confirmTransaction(signature, 'confirmed');
     
     return {
       success: true,
@@ -290,7 +289,7 @@ export async function waitForConfirmation(
   
   while (Date.now() - startTime < timeout) {
     try {
-      const status = await connection.getSignatureStatus(signature);
+      const status = await getConnection().getSignatureStatus(signature);
       
       if (status.value?.confirmationStatus === 'confirmed' || 
           status.value?.confirmationStatus === 'finalized') {
@@ -350,7 +349,7 @@ export function formatTokenAmount(amount: number): string {
  */
 export async function verifyTransaction(signature: string): Promise<boolean> {
   try {
-    const status = await connection.getSignatureStatus(signature);
+    const status = await getConnection().getSignatureStatus(signature);
     return status.value !== null;
   } catch (error) {
     console.error('Error verifying transaction:', error);
@@ -0,0 +1,24 @@
+/**
+ * Speech Prompts
+ *
+ * What a player can ask to hear during a round. In server games the word
+ * never reaches the browser: each prompt is synthesized by the server and
+ * sent as audio. Guest practice speaks its words with the browser instead.
+ * The definition is only spoken once its hint is bought, with the word
+ * blanked out as in the hint.
+ * Shared by the server's audio routes and the game screen.
+ */
+
+export type SpeechPrompt = 'word' | 'slow-word' | 'sentence' | 'definition';
+
+export const SPEECH_PROMPTS: SpeechPrompt[] = ['word', 'slow-word', 'sentence', 'definition'];
+
+// Speech rate of the word, the sentence and the definition
+export const PROMPT_RATE = 0.8;
+
+// Speech rate granted by the slow replay hint
+export const SLOW_PROMPT_RATE = 0.5;
+
+export function isSpeechPrompt(prompt: unknown): prompt is SpeechPrompt {
+  return SPEECH_PROMPTS.includes(prompt as SpeechPrompt);
+}
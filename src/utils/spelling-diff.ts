@@ -0,0 +1,147 @@
+/**
+ * Spelling Diff
+ *
+ * Letter-by-letter comparison of an answer with the correct spelling, using
+ * the optimal string alignment edit distance (Levenshtein plus swaps of
+ * neighbouring letters). Computed by the server when grading, shown on the
+ * result screen and tallied in the player's word history.
+ *
+ * Edits are named from the player's side: an insertion is an extra letter the
+ * player typed, a deletion is a letter they left out.
+ */
+
+export type SpellingEditType = 'insertion' | 'deletion' | 'substitution' | 'transposition';
+
+export const SPELLING_EDIT_TYPES: SpellingEditType[] = ['insertion', 'deletion', 'substitution', 'transposition'];
+
+// Partial credit: an answer this few edits away from a word at least this long
+export const NEAR_MISS_MAX_DISTANCE = 1;
+export const NEAR_MISS_MIN_LENGTH = 5;
+
+export type SpellingDiffOp =
+  | { type: 'match'; letter: string }
+  | { type: 'insertion'; actual: string }
+  | { type: 'deletion'; expected: string }
+  | { type: 'substitution'; expected: string; actual: string }
+  | { type: 'transposition'; expected: string; actual: string }; // Two letters each
+
+export interface SpellingDiff {
+  ops: SpellingDiffOp[]; // In word order
+  distance: number;
+  counts: Record<SpellingEditType, number>;
+}
+
+/**
+ * Compare an answer with the correct spelling (case-insensitive, trimmed)
+ */
+export function diffSpelling(word: string, answer: string): SpellingDiff {
+  const expected = [...word.trim().toLowerCase()];
+  const actual = [...answer.trim().toLowerCase()];
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+
+  // distance[i][j]: edits to turn the first j answer letters into the first i word letters
+  const distance: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = expected[i - 1] === actual[j - 1] ? 0 : 1;
+      distance[i][j] = Math.min(
+        distance[i - 1][j] + 1,
+        distance[i][j - 1] + 1,
+        distance[i - 1][j - 1] + cost
+      );
+      if (
+        i > 1 && j > 1 &&
+        expected[i - 1] === actual[j - 2] &&
+        expected[i - 2] === actual[j - 1]
+      ) {
+        distance[i][j] = Math.min(distance[i][j], distance[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  // Walk back from the end, preferring matches, then swaps, then substitutions
+  const ops: SpellingDiffOp[] = [];
+  let i = expected.length;
+  let j = actual.length;
+
+  while (i > 0 || j > 0) {
+    const current = distance[i][j];
+
+    if (i > 0 && j > 0 && expected[i - 1] === actual[j - 1] && current === distance[i - 1][j - 1]) {
+      ops.push({ type: 'match', letter: expected[i - 1] });
+      i--;
+      j--;
+    } else if (
+      i > 1 && j > 1 &&
+      expected[i - 1] === actual[j - 2] &&
+      expected[i - 2] === actual[j - 1] &&
+      current === distance[i - 2][j - 2] + 1
+    ) {
+      ops.push({
+        type: 'transposition',
+        expected: expected[i - 2] + expected[i - 1],
+        actual: actual[j - 2] + actual[j - 1],
+      });
+      i -= 2;
+      j -= 2;
+    } else if (i > 0 && j > 0 && current === distance[i - 1][j - 1] + 1) {
+      ops.push({ type: 'substitution', expected: expected[i - 1], actual: actual[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && current === distance[i - 1][j] + 1) {
+      ops.push({ type: 'deletion', expected: expected[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'insertion', actual: actual[j - 1] });
+      j--;
+    }
+  }
+
+  ops.reverse();
+
+  const counts: Record<SpellingEditType, number> = {
+    insertion: 0,
+    deletion: 0,
+    substitution: 0,
+    transposition: 0,
+  };
+  for (const op of ops) {
+    if (op.type !== 'match') {
+      counts[op.type]++;
+    }
+  }
+
+  return { ops, distance: distance[expected.length][actual.length], counts };
+}
+
+/**
+ * Whether a misspelling is close enough for partial credit
+ * One typo or one swap of neighbouring letters, in a word of 5+ letters
+ */
+export function isNearMiss(word: string, diff: SpellingDiff): boolean {
+  return (
+    diff.distance > 0 &&
+    diff.distance <= NEAR_MISS_MAX_DISTANCE &&
+    [...word.trim()].length >= NEAR_MISS_MIN_LENGTH
+  );
+}
+
+/**
+ * Get a display name for an edit type
+ */
+export function getSpellingEditName(type: SpellingEditType): string {
+  switch (type) {
+    case 'insertion':
+      return 'Extra letters';
+    case 'deletion':
+      return 'Missing letters';
+    case 'substitution':
+      return 'Wrong letters';
+    case 'transposition':
+      return 'Swapped letters';
+  }
+}
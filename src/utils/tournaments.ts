@@ -0,0 +1,83 @@
+/**
+ * Tournaments
+ *
+ * Scheduled single-elimination tournaments. Shared by the server and the
+ * tournament screens: bracket sizes, round names and how a prize pool is split.
+ */
+
+import { WordTier } from './word-lists.ts';
+
+export type TournamentStatus = 'registration' | 'live' | 'finished' | 'cancelled';
+
+// Where a player stands: 'ready' means their current round's game can be played now
+export type TournamentTurnState =
+  | 'unregistered'
+  | 'registered'
+  | 'cancelled'
+  | 'waiting'
+  | 'ready'
+  | 'played'
+  | 'missed'
+  | 'eliminated'
+  | 'champion';
+
+// Player caps an admin can choose from; brackets are always a power of two
+export const TOURNAMENT_SIZES = [4, 8, 16, 32, 64];
+
+export const DEFAULT_TOURNAMENT_SIZE = 32;
+
+export const TOURNAMENT_TIERS: WordTier[] = ['easy', 'normal', 'hard'];
+
+// Percent of the prize pool for 1st, 2nd and 3rd place
+export const DEFAULT_PRIZE_SPLIT = [50, 30, 20];
+
+// Each round of the bracket gets at least this long to play
+export const MIN_TOURNAMENT_STAGE_MINUTES = 10;
+
+/**
+ * Slots in a bracket for this many players: the next power of two, at least 2
+ */
+export function getBracketSize(playerCount: number): number {
+  let size = 2;
+  while (size < playerCount) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * Number of rounds (stages) in a bracket for this many players
+ */
+export function getStageCount(playerCount: number): number {
+  return Math.log2(getBracketSize(playerCount));
+}
+
+/**
+ * "Final", "Semi-finals", "Quarter-finals", then "Round of N"
+ */
+export function getStageName(stage: number, stageCount: number): string {
+  const playersInStage = 2 ** (stageCount - stage);
+  if (playersInStage === 2) return 'Final';
+  if (playersInStage === 4) return 'Semi-finals';
+  if (playersInStage === 8) return 'Quarter-finals';
+  return `Round of ${playersInStage}`;
+}
+
+/**
+ * WMINT for each finishing place, rounded down so the total never exceeds the pool
+ */
+export function splitPrizePool(prizePool: number, prizeSplit: number[]): number[] {
+  return prizeSplit.map(percent => Math.floor((prizePool * percent) / 100));
+}
+
+/**
+ * A split is whole, positive percentages that add up to 100
+ */
+export function isValidPrizeSplit(prizeSplit: unknown): prizeSplit is number[] {
+  return (
+    Array.isArray(prizeSplit) &&
+    prizeSplit.length > 0 &&
+    prizeSplit.every(percent => Number.isInteger(percent) && percent > 0) &&
+    prizeSplit.reduce((total: number, percent: number) => total + percent, 0) === 100
+  );
+}
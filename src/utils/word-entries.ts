@@ -0,0 +1,2124 @@
+/**
+ * Word Entries
+ * 
+ * Spelling bee metadata for every word in the word lists: definition, example
+ * sentence, part of speech, category, syllables and alternate accepted spellings.
+ * Shared by the game screen and the server, which grades answers against it.
+ * Definitions never contain the word they define, so they can be shown as a hint.
+ */
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective';
+
+export type WordCategory =
+  | 'basics'
+  | 'solana'
+  | 'blockchain'
+  | 'defi'
+  | 'nft'
+  | 'community'
+  | 'governance'
+  | 'tokenomics'
+  | 'security'
+  | 'cryptography'
+  | 'protocol-design'
+  | 'mev'
+  | 'engineering';
+
+export interface WordEntry {
+  word: string;
+  definition: string;
+  sentence: string; // Example sentence using the word, for "use it in a sentence"
+  partOfSpeech: PartOfSpeech;
+  category: WordCategory;
+  syllables: string[];
+  alternates?: string[]; // Other spellings graded as correct
+}
+
+export const CATEGORY_NAMES: Record<WordCategory, string> = {
+  basics: 'Crypto Basics',
+  solana: 'Solana',
+  blockchain: 'Blockchain',
+  defi: 'DeFi',
+  nft: 'NFTs & Gaming',
+  community: 'Community',
+  governance: 'Governance',
+  tokenomics: 'Tokenomics',
+  security: 'Security',
+  cryptography: 'Cryptography',
+  'protocol-design': 'Protocol Design',
+  mev: 'MEV',
+  engineering: 'Engineering',
+};
+
+/**
+ * Tag a group of entries with their category
+ */
+function inCategory(
+  category: WordCategory,
+  entries: Omit<WordEntry, 'category'>[]
+): WordEntry[] {
+  return entries.map(entry => ({ ...entry, category }));
+}
+
+const ENTRY_LIST: WordEntry[] = [
+  ...inCategory('basics', [
+    {
+      word: 'bitcoin',
+      partOfSpeech: 'noun',
+      syllables: ['bit', 'coin'],
+      definition: 'The first decentralized cryptocurrency, launched in 2009',
+      sentence: 'She bought her first bitcoin when it was still cheap.',
+    },
+    {
+      word: 'crypto',
+      partOfSpeech: 'noun',
+      syllables: ['cryp', 'to'],
+      definition: 'Casual name for digital currencies and the industry around them',
+      sentence: 'He started learning about crypto after a friend sent him some tokens.',
+    },
+    {
+      word: 'token',
+      partOfSpeech: 'noun',
+      syllables: ['to', 'ken'],
+      definition: 'A digital asset issued on a blockchain that represents value or a right',
+      sentence: 'Every player earns a token for each word spelled correctly.',
+    },
+    {
+      word: 'wallet',
+      partOfSpeech: 'noun',
+      syllables: ['wal', 'let'],
+      definition: 'Software or hardware that holds the keys controlling your crypto assets',
+      sentence: 'Connect your wallet before you start a game.',
+    },
+    {
+      word: 'chain',
+      partOfSpeech: 'noun',
+      syllables: ['chain'],
+      definition: 'A sequence of linked blocks forming a shared ledger',
+      sentence: 'The transaction was recorded on the chain within a second.',
+    },
+    {
+      word: 'block',
+      partOfSpeech: 'noun',
+      syllables: ['block'],
+      definition: 'A batch of transactions added to the ledger together',
+      sentence: 'Each block contains hundreds of transactions.',
+    },
+    {
+      word: 'coin',
+      partOfSpeech: 'noun',
+      syllables: ['coin'],
+      definition: 'A unit of a cryptocurrency, often the native asset of its own blockchain',
+      sentence: 'The network pays validators in its native coin.',
+    },
+    {
+      word: 'digital',
+      partOfSpeech: 'adjective',
+      syllables: ['dig', 'i', 'tal'],
+      definition: 'Existing as electronic data rather than a physical object',
+      sentence: 'A token is a digital asset you can send anywhere.',
+    },
+    {
+      word: 'virtual',
+      partOfSpeech: 'adjective',
+      syllables: ['vir', 'tu', 'al'],
+      definition: 'Simulated by software rather than physically real',
+      sentence: 'The gallery displays its art in a virtual world.',
+    },
+    {
+      word: 'online',
+      partOfSpeech: 'adjective',
+      syllables: ['on', 'line'],
+      definition: 'Connected to or available through the internet',
+      sentence: 'You need to be online to submit a transaction.',
+    },
+    {
+      word: 'network',
+      partOfSpeech: 'noun',
+      syllables: ['net', 'work'],
+      definition: 'A group of connected computers that share information',
+      sentence: 'The network processed thousands of transactions per second.',
+    },
+    {
+      word: 'system',
+      partOfSpeech: 'noun',
+      syllables: ['sys', 'tem'],
+      definition: 'A set of connected parts working together as a whole',
+      sentence: 'The reward system pays more for harder words.',
+    },
+    {
+      word: 'protocol',
+      partOfSpeech: 'noun',
+      syllables: ['pro', 'to', 'col'],
+      definition: 'A set of rules that defines how participants communicate or interact',
+      sentence: 'The lending protocol holds millions in deposits.',
+    },
+    {
+      word: 'node',
+      partOfSpeech: 'noun',
+      syllables: ['node'],
+      definition: 'A computer that runs the network software and keeps a copy of the ledger',
+      sentence: 'Running a node lets you verify the chain yourself.',
+    },
+    {
+      word: 'peer',
+      partOfSpeech: 'noun',
+      syllables: ['peer'],
+      definition: 'Another participant on an equal footing in a network',
+      sentence: 'Each peer shares new blocks with its neighbors.',
+    },
+    {
+      word: 'hash',
+      partOfSpeech: 'noun',
+      syllables: ['hash'],
+      definition: 'A fixed-length fingerprint produced from any input data',
+      sentence: 'The block header includes the hash of the previous block.',
+    },
+    {
+      word: 'web',
+      partOfSpeech: 'noun',
+      syllables: ['web'],
+      definition: 'The system of linked pages and services on the internet',
+      sentence: 'Decentralized apps are reshaping the web.',
+    },
+    {
+      word: 'app',
+      partOfSpeech: 'noun',
+      syllables: ['app'],
+      definition: 'A program you install and use on a phone or computer',
+      sentence: 'Open the app and connect your wallet to play.',
+    },
+    {
+      word: 'platform',
+      partOfSpeech: 'noun',
+      syllables: ['plat', 'form'],
+      definition: 'A base of technology on which other services are built',
+      sentence: 'The platform lets anyone launch a token in minutes.',
+    },
+    {
+      word: 'link',
+      partOfSpeech: 'noun',
+      syllables: ['link'],
+      definition: 'A connection from one place or item to another',
+      sentence: 'Click the link to view your transaction on the explorer.',
+    },
+    {
+      word: 'seed',
+      partOfSpeech: 'noun',
+      syllables: ['seed'],
+      definition: 'The recovery phrase that backs up a wallet',
+      sentence: 'Write your seed phrase on paper and store it safely.',
+    },
+    {
+      word: 'key',
+      partOfSpeech: 'noun',
+      syllables: ['key'],
+      definition: 'A secret value that proves ownership and authorizes transactions',
+      sentence: 'Never share your private key with anyone.',
+    },
+    {
+      word: 'sign',
+      partOfSpeech: 'verb',
+      syllables: ['sign'],
+      definition: 'To approve a message or transaction with your private key',
+      sentence: 'Your wallet will ask you to sign the message.',
+    },
+    {
+      word: 'verify',
+      partOfSpeech: 'verb',
+      syllables: ['ver', 'i', 'fy'],
+      definition: 'To check that something is true or valid',
+      sentence: 'Anyone can verify the transfer on the explorer.',
+    },
+    {
+      word: 'scan',
+      partOfSpeech: 'verb',
+      syllables: ['scan'],
+      definition: 'To examine quickly, or to read a QR code with a camera',
+      sentence: 'Scan the code with your phone to connect your wallet.',
+    },
+    {
+      word: 'code',
+      partOfSpeech: 'noun',
+      syllables: ['code'],
+      definition: 'Instructions written for a computer to execute',
+      sentence: 'The smart contract\'s code was published for review.',
+    },
+    {
+      word: 'address',
+      partOfSpeech: 'noun',
+      syllables: ['ad', 'dress'],
+      definition: 'The public identifier that assets can be sent to',
+      sentence: 'Paste your wallet address into the form.',
+    },
+    {
+      word: 'price',
+      partOfSpeech: 'noun',
+      syllables: ['price'],
+      definition: 'The amount of money something costs',
+      sentence: 'The price of the token doubled overnight.',
+    },
+    {
+      word: 'value',
+      partOfSpeech: 'noun',
+      syllables: ['val', 'ue'],
+      definition: 'How much something is worth',
+      sentence: 'The value of her collection rose after the sale.',
+    },
+    {
+      word: 'buy',
+      partOfSpeech: 'verb',
+      syllables: ['buy'],
+      definition: 'To acquire something by paying for it',
+      sentence: 'He decided to buy a small amount before the launch.',
+    },
+    {
+      word: 'sell',
+      partOfSpeech: 'verb',
+      syllables: ['sell'],
+      definition: 'To give something up in exchange for money',
+      sentence: 'She chose to sell half of her tokens at the top.',
+    },
+    {
+      word: 'send',
+      partOfSpeech: 'verb',
+      syllables: ['send'],
+      definition: 'To cause something to go to another person or place',
+      sentence: 'You can send tokens to a friend in seconds.',
+    },
+    {
+      word: 'receive',
+      partOfSpeech: 'verb',
+      syllables: ['re', 'ceive'],
+      definition: 'To get something that has been sent to you',
+      sentence: 'You will receive your rewards after the claim confirms.',
+    },
+    {
+      word: 'transfer',
+      partOfSpeech: 'noun',
+      syllables: ['trans', 'fer'],
+      definition: 'To move assets from one account to another',
+      sentence: 'The transfer arrived in her wallet almost instantly.',
+    },
+    {
+      word: 'balance',
+      partOfSpeech: 'noun',
+      syllables: ['bal', 'ance'],
+      definition: 'The amount held in an account',
+      sentence: 'Check your balance after claiming your rewards.',
+    },
+    {
+      word: 'total',
+      partOfSpeech: 'noun',
+      syllables: ['to', 'tal'],
+      definition: 'The whole amount after adding everything up',
+      sentence: 'The leaderboard ranks players by their total earnings.',
+    },
+  ]),
+  ...inCategory('solana', [
+    {
+      word: 'solana',
+      partOfSpeech: 'noun',
+      syllables: ['so', 'la', 'na'],
+      definition: 'A high-throughput blockchain known for fast, low-cost transactions',
+      sentence: 'Transactions on Solana usually confirm in under a second.',
+    },
+    {
+      word: 'phantom',
+      partOfSpeech: 'noun',
+      syllables: ['phan', 'tom'],
+      definition: 'A popular browser and mobile wallet for this game\\\'s blockchain',
+      sentence: 'She installed Phantom to store her tokens.',
+    },
+    {
+      word: 'anchor',
+      partOfSpeech: 'noun',
+      syllables: ['an', 'chor'],
+      definition: 'A framework that simplifies writing smart contract programs in Rust',
+      sentence: 'The team wrote their program with Anchor.',
+    },
+    {
+      word: 'metaplex',
+      partOfSpeech: 'noun',
+      syllables: ['met', 'a', 'plex'],
+      definition: 'A protocol and toolset for creating NFTs on Solana',
+      sentence: 'The collection was minted using Metaplex.',
+    },
+    {
+      word: 'candy',
+      partOfSpeech: 'noun',
+      syllables: ['can', 'dy'],
+      definition: 'Word used in the name of a well-known NFT launch machine for collections',
+      sentence: 'The project used a candy machine for its NFT launch.',
+    },
+    {
+      word: 'magic',
+      partOfSpeech: 'noun',
+      syllables: ['mag', 'ic'],
+      definition: 'Seemingly supernatural power; also part of a well-known NFT marketplace\\\'s name',
+      sentence: 'He listed his NFT on Magic Eden.',
+    },
+    {
+      word: 'serum',
+      partOfSpeech: 'noun',
+      syllables: ['se', 'rum'],
+      definition: 'An early order-book exchange protocol built on Solana',
+      sentence: 'Early Solana traders placed orders on Serum.',
+    },
+    {
+      word: 'program',
+      partOfSpeech: 'noun',
+      syllables: ['pro', 'gram'],
+      definition: 'A smart contract deployed on Solana',
+      sentence: 'The program was deployed to devnet for testing.',
+    },
+    {
+      word: 'instruction',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'struc', 'tion'],
+      definition: 'A single command within a Solana transaction',
+      sentence: 'The transaction contains a single transfer instruction.',
+    },
+    {
+      word: 'account',
+      partOfSpeech: 'noun',
+      syllables: ['ac', 'count'],
+      definition: 'A record on the ledger that holds data or a balance',
+      sentence: 'Every token balance lives in its own account.',
+    },
+    {
+      word: 'lamport',
+      partOfSpeech: 'noun',
+      syllables: ['lam', 'port'],
+      definition: 'The smallest unit of SOL, one billionth of a coin',
+      sentence: 'The fee for the transfer was five thousand lamports.',
+    },
+    {
+      word: 'cluster',
+      partOfSpeech: 'noun',
+      syllables: ['clus', 'ter'],
+      definition: 'A set of validators working together as one Solana network',
+      sentence: 'Switch the cluster to devnet before testing.',
+    },
+    {
+      word: 'devnet',
+      partOfSpeech: 'noun',
+      syllables: ['dev', 'net'],
+      definition: 'The Solana network used by developers for testing with free tokens',
+      sentence: 'Developers test their programs on devnet first.',
+    },
+    {
+      word: 'mainnet',
+      partOfSpeech: 'noun',
+      syllables: ['main', 'net'],
+      definition: 'The primary production network where tokens have real value',
+      sentence: 'The program goes live on mainnet next week.',
+      alternates: ['main-net'],
+    },
+    {
+      word: 'testnet',
+      partOfSpeech: 'noun',
+      syllables: ['test', 'net'],
+      definition: 'A network used to stress-test new releases before production',
+      sentence: 'Validators rehearse upgrades on testnet.',
+      alternates: ['test-net'],
+    },
+    {
+      word: 'runtime',
+      partOfSpeech: 'noun',
+      syllables: ['run', 'time'],
+      definition: 'The environment that executes programs',
+      sentence: 'The runtime executes transactions in parallel.',
+    },
+    {
+      word: 'sealevel',
+      partOfSpeech: 'noun',
+      syllables: ['sea', 'lev', 'el'],
+      definition: 'Solana\\\'s engine for running smart contracts in parallel',
+      sentence: 'Sealevel lets Solana run many transactions at once.',
+    },
+    {
+      word: 'turbine',
+      partOfSpeech: 'noun',
+      syllables: ['tur', 'bine'],
+      definition: 'Solana\\\'s protocol for breaking up and spreading blocks to validators',
+      sentence: 'Turbine spreads new blocks across the validators.',
+    },
+    {
+      word: 'gulfstream',
+      partOfSpeech: 'noun',
+      syllables: ['gulf', 'stream'],
+      definition: 'Solana\\\'s protocol for forwarding transactions to upcoming leaders',
+      sentence: 'Gulfstream forwards transactions to upcoming leaders.',
+    },
+    {
+      word: 'solflare',
+      partOfSpeech: 'noun',
+      syllables: ['sol', 'flare'],
+      definition: 'A non-custodial wallet for the Solana ecosystem',
+      sentence: 'He signed the transaction with Solflare.',
+    },
+    {
+      word: 'raydium',
+      partOfSpeech: 'noun',
+      syllables: ['ray', 'di', 'um'],
+      definition: 'An automated market maker and liquidity provider on Solana',
+      sentence: 'She swapped her tokens on Raydium.',
+    },
+    {
+      word: 'orca',
+      partOfSpeech: 'noun',
+      syllables: ['or', 'ca'],
+      definition: 'A user-friendly decentralized exchange on Solana, named after a whale',
+      sentence: 'The pool on Orca had plenty of liquidity.',
+    },
+    {
+      word: 'marinade',
+      partOfSpeech: 'noun',
+      syllables: ['mar', 'i', 'nade'],
+      definition: 'A liquid staking protocol on Solana',
+      sentence: 'He staked his coins through Marinade.',
+    },
+    {
+      word: 'jupiter',
+      partOfSpeech: 'noun',
+      syllables: ['ju', 'pi', 'ter'],
+      definition: 'A swap aggregator on Solana, named after a planet',
+      sentence: 'Jupiter found the best route for the swap.',
+    },
+    {
+      word: 'squads',
+      partOfSpeech: 'noun',
+      syllables: ['squads'],
+      definition: 'A multisig protocol on Solana',
+      sentence: 'The team keeps its treasury in a Squads vault.',
+    },
+    {
+      word: 'turbovote',
+      partOfSpeech: 'noun',
+      syllables: ['tur', 'bo', 'vote'],
+      definition: 'A proposed fast-voting technique for validators',
+      sentence: 'Turbovote was designed to speed up validator voting.',
+    },
+    {
+      word: 'cloudbreak',
+      partOfSpeech: 'noun',
+      syllables: ['cloud', 'break'],
+      definition: 'Solana\\\'s horizontally scaled accounts database',
+      sentence: 'Cloudbreak stores account data so it can be read in parallel.',
+    },
+    {
+      word: 'pipelining',
+      partOfSpeech: 'noun',
+      syllables: ['pipe', 'lin', 'ing'],
+      definition: 'Processing stages of work at the same time, like an assembly line',
+      sentence: 'Pipelining lets the validator verify and execute at the same time.',
+    },
+    {
+      word: 'parallelization',
+      partOfSpeech: 'noun',
+      syllables: ['par', 'al', 'lel', 'i', 'za', 'tion'],
+      definition: 'Running many tasks at the same time',
+      sentence: 'Parallelization is what makes the runtime so fast.',
+      alternates: ['parallelisation'],
+    },
+    {
+      word: 'archivers',
+      partOfSpeech: 'noun',
+      syllables: ['ar', 'chiv', 'ers'],
+      definition: 'Nodes that store historical ledger data',
+      sentence: 'Archivers were meant to store the ledger\'s history.',
+    },
+    {
+      word: 'replicators',
+      partOfSpeech: 'noun',
+      syllables: ['rep', 'li', 'ca', 'tors'],
+      definition: 'Nodes that store copies of ledger data',
+      sentence: 'The replicators kept copies of old ledger data.',
+    },
+    {
+      word: 'validators',
+      partOfSpeech: 'noun',
+      syllables: ['val', 'i', 'da', 'tors'],
+      definition: 'Nodes that check transactions and produce blocks',
+      sentence: 'Thousands of validators secure the network.',
+    },
+    {
+      word: 'leaders',
+      partOfSpeech: 'noun',
+      syllables: ['lead', 'ers'],
+      definition: 'Validators chosen to produce blocks for a time',
+      sentence: 'The schedule lists which leaders produce the next blocks.',
+    },
+    {
+      word: 'gossip',
+      partOfSpeech: 'noun',
+      syllables: ['gos', 'sip'],
+      definition: 'A protocol where nodes pass information to their neighbors',
+      sentence: 'Nodes share votes and contact details over gossip.',
+    },
+    {
+      word: 'entrypoint',
+      partOfSpeech: 'noun',
+      syllables: ['en', 'try', 'point'],
+      definition: 'A known node address used to join a network',
+      sentence: 'The program\'s entrypoint receives every instruction.',
+      alternates: ['entry-point'],
+    },
+    {
+      word: 'blockstore',
+      partOfSpeech: 'noun',
+      syllables: ['block', 'store'],
+      definition: 'The database where a validator keeps recent blocks',
+      sentence: 'The blockstore keeps recent blocks on disk.',
+    },
+    {
+      word: 'accountsdb',
+      partOfSpeech: 'noun',
+      syllables: ['ac', 'counts', 'd', 'b'],
+      definition: 'The database where a Solana validator stores account state',
+      sentence: 'The validator loads balances from the accountsdb.',
+    },
+    {
+      word: 'snapshots',
+      partOfSpeech: 'noun',
+      syllables: ['snap', 'shots'],
+      definition: 'Saved copies of state taken at particular moments',
+      sentence: 'New validators start from snapshots instead of replaying history.',
+    },
+  ]),
+  ...inCategory('blockchain', [
+    {
+      word: 'blockchain',
+      partOfSpeech: 'noun',
+      syllables: ['block', 'chain'],
+      definition: 'A shared, append-only ledger maintained by many computers',
+      sentence: 'A blockchain is a shared record that no single party controls.',
+    },
+    {
+      word: 'consensus',
+      partOfSpeech: 'noun',
+      syllables: ['con', 'sen', 'sus'],
+      definition: 'The process by which network participants agree on the ledger\\\'s state',
+      sentence: 'The validators reached consensus on the next block.',
+    },
+    {
+      word: 'validator',
+      partOfSpeech: 'noun',
+      syllables: ['val', 'i', 'da', 'tor'],
+      definition: 'A node that checks transactions and helps produce blocks',
+      sentence: 'She runs a validator from her home office.',
+    },
+    {
+      word: 'mining',
+      partOfSpeech: 'noun',
+      syllables: ['min', 'ing'],
+      definition: 'Using computing power to produce blocks and earn rewards',
+      sentence: 'Bitcoin mining uses a lot of electricity.',
+    },
+    {
+      word: 'staking',
+      partOfSpeech: 'noun',
+      syllables: ['stak', 'ing'],
+      definition: 'Locking tokens to help secure a network for rewards',
+      sentence: 'Staking earns rewards for helping secure the network.',
+    },
+    {
+      word: 'delegation',
+      partOfSpeech: 'noun',
+      syllables: ['del', 'e', 'ga', 'tion'],
+      definition: 'Assigning your stake to a validator who does the work',
+      sentence: 'Delegation lets you stake without running your own validator.',
+    },
+    {
+      word: 'transaction',
+      partOfSpeech: 'noun',
+      syllables: ['trans', 'ac', 'tion'],
+      definition: 'An instruction that changes the ledger, such as a transfer',
+      sentence: 'The transaction confirmed in less than a second.',
+    },
+    {
+      word: 'decentralized',
+      partOfSpeech: 'adjective',
+      syllables: ['de', 'cen', 'tral', 'ized'],
+      definition: 'Not controlled by a single central authority',
+      sentence: 'A decentralized exchange has no company holding your funds.',
+      alternates: ['decentralised'],
+    },
+    {
+      word: 'distributed',
+      partOfSpeech: 'adjective',
+      syllables: ['dis', 'trib', 'ut', 'ed'],
+      definition: 'Spread across many machines or locations',
+      sentence: 'The ledger is distributed across thousands of computers.',
+    },
+    {
+      word: 'immutable',
+      partOfSpeech: 'adjective',
+      syllables: ['im', 'mu', 'ta', 'ble'],
+      definition: 'Impossible to change once written',
+      sentence: 'Once written, the record is immutable.',
+    },
+    {
+      word: 'permissionless',
+      partOfSpeech: 'adjective',
+      syllables: ['per', 'mis', 'sion', 'less'],
+      definition: 'Open for anyone to join or use without approval',
+      sentence: 'Anyone can join a permissionless network.',
+    },
+    {
+      word: 'trustless',
+      partOfSpeech: 'adjective',
+      syllables: ['trust', 'less'],
+      definition: 'Working without needing to trust any single party',
+      sentence: 'The swap is trustless, so neither side can cheat.',
+    },
+    {
+      word: 'censorship',
+      partOfSpeech: 'noun',
+      syllables: ['cen', 'sor', 'ship'],
+      definition: 'Suppression or blocking of information or transactions',
+      sentence: 'The network was designed to resist censorship.',
+    },
+    {
+      word: 'resistant',
+      partOfSpeech: 'adjective',
+      syllables: ['re', 'sis', 'tant'],
+      definition: 'Able to withstand an effect or force',
+      sentence: 'The protocol is resistant to attacks from a single operator.',
+    },
+    {
+      word: 'epoch',
+      partOfSpeech: 'noun',
+      syllables: ['ep', 'och'],
+      definition: 'A fixed span of time in a blockchain\\\'s schedule, such as a staking period',
+      sentence: 'Staking rewards are paid at the end of each epoch.',
+    },
+    {
+      word: 'slot',
+      partOfSpeech: 'noun',
+      syllables: ['slot'],
+      definition: 'The short time window in which a leader may produce a block',
+      sentence: 'A new slot begins roughly every half second.',
+    },
+    {
+      word: 'sharding',
+      partOfSpeech: 'noun',
+      syllables: ['shard', 'ing'],
+      definition: 'Splitting a database or network into parallel pieces',
+      sentence: 'Sharding splits the network so it can process more transactions.',
+    },
+    {
+      word: 'rollup',
+      partOfSpeech: 'noun',
+      syllables: ['roll', 'up'],
+      definition: 'A scaling method that bundles many transactions into one proof',
+      sentence: 'The rollup posts its transactions to the main chain in batches.',
+      alternates: ['roll-up'],
+    },
+    {
+      word: 'optimistic',
+      partOfSpeech: 'adjective',
+      syllables: ['op', 'ti', 'mis', 'tic'],
+      definition: 'Assuming transactions are valid unless challenged',
+      sentence: 'An optimistic rollup assumes transactions are valid unless challenged.',
+    },
+  ]),
+  ...inCategory('defi', [
+    {
+      word: 'defi',
+      partOfSpeech: 'noun',
+      syllables: ['de', 'fi'],
+      definition: 'Short for decentralized finance: financial services without intermediaries',
+      sentence: 'DeFi lets people lend and borrow without a bank.',
+    },
+    {
+      word: 'dex',
+      partOfSpeech: 'noun',
+      syllables: ['dex'],
+      definition: 'Short for decentralized exchange',
+      sentence: 'She traded her tokens on a dex instead of an exchange.',
+    },
+    {
+      word: 'swap',
+      partOfSpeech: 'verb',
+      syllables: ['swap'],
+      definition: 'To exchange one token directly for another',
+      sentence: 'You can swap one token for another in a single click.',
+    },
+    {
+      word: 'trade',
+      partOfSpeech: 'verb',
+      syllables: ['trade'],
+      definition: 'To buy or sell an asset',
+      sentence: 'He likes to trade during the busiest hours.',
+    },
+    {
+      word: 'pool',
+      partOfSpeech: 'noun',
+      syllables: ['pool'],
+      definition: 'A shared reserve of tokens that traders can draw from',
+      sentence: 'The pool pays fees to everyone who provides liquidity.',
+    },
+    {
+      word: 'farm',
+      partOfSpeech: 'verb',
+      syllables: ['farm'],
+      definition: 'To move assets between protocols to earn extra rewards',
+      sentence: 'They farm rewards by moving funds between protocols.',
+    },
+    {
+      word: 'yield',
+      partOfSpeech: 'noun',
+      syllables: ['yield'],
+      definition: 'The return earned on deposited or staked assets',
+      sentence: 'The vault offers a yield of five percent a year.',
+    },
+    {
+      word: 'stake',
+      partOfSpeech: 'verb',
+      syllables: ['stake'],
+      definition: 'To lock up tokens to help secure a network in exchange for rewards',
+      sentence: 'You can stake your tokens to earn rewards.',
+    },
+    {
+      word: 'gas',
+      partOfSpeech: 'noun',
+      syllables: ['gas'],
+      definition: 'The fee paid to have a transaction processed on some blockchains',
+      sentence: 'The transaction failed because it ran out of gas.',
+    },
+    {
+      word: 'fee',
+      partOfSpeech: 'noun',
+      syllables: ['fee'],
+      definition: 'A charge paid for a service, such as processing a transaction',
+      sentence: 'The network fee was less than a cent.',
+    },
+    {
+      word: 'market',
+      partOfSpeech: 'noun',
+      syllables: ['mar', 'ket'],
+      definition: 'A place where buyers and sellers trade',
+      sentence: 'The market moved sharply after the announcement.',
+    },
+    {
+      word: 'exchange',
+      partOfSpeech: 'noun',
+      syllables: ['ex', 'change'],
+      definition: 'A service where assets are traded for one another',
+      sentence: 'She moved her coins off the exchange and into her wallet.',
+    },
+    {
+      word: 'bridge',
+      partOfSpeech: 'noun',
+      syllables: ['bridge'],
+      definition: 'A protocol that moves assets between two different blockchains',
+      sentence: 'They used a bridge to move tokens between chains.',
+    },
+    {
+      word: 'fund',
+      partOfSpeech: 'noun',
+      syllables: ['fund'],
+      definition: 'A pool of money set aside for a purpose',
+      sentence: 'The fund invests in early blockchain projects.',
+    },
+    {
+      word: 'reserve',
+      partOfSpeech: 'noun',
+      syllables: ['re', 'serve'],
+      definition: 'Assets held back to back a currency or cover obligations',
+      sentence: 'The protocol keeps a reserve to cover bad debt.',
+    },
+    {
+      word: 'supply',
+      partOfSpeech: 'noun',
+      syllables: ['sup', 'ply'],
+      definition: 'The total amount of a token that exists',
+      sentence: 'The token has a fixed supply of one billion.',
+    },
+    {
+      word: 'demand',
+      partOfSpeech: 'noun',
+      syllables: ['de', 'mand'],
+      definition: 'How much buyers want an asset',
+      sentence: 'Demand for the new token exceeded expectations.',
+    },
+    {
+      word: 'liquid',
+      partOfSpeech: 'adjective',
+      syllables: ['liq', 'uid'],
+      definition: 'Easily converted into cash or other assets',
+      sentence: 'Staked tokens can be made liquid with a receipt token.',
+    },
+    {
+      word: 'liquidity',
+      partOfSpeech: 'noun',
+      syllables: ['li', 'quid', 'i', 'ty'],
+      definition: 'How easily an asset can be bought or sold without moving its price',
+      sentence: 'Deep liquidity keeps prices stable during large trades.',
+    },
+    {
+      word: 'automated',
+      partOfSpeech: 'adjective',
+      syllables: ['au', 'to', 'mat', 'ed'],
+      definition: 'Operated by machines or code without human involvement',
+      sentence: 'An automated market maker sets prices with a formula.',
+    },
+    {
+      word: 'maker',
+      partOfSpeech: 'noun',
+      syllables: ['mak', 'er'],
+      definition: 'A trader or protocol that provides orders for others to fill',
+      sentence: 'The market maker quotes prices on both sides.',
+    },
+    {
+      word: 'impermanent',
+      partOfSpeech: 'adjective',
+      syllables: ['im', 'per', 'ma', 'nent'],
+      definition: 'Temporary, not lasting forever; describes a kind of liquidity provider loss',
+      sentence: 'Liquidity providers worry about impermanent loss.',
+    },
+    {
+      word: 'loss',
+      partOfSpeech: 'noun',
+      syllables: ['loss'],
+      definition: 'Money or value that is no longer yours',
+      sentence: 'He sold at a loss after the price fell.',
+    },
+    {
+      word: 'slippage',
+      partOfSpeech: 'noun',
+      syllables: ['slip', 'page'],
+      definition: 'The difference between the expected and actual price of a trade',
+      sentence: 'Set a low slippage limit to avoid a bad price.',
+    },
+    {
+      word: 'leverage',
+      partOfSpeech: 'noun',
+      syllables: ['lev', 'er', 'age'],
+      definition: 'Borrowing to increase the size of a position',
+      sentence: 'Trading with leverage multiplies both gains and losses.',
+    },
+    {
+      word: 'collateral',
+      partOfSpeech: 'noun',
+      syllables: ['col', 'lat', 'er', 'al'],
+      definition: 'Assets pledged to secure a loan',
+      sentence: 'She deposited collateral before taking out the loan.',
+    },
+    {
+      word: 'liquidation',
+      partOfSpeech: 'noun',
+      syllables: ['liq', 'ui', 'da', 'tion'],
+      definition: 'Forced selling of collateral when a loan becomes undersecured',
+      sentence: 'A sudden price drop triggered the liquidation of his position.',
+    },
+    {
+      word: 'oracle',
+      partOfSpeech: 'noun',
+      syllables: ['or', 'a', 'cle'],
+      definition: 'A service that brings outside data, like prices, onto the blockchain',
+      sentence: 'The oracle reports the latest price to the protocol.',
+    },
+    {
+      word: 'aggregator',
+      partOfSpeech: 'noun',
+      syllables: ['ag', 'gre', 'ga', 'tor'],
+      definition: 'A tool that combines sources to find the best price or route',
+      sentence: 'The aggregator split the trade across three pools.',
+    },
+    {
+      word: 'composability',
+      partOfSpeech: 'noun',
+      syllables: ['com', 'pos', 'a', 'bil', 'i', 'ty'],
+      definition: 'The ability of protocols to be combined like building blocks',
+      sentence: 'Composability lets one protocol build on another.',
+    },
+    {
+      word: 'interoperability',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'ter', 'op', 'er', 'a', 'bil', 'i', 'ty'],
+      definition: 'The ability of different systems to work together',
+      sentence: 'Interoperability lets assets move freely between chains.',
+    },
+    {
+      word: 'synthetic',
+      partOfSpeech: 'adjective',
+      syllables: ['syn', 'thet', 'ic'],
+      definition: 'An asset that tracks the value of another asset',
+      sentence: 'The synthetic asset tracks the price of gold.',
+    },
+    {
+      word: 'derivative',
+      partOfSpeech: 'noun',
+      syllables: ['de', 'riv', 'a', 'tive'],
+      definition: 'A contract whose value depends on another asset',
+      sentence: 'An option is a derivative whose value depends on another asset.',
+    },
+    {
+      word: 'bonding',
+      partOfSpeech: 'noun',
+      syllables: ['bond', 'ing'],
+      definition: 'Locking assets to join a system or create a price curve',
+      sentence: 'The token price follows a bonding curve.',
+    },
+    {
+      word: 'bootstrapping',
+      partOfSpeech: 'noun',
+      syllables: ['boot', 'strap', 'ping'],
+      definition: 'Starting something up from minimal resources',
+      sentence: 'Bootstrapping liquidity is the hardest part of a launch.',
+    },
+    {
+      word: 'flashloan',
+      partOfSpeech: 'noun',
+      syllables: ['flash', 'loan'],
+      definition: 'An uncollateralized loan borrowed and repaid in one transaction',
+      sentence: 'The attacker borrowed millions with a flashloan and repaid it in one transaction.',
+      alternates: ['flash-loan'],
+    },
+    {
+      word: 'arbitrage',
+      partOfSpeech: 'noun',
+      syllables: ['ar', 'bi', 'trage'],
+      definition: 'Profiting from price differences between markets',
+      sentence: 'Bots use arbitrage to profit from price differences between markets.',
+    },
+    {
+      word: 'rebalancing',
+      partOfSpeech: 'noun',
+      syllables: ['re', 'bal', 'anc', 'ing'],
+      definition: 'Adjusting holdings back to target proportions',
+      sentence: 'The vault performs rebalancing every hour.',
+    },
+    {
+      word: 'concentrated',
+      partOfSpeech: 'adjective',
+      syllables: ['con', 'cen', 'trat', 'ed'],
+      definition: 'Focused within a narrow range',
+      sentence: 'Concentrated liquidity earns more fees in a narrow price range.',
+    },
+    {
+      word: 'volatility',
+      partOfSpeech: 'noun',
+      syllables: ['vol', 'a', 'til', 'i', 'ty'],
+      definition: 'How much and how quickly a price moves',
+      sentence: 'Crypto prices are known for their volatility.',
+    },
+    {
+      word: 'perpetual',
+      partOfSpeech: 'noun',
+      syllables: ['per', 'pet', 'u', 'al'],
+      definition: 'Lasting forever; a futures contract with no expiry',
+      sentence: 'He opened a perpetual position on the price of bitcoin.',
+    },
+    {
+      word: 'futures',
+      partOfSpeech: 'noun',
+      syllables: ['fu', 'tures'],
+      definition: 'Contracts to buy or sell an asset at a set price later',
+      sentence: 'Futures let traders bet on a price at a later date.',
+    },
+  ]),
+  ...inCategory('nft', [
+    {
+      word: 'nft',
+      partOfSpeech: 'noun',
+      syllables: ['n', 'f', 't'],
+      definition: 'Short for non-fungible token, a unique digital item',
+      sentence: 'She minted her first NFT from a sketch she drew.',
+    },
+    {
+      word: 'game',
+      partOfSpeech: 'noun',
+      syllables: ['game'],
+      definition: 'An activity played for fun according to rules',
+      sentence: 'Each game has five words to spell.',
+    },
+    {
+      word: 'play',
+      partOfSpeech: 'verb',
+      syllables: ['play'],
+      definition: 'To take part in a game',
+      sentence: 'You can play as many rounds as you like.',
+    },
+    {
+      word: 'earn',
+      partOfSpeech: 'verb',
+      syllables: ['earn'],
+      definition: 'To receive something in return for effort',
+      sentence: 'Players earn tokens for every correct answer.',
+    },
+    {
+      word: 'collect',
+      partOfSpeech: 'verb',
+      syllables: ['col', 'lect'],
+      definition: 'To gather items together, often as a hobby',
+      sentence: 'He likes to collect art from new artists.',
+    },
+    {
+      word: 'rare',
+      partOfSpeech: 'adjective',
+      syllables: ['rare'],
+      definition: 'Not found often; scarce',
+      sentence: 'The rare item sold for ten times the floor price.',
+    },
+    {
+      word: 'unique',
+      partOfSpeech: 'adjective',
+      syllables: ['u', 'nique'],
+      definition: 'Being the only one of its kind',
+      sentence: 'Every piece in the collection is unique.',
+    },
+    {
+      word: 'art',
+      partOfSpeech: 'noun',
+      syllables: ['art'],
+      definition: 'Creative work such as pictures, music or writing',
+      sentence: 'Digital art became popular with collectors.',
+    },
+    {
+      word: 'drop',
+      partOfSpeech: 'noun',
+      syllables: ['drop'],
+      definition: 'The release of a new NFT collection or token',
+      sentence: 'The drop sold out in five minutes.',
+    },
+    {
+      word: 'launch',
+      partOfSpeech: 'noun',
+      syllables: ['launch'],
+      definition: 'The public release of a new project or token',
+      sentence: 'The launch was delayed by a week.',
+    },
+    {
+      word: 'mint',
+      partOfSpeech: 'verb',
+      syllables: ['mint'],
+      definition: 'To create new tokens or NFTs on a blockchain',
+      sentence: 'You can mint an NFT for a small fee.',
+    },
+    {
+      word: 'burn',
+      partOfSpeech: 'verb',
+      syllables: ['burn'],
+      definition: 'To permanently remove tokens from circulation',
+      sentence: 'The team will burn the unsold tokens.',
+    },
+    {
+      word: 'list',
+      partOfSpeech: 'verb',
+      syllables: ['list'],
+      definition: 'To put an item up for sale on a marketplace',
+      sentence: 'She decided to list her NFT for sale.',
+    },
+    {
+      word: 'floor',
+      partOfSpeech: 'noun',
+      syllables: ['floor'],
+      definition: 'The lowest asking price in an NFT collection',
+      sentence: 'The floor price of the collection rose overnight.',
+    },
+    {
+      word: 'volume',
+      partOfSpeech: 'noun',
+      syllables: ['vol', 'ume'],
+      definition: 'The total amount traded over a period',
+      sentence: 'Trading volume spiked after the announcement.',
+    },
+    {
+      word: 'metadata',
+      partOfSpeech: 'noun',
+      syllables: ['met', 'a', 'da', 'ta'],
+      definition: 'Data that describes other data, such as an NFT\\\'s name and image',
+      sentence: 'The metadata describes the image and traits of each NFT.',
+    },
+    {
+      word: 'royalty',
+      partOfSpeech: 'noun',
+      syllables: ['roy', 'al', 'ty'],
+      definition: 'A payment to a creator each time their work is resold',
+      sentence: 'The artist receives a royalty on every resale.',
+    },
+    {
+      word: 'collection',
+      partOfSpeech: 'noun',
+      syllables: ['col', 'lec', 'tion'],
+      definition: 'A group of related NFTs released together',
+      sentence: 'The collection contains ten thousand pieces.',
+    },
+    {
+      word: 'edition',
+      partOfSpeech: 'noun',
+      syllables: ['e', 'di', 'tion'],
+      definition: 'One numbered copy from a limited or open print run',
+      sentence: 'Only fifty copies of this edition were minted.',
+    },
+    {
+      word: 'provenance',
+      partOfSpeech: 'noun',
+      syllables: ['prov', 'e', 'nance'],
+      definition: 'The recorded history of who has owned an item',
+      sentence: 'The chain proves the provenance of every piece.',
+    },
+    {
+      word: 'rarity',
+      partOfSpeech: 'noun',
+      syllables: ['rar', 'i', 'ty'],
+      definition: 'How uncommon an item or trait is',
+      sentence: 'Traits with high rarity sell for more.',
+    },
+    {
+      word: 'generative',
+      partOfSpeech: 'adjective',
+      syllables: ['gen', 'er', 'a', 'tive'],
+      definition: 'Created by an algorithm, often with random traits',
+      sentence: 'The generative artwork is created by code.',
+    },
+    {
+      word: 'pfp',
+      partOfSpeech: 'noun',
+      syllables: ['p', 'f', 'p'],
+      definition: 'Short for profile picture; a popular style of NFT',
+      sentence: 'He changed his pfp to his new NFT.',
+    },
+    {
+      word: 'utility',
+      partOfSpeech: 'noun',
+      syllables: ['u', 'til', 'i', 'ty'],
+      definition: 'The practical use or benefit an asset provides',
+      sentence: 'The token\'s utility is access to members-only events.',
+    },
+    {
+      word: 'whitelist',
+      partOfSpeech: 'noun',
+      syllables: ['white', 'list'],
+      definition: 'An older term for a list of addresses approved for early access',
+      sentence: 'Her wallet made it onto the whitelist for the mint.',
+      alternates: ['white-list'],
+    },
+    {
+      word: 'allowlist',
+      partOfSpeech: 'noun',
+      syllables: ['al', 'low', 'list'],
+      definition: 'A list of wallet addresses granted early or exclusive access',
+      sentence: 'Only wallets on the allowlist could mint early.',
+      alternates: ['allow-list'],
+    },
+    {
+      word: 'programmable',
+      partOfSpeech: 'adjective',
+      syllables: ['pro', 'gram', 'ma', 'ble'],
+      definition: 'Able to be controlled by code',
+      sentence: 'Programmable NFTs can enforce royalties on transfer.',
+    },
+    {
+      word: 'composable',
+      partOfSpeech: 'adjective',
+      syllables: ['com', 'pos', 'a', 'ble'],
+      definition: 'Able to be combined with other components',
+      sentence: 'Composable contracts can be combined like building blocks.',
+    },
+    {
+      word: 'fractional',
+      partOfSpeech: 'adjective',
+      syllables: ['frac', 'tion', 'al'],
+      definition: 'Split into parts, such as partial ownership of an NFT',
+      sentence: 'Fractional ownership lets many people share one artwork.',
+    },
+    {
+      word: 'ownership',
+      partOfSpeech: 'noun',
+      syllables: ['own', 'er', 'ship'],
+      definition: 'The state of possessing something',
+      sentence: 'The token proves ownership of the item.',
+    },
+    {
+      word: 'tokenization',
+      partOfSpeech: 'noun',
+      syllables: ['to', 'ken', 'i', 'za', 'tion'],
+      definition: 'Representing a real-world asset as a token',
+      sentence: 'Tokenization turns real estate into tradable shares.',
+      alternates: ['tokenisation'],
+    },
+    {
+      word: 'semifungible',
+      partOfSpeech: 'adjective',
+      syllables: ['sem', 'i', 'fun', 'gi', 'ble'],
+      definition: 'Interchangeable until used, then unique, like a ticket',
+      sentence: 'A concert ticket is a semifungible token.',
+      alternates: ['semi-fungible'],
+    },
+    {
+      word: 'dynamic',
+      partOfSpeech: 'adjective',
+      syllables: ['dy', 'nam', 'ic'],
+      definition: 'Changing over time',
+      sentence: 'The dynamic NFT changes as the player levels up.',
+    },
+    {
+      word: 'evolving',
+      partOfSpeech: 'adjective',
+      syllables: ['e', 'volv', 'ing'],
+      definition: 'Developing gradually',
+      sentence: 'The evolving artwork changes with the seasons.',
+    },
+    {
+      word: 'interactive',
+      partOfSpeech: 'adjective',
+      syllables: ['in', 'ter', 'ac', 'tive'],
+      definition: 'Responding to user input',
+      sentence: 'The interactive NFT responds when you click it.',
+    },
+    {
+      word: 'onchain',
+      partOfSpeech: 'adjective',
+      syllables: ['on', 'chain'],
+      definition: 'Stored or executed directly on the blockchain',
+      sentence: 'The game stores every move onchain.',
+      alternates: ['on-chain'],
+    },
+  ]),
+  ...inCategory('community', [
+    {
+      word: 'holder',
+      partOfSpeech: 'noun',
+      syllables: ['hold', 'er'],
+      definition: 'Someone who owns a token or NFT',
+      sentence: 'Every holder can vote on the proposal.',
+    },
+    {
+      word: 'whale',
+      partOfSpeech: 'noun',
+      syllables: ['whale'],
+      definition: 'An individual holding a very large amount of a crypto asset',
+      sentence: 'A whale moved millions of tokens at once.',
+    },
+    {
+      word: 'ape',
+      partOfSpeech: 'verb',
+      syllables: ['ape'],
+      definition: 'Slang for investing heavily and quickly without much research',
+      sentence: 'He tends to ape into new projects without research.',
+    },
+    {
+      word: 'degen',
+      partOfSpeech: 'noun',
+      syllables: ['de', 'gen'],
+      definition: 'Slang for a reckless, high-risk crypto trader',
+      sentence: 'The degen put his savings into a brand new coin.',
+    },
+    {
+      word: 'fomo',
+      partOfSpeech: 'noun',
+      syllables: ['fo', 'mo'],
+      definition: 'Slang for the fear of missing out',
+      sentence: 'FOMO made her buy at the top.',
+    },
+    {
+      word: 'hodl',
+      partOfSpeech: 'verb',
+      syllables: ['hodl'],
+      definition: 'Slang for holding an asset long-term instead of selling',
+      sentence: 'He decided to hodl through the crash.',
+    },
+    {
+      word: 'moon',
+      partOfSpeech: 'verb',
+      syllables: ['moon'],
+      definition: 'Slang for a price rising dramatically',
+      sentence: 'Everyone hoped the token would moon.',
+    },
+    {
+      word: 'pump',
+      partOfSpeech: 'noun',
+      syllables: ['pump'],
+      definition: 'A rapid rise in price',
+      sentence: 'The sudden pump surprised even the developers.',
+    },
+    {
+      word: 'dump',
+      partOfSpeech: 'noun',
+      syllables: ['dump'],
+      definition: 'A rapid, heavy sell-off',
+      sentence: 'The dump wiped out a week of gains.',
+    },
+    {
+      word: 'bull',
+      partOfSpeech: 'noun',
+      syllables: ['bull'],
+      definition: 'An investor who expects prices to rise',
+      sentence: 'A bull expects prices to rise.',
+    },
+    {
+      word: 'bear',
+      partOfSpeech: 'noun',
+      syllables: ['bear'],
+      definition: 'An investor who expects prices to fall',
+      sentence: 'The bear sold everything before the crash.',
+    },
+    {
+      word: 'alpha',
+      partOfSpeech: 'noun',
+      syllables: ['al', 'pha'],
+      definition: 'Valuable insider information, or returns above the market',
+      sentence: 'He shared some alpha about an upcoming launch.',
+    },
+    {
+      word: 'beta',
+      partOfSpeech: 'noun',
+      syllables: ['be', 'ta'],
+      definition: 'An early test version of software',
+      sentence: 'The app is still in beta, so expect bugs.',
+    },
+    {
+      word: 'community',
+      partOfSpeech: 'noun',
+      syllables: ['com', 'mu', 'ni', 'ty'],
+      definition: 'A group of people sharing common interests',
+      sentence: 'The community voted to fund the new feature.',
+    },
+    {
+      word: 'claim',
+      partOfSpeech: 'verb',
+      syllables: ['claim'],
+      definition: 'To collect rewards or tokens you are owed',
+      sentence: 'You can claim your rewards at any time.',
+    },
+    {
+      word: 'airdrop',
+      partOfSpeech: 'noun',
+      syllables: ['air', 'drop'],
+      definition: 'A free distribution of tokens to many wallets',
+      sentence: 'Early users received an airdrop of the new token.',
+      alternates: ['air-drop'],
+    },
+  ]),
+  ...inCategory('governance', [
+    {
+      word: 'dao',
+      partOfSpeech: 'noun',
+      syllables: ['d', 'a', 'o'],
+      definition: 'Short for decentralized autonomous organization',
+      sentence: 'The DAO voted to fund the new grants program.',
+    },
+    {
+      word: 'vote',
+      partOfSpeech: 'verb',
+      syllables: ['vote'],
+      definition: 'To formally express a choice in a decision',
+      sentence: 'Token holders can vote on every proposal.',
+    },
+    {
+      word: 'govern',
+      partOfSpeech: 'verb',
+      syllables: ['gov', 'ern'],
+      definition: 'To control and make decisions for a group or protocol',
+      sentence: 'The community will govern the protocol.',
+    },
+    {
+      word: 'treasury',
+      partOfSpeech: 'noun',
+      syllables: ['treas', 'ur', 'y'],
+      definition: 'The funds controlled by a project or organization',
+      sentence: 'The treasury holds funds for future development.',
+    },
+    {
+      word: 'governance',
+      partOfSpeech: 'noun',
+      syllables: ['gov', 'ern', 'ance'],
+      definition: 'The process of making decisions about a protocol',
+      sentence: 'Governance decisions are made by token holders.',
+    },
+    {
+      word: 'snapshot',
+      partOfSpeech: 'noun',
+      syllables: ['snap', 'shot'],
+      definition: 'A record of balances taken at a specific moment',
+      sentence: 'The snapshot recorded who held tokens on that date.',
+    },
+  ]),
+  ...inCategory('tokenomics', [
+    {
+      word: 'tokenomics',
+      partOfSpeech: 'noun',
+      syllables: ['to', 'ken', 'om', 'ics'],
+      definition: 'The economic design of a token, including supply and distribution',
+      sentence: 'The tokenomics reward long-term holders.',
+    },
+    {
+      word: 'emission',
+      partOfSpeech: 'noun',
+      syllables: ['e', 'mis', 'sion'],
+      definition: 'The rate at which new tokens are released',
+      sentence: 'The emission rate halves every year.',
+    },
+    {
+      word: 'vesting',
+      partOfSpeech: 'noun',
+      syllables: ['vest', 'ing'],
+      definition: 'Gradual release of locked tokens over time',
+      sentence: 'Team tokens are subject to a four-year vesting schedule.',
+    },
+    {
+      word: 'unlock',
+      partOfSpeech: 'noun',
+      syllables: ['un', 'lock'],
+      definition: 'When previously locked tokens become transferable',
+      sentence: 'The next unlock releases ten percent of the supply.',
+    },
+    {
+      word: 'inflation',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'fla', 'tion'],
+      definition: 'An increase in supply that reduces each unit\\\'s value',
+      sentence: 'High inflation makes each token worth less over time.',
+    },
+    {
+      word: 'deflation',
+      partOfSpeech: 'noun',
+      syllables: ['de', 'fla', 'tion'],
+      definition: 'A decrease in supply that increases each unit\\\'s value',
+      sentence: 'Burning tokens creates deflation.',
+    },
+    {
+      word: 'buyback',
+      partOfSpeech: 'noun',
+      syllables: ['buy', 'back'],
+      definition: 'When a project purchases its own tokens from the market',
+      sentence: 'The project used its profits for a buyback.',
+      alternates: ['buy-back'],
+    },
+    {
+      word: 'circulating',
+      partOfSpeech: 'adjective',
+      syllables: ['cir', 'cu', 'lat', 'ing'],
+      definition: 'Currently available and moving in the market',
+      sentence: 'Only half of the tokens are in the circulating supply.',
+    },
+    {
+      word: 'maximum',
+      partOfSpeech: 'noun',
+      syllables: ['max', 'i', 'mum'],
+      definition: 'The greatest possible amount',
+      sentence: 'The token has a maximum supply of twenty-one million.',
+    },
+    {
+      word: 'dilution',
+      partOfSpeech: 'noun',
+      syllables: ['di', 'lu', 'tion'],
+      definition: 'Reduction in ownership share when new tokens are issued',
+      sentence: 'Issuing new tokens causes dilution for existing holders.',
+    },
+  ]),
+  ...inCategory('security', [
+    {
+      word: 'multisig',
+      partOfSpeech: 'noun',
+      syllables: ['mul', 'ti', 'sig'],
+      definition: 'A wallet that needs several signatures to approve a transaction',
+      sentence: 'The treasury is protected by a multisig.',
+      alternates: ['multi-sig'],
+    },
+    {
+      word: 'custody',
+      partOfSpeech: 'noun',
+      syllables: ['cus', 'to', 'dy'],
+      definition: 'Holding and safeguarding assets on someone\\\'s behalf',
+      sentence: 'The exchange keeps custody of its users\' coins.',
+    },
+    {
+      word: 'noncustodial',
+      partOfSpeech: 'adjective',
+      syllables: ['non', 'cus', 'to', 'di', 'al'],
+      definition: 'Describes a service where you keep control of your own keys',
+      sentence: 'A noncustodial wallet keeps your keys on your device.',
+      alternates: ['non-custodial'],
+    },
+    {
+      word: 'recovery',
+      partOfSpeech: 'noun',
+      syllables: ['re', 'cov', 'er', 'y'],
+      definition: 'Regaining access to a wallet or funds',
+      sentence: 'She used her recovery phrase to restore the wallet.',
+    },
+    {
+      word: 'backup',
+      partOfSpeech: 'noun',
+      syllables: ['back', 'up'],
+      definition: 'A copy kept in case the original is lost',
+      sentence: 'Keep a backup of your seed phrase somewhere safe.',
+      alternates: ['back-up'],
+    },
+    {
+      word: 'phishing',
+      partOfSpeech: 'noun',
+      syllables: ['phish', 'ing'],
+      definition: 'Tricking people into revealing secrets through fake messages or sites',
+      sentence: 'The phishing site looked exactly like the real one.',
+    },
+    {
+      word: 'exploit',
+      partOfSpeech: 'noun',
+      syllables: ['ex', 'ploit'],
+      definition: 'An attack that takes advantage of a flaw in code',
+      sentence: 'The exploit drained funds from the protocol.',
+    },
+    {
+      word: 'vulnerability',
+      partOfSpeech: 'noun',
+      syllables: ['vul', 'ner', 'a', 'bil', 'i', 'ty'],
+      definition: 'A weakness that could be attacked',
+      sentence: 'The auditor found a vulnerability in the contract.',
+    },
+    {
+      word: 'audit',
+      partOfSpeech: 'noun',
+      syllables: ['au', 'dit'],
+      definition: 'A professional review of code for security flaws',
+      sentence: 'The contract passed its security audit.',
+    },
+    {
+      word: 'verification',
+      partOfSpeech: 'noun',
+      syllables: ['ver', 'i', 'fi', 'ca', 'tion'],
+      definition: 'The act of confirming that something is correct',
+      sentence: 'Verification of the signature takes a fraction of a second.',
+    },
+    {
+      word: 'authentication',
+      partOfSpeech: 'noun',
+      syllables: ['au', 'then', 'ti', 'ca', 'tion'],
+      definition: 'Proving who you are',
+      sentence: 'Signing a message provides authentication without a password.',
+    },
+    {
+      word: 'authorization',
+      partOfSpeech: 'noun',
+      syllables: ['au', 'thor', 'i', 'za', 'tion'],
+      definition: 'Permission to perform an action',
+      sentence: 'The program checks authorization before moving funds.',
+      alternates: ['authorisation'],
+    },
+    {
+      word: 'certification',
+      partOfSpeech: 'noun',
+      syllables: ['cer', 'ti', 'fi', 'ca', 'tion'],
+      definition: 'Official confirmation that something meets a standard',
+      sentence: 'The certification proves the key belongs to the site.',
+    },
+    {
+      word: 'revocation',
+      partOfSpeech: 'noun',
+      syllables: ['rev', 'o', 'ca', 'tion'],
+      definition: 'Cancelling something previously granted, such as a key or certificate',
+      sentence: 'The revocation of the key was published right away.',
+    },
+    {
+      word: 'timestamping',
+      partOfSpeech: 'noun',
+      syllables: ['time', 'stamp', 'ing'],
+      definition: 'Recording exactly when something happened',
+      sentence: 'Timestamping proves the document existed on that date.',
+      alternates: ['time-stamping'],
+    },
+    {
+      word: 'notarization',
+      partOfSpeech: 'noun',
+      syllables: ['no', 'ta', 'ri', 'za', 'tion'],
+      definition: 'Having a trusted party certify a document or record',
+      sentence: 'Notarization on the chain proves when the file was signed.',
+      alternates: ['notarisation'],
+    },
+    {
+      word: 'attestation',
+      partOfSpeech: 'noun',
+      syllables: ['at', 'tes', 'ta', 'tion'],
+      definition: 'A signed statement vouching that something is true',
+      sentence: 'The validator signed an attestation for the block.',
+    },
+  ]),
+  ...inCategory('cryptography', [
+    {
+      word: 'signature',
+      partOfSpeech: 'noun',
+      syllables: ['sig', 'na', 'ture'],
+      definition: 'Cryptographic proof that the key holder approved a message',
+      sentence: 'The signature proves the owner approved the transaction.',
+    },
+    {
+      word: 'encryption',
+      partOfSpeech: 'noun',
+      syllables: ['en', 'cryp', 'tion'],
+      definition: 'Scrambling data so only the intended recipient can read it',
+      sentence: 'Encryption keeps the message private.',
+    },
+    {
+      word: 'merkle',
+      partOfSpeech: 'noun',
+      syllables: ['mer', 'kle'],
+      definition: 'Describes a tree of hashes used to prove data is included in a set',
+      sentence: 'A Merkle tree proves a transaction is in a block.',
+    },
+    {
+      word: 'patricia',
+      partOfSpeech: 'noun',
+      syllables: ['pa', 'tri', 'cia'],
+      definition: 'A name given to a compact kind of prefix tree used by some blockchains',
+      sentence: 'Ethereum stores its state in a Patricia tree.',
+    },
+    {
+      word: 'trie',
+      partOfSpeech: 'noun',
+      syllables: ['trie'],
+      definition: 'A tree structure for storing keys by their prefixes',
+      sentence: 'The keys are stored in a trie for fast lookup.',
+    },
+    {
+      word: 'zeroknowledge',
+      partOfSpeech: 'adjective',
+      syllables: ['ze', 'ro', 'knowl', 'edge'],
+      definition: 'Describes a proof that reveals nothing beyond the statement\\\'s truth',
+      sentence: 'A zeroknowledge proof shows a fact is true without revealing why.',
+      alternates: ['zero-knowledge'],
+    },
+    {
+      word: 'cryptographic',
+      partOfSpeech: 'adjective',
+      syllables: ['cryp', 'to', 'graph', 'ic'],
+      definition: 'Relating to techniques for securing information',
+      sentence: 'Each wallet is secured by a cryptographic key pair.',
+    },
+    {
+      word: 'elliptic',
+      partOfSpeech: 'adjective',
+      syllables: ['el', 'lip', 'tic'],
+      definition: 'Shaped like an ellipse; describes curves used in public-key cryptography',
+      sentence: 'Solana keys use elliptic curve cryptography.',
+    },
+    {
+      word: 'curve',
+      partOfSpeech: 'noun',
+      syllables: ['curve'],
+      definition: 'A smooth bending line; in DeFi, a formula that sets prices',
+      sentence: 'The key pair is generated on a curve.',
+    },
+    {
+      word: 'schnorr',
+      partOfSpeech: 'noun',
+      syllables: ['schnorr'],
+      definition: 'A compact digital signature scheme named after its inventor',
+      sentence: 'Schnorr signatures can be combined into one.',
+    },
+    {
+      word: 'threshold',
+      partOfSpeech: 'noun',
+      syllables: ['thresh', 'old'],
+      definition: 'A minimum number that must be reached for something to happen',
+      sentence: 'The wallet needs a threshold of three signers.',
+    },
+    {
+      word: 'polynomial',
+      partOfSpeech: 'noun',
+      syllables: ['pol', 'y', 'no', 'mi', 'al'],
+      definition: 'A math expression made of terms with variables raised to whole-number powers',
+      sentence: 'The proof system encodes data as a polynomial.',
+    },
+    {
+      word: 'commitment',
+      partOfSpeech: 'noun',
+      syllables: ['com', 'mit', 'ment'],
+      definition: 'A value that locks in data without revealing it until later',
+      sentence: 'The commitment hides the value until it is revealed.',
+    },
+    {
+      word: 'homomorphic',
+      partOfSpeech: 'adjective',
+      syllables: ['ho', 'mo', 'mor', 'phic'],
+      definition: 'Describes encryption that allows computing on data while it stays encrypted',
+      sentence: 'Homomorphic encryption allows math on hidden data.',
+    },
+    {
+      word: 'asymmetric',
+      partOfSpeech: 'adjective',
+      syllables: ['a', 'sym', 'met', 'ric'],
+      definition: 'Using a different key to encrypt and decrypt',
+      sentence: 'Asymmetric encryption uses a public key and a private key.',
+    },
+    {
+      word: 'symmetric',
+      partOfSpeech: 'adjective',
+      syllables: ['sym', 'met', 'ric'],
+      definition: 'Using the same key to encrypt and decrypt',
+      sentence: 'Symmetric encryption uses the same key on both sides.',
+    },
+    {
+      word: 'hashing',
+      partOfSpeech: 'noun',
+      syllables: ['hash', 'ing'],
+      definition: 'Turning data into a fixed-length fingerprint',
+      sentence: 'Hashing turns any file into a short fingerprint.',
+    },
+    {
+      word: 'salting',
+      partOfSpeech: 'noun',
+      syllables: ['salt', 'ing'],
+      definition: 'Adding random data before hashing to prevent precomputed attacks',
+      sentence: 'Salting makes stored passwords harder to crack.',
+    },
+    {
+      word: 'nonce',
+      partOfSpeech: 'noun',
+      syllables: ['nonce'],
+      definition: 'A number used once to prevent replay',
+      sentence: 'The server sends a new nonce for each sign-in.',
+    },
+  ]),
+  ...inCategory('protocol-design', [
+    {
+      word: 'byzantine',
+      partOfSpeech: 'adjective',
+      syllables: ['byz', 'an', 'tine'],
+      definition: 'Describes faults where participants may act maliciously or arbitrarily',
+      sentence: 'The network tolerates Byzantine validators.',
+    },
+    {
+      word: 'tolerance',
+      partOfSpeech: 'noun',
+      syllables: ['tol', 'er', 'ance'],
+      definition: 'The ability to keep working despite faults',
+      sentence: 'Fault tolerance keeps the chain running when nodes fail.',
+    },
+    {
+      word: 'finality',
+      partOfSpeech: 'noun',
+      syllables: ['fi', 'nal', 'i', 'ty'],
+      definition: 'The point at which a transaction can no longer be reversed',
+      sentence: 'The block reached finality after a few seconds.',
+    },
+    {
+      word: 'liveness',
+      partOfSpeech: 'noun',
+      syllables: ['live', 'ness'],
+      definition: 'The guarantee that a system keeps making progress',
+      sentence: 'Liveness means the chain keeps producing blocks.',
+    },
+    {
+      word: 'safety',
+      partOfSpeech: 'noun',
+      syllables: ['safe', 'ty'],
+      definition: 'The guarantee that nothing bad happens, such as conflicting blocks',
+      sentence: 'Safety means two honest nodes never disagree on history.',
+    },
+    {
+      word: 'equivocation',
+      partOfSpeech: 'noun',
+      syllables: ['e', 'quiv', 'o', 'ca', 'tion'],
+      definition: 'Signing two conflicting messages for the same slot',
+      sentence: 'Equivocation by a validator is punished by slashing.',
+    },
+    {
+      word: 'slashing',
+      partOfSpeech: 'noun',
+      syllables: ['slash', 'ing'],
+      definition: 'Penalizing a validator by taking part of its stake',
+      sentence: 'Slashing takes stake from validators that misbehave.',
+    },
+    {
+      word: 'griefing',
+      partOfSpeech: 'noun',
+      syllables: ['grief', 'ing'],
+      definition: 'Attacking to harm others even at a cost to yourself',
+      sentence: 'Griefing attacks cost the victim more than the attacker.',
+    },
+    {
+      word: 'sybil',
+      partOfSpeech: 'adjective',
+      syllables: ['syb', 'il'],
+      definition: 'An attack using many fake identities',
+      sentence: 'A sybil attack uses many fake identities.',
+    },
+    {
+      word: 'resistance',
+      partOfSpeech: 'noun',
+      syllables: ['re', 'sis', 'tance'],
+      definition: 'The ability to withstand attack or pressure',
+      sentence: 'Sybil resistance stops one person from posing as many.',
+    },
+    {
+      word: 'incentive',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'cen', 'tive'],
+      definition: 'A reward that motivates a behavior',
+      sentence: 'Rewards give validators an incentive to stay honest.',
+    },
+    {
+      word: 'mechanism',
+      partOfSpeech: 'noun',
+      syllables: ['mech', 'a', 'nism'],
+      definition: 'A system of parts or rules that produces an outcome',
+      sentence: 'The auction mechanism decides who gets the slot.',
+    },
+    {
+      word: 'gametheory',
+      partOfSpeech: 'noun',
+      syllables: ['game', 'the', 'o', 'ry'],
+      definition: 'The study of strategic decisions among rational players',
+      sentence: 'Gametheory explains why validators follow the rules.',
+      alternates: ['game-theory'],
+    },
+    {
+      word: 'adversarial',
+      partOfSpeech: 'adjective',
+      syllables: ['ad', 'ver', 'sar', 'i', 'al'],
+      definition: 'Involving opponents trying to cause harm',
+      sentence: 'Protocols must be designed for adversarial conditions.',
+    },
+    {
+      word: 'conditions',
+      partOfSpeech: 'noun',
+      syllables: ['con', 'di', 'tions'],
+      definition: 'Requirements that must be met',
+      sentence: 'The network performed well under heavy conditions.',
+    },
+  ]),
+  ...inCategory('mev', [
+    {
+      word: 'searcher',
+      partOfSpeech: 'noun',
+      syllables: ['search', 'er'],
+      definition: 'A bot operator looking for profitable transaction orderings',
+      sentence: 'The searcher found a profitable trade in the pending block.',
+    },
+    {
+      word: 'builder',
+      partOfSpeech: 'noun',
+      syllables: ['build', 'er'],
+      definition: 'A party that assembles transactions into blocks',
+      sentence: 'The builder packed the most valuable transactions into the block.',
+    },
+    {
+      word: 'proposer',
+      partOfSpeech: 'noun',
+      syllables: ['pro', 'pos', 'er'],
+      definition: 'The validator that proposes the next block',
+      sentence: 'The proposer chose the highest bid for its block.',
+    },
+    {
+      word: 'separation',
+      partOfSpeech: 'noun',
+      syllables: ['sep', 'a', 'ra', 'tion'],
+      definition: 'Keeping two things or roles apart',
+      sentence: 'Separation of the builder and proposer roles limits abuse.',
+    },
+    {
+      word: 'inclusion',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'clu', 'sion'],
+      definition: 'Being added to a block or set',
+      sentence: 'Paying a higher fee speeds up inclusion in a block.',
+    },
+    {
+      word: 'mempool',
+      partOfSpeech: 'noun',
+      syllables: ['mem', 'pool'],
+      definition: 'The waiting area for pending transactions',
+      sentence: 'The transaction sat in the mempool for an hour.',
+    },
+    {
+      word: 'ordering',
+      partOfSpeech: 'noun',
+      syllables: ['or', 'der', 'ing'],
+      definition: 'The sequence in which things are arranged',
+      sentence: 'Transaction ordering decides who trades first.',
+    },
+    {
+      word: 'sandwich',
+      partOfSpeech: 'noun',
+      syllables: ['sand', 'wich'],
+      definition: 'An attack that places trades just before and after a victim\\\'s trade',
+      sentence: 'The bot placed a sandwich around her large swap.',
+    },
+    {
+      word: 'frontrunning',
+      partOfSpeech: 'noun',
+      syllables: ['front', 'run', 'ning'],
+      definition: 'Placing a transaction ahead of a known pending one to profit',
+      sentence: 'Frontrunning lets a bot trade before your order lands.',
+      alternates: ['front-running'],
+    },
+    {
+      word: 'maximal',
+      partOfSpeech: 'adjective',
+      syllables: ['max', 'i', 'mal'],
+      definition: 'As large or great as possible',
+      sentence: 'Maximal extractable value is the profit from reordering transactions.',
+    },
+    {
+      word: 'extractable',
+      partOfSpeech: 'adjective',
+      syllables: ['ex', 'tract', 'a', 'ble'],
+      definition: 'Able to be taken out or drawn from',
+      sentence: 'Extractable value grows with trading activity.',
+    },
+  ]),
+  ...inCategory('engineering', [
+    {
+      word: 'interface',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'ter', 'face'],
+      definition: 'The point where a user or system interacts with another',
+      sentence: 'The interface shows your balance at the top.',
+    },
+    {
+      word: 'standard',
+      partOfSpeech: 'noun',
+      syllables: ['stan', 'dard'],
+      definition: 'An agreed set of rules or specifications',
+      sentence: 'The token follows the SPL standard.',
+    },
+    {
+      word: 'specification',
+      partOfSpeech: 'noun',
+      syllables: ['spec', 'i', 'fi', 'ca', 'tion'],
+      definition: 'A detailed description of how something must work',
+      sentence: 'The specification describes every field in the message.',
+    },
+    {
+      word: 'implementation',
+      partOfSpeech: 'noun',
+      syllables: ['im', 'ple', 'men', 'ta', 'tion'],
+      definition: 'The actual code that puts a design into practice',
+      sentence: 'The new implementation is twice as fast.',
+    },
+    {
+      word: 'integration',
+      partOfSpeech: 'noun',
+      syllables: ['in', 'te', 'gra', 'tion'],
+      definition: 'Connecting one system with another',
+      sentence: 'The wallet integration took only a day.',
+    },
+    {
+      word: 'migration',
+      partOfSpeech: 'noun',
+      syllables: ['mi', 'gra', 'tion'],
+      definition: 'Moving data or users from one system to another',
+      sentence: 'The migration moved every account to the new program.',
+    },
+    {
+      word: 'upgrade',
+      partOfSpeech: 'noun',
+      syllables: ['up', 'grade'],
+      definition: 'A newer, improved version',
+      sentence: 'The network upgrade added new features.',
+    },
+    {
+      word: 'deprecated',
+      partOfSpeech: 'adjective',
+      syllables: ['dep', 're', 'cat', 'ed'],
+      definition: 'Still available but no longer recommended for use',
+      sentence: 'The old endpoint is deprecated and will be removed.',
+    },
+    {
+      word: 'legacy',
+      partOfSpeech: 'adjective',
+      syllables: ['leg', 'a', 'cy'],
+      definition: 'Old technology still in use',
+      sentence: 'Legacy transactions are still supported.',
+    },
+    {
+      word: 'deterministic',
+      partOfSpeech: 'adjective',
+      syllables: ['de', 'ter', 'min', 'is', 'tic'],
+      definition: 'Always producing the same output for the same input',
+      sentence: 'The program must be deterministic so every validator agrees.',
+    },
+    {
+      word: 'nondeterministic',
+      partOfSpeech: 'adjective',
+      syllables: ['non', 'de', 'ter', 'min', 'is', 'tic'],
+      definition: 'Able to produce different outputs for the same input',
+      sentence: 'Nondeterministic code would make validators disagree.',
+      alternates: ['non-deterministic'],
+    },
+    {
+      word: 'idempotent',
+      partOfSpeech: 'adjective',
+      syllables: ['i', 'dem', 'po', 'tent'],
+      definition: 'Having the same effect no matter how many times it is applied',
+      sentence: 'The claim request is idempotent, so retrying is safe.',
+    },
+    {
+      word: 'stateless',
+      partOfSpeech: 'adjective',
+      syllables: ['state', 'less'],
+      definition: 'Not keeping any memory between requests',
+      sentence: 'The server is stateless and can be restarted anytime.',
+    },
+    {
+      word: 'stateful',
+      partOfSpeech: 'adjective',
+      syllables: ['state', 'ful'],
+      definition: 'Keeping memory between requests',
+      sentence: 'A stateful service remembers each user\'s progress.',
+    },
+    {
+      word: 'atomic',
+      partOfSpeech: 'adjective',
+      syllables: ['at', 'om', 'ic'],
+      definition: 'All-or-nothing; it either fully happens or not at all',
+      sentence: 'The swap is atomic, so it either fully succeeds or fails.',
+    },
+    {
+      word: 'eventual',
+      partOfSpeech: 'adjective',
+      syllables: ['e', 'ven', 'tu', 'al'],
+      definition: 'Happening at some later time',
+      sentence: 'The database offers eventual consistency.',
+    },
+    {
+      word: 'consistency',
+      partOfSpeech: 'noun',
+      syllables: ['con', 'sis', 'ten', 'cy'],
+      definition: 'All copies of data agreeing with one another',
+      sentence: 'Strong consistency means every reader sees the latest write.',
+    },
+    {
+      word: 'replication',
+      partOfSpeech: 'noun',
+      syllables: ['rep', 'li', 'ca', 'tion'],
+      definition: 'Copying data to multiple places',
+      sentence: 'Replication keeps a copy of the data on every node.',
+    },
+  ]),
+];
+
+export const WORD_ENTRIES: Record<string, WordEntry> = Object.fromEntries(
+  ENTRY_LIST.map(entry => [entry.word, entry])
+);
+
+/**
+ * Get the entry for a word, or null if it has none
+ */
+export function getWordEntry(word: string): WordEntry | null {
+  const key = word.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(WORD_ENTRIES, key) ? WORD_ENTRIES[key] : null;
+}
+
+/**
+ * Check an answer against a word and its alternate spellings (case-insensitive)
+ * Alternates default to the word's entry, for words from the built-in lists
+ */
+export function isAcceptedSpelling(
+  word: string,
+  answer: string,
+  alternates: string[] = getWordEntry(word)?.alternates || []
+): boolean {
+  const normalized = answer.trim().toLowerCase();
+  if (normalized === word.toLowerCase()) {
+    return true;
+  }
+
+  return alternates.some(alternate => alternate.toLowerCase() === normalized);
+}
@@ -3,9 +3,27 @@
  * 
  * All words are Web3/blockchain/crypto related terms
  * Categorized by difficulty for balanced gameplay
+ * Definitions, example sentences and other metadata live in word-entries.ts
  */
 
-export type DifficultyMode = 'easy' | 'normal' | 'hard';
+// The fixed word list tiers
+export type WordTier = 'easy' | 'normal' | 'hard';
+
+// Adaptive mode picks words across tiers from the player's word history;
+// review mode replays the player's missed words when they are due;
+// the daily challenge is the same words for every player each UTC day
+export type DifficultyMode = WordTier | 'adaptive' | 'review' | 'daily';
+
+// Share of a word's base reward paid in review mode, so missed words can't be farmed
+export const REVIEW_REWARD_FACTOR = 0.2;
+
+// Share of a word's base reward paid for a near miss when partial credit is on
+export const PARTIAL_CREDIT_FACTOR = 0.5;
+
+// Share of the reward paid in relaxed games, which have no timer (see accessibility.ts)
+export const RELAXED_REWARD_FACTOR = 0.5;
+
+export const WORD_TIERS: WordTier[] = ['easy', 'normal', 'hard'];
 
 /**
  * EASY MODE - 100 common Web3 terms
@@ -125,29 +143,54 @@ export const HARD_WORDS = [
 ];
 
 /**
- * Get random word from specific difficulty
+ * Get the word list for a difficulty
  */
-export function getRandomWord(difficulty: DifficultyMode): string {
-  let wordList: string[];
-  
+export function getWordList(difficulty: WordTier): string[] {
   switch (difficulty) {
     case 'easy':
-      wordList = EASY_WORDS;
-      break;
+      return EASY_WORDS;
     case 'normal':
-      wordList = NORMAL_WORDS;
-      break;
+      return NORMAL_WORDS;
     case 'hard':
-      wordList = HARD_WORDS;
-      break;
+      return HARD_WORDS;
     default:
-      wordList = NORMAL_WORDS;
+      return NORMAL_WORDS;
   }
+}
+
+/**
+ * Get random word from specific difficulty
+ */
+export function getRandomWord(difficulty: WordTier): string {
+  const wordList = getWordList(difficulty);
   
   const randomIndex = Math.floor(Math.random() * wordList.length);
   return wordList[randomIndex];
 }
 
+/**
+ * Pick `count` random items from a list
+ * Pass a seeded `random` to get the same picks every time (the daily challenge does)
+ */
+export function pickRandom<T>(items: T[], count: number, random: () => number = Math.random): T[] {
+  const pool = [...items];
+  
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  
+  return pool.slice(0, count);
+}
+
+/**
+ * Get `count` different random words for a multi-word game
+ */
+export function getRandomWords(difficulty: WordTier, count: number): string[] {
+  // Lists may repeat a word, so pick from the unique set
+  return pickRandom([...new Set(getWordList(difficulty))], count);
+}
+
 /**
  * Get base WMINT reward for difficulty (multiplied by 10 in the game)
  * Returns the multiplier used to calculate WMINT:
@@ -155,7 +198,7 @@ export function getRandomWord(difficulty: DifficultyMode): string {
  * - Normal: 5 * 10 = 50 WMINT base
  * - Hard: 7 * 10 = 70 WMINT base
  */
-export function getWMINTForDifficulty(difficulty: DifficultyMode): number {
+export function getWMINTForDifficulty(difficulty: WordTier): number {
   switch (difficulty) {
     case 'easy':
       return 3;  // 3 * 10 = 30 WMINT
@@ -168,6 +211,79 @@ export function getWMINTForDifficulty(difficulty: DifficultyMode): number {
   }
 }
 
+/**
+ * Get the seconds allowed to spell a word of a tier
+ * Harder words are longer, so they get more time
+ */
+export function getTimeLimitForDifficulty(difficulty: WordTier): number {
+  switch (difficulty) {
+    case 'easy':
+      return 20;
+    case 'normal':
+      return 30;
+    case 'hard':
+      return 45;
+    default:
+      return 30;
+  }
+}
+
+// Speed bonus on the base reward, by the share of the time limit used (fastest first)
+export const SPEED_BONUSES: { maxShare: number; multiplier: number }[] = [
+  { maxShare: 0.25, multiplier: 1.5 },
+  { maxShare: 0.5, multiplier: 1.25 },
+];
+
+/**
+ * Get the speed multiplier for an answer given after `answerMs`
+ */
+export function getSpeedMultiplier(answerMs: number, timeLimitSeconds: number): number {
+  const share = answerMs / (timeLimitSeconds * 1000);
+  return SPEED_BONUSES.find(bonus => share <= bonus.maxShare)?.multiplier ?? 1;
+}
+
+/**
+ * Format an answer time for display, e.g. 3.2s
+ */
+export function formatAnswerTime(answerMs: number): string {
+  return `${(answerMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Calculate WMINT earned for a correctly spelled word
+ * Base reward for the word's tier, scaled by the speed multiplier, plus streak and level bonuses:
+ * - Speed multiplier: ×1.5 within the first quarter of the time limit, ×1.25 within the first half
+ * - Streak bonus: +10 WMINT for every 5 words in a row
+ * - Level bonus: +10 WMINT for every 10 levels
+ */
+export function calculateWordReward(
+  difficulty: WordTier,
+  streak: number,
+  level: number,
+  speedMultiplier: number = 1
+): number {
+  const baseWMINT = Math.round(getWMINTForDifficulty(difficulty) * 10 * speedMultiplier);
+  const streakBonus = Math.floor(streak / 5) * 10;
+  const levelBonus = Math.floor(level / 10) * 10;
+  return baseWMINT + streakBonus + levelBonus;
+}
+
+/**
+ * Calculate WMINT earned for a correctly spelled review word
+ * A fraction of the tier's base reward, with no streak or level bonus
+ */
+export function calculateReviewReward(difficulty: WordTier): number {
+  return Math.round(getWMINTForDifficulty(difficulty) * 10 * REVIEW_REWARD_FACTOR);
+}
+
+/**
+ * Calculate WMINT earned for a near miss in a partial credit game
+ * A fraction of the tier's base reward, with no streak or level bonus
+ */
+export function calculatePartialReward(difficulty: WordTier): number {
+  return Math.round(getWMINTForDifficulty(difficulty) * 10 * PARTIAL_CREDIT_FACTOR);
+}
+
 // Legacy alias for backward compatibility (deprecated)
 /** @deprecated Use getWMINTForDifficulty instead */
 export const getXPForDifficulty = getWMINTForDifficulty;
@@ -203,6 +319,27 @@ export function getDifficultyColor(difficulty: DifficultyMode): {
         text: 'text-purple-400',
         glow: 'shadow-purple-500/20'
       };
+    case 'adaptive':
+      return {
+        bg: 'from-amber-500/10 to-amber-500/5',
+        border: 'border-amber-500/20',
+        text: 'text-amber-400',
+        glow: 'shadow-amber-500/20'
+      };
+    case 'review':
+      return {
+        bg: 'from-rose-500/10 to-rose-500/5',
+        border: 'border-rose-500/20',
+        text: 'text-rose-400',
+        glow: 'shadow-rose-500/20'
+      };
+    case 'daily':
+      return {
+        bg: 'from-cyan-500/10 to-cyan-500/5',
+        border: 'border-cyan-500/20',
+        text: 'text-cyan-400',
+        glow: 'shadow-cyan-500/20'
+      };
   }
 }
 
@@ -217,6 +354,12 @@ export function getDifficultyName(difficulty: DifficultyMode): string {
       return 'Normal Mode';
     case 'hard':
       return 'Hard Mode';
+    case 'adaptive':
+      return 'Adaptive Mode';
+    case 'review':
+      return 'Review Mode';
+    case 'daily':
+      return 'Daily Challenge';
     default:
       return 'Normal Mode';
   }
@@ -228,11 +371,17 @@ export function getDifficultyName(difficulty: DifficultyMode): string {
 export function getDifficultyDescription(difficulty: DifficultyMode): string {
   switch (difficulty) {
     case 'easy':
-      return 'Common Web3 terms • 30 WMINT per word';
+      return 'Common Web3 terms • 30 WMINT per word • 20s';
     case 'normal':
-      return 'Intermediate concepts • 50 WMINT per word';
+      return 'Intermediate concepts • 50 WMINT per word • 30s';
     case 'hard':
-      return 'Advanced terminology • 70 WMINT per word';
+      return 'Advanced terminology • 70 WMINT per word • 45s';
+    case 'adaptive':
+      return 'Words matched to your skill • WMINT by word tier';
+    case 'review':
+      return `Your missed words, when they're due • ${REVIEW_REWARD_FACTOR * 100}% WMINT`;
+    case 'daily':
+      return "Today's words, the same for everyone • One attempt";
     default:
       return 'Balanced gameplay';
   }
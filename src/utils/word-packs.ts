@@ -0,0 +1,414 @@
+/**
+ * Word Packs
+ *
+ * Word lists as data: a named pack with up to three difficulty tiers of words.
+ * Packs are uploaded as JSON or CSV and validated here, by the upload form for
+ * early feedback and again by the server before the pack is stored.
+ * The built-in Web3 pack is generated from word-lists.ts and word-entries.ts.
+ * Uploaded packs earn WMINT only once an admin has approved them, so nobody
+ * can be paid hard-tier rewards for a tier of easy words.
+ *
+ * JSON format:
+ *   { "name": "Fruit", "description": "...", "tiers": {
+ *       "easy": ["apple", { "word": "pear", "definition": "...", "sentence": "..." }],
+ *       "hard": [...] } }
+ *
+ * CSV format (header row required; definition and sentence columns optional):
+ *   difficulty,word,definition,sentence
+ *   easy,apple,A round fruit,She ate an apple.
+ */
+
+import { WordTier, WORD_TIERS, getWordList } from './word-lists.ts';
+import { getWordEntry } from './word-entries.ts';
+import { containsProfanity } from './profanity.ts';
+
+export type WordPackFormat = 'json' | 'csv';
+
+export const BUILT_IN_PACK_ID = 'web3';
+
+export const PACK_TIERS: WordTier[] = WORD_TIERS;
+
+// Validation limits
+export const MAX_PACK_UPLOAD_BYTES = 200 * 1024;
+export const MAX_PACK_NAME_LENGTH = 60;
+export const MAX_PACK_DESCRIPTION_LENGTH = 200;
+export const MIN_WORD_LENGTH = 3;
+export const MAX_WORD_LENGTH = 30;
+export const MAX_PROMPT_LENGTH = 300; // Definitions and sentences
+export const MIN_TIER_WORDS = 5; // Enough for one game
+export const MAX_TIER_WORDS = 500;
+
+// Letters, optionally joined by single hyphens or apostrophes ("on-chain", "o'clock")
+const WORD_PATTERN = /^\p{L}+(?:['-]\p{L}+)*$/u;
+
+export interface WordPackEntry {
+  word: string;
+  definition?: string;
+  sentence?: string;
+  alternates?: string[]; // Other spellings graded as correct
+}
+
+export type WordPackTiers = Partial<Record<WordTier, WordPackEntry[]>>;
+
+export interface WordPackInput {
+  name: string;
+  description?: string;
+  tiers: WordPackTiers;
+}
+
+export interface WordPack extends WordPackInput {
+  id: string;
+  builtIn: boolean;
+  createdBy?: string; // Wallet address of the uploader
+  createdAt?: string;
+  approvedBy?: string; // Wallet address of the admin who approved the pack
+  approvedAt?: string;
+}
+
+/**
+ * A pack without its words, for listing
+ */
+export interface WordPackSummary {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean;
+  createdBy?: string;
+  createdAt?: string;
+  approved: boolean; // Games on the pack earn WMINT
+  tierSizes: Partial<Record<WordTier, number>>;
+}
+
+export interface WordPackValidation {
+  pack?: WordPackInput; // Normalized pack, set when there are no errors
+  errors: string[];
+  warnings: string[]; // Problems that were fixed, such as dropped duplicates
+}
+
+/**
+ * The built-in Web3 pack, deduplicated from the compiled word lists
+ * A word listed in more than one tier is kept in the first, like an upload.
+ */
+export function getBuiltInPack(): WordPack {
+  const tiers: WordPackTiers = {};
+  const seen = new Set<string>();
+
+  for (const tier of PACK_TIERS) {
+    const words = getWordList(tier).filter(word => {
+      if (seen.has(word)) {
+        return false;
+      }
+      seen.add(word);
+      return true;
+    });
+
+    tiers[tier] = words.map(word => {
+      const entry = getWordEntry(word);
+      return {
+        word,
+        definition: entry?.definition,
+        sentence: entry?.sentence,
+        alternates: entry?.alternates,
+      };
+    });
+  }
+
+  return {
+    id: BUILT_IN_PACK_ID,
+    name: 'Web3 Vocabulary',
+    description: 'Blockchain, crypto and Solana terms',
+    builtIn: true,
+    tiers,
+  };
+}
+
+/**
+ * Whether games on a pack earn WMINT: the built-in pack and approved uploads
+ */
+export function isApprovedPack(pack: WordPack): boolean {
+  return pack.builtIn || !!pack.approvedAt;
+}
+
+export function summarizeWordPack(pack: WordPack): WordPackSummary {
+  const tierSizes: Partial<Record<WordTier, number>> = {};
+  for (const tier of PACK_TIERS) {
+    if (pack.tiers[tier]?.length) {
+      tierSizes[tier] = pack.tiers[tier]!.length;
+    }
+  }
+
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    builtIn: pack.builtIn,
+    createdBy: pack.createdBy,
+    createdAt: pack.createdAt,
+    approved: isApprovedPack(pack),
+    tierSizes,
+  };
+}
+
+/**
+ * Hide every occurrence of a word in a definition shown as a hint
+ * A definition that is spoken says `blank` in its place instead.
+ */
+export function maskWord(text: string, word: string, blank = '_____'): string {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(escaped, 'gi'), blank);
+}
+
+/**
+ * Parse CSV text into rows of cells (quoted cells may contain commas, quotes and newlines)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+function csvToPackInput(text: string): { input?: unknown; error?: string } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { error: 'CSV file is empty' };
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const difficultyColumn = columns.indexOf('difficulty');
+  const wordColumn = columns.indexOf('word');
+  const definitionColumn = columns.indexOf('definition');
+  const sentenceColumn = columns.indexOf('sentence');
+
+  if (difficultyColumn === -1 || wordColumn === -1) {
+    return { error: 'CSV header must include "difficulty" and "word" columns' };
+  }
+
+  const tiers: Record<string, unknown[]> = {};
+  for (const cells of rows) {
+    const tier = (cells[difficultyColumn] || '').trim().toLowerCase();
+    (tiers[tier] ||= []).push({
+      word: cells[wordColumn],
+      definition: definitionColumn === -1 ? undefined : cells[definitionColumn],
+      sentence: sentenceColumn === -1 ? undefined : cells[sentenceColumn],
+    });
+  }
+
+  return { input: { tiers } };
+}
+
+function cleanOptionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate and normalize a parsed pack
+ *
+ * Words are lowercased and trimmed. Duplicates are dropped with a warning,
+ * keeping the first occurrence in tier order (easy, normal, hard).
+ */
+export function validateWordPack(raw: unknown): WordPackValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { errors: ['Pack must be an object with a name and tiers'], warnings };
+  }
+
+  const input = raw as Record<string, any>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const description = cleanOptionalText(input.description);
+
+  if (!name) {
+    errors.push('Pack name is required');
+  } else if (name.length > MAX_PACK_NAME_LENGTH) {
+    errors.push(`Pack name must be at most ${MAX_PACK_NAME_LENGTH} characters`);
+  }
+
+  if (description && description.length > MAX_PACK_DESCRIPTION_LENGTH) {
+    errors.push(`Description must be at most ${MAX_PACK_DESCRIPTION_LENGTH} characters`);
+  }
+
+  if (containsProfanity(`${name} ${description || ''}`)) {
+    errors.push('Pack name or description contains blocked language');
+  }
+
+  if (!input.tiers || typeof input.tiers !== 'object') {
+    return { errors: [...errors, 'Pack must have tiers'], warnings };
+  }
+
+  const unknownTiers = Object.keys(input.tiers).filter(
+    tier => !PACK_TIERS.includes(tier as WordTier)
+  );
+  if (unknownTiers.length) {
+    errors.push(`Unknown difficulty tiers: ${unknownTiers.join(', ')} (use easy, normal or hard)`);
+  }
+
+  const seen = new Set<string>();
+  const tiers: WordPackTiers = {};
+
+  for (const tier of PACK_TIERS) {
+    const rawEntries = input.tiers[tier];
+    if (rawEntries === undefined) {
+      continue;
+    }
+
+    if (!Array.isArray(rawEntries)) {
+      errors.push(`Tier "${tier}" must be a list of words`);
+      continue;
+    }
+
+    const entries: WordPackEntry[] = [];
+    const duplicates: string[] = [];
+
+    for (const rawEntry of rawEntries) {
+      const entry = typeof rawEntry === 'string' ? { word: rawEntry } : rawEntry;
+      const word = typeof entry?.word === 'string' ? entry.word.trim().toLowerCase() : '';
+
+      if (!word) {
+        errors.push(`Tier "${tier}" has an entry without a word`);
+        continue;
+      }
+
+      if (seen.has(word)) {
+        duplicates.push(word);
+        continue;
+      }
+      seen.add(word);
+
+      if (word.length < MIN_WORD_LENGTH || word.length > MAX_WORD_LENGTH) {
+        errors.push(`"${word}" must be ${MIN_WORD_LENGTH}-${MAX_WORD_LENGTH} letters long`);
+        continue;
+      }
+
+      if (!WORD_PATTERN.test(word)) {
+        errors.push(`"${word}" may only contain letters, hyphens and apostrophes`);
+        continue;
+      }
+
+      const definition = cleanOptionalText(entry.definition);
+      const sentence = cleanOptionalText(entry.sentence);
+      const alternates = Array.isArray(entry.alternates)
+        ? entry.alternates
+          .filter((alternate: unknown) => typeof alternate === 'string')
+          .map((alternate: string) => alternate.trim().toLowerCase())
+          .filter((alternate: string) => WORD_PATTERN.test(alternate) && alternate !== word)
+        : [];
+
+      if ((definition?.length || 0) > MAX_PROMPT_LENGTH || (sentence?.length || 0) > MAX_PROMPT_LENGTH) {
+        errors.push(`Definition and sentence for "${word}" must be at most ${MAX_PROMPT_LENGTH} characters`);
+        continue;
+      }
+
+      if (containsProfanity([word, definition, sentence, ...alternates].filter(Boolean).join(' '))) {
+        errors.push(`"${word}" contains blocked language`);
+        continue;
+      }
+
+      entries.push({
+        word,
+        ...(definition && { definition }),
+        ...(sentence && { sentence }),
+        ...(alternates.length > 0 && { alternates }),
+      });
+    }
+
+    if (duplicates.length) {
+      warnings.push(`Dropped duplicate words from "${tier}": ${[...new Set(duplicates)].join(', ')}`);
+    }
+
+    if (entries.length < MIN_TIER_WORDS) {
+      errors.push(`Tier "${tier}" needs at least ${MIN_TIER_WORDS} words (has ${entries.length})`);
+    } else if (entries.length > MAX_TIER_WORDS) {
+      errors.push(`Tier "${tier}" can have at most ${MAX_TIER_WORDS} words (has ${entries.length})`);
+    }
+
+    tiers[tier] = entries;
+  }
+
+  if (Object.keys(tiers).length === 0) {
+    errors.push('Pack needs at least one of the easy, normal or hard tiers');
+  }
+
+  if (errors.length) {
+    return { errors, warnings };
+  }
+
+  return { pack: { name, description, tiers }, errors, warnings };
+}
+
+/**
+ * Parse and validate an uploaded pack
+ * `overrides` supplies the name and description, which a CSV file can't carry
+ */
+export function parseWordPack(
+  format: WordPackFormat,
+  content: string,
+  overrides: { name?: string; description?: string } = {}
+): WordPackValidation {
+  if (content.length > MAX_PACK_UPLOAD_BYTES) {
+    return { errors: [`Pack file must be under ${MAX_PACK_UPLOAD_BYTES / 1024} KB`], warnings: [] };
+  }
+
+  let input: unknown;
+
+  if (format === 'json') {
+    try {
+      input = JSON.parse(content);
+    } catch {
+      return { errors: ['Pack file is not valid JSON'], warnings: [] };
+    }
+  } else {
+    const parsed = csvToPackInput(content);
+    if (parsed.error) {
+      return { errors: [parsed.error], warnings: [] };
+    }
+    input = parsed.input;
+  }
+
+  if (input && typeof input === 'object') {
+    const fields = Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value?.trim())
+    );
+    input = { ...input, ...fields };
+  }
+
+  return validateWordPack(input);
+}